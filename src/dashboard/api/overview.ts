@@ -3,16 +3,24 @@
  */
 
 import type { Context } from 'hono'
-import type { Env, DailyStats, LogEntry } from '../../types'
+import type { Env, DailyStats, StatsBucket, LogEntry, Issue, AppEnvironment, AppFilters, AppListing, HeartbeatMonitor } from '../../types'
 import type { OverviewResponse, AppSummary } from '../types'
-import { calculateTrend, determineHealthStatus } from '../components/charts'
-import { getAppList, getAppName } from '../helpers'
+import { calculateTrend, determineHealthStatus, heartbeatHealthStatus, combineHealthStatus } from '../components/charts'
+import { getAppListings } from '../helpers'
+import { matchesAppFilters } from '../../services/app-metadata'
+import type { SessionUser } from '../auth'
 
 /**
- * Get overview data for all apps
+ * Get overview data for all apps the user may see that match the filters
  */
-export async function getOverview(c: Context<{ Bindings: Env }>): Promise<OverviewResponse> {
-  const apps = await getAppList(c)
+export async function getOverview(c: Context<{ Bindings: Env }>, user?: SessionUser, filters: AppFilters = {}): Promise<OverviewResponse> {
+  const listings = await getAppListings(c, user)
+  const apps = listings.filter(app => matchesAppFilters(app, filters))
+  const filter_options = {
+    teams: distinct(listings.map(app => app.team)),
+    environments: distinct(listings.map(app => app.environment)) as AppEnvironment[],
+    tags: distinct(listings.flatMap(app => app.tags)),
+  }
 
   if (apps.length === 0) {
     return {
@@ -21,12 +29,13 @@ export async function getOverview(c: Context<{ Bindings: Env }>): Promise<Overvi
         today: { debug: 0, info: 0, warn: 0, error: 0 },
         yesterday: { debug: 0, info: 0, warn: 0, error: 0 },
       },
-      recent_errors: [],
+      recent_issues: [],
+      filter_options,
     }
   }
 
   // Fetch data for all apps in parallel
-  const appDataPromises = apps.map(appId => getAppData(c, appId))
+  const appDataPromises = apps.map(app => getAppData(c, app))
   const appData = await Promise.all(appDataPromises)
 
   // Aggregate totals
@@ -36,7 +45,7 @@ export async function getOverview(c: Context<{ Bindings: Env }>): Promise<Overvi
   }
 
   const appSummaries: AppSummary[] = []
-  const allRecentErrors: Array<LogEntry & { app_id: string }> = []
+  const allRecentIssues: Array<Issue & { app_id: string }> = []
 
   for (const data of appData) {
     if (!data) continue
@@ -54,66 +63,92 @@ export async function getOverview(c: Context<{ Bindings: Env }>): Promise<Overvi
     // Calculate error trend
     const errorTrend = calculateTrend(data.today_stats.error, data.yesterday_stats.error)
 
-    // Get health status
-    const healthStatus = determineHealthStatus(data.health_checks)
+    // Get health status from URL checks and heartbeat monitors
+    const healthStatus = combineHealthStatus([
+      determineHealthStatus(data.health_checks),
+      ...data.heartbeats.map(monitor => heartbeatHealthStatus(monitor.state)),
+    ])
 
     appSummaries.push({
       id: data.id,
       name: data.name,
+      team: data.team,
+      environment: data.environment,
+      tags: data.tags,
       today_stats: data.today_stats,
       yesterday_stats: data.yesterday_stats,
+      hourly_errors: data.hourly_errors,
       error_trend: errorTrend,
       health_status: healthStatus,
       last_error: data.last_error,
     })
 
-    // Add recent errors with app_id
-    for (const error of data.recent_errors) {
-      allRecentErrors.push({ ...error, app_id: data.id })
+    // Add open issues with app_id
+    for (const issue of data.open_issues) {
+      allRecentIssues.push({ ...issue, app_id: data.id })
     }
   }
 
   // Sort apps by error count (descending) to show problematic apps first
   appSummaries.sort((a, b) => b.today_stats.error - a.today_stats.error)
 
-  // Sort recent errors by timestamp and take top 10
-  allRecentErrors.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
-  const recent_errors = allRecentErrors.slice(0, 10)
+  // Sort issues by last occurrence and take top 10, one row per bug
+  allRecentIssues.sort((a, b) => new Date(b.last_seen).getTime() - new Date(a.last_seen).getTime())
+  const recent_issues = allRecentIssues.slice(0, 10)
 
   return {
     apps: appSummaries,
     totals,
-    recent_errors,
+    recent_issues,
+    filter_options,
   }
 }
 
+/**
+ * Sorted distinct non-null values
+ */
+function distinct(values: (string | null)[]): string[] {
+  return [...new Set(values.filter((value): value is string => value !== null))].sort()
+}
+
 /**
  * Get aggregated data for a single app
  */
-async function getAppData(c: Context<{ Bindings: Env }>, appId: string): Promise<{
+async function getAppData(c: Context<{ Bindings: Env }>, app: AppListing): Promise<{
   id: string
   name: string
+  team: string | null
+  environment: AppEnvironment | null
+  tags: string[]
   today_stats: DailyStats
   yesterday_stats: DailyStats
-  health_checks: Array<{ status: number; checked_at: string }>
-  recent_errors: LogEntry[]
+  hourly_errors: number[]
+  health_checks: Array<{ ok: boolean; checked_at: string }>
+  heartbeats: HeartbeatMonitor[]
+  open_issues: Issue[]
   last_error?: { message: string; timestamp: string }
 } | null> {
+  const appId = app.id
   try {
     const id = c.env.APP_LOGS_DO.idFromName(appId)
     const stub = c.env.APP_LOGS_DO.get(id)
 
-    // Fetch stats, health, and recent errors in parallel
-    const [statsRes, healthRes, errorsRes, name] = await Promise.all([
+    // Fetch stats, health, heartbeats, latest error and open issues in parallel
+    const [statsRes, hourlyRes, healthRes, heartbeatsRes, errorsRes, issuesRes] = await Promise.all([
       stub.fetch(new Request('http://do/stats?days=2')),
+      stub.fetch(new Request('http://do/stats?granularity=hour&hours=24')),
       stub.fetch(new Request('http://do/health?limit=10')),
-      stub.fetch(new Request('http://do/logs?level=ERROR&limit=5')),
-      getAppName(c, appId),
+      stub.fetch(new Request('http://do/heartbeats')),
+      stub.fetch(new Request('http://do/logs?level=ERROR&limit=1')),
+      stub.fetch(new Request('http://do/issues?status=open&limit=10')),
     ])
 
     const statsData = await statsRes.json() as { ok: boolean; data: DailyStats[] }
-    const healthData = await healthRes.json() as { ok: boolean; data: Array<{ status: number; checked_at: string }> }
+    const hourlyData = await hourlyRes.json() as { ok: boolean; data: StatsBucket[] }
+    const healthData = await healthRes.json() as { ok: boolean; data: Array<{ ok: boolean; checked_at: string }> }
+    const heartbeatsData = await heartbeatsRes.json() as { ok: boolean; data: HeartbeatMonitor[] }
     const errorsData = await errorsRes.json() as { ok: boolean; data: LogEntry[] }
+    const issuesData = await issuesRes.json() as { ok: boolean; data: Issue[] }
 
     const today_stats = statsData.ok && statsData.data?.[0]
       ? statsData.data[0]
@@ -123,8 +158,11 @@ async function getAppData(c: Context<{ Bindings: Env }>, appId: string): Promise
       ? statsData.data[1]
       : { date: new Date().toISOString().split('T')[0], debug: 0, info: 0, warn: 0, error: 0 }
 
+    const hourly_errors = hourlyData.ok ? (hourlyData.data || []).map(bucket => bucket.error).reverse() : []
     const health_checks = healthData.ok ? (healthData.data || []) : []
+    const heartbeats = heartbeatsData.ok ? (heartbeatsData.data || []) : []
     const recent_errors = errorsData.ok ? (errorsData.data || []) : []
+    const open_issues = issuesData.ok ? (issuesData.data || []) : []
 
     const last_error = recent_errors.length > 0
       ? { message: recent_errors[0].message, timestamp: recent_errors[0].timestamp }
@@ -132,11 +170,16 @@ async function getAppData(c: Context<{ Bindings: Env }>, appId: string): Promise
 
     return {
       id: appId,
-      name,
+      name: app.name,
+      team: app.team,
+      environment: app.environment,
+      tags: app.tags,
       today_stats,
       yesterday_stats,
+      hourly_errors,
       health_checks,
-      recent_errors,
+      heartbeats,
+      open_issues,
       last_error,
     }
   } catch (e) {
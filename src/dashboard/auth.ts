@@ -3,49 +3,139 @@
  */
 
 import { getCookie, setCookie, deleteCookie } from 'hono/cookie'
+import { createMiddleware } from 'hono/factory'
 import type { Context } from 'hono'
-import type { Env } from '../types'
+import { AuditActorType, UserRole, type AuditActor, type Env } from '../types'
+import * as sessions from '../services/sessions'
+import * as users from '../services/users'
+import { ACCESS_JWT_HEADER, authenticateAccess } from '../services/access'
 
 export const SESSION_COOKIE = 'wl_session'
 
 /**
- * Check if request has valid admin session
+ * The signed-in dashboard user. Admin key logins have no username, the
+ * admin role and every app; Cloudflare Access users are named by email.
  */
-export async function isAuthenticated(c: Context<{ Bindings: Env }>): Promise<boolean> {
-  const session = getCookie(c, SESSION_COOKIE)
-  if (!session || !c.env.ADMIN_API_KEY) return false
+export interface SessionUser {
+  username: string | null
+  role: UserRole
+  apps: string[] | null
+}
+
+/**
+ * Resolve the request's Cloudflare Access identity to a user, if Access is
+ * configured and one of the identity's groups is mapped to a role
+ */
+async function getAccessUser<E extends { Bindings: Env }>(c: Context<E>): Promise<SessionUser | null> {
+  const result = await authenticateAccess(c.env, c.req.header(ACCESS_JWT_HEADER))
+  if (!result.ok) {
+    console.error(`Access JWT verification failed: ${result.error.message}`)
+    return null
+  }
+  if (!result.data?.grant) return null
+
+  return { username: result.data.identity.email, ...result.data.grant }
+}
+
+/**
+ * Resolve the request's user: a Cloudflare Access identity, otherwise the
+ * session's user (null if not signed in, or the account was deleted).
+ * Roles are read on every request, so changes apply to existing sessions.
+ */
+export async function getSessionUser<E extends { Bindings: Env }>(c: Context<E>): Promise<SessionUser | null> {
+  const accessUser = await getAccessUser(c)
+  if (accessUser) return accessUser
+
+  const sessionId = getCookie(c, SESSION_COOKIE)
+  if (!sessionId || !c.env.LOGS_KV) return null
+
+  const result = await sessions.getSession(c.env.LOGS_KV, sessionId)
+  if (!result.ok) {
+    console.error(`Session lookup failed: ${result.error.message}`)
+    return null
+  }
+  if (!result.data) return null
 
-  const expectedHash = await hashAdminKey(c.env.ADMIN_API_KEY)
-  return session === expectedHash
+  const username = result.data.username ?? null
+  if (username === null) {
+    return { username: null, role: UserRole.ADMIN, apps: null }
+  }
+
+  const user = await users.getUser(c.env.LOGS_KV, username)
+  if (!user.ok) {
+    console.error(`User lookup failed: ${user.error.message}`)
+    return null
+  }
+  return user.data ? { username: user.data.username, role: user.data.role, apps: user.data.apps } : null
 }
 
 /**
- * Create session token from admin key
+ * Check if request has a live session whose user has the role (and may see
+ * the app, if given). Returns the user, or null if not allowed.
  */
-export async function hashAdminKey(adminKey: string): Promise<string> {
-  const encoder = new TextEncoder()
-  const data = encoder.encode(adminKey)
-  const hash = await crypto.subtle.digest('SHA-256', data)
-  return Array.from(new Uint8Array(hash))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
+export async function isAuthenticated<E extends { Bindings: Env }>(
+  c: Context<E>,
+  role: UserRole = UserRole.VIEWER,
+  appId?: string
+): Promise<SessionUser | null> {
+  const user = await getSessionUser(c)
+  return user && users.canAccess(user, role, appId) ? user : null
 }
 
 /**
- * Set session cookie after successful login
+ * Middleware for dashboard API routes: 401 without a session, 403 if the
+ * user lacks the role or the :app_id route param. Sets the user in context.
+ */
+export const requireRole = (role: UserRole) => createMiddleware<{ Bindings: Env; Variables: { user: SessionUser } }>(async (c, next) => {
+  const user = await getSessionUser(c)
+  if (!user) {
+    return c.json({ ok: false, error: 'Unauthorized' }, 401)
+  }
+
+  if (!users.canAccess(user, role, c.req.param('app_id'))) {
+    return c.json({ ok: false, error: 'Forbidden' }, 403)
+  }
+
+  c.set('user', user)
+  await next()
+})
+
+/**
+ * The audit log actor for a dashboard user
  */
-export function setSessionCookie(c: Context, sessionHash: string) {
-  setCookie(c, SESSION_COOKIE, sessionHash, {
+export function auditActor(user: Pick<SessionUser, 'username'>): AuditActor {
+  return user.username === null
+    ? { type: AuditActorType.ADMIN_KEY, id: null }
+    : { type: AuditActorType.USER, id: user.username }
+}
+
+/**
+ * Start a session after a successful login and set its cookie
+ */
+export async function startSession<E extends { Bindings: Env }>(c: Context<E>, username: string | null): Promise<boolean> {
+  const result = await sessions.createSession(c.env.LOGS_KV, username)
+  if (!result.ok) {
+    console.error(`Session creation failed: ${result.error.message}`)
+    return false
+  }
+
+  // The cookie lives as long as a session can; idle expiry is enforced server-side
+  setCookie(c, SESSION_COOKIE, result.data.id, {
     httpOnly: true,
     secure: true,
     sameSite: 'Strict',
-    maxAge: 60 * 60 * 24 // 24 hours
+    maxAge: sessions.SESSION_MAX_AGE_SECONDS,
   })
+  return true
 }
 
 /**
- * Clear session cookie on logout
+ * End the request's session and clear its cookie
  */
-export function clearSessionCookie(c: Context) {
+export async function endSession<E extends { Bindings: Env }>(c: Context<E>): Promise<void> {
+  const sessionId = getCookie(c, SESSION_COOKIE)
+  if (sessionId && c.env.LOGS_KV) {
+    await sessions.deleteSession(c.env.LOGS_KV, sessionId)
+  }
   deleteCookie(c, SESSION_COOKIE)
 }
@@ -3,6 +3,7 @@
  */
 
 import { styles } from '../styles'
+import type { HeartbeatState, StatsGranularity } from '../../types'
 
 /**
  * Generate an SVG sparkline for trend visualization
@@ -76,12 +77,26 @@ export function formatTrend(current: number, previous: number): string {
 }
 
 /**
- * Generate Chart.js configuration for daily stats
+ * Label for a stats bucket (ISO timestamp) on a chart axis, in UTC like the
+ * buckets themselves: "10-19 14:00" for hours, "14:05" for minutes
+ */
+export function formatBucketLabel(bucket: string, granularity: StatsGranularity): string {
+  if (granularity === 'day') return bucket.slice(0, 10)
+  if (granularity === 'hour') return `${bucket.slice(5, 10)} ${bucket.slice(11, 16)}`
+  return bucket.slice(11, 16)
+}
+
+/**
+ * Generate Chart.js configuration for stats at any granularity. Hourly and
+ * minute series have many points, so they are drawn without point markers
+ * and with fewer axis labels.
  */
 export function dailyStatsChartConfig(
   labels: string[],
-  datasets: { label: string; data: number[]; color: string }[]
+  datasets: { label: string; data: number[]; color: string }[],
+  granularity: StatsGranularity = 'day'
 ): string {
+  const dense = granularity !== 'day'
   const config = {
     type: 'line',
     data: {
@@ -91,10 +106,10 @@ export function dailyStatsChartConfig(
         data: ds.data,
         borderColor: ds.color,
         backgroundColor: ds.color + '20',
-        tension: 0.3,
+        tension: dense ? 0.1 : 0.3,
         fill: true,
-        pointRadius: 3,
-        pointHoverRadius: 5,
+        pointRadius: dense ? 0 : 3,
+        pointHoverRadius: dense ? 3 : 5,
       })),
     },
     options: {
@@ -109,7 +124,9 @@ export function dailyStatsChartConfig(
       scales: {
         x: {
           grid: { color: '#374151' },
-          ticks: { color: '#9CA3AF' },
+          ticks: dense
+            ? { color: '#9CA3AF', autoSkip: true, maxTicksLimit: 12, maxRotation: 0 }
+            : { color: '#9CA3AF' },
         },
         y: {
           beginAtZero: true,
@@ -130,19 +147,46 @@ export function dailyStatsChartConfig(
  * Determine health status from recent checks
  */
 export function determineHealthStatus(
-  checks: { status: number; checked_at: string }[]
+  checks: { ok: boolean; checked_at: string }[]
 ): 'healthy' | 'degraded' | 'down' | 'unknown' {
   if (checks.length === 0) return 'unknown'
 
   // Look at last 5 checks
   const recent = checks.slice(0, 5)
-  const failed = recent.filter(c => c.status === 0 || c.status >= 500).length
+  const failed = recent.filter(c => !c.ok).length
 
   if (failed === 0) return 'healthy'
   if (failed < recent.length) return 'degraded'
   return 'down'
 }
 
+/**
+ * Health status of a heartbeat monitor from its state
+ */
+export function heartbeatHealthStatus(state: HeartbeatState): 'healthy' | 'degraded' | 'down' | 'unknown' {
+  switch (state) {
+    case 'up': return 'healthy'
+    case 'late': return 'degraded'
+    case 'missing':
+    case 'failed': return 'down'
+    default: return 'unknown'
+  }
+}
+
+/**
+ * Combine the statuses of an app's health checks and heartbeats: down if
+ * everything known is down, degraded if anything isn't healthy
+ */
+export function combineHealthStatus(
+  statuses: ('healthy' | 'degraded' | 'down' | 'unknown')[]
+): 'healthy' | 'degraded' | 'down' | 'unknown' {
+  const known = statuses.filter(status => status !== 'unknown')
+  if (known.length === 0) return 'unknown'
+  if (known.every(status => status === 'down')) return 'down'
+  if (known.every(status => status === 'healthy')) return 'healthy'
+  return 'degraded'
+}
+
 /**
  * Format health status with icon
  */
@@ -161,3 +205,80 @@ export function formatHealthStatus(status: 'healthy' | 'degraded' | 'down' | 'un
   }
   return `<span class="status-${status} flex items-center gap-1">${icons[status]} ${labels[status]}</span>`
 }
+
+/**
+ * Format an uptime percentage ("99.95%"), or a dash without checks
+ */
+export function formatUptime(uptime: number | null): string {
+  if (uptime === null) return '-'
+  return `${uptime === 100 ? '100' : uptime.toFixed(2)}%`
+}
+
+/**
+ * One bar per day, colored by uptime: healthy from 99.9%, degraded from
+ * 99%, down below that and unknown without checks
+ */
+export function uptimeBars(days: { date: string; checks: number; uptime: number | null }[]): string {
+  const bars = days.map(day => {
+    const status = day.uptime === null ? 'unknown'
+      : day.uptime >= 99.9 ? 'healthy'
+      : day.uptime >= 99 ? 'degraded'
+      : 'down'
+    const title = `${day.date}: ${day.uptime === null ? 'no checks' : `${formatUptime(day.uptime)} of ${day.checks} checks`}`
+    return `<span class="flex-1 h-6 rounded-sm" style="background: ${styles.statusColors[status]}" title="${title}"></span>`
+  })
+  return `<div class="flex gap-0.5">${bars.join('')}</div>`
+}
+
+/**
+ * Generate Chart.js configuration for hourly p50/p95 health check latency
+ */
+export function latencyChartConfig(labels: string[], p50: (number | null)[], p95: (number | null)[]): string {
+  const dataset = (label: string, data: (number | null)[], color: string) => ({
+    label,
+    data,
+    borderColor: color,
+    backgroundColor: color + '20',
+    tension: 0.2,
+    pointRadius: 0,
+    pointHoverRadius: 3,
+    spanGaps: true,
+  })
+  const config = {
+    type: 'line',
+    data: {
+      labels,
+      datasets: [
+        dataset('p50', p50, styles.logColors.INFO),
+        dataset('p95', p95, styles.logColors.WARN),
+      ],
+    },
+    options: {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: {
+          position: 'bottom',
+          labels: { color: '#9CA3AF' },
+        },
+      },
+      scales: {
+        x: {
+          grid: { color: '#374151' },
+          ticks: { color: '#9CA3AF', autoSkip: true, maxTicksLimit: 8, maxRotation: 0 },
+        },
+        y: {
+          beginAtZero: true,
+          grid: { color: '#374151' },
+          ticks: { color: '#9CA3AF' },
+          title: { display: true, text: 'ms', color: '#9CA3AF' },
+        },
+      },
+      interaction: {
+        intersect: false,
+        mode: 'index',
+      },
+    },
+  }
+  return JSON.stringify(config)
+}
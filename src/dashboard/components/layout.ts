@@ -4,13 +4,15 @@
 
 import { logLevelCss, escapeHtml } from '../styles'
 import { BrandConfig, DEFAULT_BRAND_CONFIG } from '../brand'
+import type { SessionUser } from '../auth'
 
 export interface LayoutOptions {
   title?: string
-  currentView?: 'overview' | 'app'
+  currentView?: 'overview' | 'app' | 'audit'
   currentApp?: string
   apps?: string[]
   brand?: BrandConfig
+  user?: SessionUser
 }
 
 /**
@@ -200,7 +202,7 @@ ${content}
  * Dashboard header with navigation and brand logo
  */
 export function header(options: LayoutOptions = {}): string {
-  const { currentView = 'overview', currentApp, apps = [] } = options
+  const { currentView = 'overview', currentApp, apps = [], user } = options
   const brand = options.brand || DEFAULT_BRAND_CONFIG
 
   return `
@@ -235,9 +237,23 @@ export function header(options: LayoutOptions = {}): string {
               ${apps.length === 0 ? '<div class="px-3 py-1.5 text-sm text-gray-500">No apps registered</div>' : ''}
             </div>
           </div>
+          ${user?.role === 'admin' ? `
+          <a href="/dashboard/audit"
+             class="px-3 py-1.5 text-sm rounded ${currentView === 'audit' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-700/50'}">
+            Audit
+          </a>` : ''}
         </nav>
       </div>
-      <a href="/dashboard/logout" class="text-gray-400 hover:text-gray-200 text-sm">Logout</a>
+      <div class="flex items-center gap-4">
+        ${user ? `<span class="text-gray-500 text-sm">${escapeHtml(user.username ?? 'admin key')} · ${user.role}</span>` : ''}
+        ${user?.role === 'admin' ? `
+        <form method="post" action="/dashboard/logout-all" onsubmit="return confirm('Log out every dashboard session, including this one?')">
+          <button type="submit" class="text-gray-500 hover:text-gray-300 text-sm">Log out all sessions</button>
+        </form>` : ''}
+        <form method="post" action="/dashboard/logout">
+          <button type="submit" class="text-gray-400 hover:text-gray-200 text-sm">Logout</button>
+        </form>
+      </div>
     </div>
   </header>`
 }
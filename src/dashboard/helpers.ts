@@ -3,36 +3,46 @@
  */
 
 import type { Context } from 'hono'
-import type { Env } from '../types'
+import type { AppListing, AppMetadata, Env } from '../types'
+import type { SessionUser } from './auth'
+import * as registry from '../services/registry'
+import { EMPTY_METADATA } from '../services/app-metadata'
 
 /**
- * Get list of registered app IDs from KV
+ * Get registered apps with their metadata, limited to the user's apps if given
  */
-export async function getAppList(c: Context<{ Bindings: Env }>): Promise<string[]> {
-  if (!c.env.LOGS_KV) return []
-  const data = await c.env.LOGS_KV.get('apps')
-  if (!data) return []
-  return JSON.parse(data)
+export async function getAppListings(c: Context<{ Bindings: Env }>, user?: SessionUser): Promise<AppListing[]> {
+  const result = await registry.listAppListings(c.env)
+  if (!result.ok) return []
+  const allowed = user?.apps
+  return allowed ? result.data.filter(app => allowed.includes(app.id)) : result.data
 }
 
 /**
- * Get app name from KV config
+ * Get list of registered app IDs, limited to the user's apps if given
+ */
+export async function getAppList(c: Context<{ Bindings: Env }>, user?: SessionUser): Promise<string[]> {
+  return (await getAppListings(c, user)).map(app => app.id)
+}
+
+/**
+ * Get app name from its config
  */
 export async function getAppName(c: Context<{ Bindings: Env }>, appId: string): Promise<string> {
   if (!c.env.LOGS_KV) return appId
-  const data = await c.env.LOGS_KV.get(`app:${appId}`)
-  if (!data) return appId
-  const config = JSON.parse(data)
-  return config.name || appId
+  const result = await registry.getApp(c.env, appId)
+  return result.ok && result.data?.name ? result.data.name : appId
 }
 
 /**
- * Get health URLs from KV config
+ * Get owner, team, environment, tags and links from the app config
  */
-export async function getHealthUrls(c: Context<{ Bindings: Env }>, appId: string): Promise<string[]> {
-  if (!c.env.LOGS_KV) return []
-  const data = await c.env.LOGS_KV.get(`app:${appId}`)
-  if (!data) return []
-  const config = JSON.parse(data)
-  return config.health_urls || []
+export async function getAppMetadata(c: Context<{ Bindings: Env }>, appId: string): Promise<AppMetadata> {
+  if (!c.env.LOGS_KV) return EMPTY_METADATA
+  const result = await registry.getApp(c.env, appId)
+  if (!result.ok || !result.data) return EMPTY_METADATA
+  const config = result.data
+  return Object.fromEntries(
+    Object.entries(EMPTY_METADATA).map(([field, empty]) => [field, config[field as keyof AppMetadata] ?? empty])
+  ) as unknown as AppMetadata
 }
@@ -3,21 +3,37 @@
  */
 
 import { Hono } from 'hono'
-import type { Env, DailyStats, HealthCheck } from '../types'
+import { AuditActorType, UserRole, type Env, type DailyStats, type StatsBucket, type HealthCheck, type HealthSummary, type HealthTarget, type HealthAlertSettings, type HeartbeatMonitor, type Issue } from '../types'
 import {
+  getSessionUser,
   isAuthenticated,
-  hashAdminKey,
-  setSessionCookie,
-  clearSessionCookie,
+  requireRole,
+  startSession,
+  endSession,
+  auditActor,
+  type SessionUser,
 } from './auth'
 import { loginPage } from './pages/login'
 import { overviewPage } from './pages/overview'
 import { appDetailPage, type AppDetailData } from './pages/app-detail'
+import { auditPage } from './pages/audit'
 import { getOverview } from './api/overview'
-import { getAppList, getAppName, getHealthUrls } from './helpers'
+import { getAppList, getAppName, getAppMetadata } from './helpers'
 import { getBrandConfig, type BrandConfig } from './brand'
-
-const dashboard = new Hono<{ Bindings: Env; Variables: { brand: BrandConfig } }>()
+import { parseIssueStatus } from '../services/issues'
+import * as sessions from '../services/sessions'
+import * as users from '../services/users'
+import * as registry from '../services/registry'
+import { APP_GROUPINGS, parseAppFilters } from '../services/app-metadata'
+import { parseStatsQuery } from '../services/stats'
+import { parseHealthTargets, compactHealthTarget, parseHealthAlertSettings, auditedHealthAlertSettings } from '../services/health'
+import { parseHeartbeatInput, createHeartbeatToken } from '../services/heartbeats'
+import { ACCESS_JWT_HEADER, getAccessConfig } from '../services/access'
+import { recordAudit, getAuditDO } from '../services/audit'
+import { Err, ErrorCode, type Result } from '../result'
+import { timingSafeEqual } from '../utils'
+
+const dashboard = new Hono<{ Bindings: Env; Variables: { brand: BrandConfig; user: SessionUser } }>()
 
 // Resolve brand config from environment
 dashboard.use('*', async (c, next) => {
@@ -27,25 +43,36 @@ dashboard.use('*', async (c, next) => {
 
 // Main dashboard entry - shows overview or login
 dashboard.get('/', async (c) => {
-  if (!await isAuthenticated(c as any)) {
+  const user = await isAuthenticated(c)
+  if (!user) {
     return c.html(loginPage(undefined, c.get('brand')))
   }
 
-  const apps = await getAppList(c as any)
-  const overviewData = await getOverview(c as any)
-  return c.html(overviewPage(overviewData, apps, c.get('brand')))
+  // Unknown filter values show every app rather than an error page
+  const params = new URL(c.req.url).searchParams
+  const filters = parseAppFilters(params)
+  const group = params.get('group')
+  const view = {
+    filters: filters.ok ? filters.data : {},
+    group: APP_GROUPINGS.find(by => by === group) ?? null,
+  }
+
+  const apps = await getAppList(c as any, user)
+  const overviewData = await getOverview(c as any, user, view.filters)
+  return c.html(overviewPage(overviewData, apps, c.get('brand'), user, view))
 })
 
 // App detail page
 dashboard.get('/app/:app_id', async (c) => {
-  if (!await isAuthenticated(c as any)) {
+  const user = await isAuthenticated(c)
+  if (!user) {
     return c.html(loginPage(undefined, c.get('brand')))
   }
 
   const appId = c.req.param('app_id')
-  const apps = await getAppList(c as any)
+  const apps = await getAppList(c as any, user)
 
-  // Check if app exists
+  // Check if app exists and the user may see it
   if (!apps.includes(appId)) {
     return c.redirect('/dashboard')
   }
@@ -54,71 +81,167 @@ dashboard.get('/app/:app_id', async (c) => {
   const id = c.env.APP_LOGS_DO.idFromName(appId)
   const stub = c.env.APP_LOGS_DO.get(id)
 
-  const [statsRes, healthRes, appName, healthUrls] = await Promise.all([
+  const [statsRes, hourlyRes, minuteRes, healthRes, targetsRes, summaryRes, alertsRes, heartbeatsRes, appName, metadata] = await Promise.all([
     stub.fetch(new Request('http://do/stats?days=7')),
+    stub.fetch(new Request('http://do/stats?granularity=hour&hours=48')),
+    stub.fetch(new Request('http://do/stats?granularity=minute&minutes=60')),
     stub.fetch(new Request('http://do/health?limit=50')),
+    stub.fetch(new Request('http://do/health-urls')),
+    stub.fetch(new Request('http://do/health/summary')),
+    stub.fetch(new Request('http://do/health-alerts')),
+    stub.fetch(new Request('http://do/heartbeats')),
     getAppName(c as any, appId),
-    getHealthUrls(c as any, appId),
+    getAppMetadata(c as any, appId),
   ])
 
   const statsData = await statsRes.json() as { ok: boolean; data: DailyStats[] }
+  const hourlyData = await hourlyRes.json() as { ok: boolean; data: StatsBucket[] }
+  const minuteData = await minuteRes.json() as { ok: boolean; data: StatsBucket[] }
   const healthData = await healthRes.json() as { ok: boolean; data: HealthCheck[] }
+  const targetsData = await targetsRes.json() as { ok: boolean; data: HealthTarget[] }
+  const summaryData = await summaryRes.json() as { ok: boolean; data: HealthSummary[] }
+  const alertsData = await alertsRes.json() as { ok: boolean; data: { settings: HealthAlertSettings } }
+  const heartbeatsData = await heartbeatsRes.json() as { ok: boolean; data: HeartbeatMonitor[] }
+  const canOperate = users.canAccess(user, UserRole.OPERATOR, appId)
 
   const data: AppDetailData = {
     appId,
     appName,
+    metadata,
     stats: statsData.ok ? (statsData.data || []) : [],
+    hourlyStats: hourlyData.ok ? (hourlyData.data || []) : [],
+    minuteStats: minuteData.ok ? (minuteData.data || []) : [],
     healthChecks: healthData.ok ? (healthData.data || []) : [],
-    healthUrls,
+    healthTargets: targetsData.ok ? (targetsData.data || []) : [],
+    healthSummaries: summaryData.ok ? (summaryData.data || []) : [],
+    // Webhook URLs can hold tokens, so only operators get the settings
+    healthAlertSettings: canOperate && alertsData.ok ? alertsData.data.settings : null,
+    // Anyone with a ping token can report runs, so only operators get them
+    heartbeats: heartbeatsData.ok
+      ? heartbeatsData.data.map(({ token, ...monitor }) => canOperate ? { ...monitor, token } : monitor)
+      : [],
+    canOperate,
   }
 
-  return c.html(appDetailPage(data, apps, c.get('brand')))
+  return c.html(appDetailPage(data, apps, c.get('brand'), user))
 })
 
-// Login handler
+// Audit log page (admins only)
+dashboard.get('/audit', async (c) => {
+  const user = await isAuthenticated(c)
+  if (!user) {
+    return c.html(loginPage(undefined, c.get('brand')))
+  }
+
+  if (!users.canAccess(user, UserRole.ADMIN)) {
+    return c.redirect('/dashboard')
+  }
+
+  const apps = await getAppList(c as any, user)
+  return c.html(auditPage(apps, c.get('brand'), user))
+})
+
+// Login handler - username and password, or the admin key with no username
 dashboard.post('/login', async (c) => {
   const body = await c.req.parseBody()
-  const adminKey = body.admin_key as string
+  const username = typeof body.username === 'string' ? body.username.trim() : ''
+  const password = (body.password ?? body.admin_key) as string
+
+  if (!password) {
+    return c.html(loginPage('Password required', c.get('brand')))
+  }
 
-  if (!adminKey || adminKey !== c.env.ADMIN_API_KEY) {
+  const failed = { action: 'dashboard.login_failed', after: { username: username || null } }
+  const anonymous = { type: AuditActorType.ANONYMOUS, id: username || null }
+
+  if (username) {
+    const verified = await users.verifyPassword(c.env.LOGS_KV, username, password)
+    if (!verified.ok || !verified.data) {
+      await recordAudit(c.env, anonymous, c.req.raw, failed)
+      return c.html(loginPage('Invalid username or password', c.get('brand')))
+    }
+  } else if (!c.env.ADMIN_API_KEY || !timingSafeEqual(password, c.env.ADMIN_API_KEY)) {
+    await recordAudit(c.env, anonymous, c.req.raw, failed)
     return c.html(loginPage('Invalid admin key', c.get('brand')))
   }
 
-  const sessionHash = await hashAdminKey(adminKey)
-  setSessionCookie(c, sessionHash)
+  const sessionUsername = username ? username.toLowerCase() : null
+  if (!await startSession(c, sessionUsername)) {
+    return c.html(loginPage('Could not start a session, try again', c.get('brand')))
+  }
+
+  await recordAudit(c.env, auditActor({ username: sessionUsername }), c.req.raw, { action: 'dashboard.login' })
   return c.redirect('/dashboard')
 })
 
-// Logout handler
-dashboard.get('/logout', (c) => {
-  clearSessionCookie(c)
+// Logout handler (a POST so links and prefetches can't sign the user out)
+dashboard.post('/logout', async (c) => {
+  const user = await getSessionUser(c)
+  if (user) {
+    await recordAudit(c.env, auditActor(user), c.req.raw, { action: 'dashboard.logout' })
+  }
+  await endSession(c)
+  // Behind Cloudflare Access, end the Access session too or the next request signs straight back in
+  if (c.req.header(ACCESS_JWT_HEADER) && getAccessConfig(c.env)) {
+    return c.redirect('/cdn-cgi/access/logout')
+  }
+  return c.redirect('/dashboard')
+})
+
+// Log out every session, including this one (admins only)
+dashboard.post('/logout-all', requireRole(UserRole.ADMIN), async (c) => {
+  const result = await sessions.deleteAllSessions(c.env.LOGS_KV)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  await recordAudit(c.env, auditActor(c.get('user')), c.req.raw, { action: 'dashboard.logout_all', after: result.data })
+
+  await endSession(c)
   return c.redirect('/dashboard')
 })
 
 // API: Get overview data
-dashboard.get('/api/overview', async (c) => {
-  if (!await isAuthenticated(c as any)) {
-    return c.json({ ok: false, error: 'Unauthorized' }, 401)
+// Filters: team, environment, tag
+dashboard.get('/api/overview', requireRole(UserRole.VIEWER), async (c) => {
+  const filters = parseAppFilters(new URL(c.req.url).searchParams)
+  if (!filters.ok) {
+    return c.json(filters, 400)
   }
 
-  const data = await getOverview(c as any)
+  const data = await getOverview(c as any, c.get('user'), filters.data)
   return c.json({ ok: true, data })
 })
 
 // API: List apps
-dashboard.get('/api/apps', async (c) => {
-  if (!await isAuthenticated(c as any)) {
-    return c.json({ ok: false, error: 'Unauthorized' }, 401)
-  }
-
-  const apps = await getAppList(c as any)
+dashboard.get('/api/apps', requireRole(UserRole.VIEWER), async (c) => {
+  const apps = await getAppList(c as any, c.get('user'))
   return c.json({ ok: true, data: apps })
 })
 
 // API: Get logs for an app
-dashboard.get('/api/logs/:app_id', async (c) => {
-  if (!await isAuthenticated(c as any)) {
-    return c.json({ ok: false, error: 'Unauthorized' }, 401)
+dashboard.get('/api/logs/:app_id', requireRole(UserRole.VIEWER), async (c) => {
+  const appId = c.req.param('app_id')
+  const url = new URL(c.req.url)
+
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const res = await stub.fetch(new Request(`http://do/logs${url.search}`, {
+    method: 'GET',
+  }))
+
+  const result = await res.json() as { ok: boolean; error?: { code: string } }
+  if (!result.ok && result.error?.code === 'BAD_REQUEST') {
+    return c.json(result, 400)
+  }
+  return c.json(result)
+})
+
+// API: Live tail WebSocket for an app (session cookie is sent with the upgrade)
+dashboard.get('/api/tail/:app_id', requireRole(UserRole.VIEWER), async (c) => {
+  if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+    return c.json({ ok: false, error: 'Expected WebSocket upgrade' }, 426)
   }
 
   const appId = c.req.param('app_id')
@@ -127,26 +250,69 @@ dashboard.get('/api/logs/:app_id', async (c) => {
   const id = c.env.APP_LOGS_DO.idFromName(appId)
   const stub = c.env.APP_LOGS_DO.get(id)
 
-  const res = await stub.fetch(new Request(`http://do/logs${url.search}`, {
+  return stub.fetch(new Request(`http://do/tail${url.search}`, c.req.raw))
+})
+
+// API: List issues for an app
+dashboard.get('/api/issues/:app_id', requireRole(UserRole.VIEWER), async (c) => {
+  const appId = c.req.param('app_id')
+  const url = new URL(c.req.url)
+
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const res = await stub.fetch(new Request(`http://do/issues${url.search}`, {
     method: 'GET',
   }))
 
   return c.json(await res.json())
 })
 
-// API: Get stats for an app
-dashboard.get('/api/stats/:app_id', async (c) => {
-  if (!await isAuthenticated(c as any)) {
-    return c.json({ ok: false, error: 'Unauthorized' }, 401)
+// API: Set an issue's status
+dashboard.patch('/api/issues/:app_id/:issue_id', requireRole(UserRole.OPERATOR), async (c) => {
+  const parsed = parseIssueStatus(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
   }
 
   const appId = c.req.param('app_id')
-  const days = c.req.query('days') || '7'
+  const issueId = c.req.param('issue_id')
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const previous = await (await stub.fetch(new Request(`http://do/issues/${issueId}`))).json() as Result<Issue | null>
+  const res = await stub.fetch(new Request(`http://do/issues/${issueId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: parsed.data }),
+  }))
+  const result = await res.json() as Result<Issue | null>
+
+  if (result.ok && result.data) {
+    await recordAudit(c.env, auditActor(c.get('user')), c.req.raw, {
+      action: 'issue.status',
+      app_id: appId,
+      before: { issue_id: issueId, status: previous.ok ? previous.data?.status ?? null : null },
+      after: { issue_id: issueId, status: result.data.status },
+    })
+  }
+  return c.json(result)
+})
+
+// API: Get stats for an app
+// Query: granularity (day, hour, minute) with days, hours or minutes
+dashboard.get('/api/stats/:app_id', requireRole(UserRole.VIEWER), async (c) => {
+  const appId = c.req.param('app_id')
+  const url = new URL(c.req.url)
+  const query = parseStatsQuery(url.searchParams)
+  if (!query.ok) {
+    return c.json(query, 400)
+  }
 
   const id = c.env.APP_LOGS_DO.idFromName(appId)
   const stub = c.env.APP_LOGS_DO.get(id)
 
-  const res = await stub.fetch(new Request(`http://do/stats?days=${days}`, {
+  const res = await stub.fetch(new Request(`http://do/stats${url.search}`, {
     method: 'GET',
   }))
 
@@ -154,11 +320,7 @@ dashboard.get('/api/stats/:app_id', async (c) => {
 })
 
 // API: Get health checks for an app
-dashboard.get('/api/health/:app_id', async (c) => {
-  if (!await isAuthenticated(c as any)) {
-    return c.json({ ok: false, error: 'Unauthorized' }, 401)
-  }
-
+dashboard.get('/api/health/:app_id', requireRole(UserRole.VIEWER), async (c) => {
   const appId = c.req.param('app_id')
   const url = new URL(c.req.url)
 
@@ -172,4 +334,184 @@ dashboard.get('/api/health/:app_id', async (c) => {
   return c.json(await res.json())
 })
 
+// API: Get uptime, latency percentiles and incidents for an app's health checks
+dashboard.get('/api/health/:app_id/summary', requireRole(UserRole.VIEWER), async (c) => {
+  const appId = c.req.param('app_id')
+  const url = new URL(c.req.url)
+
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const res = await stub.fetch(new Request(`http://do/health/summary${url.search}`, {
+    method: 'GET',
+  }))
+
+  return c.json(await res.json())
+})
+
+// API: Query the audit log (admins)
+dashboard.get('/api/audit', requireRole(UserRole.ADMIN), async (c) => {
+  const url = new URL(c.req.url)
+  const res = await getAuditDO(c.env).fetch(new Request(`http://do/entries${url.search}`))
+  return c.json(await res.json(), res.status as 200 | 400 | 500)
+})
+
+// API: Delete logs older than a timestamp (operators)
+dashboard.post('/api/prune/:app_id', requireRole(UserRole.OPERATOR), async (c) => {
+  const body = await c.req.json<{ before?: string }>()
+  if (!body.before || Number.isNaN(Date.parse(body.before))) {
+    return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: '"before" timestamp required' }), 400)
+  }
+
+  const appId = c.req.param('app_id')
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const res = await stub.fetch(new Request('http://do/prune', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ before: body.before }),
+  }))
+  const result = await res.json() as Result<{ deleted: number }>
+
+  if (result.ok) {
+    await recordAudit(c.env, auditActor(c.get('user')), c.req.raw, {
+      action: 'app.prune',
+      app_id: appId,
+      after: { before: body.before, deleted: result.data.deleted },
+    })
+  }
+  return c.json(result)
+})
+
+// API: Replace health check URLs or targets (operators)
+dashboard.put('/api/health-urls/:app_id', requireRole(UserRole.OPERATOR), async (c) => {
+  const body = await c.req.json<{ urls?: unknown }>()
+  const targets = parseHealthTargets(body.urls)
+  if (!targets.ok) {
+    return c.json(targets, 400)
+  }
+
+  const appId = c.req.param('app_id')
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const previous = await (await stub.fetch(new Request('http://do/health-urls'))).json() as Result<HealthTarget[]>
+  const res = await stub.fetch(new Request('http://do/health-urls', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ urls: targets.data, app_id: appId }),
+  }))
+  const result = await res.json() as { ok: boolean }
+
+  // The app config lists the URLs; the DO keeps the full targets
+  if (result.ok) {
+    const saved = await registry.setHealthUrls(c.env, appId, targets.data.map((target) => target.url))
+    if (!saved.ok) {
+      return c.json(saved, 500)
+    }
+
+    await recordAudit(c.env, auditActor(c.get('user')), c.req.raw, {
+      action: 'app.health_urls',
+      app_id: appId,
+      before: previous.ok ? previous.data.map(compactHealthTarget) : null,
+      after: targets.data.map(compactHealthTarget),
+    })
+  }
+
+  return c.json(result)
+})
+
+// API: Set health alert thresholds and webhooks (operators)
+dashboard.put('/api/health-alerts/:app_id', requireRole(UserRole.OPERATOR), async (c) => {
+  const parsed = parseHealthAlertSettings(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const appId = c.req.param('app_id')
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const previous = await (await stub.fetch(new Request('http://do/health-alerts'))).json() as Result<{ settings: HealthAlertSettings }>
+  const res = await stub.fetch(new Request('http://do/health-alerts', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+  const result = await res.json() as Result<HealthAlertSettings>
+
+  if (result.ok) {
+    await recordAudit(c.env, auditActor(c.get('user')), c.req.raw, {
+      action: 'app.health_alerts',
+      app_id: appId,
+      before: previous.ok ? auditedHealthAlertSettings(previous.data.settings) : null,
+      after: auditedHealthAlertSettings(result.data),
+    })
+  }
+
+  return c.json(result)
+})
+
+// API: Create a heartbeat monitor (operators)
+dashboard.post('/api/heartbeats/:app_id', requireRole(UserRole.OPERATOR), async (c) => {
+  const parsed = parseHeartbeatInput(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const appId = c.req.param('app_id')
+  const app = await registry.getApp(c.env, appId)
+  if (!app.ok) {
+    return c.json(app, 500)
+  }
+  if (!app.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const res = await stub.fetch(new Request('http://do/heartbeats', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...parsed.data, token: createHeartbeatToken(appId) }),
+  }))
+  const result = await res.json() as Result<HeartbeatMonitor>
+
+  if (result.ok) {
+    const { token: _, ...monitor } = result.data
+    await recordAudit(c.env, auditActor(c.get('user')), c.req.raw, {
+      action: 'heartbeat.create',
+      app_id: appId,
+      after: monitor,
+    })
+  }
+
+  return c.json(result)
+})
+
+// API: Delete a heartbeat monitor (operators)
+dashboard.delete('/api/heartbeats/:app_id/:monitor_id', requireRole(UserRole.OPERATOR), async (c) => {
+  const appId = c.req.param('app_id')
+  const monitorId = c.req.param('monitor_id')
+  const id = c.env.APP_LOGS_DO.idFromName(appId)
+  const stub = c.env.APP_LOGS_DO.get(id)
+
+  const res = await stub.fetch(new Request(`http://do/heartbeats/${monitorId}`, {
+    method: 'DELETE',
+  }))
+  const result = await res.json() as Result<{ deleted: boolean }>
+
+  if (result.ok && result.data.deleted) {
+    await recordAudit(c.env, auditActor(c.get('user')), c.req.raw, {
+      action: 'heartbeat.delete',
+      app_id: appId,
+      before: { id: monitorId },
+    })
+  }
+
+  return c.json(result)
+})
+
 export { dashboard }
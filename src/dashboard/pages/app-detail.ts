@@ -3,22 +3,59 @@
  */
 
 import { htmlDocument, header, statsCard } from '../components/layout'
-import { dailyStatsChartConfig, formatHealthStatus, determineHealthStatus } from '../components/charts'
+import {
+  dailyStatsChartConfig,
+  formatBucketLabel,
+  formatHealthStatus,
+  determineHealthStatus,
+  heartbeatHealthStatus,
+  formatUptime,
+  uptimeBars,
+  latencyChartConfig,
+} from '../components/charts'
 import { escapeHtml, styles } from '../styles'
-import type { DailyStats, LogEntry, HealthCheck } from '../../types'
+import type { AppMetadata, DailyStats, StatsBucket, LogEntry, HealthCheck, HealthSummary, HealthTarget, HealthAlertSettings, HeartbeatMonitor } from '../../types'
+import { compactHealthTarget, formatDuration } from '../../services/health'
 import type { BrandConfig } from '../brand'
 import { DEFAULT_BRAND_CONFIG } from '../brand'
+import type { SessionUser } from '../auth'
 
 export interface AppDetailData {
   appId: string
   appName: string
+  metadata: AppMetadata
   stats: DailyStats[]
+  hourlyStats: StatsBucket[] // Last 48 hours
+  minuteStats: StatsBucket[] // Last 60 minutes
   healthChecks: HealthCheck[]
-  healthUrls: string[]
+  healthTargets: HealthTarget[]
+  healthSummaries: HealthSummary[]
+  healthAlertSettings: HealthAlertSettings | null // Only for operators
+  heartbeats: Array<Omit<HeartbeatMonitor, 'token'> & { token?: string }> // Tokens only for operators
+  canOperate: boolean // Operators can triage issues, prune logs and edit health URLs, alerts and heartbeats
 }
 
-export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandConfig = DEFAULT_BRAND_CONFIG): string {
-  const { appId, appName, stats, healthChecks, healthUrls } = data
+/**
+ * Owner, team, environment, tags, description and links under the app name
+ */
+function metadataSummary(metadata: AppMetadata): string {
+  const facts = [
+    metadata.environment ? `<span class="px-2 py-0.5 rounded text-xs ${metadata.environment === 'prod' ? 'bg-red-900/50 text-red-300' : 'bg-gray-700 text-gray-300'}">${escapeHtml(metadata.environment)}</span>` : '',
+    metadata.team ? `<span>Team <span class="text-gray-200">${escapeHtml(metadata.team)}</span></span>` : '',
+    metadata.owner ? `<span>Owner <span class="text-gray-200">${escapeHtml(metadata.owner)}</span></span>` : '',
+    ...metadata.tags.map(tag => `<a href="/dashboard?tag=${encodeURIComponent(tag)}" class="px-2 py-0.5 rounded-full text-xs bg-gray-700 text-gray-300 hover:text-gray-100">${escapeHtml(tag)}</a>`),
+    metadata.repository_url ? `<a href="${escapeHtml(metadata.repository_url)}" target="_blank" rel="noopener" class="text-blue-400 hover:text-blue-300">Repository</a>` : '',
+    metadata.runbook_url ? `<a href="${escapeHtml(metadata.runbook_url)}" target="_blank" rel="noopener" class="text-blue-400 hover:text-blue-300">Runbook</a>` : '',
+  ].filter(Boolean)
+
+  if (facts.length === 0 && !metadata.description) return ''
+  return `
+      ${metadata.description ? `<p class="mt-2 text-sm text-gray-400 max-w-3xl">${escapeHtml(metadata.description)}</p>` : ''}
+      ${facts.length > 0 ? `<div class="mt-2 flex flex-wrap items-center gap-3 text-sm text-gray-500">${facts.join('')}</div>` : ''}`
+}
+
+export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandConfig = DEFAULT_BRAND_CONFIG, user?: SessionUser): string {
+  const { appId, appName, metadata, stats, hourlyStats, minuteStats, healthChecks, healthTargets, healthSummaries, healthAlertSettings, heartbeats, canOperate } = data
 
   // Calculate totals for the period
   const totals = stats.reduce((acc, day) => ({
@@ -29,12 +66,27 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
   }), { debug: 0, info: 0, warn: 0, error: 0 })
 
   // Prepare chart data (reverse to show oldest first)
-  const chartLabels = stats.map(s => s.date).reverse()
-  const chartConfig = dailyStatsChartConfig(chartLabels, [
-    { label: 'Errors', data: stats.map(s => s.error).reverse(), color: styles.logColors.ERROR },
-    { label: 'Warnings', data: stats.map(s => s.warn).reverse(), color: styles.logColors.WARN },
-    { label: 'Info', data: stats.map(s => s.info).reverse(), color: styles.logColors.INFO },
-  ])
+  const chartDatasets = (series: { debug: number; info: number; warn: number; error: number }[]) => [
+    { label: 'Errors', data: series.map(s => s.error).reverse(), color: styles.logColors.ERROR },
+    { label: 'Warnings', data: series.map(s => s.warn).reverse(), color: styles.logColors.WARN },
+    { label: 'Info', data: series.map(s => s.info).reverse(), color: styles.logColors.INFO },
+  ]
+  const chartConfigs = `{
+        day: ${dailyStatsChartConfig(stats.map(s => s.date).reverse(), chartDatasets(stats))},
+        hour: ${dailyStatsChartConfig(hourlyStats.map(s => formatBucketLabel(s.bucket, 'hour')).reverse(), chartDatasets(hourlyStats), 'hour')},
+        minute: ${dailyStatsChartConfig(minuteStats.map(s => formatBucketLabel(s.bucket, 'minute')).reverse(), chartDatasets(minuteStats), 'minute')}
+      }`
+
+  // Bare URLs one per line if no target needs more, otherwise a JSON array
+  const compactTargets = healthTargets.map(compactHealthTarget)
+  const healthTargetsText = compactTargets.every(target => typeof target === 'string')
+    ? compactTargets.join('\n')
+    : JSON.stringify(compactTargets, null, 2)
+
+  // Webhooks are edited one URL per line
+  const healthAlertsState = healthAlertSettings
+    ? { ...healthAlertSettings, webhooks: healthAlertSettings.webhook_urls.join('\n') }
+    : {}
 
   // Group health checks by URL
   const healthByUrl = new Map<string, HealthCheck[]>()
@@ -44,14 +96,22 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
     healthByUrl.set(check.url, existing)
   }
 
+  // Hourly latency chart per target, in target order
+  const summaryByUrl = new Map(healthSummaries.map(summary => [summary.url, summary]))
+  const latencyChartConfigs = `[${healthTargets.map(target => {
+    const hours = summaryByUrl.get(target.url)?.hourly_latency ?? []
+    return latencyChartConfig(hours.map(h => formatBucketLabel(h.hour, 'hour')), hours.map(h => h.p50), hours.map(h => h.p95))
+  }).join(',')}]`
+
   const content = `
-  ${header({ currentView: 'app', currentApp: appId, apps, brand })}
+  ${header({ currentView: 'app', currentApp: appId, apps, brand, user })}
 
   <main class="max-w-7xl mx-auto px-6 py-6" x-data="appDetailState()">
     <!-- App Header -->
     <div class="mb-6">
       <h2 class="text-2xl font-bold">${escapeHtml(appName)}</h2>
       ${appName !== appId ? `<div class="text-sm text-gray-500">${escapeHtml(appId)}</div>` : ''}
+      ${metadataSummary(metadata)}
     </div>
 
     <!-- Stats Cards (7 day totals) -->
@@ -63,15 +123,23 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
     </div>
 
     <!-- Stats Chart -->
-    <div class="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6">
-      <h3 class="font-medium mb-4">Log Activity (7 days)</h3>
+    <div class="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6" x-data="{ granularity: 'day' }">
+      <div class="flex items-center justify-between mb-4">
+        <h3 class="font-medium">Log Activity</h3>
+        <div class="flex gap-1 text-xs">
+          ${[['day', '7 days'], ['hour', '48 hours'], ['minute', '60 minutes (UTC)']].map(([granularity, label]) => `
+          <button @click="granularity = '${granularity}'; showStatsChart('${granularity}')"
+                  :class="granularity === '${granularity}' ? 'bg-gray-700 text-gray-100' : 'text-gray-400 hover:text-gray-200'"
+                  class="px-2 py-1 rounded">${label}</button>`).join('')}
+        </div>
+      </div>
       <div class="h-64">
         <canvas id="statsChart"></canvas>
       </div>
     </div>
 
     <!-- Health Checks -->
-    ${healthUrls.length > 0 ? `
+    ${healthTargets.length > 0 ? `
     <div class="bg-gray-800 rounded-lg border border-gray-700 mb-6 overflow-hidden">
       <div class="px-4 py-3 border-b border-gray-700">
         <h3 class="font-medium">Health Checks</h3>
@@ -82,25 +150,54 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
             <tr class="text-left text-gray-400 border-b border-gray-700">
               <th class="px-4 py-3">URL</th>
               <th class="px-4 py-3">Status</th>
-              <th class="px-4 py-3 text-right">Latency</th>
+              <th class="px-4 py-3 text-right" title="Percent of checks that passed">Uptime 24h / 7d / 30d</th>
+              <th class="px-4 py-3 text-right" title="Last 24 hours">Latency p50 / p95 / p99</th>
+              <th class="px-4 py-3 text-right">Incidents 30d</th>
+              <th class="px-4 py-3 text-right">Every</th>
               <th class="px-4 py-3">Last Check</th>
             </tr>
           </thead>
           <tbody class="divide-y divide-gray-700">
-            ${healthUrls.map(url => {
-              const checks = healthByUrl.get(url) || []
+            ${healthTargets.map((target, index) => {
+              const checks = healthByUrl.get(target.url) || []
+              const summary = summaryByUrl.get(target.url)
               const status = determineHealthStatus(checks)
               const lastCheck = checks[0]
-              const avgLatency = checks.length > 0
-                ? Math.round(checks.reduce((sum, c) => sum + c.latency_ms, 0) / checks.length)
-                : null
+              const latency = summary?.latency_ms
+              const lastIncident = summary?.recent_incidents[0]
+              const interval = target.interval_seconds % 60 === 0 ? `${target.interval_seconds / 60}m` : `${target.interval_seconds}s`
               return `
               <tr class="hover:bg-gray-750">
-                <td class="px-4 py-3 font-mono text-xs text-gray-300">${escapeHtml(url)}</td>
-                <td class="px-4 py-3">${formatHealthStatus(status)}</td>
-                <td class="px-4 py-3 text-right text-gray-400">${avgLatency !== null ? avgLatency + 'ms' : '-'}</td>
+                <td class="px-4 py-3 font-mono text-xs text-gray-300"><span class="text-gray-500">${target.method}</span> ${escapeHtml(target.url)}</td>
+                <td class="px-4 py-3">
+                  ${formatHealthStatus(status)}
+                  ${summary?.flapping ? '<div class="text-xs text-yellow-400" title="Changing state often; alerts are paused until it settles">Flapping</div>' : ''}
+                </td>
+                <td class="px-4 py-3 text-right text-gray-400">${summary ? `${formatUptime(summary.uptime['24h'])} / ${formatUptime(summary.uptime['7d'])} / ${formatUptime(summary.uptime['30d'])}` : '-'}</td>
+                <td class="px-4 py-3 text-right text-gray-400">${latency && latency.p50 !== null ? `${latency.p50} / ${latency.p95} / ${latency.p99}ms` : '-'}</td>
+                <td class="px-4 py-3 text-right ${summary?.incidents['30d'] ? 'text-red-400' : 'text-gray-400'}">${summary?.incidents['30d'] ?? 0}</td>
+                <td class="px-4 py-3 text-right text-gray-400">${interval}</td>
                 <td class="px-4 py-3 text-gray-500 text-xs">
                   ${lastCheck ? new Date(lastCheck.checked_at).toLocaleString() : 'Never'}
+                  ${lastCheck?.error ? `<div class="text-red-400">${escapeHtml(lastCheck.error)}</div>` : ''}
+                </td>
+              </tr>
+              <tr>
+                <td colspan="7" class="px-4 pb-4">
+                  <div class="grid md:grid-cols-2 gap-4 items-end">
+                    <div>
+                      <div class="text-xs text-gray-500 mb-1">Uptime, last 30 days</div>
+                      ${uptimeBars(summary?.daily ?? [])}
+                      <div class="text-xs text-gray-500 mt-1">
+                        ${lastIncident
+                          ? `Last incident ${new Date(lastIncident.started_at).toLocaleString()}, ${lastIncident.ended_at ? `lasted ${formatDuration(lastIncident.duration_ms)}` : `ongoing for ${formatDuration(lastIncident.duration_ms)}`}${lastIncident.error ? `: ${escapeHtml(lastIncident.error)}` : ''}`
+                          : 'No incidents'}
+                      </div>
+                    </div>
+                    <div class="h-28">
+                      <canvas id="latencyChart-${index}"></canvas>
+                    </div>
+                  </div>
                 </td>
               </tr>`
             }).join('')}
@@ -110,6 +207,59 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
     </div>
     ` : ''}
 
+    <!-- Heartbeats -->
+    ${heartbeats.length > 0 ? `
+    <div class="bg-gray-800 rounded-lg border border-gray-700 mb-6 overflow-hidden">
+      <div class="px-4 py-3 border-b border-gray-700">
+        <h3 class="font-medium">Heartbeats</h3>
+      </div>
+      <div class="overflow-x-auto">
+        <table class="w-full text-sm">
+          <thead class="bg-gray-750">
+            <tr class="text-left text-gray-400 border-b border-gray-700">
+              <th class="px-4 py-3">Name</th>
+              <th class="px-4 py-3">Status</th>
+              <th class="px-4 py-3 text-right" title="Expected period, then how long it may be late before it's missing">Every / Grace</th>
+              <th class="px-4 py-3">Last Ping</th>
+              <th class="px-4 py-3">Next Due</th>
+              ${canOperate ? '<th class="px-4 py-3"></th>' : ''}
+            </tr>
+          </thead>
+          <tbody class="divide-y divide-gray-700">
+            ${heartbeats.map(monitor => `
+              <tr class="hover:bg-gray-750">
+                <td class="px-4 py-3 text-gray-300">
+                  ${escapeHtml(monitor.name)}
+                  ${monitor.token ? `<div class="font-mono text-xs text-gray-500">POST /heartbeat/${escapeHtml(monitor.token)}</div>` : ''}
+                </td>
+                <td class="px-4 py-3">
+                  ${formatHealthStatus(heartbeatHealthStatus(monitor.state))}
+                  ${monitor.state === 'late' || monitor.state === 'missing' || monitor.state === 'failed'
+                    ? `<div class="text-xs ${monitor.state === 'late' ? 'text-yellow-400' : 'text-red-400'}">${monitor.state === 'failed' ? 'Last run failed' : monitor.state === 'late' ? 'Late' : 'Missing'}</div>`
+                    : monitor.started_at ? '<div class="text-xs text-blue-400">Running</div>' : ''}
+                </td>
+                <td class="px-4 py-3 text-right text-gray-400">${formatDuration(monitor.period_seconds * 1000)} / ${formatDuration(monitor.grace_seconds * 1000)}</td>
+                <td class="px-4 py-3 text-gray-500 text-xs">
+                  ${monitor.last_ping_at ? new Date(monitor.last_ping_at).toLocaleString() : 'Never'}
+                  ${monitor.last_duration_ms !== null ? `<div>Took ${formatDuration(monitor.last_duration_ms)}</div>` : ''}
+                </td>
+                <td class="px-4 py-3 text-gray-500 text-xs">${monitor.last_ping_at ? new Date(monitor.next_due_at).toLocaleString() : 'After the first ping'}</td>
+                ${canOperate ? `<td class="px-4 py-3 text-right"><button @click="deleteHeartbeat('${monitor.id}')" class="text-xs text-red-400 hover:text-red-300">Delete</button></td>` : ''}
+              </tr>`).join('')}
+          </tbody>
+        </table>
+      </div>
+    </div>
+    ` : ''}
+
+    <!-- Tabs -->
+    <div class="flex gap-1 mb-4 border-b border-gray-700">
+      <button @click="setTab('logs')" :class="tab === 'logs' ? 'border-blue-500 text-gray-100' : 'border-transparent text-gray-400 hover:text-gray-200'" class="px-4 py-2 text-sm border-b-2 -mb-px">Logs</button>
+      <button @click="setTab('issues')" :class="tab === 'issues' ? 'border-blue-500 text-gray-100' : 'border-transparent text-gray-400 hover:text-gray-200'" class="px-4 py-2 text-sm border-b-2 -mb-px">Issues</button>
+      ${canOperate ? `<button @click="setTab('settings')" :class="tab === 'settings' ? 'border-blue-500 text-gray-100' : 'border-transparent text-gray-400 hover:text-gray-200'" class="px-4 py-2 text-sm border-b-2 -mb-px">Settings</button>` : ''}
+    </div>
+
+    <div x-show="tab === 'logs'">
     <!-- Filters -->
     <div class="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-4">
       <div class="flex flex-wrap items-start gap-4">
@@ -158,11 +308,34 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
 
         <!-- Search -->
         <div class="flex flex-col gap-1">
-          <label class="text-xs text-gray-400">Search</label>
-          <input type="text" x-model="filters.search" @input.debounce.300ms="applyFilters()" placeholder="Search messages..." class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm w-48">
+          <div class="flex items-center justify-between gap-2">
+            <label class="text-xs text-gray-400">Search</label>
+            <label class="flex items-center gap-1 text-xs text-gray-400">
+              <input type="checkbox" x-model="filters.advanced" @change="applyFilters()" class="rounded bg-gray-700 border-gray-600">
+              Advanced
+            </label>
+          </div>
+          <input x-show="!filters.advanced" type="text" x-model="filters.search" @input.debounce.300ms="applyFilters()" placeholder='"phrase", prefix*, OR, NOT...' title="Searches message and context. Supports &quot;phrases&quot;, prefix*, AND/OR/NOT, (grouping), message:term and context:term" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm w-56">
+          <input x-show="filters.advanced" x-cloak type="text" x-model="filters.query" @input.debounce.300ms="applyFilters()" placeholder="level:>=WARN context.status:>=500 since:-15m" title="Query language: level:>=WARN, context.status:>=500, context.path:/api/*, &quot;phrases&quot;, NOT, OR, (grouping), since:-15m" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm font-mono w-96">
+          <label x-show="!filters.advanced && filters.search" x-cloak class="flex items-center gap-1 text-xs text-gray-400">
+            <input type="checkbox" x-model="filters.relevance" @change="applyFilters()" class="rounded bg-gray-700 border-gray-600">
+            Sort by relevance
+          </label>
+          <span x-show="searchError" x-cloak class="text-xs text-red-400" x-text="searchError"></span>
+          <!-- Points at the part of the query a syntax error is about -->
+          <div x-show="filters.advanced && errorSpan" x-cloak class="text-xs font-mono text-gray-400 whitespace-pre">
+            <span x-text="errorSpan?.before"></span><span class="bg-red-900 text-red-300 underline" x-text="errorSpan?.at"></span><span x-text="errorSpan?.after"></span>
+          </div>
         </div>
       </div>
 
+      <!-- Issue Filter -->
+      <div x-show="filters.issueId" x-cloak class="mt-4 flex items-center gap-2 text-sm">
+        <span class="text-xs text-gray-400">Issue</span>
+        <span class="px-2 py-1 bg-gray-700 rounded text-red-400 truncate max-w-md" x-text="activeIssue ? activeIssue.title : filters.issueId"></span>
+        <button @click="clearIssueFilter()" class="text-gray-400 hover:text-red-400">&times;</button>
+      </div>
+
       <!-- Context Filters -->
       <div class="mt-4 pt-4 border-t border-gray-700">
         <div class="flex items-center gap-2 mb-2">
@@ -183,8 +356,9 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
       <div class="mt-4 pt-4 border-t border-gray-700 flex items-center gap-4">
         <button @click="clearFilters()" class="text-sm text-gray-400 hover:text-gray-200">Clear filters</button>
         <label class="flex items-center gap-2 text-sm text-gray-400">
-          <input type="checkbox" x-model="autoRefresh" @change="toggleAutoRefresh()" class="rounded bg-gray-700 border-gray-600">
-          Auto-refresh
+          <input type="checkbox" x-model="liveTail" @change="toggleLiveTail()" class="rounded bg-gray-700 border-gray-600">
+          Live tail
+          <span x-show="liveTail" x-cloak class="text-xs" :class="tailConnected ? 'text-green-400' : 'text-yellow-400'" x-text="tailConnected ? 'connected' : 'connecting...'"></span>
         </label>
         <button @click="loadLogs()" class="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 rounded flex items-center gap-1">
           <svg class="w-4 h-4" :class="{ 'animate-spin': loading }" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -229,7 +403,10 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
               <td class="px-4 py-2">
                 <span :class="'badge-' + log.level" class="px-2 py-0.5 rounded text-xs font-medium" x-text="log.level"></span>
               </td>
-              <td class="px-4 py-2 truncate max-w-md" :class="'log-' + log.level" x-text="log.message"></td>
+              <td class="px-4 py-2 truncate max-w-md" :class="'log-' + log.level">
+                <span x-show="log.snippet" x-html="highlight(log.snippet)"></span>
+                <span x-show="!log.snippet" x-text="log.message"></span>
+              </td>
               <td class="px-4 py-2 text-gray-500 text-xs truncate" x-text="log.context?.path || '-'"></td>
             </tr>
           </template>
@@ -242,16 +419,134 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
           Showing <span x-text="logs.length"></span> logs
         </div>
         <div class="flex gap-2">
-          <button @click="prevPage()" :disabled="offset === 0" class="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50 disabled:cursor-not-allowed">
+          <button @click="prevPage()" :disabled="page === 0" class="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50 disabled:cursor-not-allowed">
             Previous
           </button>
-          <button @click="nextPage()" :disabled="logs.length < limit" class="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50 disabled:cursor-not-allowed">
+          <button @click="nextPage()" :disabled="!hasMore" class="px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded disabled:opacity-50 disabled:cursor-not-allowed">
             Next
           </button>
         </div>
       </div>
     </div>
 
+    </div>
+
+    <!-- Issues -->
+    <div x-show="tab === 'issues'" x-cloak class="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div class="px-4 py-3 border-b border-gray-700 flex flex-wrap items-center gap-4">
+        <div class="flex gap-1">
+          <template x-for="status in ['open', 'resolved', 'ignored', '']" :key="status">
+            <button @click="issueStatus = status; loadIssues()" :class="issueStatus === status ? 'bg-gray-600' : 'bg-gray-700 hover:bg-gray-600'" class="px-3 py-1.5 text-sm rounded capitalize" x-text="status || 'all'"></button>
+          </template>
+        </div>
+        <select x-model="issueSort" @change="loadIssues()" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm">
+          <option value="last_seen">Last seen</option>
+          <option value="count">Most events</option>
+        </select>
+      </div>
+      <table class="w-full text-sm">
+        <thead class="bg-gray-750 border-b border-gray-700">
+          <tr class="text-left text-gray-400">
+            <th class="px-4 py-3">Issue</th>
+            <th class="px-4 py-3 w-24 text-right">Events</th>
+            <th class="px-4 py-3 w-44">First Seen</th>
+            <th class="px-4 py-3 w-44">Last Seen</th>
+            <th class="px-4 py-3 w-48"></th>
+          </tr>
+        </thead>
+        <tbody class="divide-y divide-gray-700">
+          <template x-for="issue in issues" :key="issue.id">
+            <tr class="hover:bg-gray-750">
+              <td class="px-4 py-2 max-w-md">
+                <button @click="viewIssueLogs(issue)" class="block w-full text-left truncate hover:underline" :class="'log-' + issue.level" x-text="issue.message"></button>
+                <div x-show="issue.culprit" class="text-xs text-gray-500 font-mono truncate" x-text="issue.culprit"></div>
+              </td>
+              <td class="px-4 py-2 text-right font-mono text-gray-300" x-text="issue.count.toLocaleString()"></td>
+              <td class="px-4 py-2 text-gray-400 font-mono text-xs" x-text="formatTimestamp(issue.first_seen)"></td>
+              <td class="px-4 py-2 text-gray-400 font-mono text-xs" x-text="formatTimestamp(issue.last_seen)"></td>
+              <td class="px-4 py-2 text-right text-xs whitespace-nowrap" x-show="CAN_OPERATE">
+                <button x-show="issue.status !== 'resolved'" @click="setIssueStatus(issue, 'resolved')" class="text-green-400 hover:text-green-300 mr-2">Resolve</button>
+                <button x-show="issue.status !== 'ignored'" @click="setIssueStatus(issue, 'ignored')" class="text-gray-400 hover:text-gray-200 mr-2">Ignore</button>
+                <button x-show="issue.status !== 'open'" @click="setIssueStatus(issue, 'open')" class="text-blue-400 hover:text-blue-300">Reopen</button>
+              </td>
+            </tr>
+          </template>
+          <tr x-show="issues.length === 0 && !issuesLoading">
+            <td colspan="5" class="px-4 py-8 text-center text-gray-500">No issues found</td>
+          </tr>
+          <tr x-show="issuesLoading">
+            <td colspan="5" class="px-4 py-8 text-center text-gray-500">Loading...</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+
+    ${canOperate ? `
+    <!-- Settings (operators) -->
+    <div x-show="tab === 'settings'" x-cloak class="grid md:grid-cols-2 gap-4">
+      <div class="bg-gray-800 rounded-lg border border-gray-700 p-4">
+        <h3 class="font-medium mb-2">Health Check URLs</h3>
+        <p class="text-xs text-gray-500 mb-2">One URL per line, or a JSON array of targets with method, headers, expected_status, body_assertion, timeout_ms and interval_seconds</p>
+        <textarea x-model="healthUrlsText" rows="5" class="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm font-mono"></textarea>
+        <div class="flex items-center gap-3 mt-2">
+          <button @click="saveHealthUrls()" class="px-3 py-1.5 text-sm rounded bg-blue-600 hover:bg-blue-700">Save</button>
+          <span class="text-xs text-gray-400" x-text="healthUrlsMessage"></span>
+        </div>
+      </div>
+      <div class="bg-gray-800 rounded-lg border border-gray-700 p-4">
+        <h3 class="font-medium mb-2">Health Alerts</h3>
+        <p class="text-xs text-gray-500 mb-2">State changes are logged and sent to these webhooks, one URL per line</p>
+        <div class="grid grid-cols-2 gap-2 text-sm mb-2">
+          <label class="text-gray-400">Down after failures
+            <input type="number" min="1" x-model.number="healthAlerts.failure_threshold" class="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1">
+          </label>
+          <label class="text-gray-400">Up after passes
+            <input type="number" min="1" x-model.number="healthAlerts.recovery_threshold" class="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1">
+          </label>
+          <label class="text-gray-400">Flapping at changes
+            <input type="number" min="2" x-model.number="healthAlerts.flap_threshold" class="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1">
+          </label>
+          <label class="text-gray-400">Within seconds
+            <input type="number" min="60" x-model.number="healthAlerts.flap_window_seconds" class="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1">
+          </label>
+        </div>
+        <textarea x-model="healthAlerts.webhooks" rows="3" placeholder="https://hooks.example.com/..." class="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm font-mono"></textarea>
+        <div class="flex items-center gap-3 mt-2">
+          <button @click="saveHealthAlerts()" class="px-3 py-1.5 text-sm rounded bg-blue-600 hover:bg-blue-700">Save</button>
+          <span class="text-xs text-gray-400" x-text="healthAlertsMessage"></span>
+        </div>
+      </div>
+      <div class="bg-gray-800 rounded-lg border border-gray-700 p-4">
+        <h3 class="font-medium mb-2">Heartbeat Monitors</h3>
+        <p class="text-xs text-gray-500 mb-2">Scheduled jobs ping their monitor's URL after each run; it goes late after the period and missing after the grace time too</p>
+        <div class="grid grid-cols-3 gap-2 text-sm mb-2">
+          <label class="text-gray-400">Name
+            <input type="text" x-model="newHeartbeat.name" placeholder="nightly-sync" class="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1">
+          </label>
+          <label class="text-gray-400">Every minutes
+            <input type="number" min="1" x-model.number="newHeartbeat.period_minutes" class="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1">
+          </label>
+          <label class="text-gray-400">Grace minutes
+            <input type="number" min="0" x-model.number="newHeartbeat.grace_minutes" class="w-full bg-gray-700 border border-gray-600 rounded px-2 py-1">
+          </label>
+        </div>
+        <div class="flex items-center gap-3 mt-2">
+          <button @click="createHeartbeat()" :disabled="!newHeartbeat.name" class="px-3 py-1.5 text-sm rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-50">Add</button>
+          <span class="text-xs text-gray-400" x-text="heartbeatMessage"></span>
+        </div>
+      </div>
+      <div class="bg-gray-800 rounded-lg border border-gray-700 p-4">
+        <h3 class="font-medium mb-2">Prune Logs</h3>
+        <p class="text-xs text-gray-500 mb-2">Delete every entry logged before this date</p>
+        <input type="date" x-model="pruneBefore" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm">
+        <div class="flex items-center gap-3 mt-2">
+          <button @click="prune()" :disabled="!pruneBefore" class="px-3 py-1.5 text-sm rounded bg-red-700 hover:bg-red-600 disabled:opacity-50">Prune</button>
+          <span class="text-xs text-gray-400" x-text="pruneMessage"></span>
+        </div>
+      </div>
+    </div>
+    ` : ''}
+
     <!-- Log Detail Modal -->
     <div x-show="selectedLog" x-cloak
          class="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
@@ -270,15 +565,37 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
 
   <script>
     const APP_ID = '${appId}';
+    const CAN_OPERATE = ${canOperate};
 
     function appDetailState() {
       return {
+        tab: 'logs',
         logs: [],
         loading: false,
+        issues: [],
+        issuesLoading: false,
+        issueStatus: 'open',
+        issueSort: 'last_seen',
+        activeIssue: null,
+        healthUrlsText: ${JSON.stringify(healthTargetsText).replace(/</g, '\\u003c')},
+        healthUrlsMessage: '',
+        healthAlerts: ${JSON.stringify(healthAlertsState).replace(/</g, '\\u003c')},
+        healthAlertsMessage: '',
+        newHeartbeat: { name: '', period_minutes: 60, grace_minutes: 5 },
+        heartbeatMessage: '',
+        pruneBefore: '',
+        pruneMessage: '',
+        searchError: '',
+        errorSpan: null,
         selectedLog: null,
-        autoRefresh: false,
-        autoRefreshInterval: null,
-        offset: 0,
+        liveTail: false,
+        tailSocket: null,
+        tailConnected: false,
+        // Cursor for each page visited so far ('' is the first page)
+        page: 0,
+        cursors: [''],
+        nextCursor: null,
+        hasMore: false,
         limit: 50,
         filters: {
           dateRange: '7d',
@@ -286,14 +603,31 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
           until: '',
           level: '',
           requestId: '',
+          issueId: '',
           search: '',
+          relevance: false,
+          advanced: false,
+          query: '',
           contextFilters: []
         },
 
         init() {
+          // Deep links: #issues opens the tab, #issue-<id> shows that issue's entries
+          if (location.hash === '#issues') {
+            this.setTab('issues');
+          } else if (location.hash.startsWith('#issue-')) {
+            this.filters.issueId = location.hash.slice('#issue-'.length);
+          }
           this.loadLogs();
         },
 
+        setTab(tab) {
+          this.tab = tab;
+          if (tab === 'issues') {
+            this.loadIssues();
+          }
+        },
+
         setLevel(level) {
           this.filters.level = level;
           this.applyFilters();
@@ -315,21 +649,45 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
             until: '',
             level: '',
             requestId: '',
+            issueId: '',
             search: '',
+            relevance: false,
+            advanced: this.filters.advanced,
+            query: '',
             contextFilters: []
           };
+          this.activeIssue = null;
           this.applyFilters();
         },
 
         applyFilters() {
-          this.offset = 0;
+          this.page = 0;
+          this.cursors = [''];
           this.loadLogs();
+          if (this.liveTail) {
+            this.connectTail();
+          }
         },
 
         buildQueryString() {
-          const params = new URLSearchParams();
+          const params = this.buildFilterParams();
           params.set('limit', this.limit);
-          params.set('offset', this.offset);
+          // Relevance order has no stable cursor, so it pages by offset
+          if (this.sortByRelevance()) {
+            params.set('sort', 'relevance');
+            params.set('offset', this.page * this.limit);
+          } else if (this.cursors[this.page]) {
+            params.set('cursor', this.cursors[this.page]);
+          }
+          return params.toString();
+        },
+
+        sortByRelevance() {
+          return Boolean(!this.filters.advanced && this.filters.search && this.filters.relevance);
+        },
+
+        buildFilterParams() {
+          const params = new URLSearchParams();
 
           if (this.filters.level) {
             params.set('level', this.filters.level);
@@ -355,7 +713,13 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
             params.set('request_id', this.filters.requestId);
           }
 
-          if (this.filters.search) {
+          if (this.filters.issueId) {
+            params.set('issue_id', this.filters.issueId);
+          }
+
+          if (this.filters.advanced) {
+            if (this.filters.query.trim()) params.set('q', this.filters.query);
+          } else if (this.filters.search) {
             params.set('search', this.filters.search);
           }
 
@@ -365,7 +729,7 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
             params.set('context.' + cf.key, cf.value);
           }
 
-          return params.toString();
+          return params;
         },
 
         async loadLogs() {
@@ -376,6 +740,13 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
             const data = await res.json();
             if (data.ok && data.data) {
               this.logs = data.data;
+              this.nextCursor = data.next_cursor || null;
+              this.hasMore = this.sortByRelevance() ? this.logs.length === this.limit : Boolean(this.nextCursor);
+              this.searchError = '';
+              this.errorSpan = null;
+            } else if (res.status === 400) {
+              this.searchError = data.error?.message || 'Invalid search';
+              this.errorSpan = this.queryErrorSpan(data.error?.details);
             }
           } catch (err) {
             console.error('Failed to load logs:', err);
@@ -384,43 +755,257 @@ export function appDetailPage(data: AppDetailData, apps: string[], brand: BrandC
           }
         },
 
-        toggleAutoRefresh() {
-          if (this.autoRefresh) {
-            this.autoRefreshInterval = setInterval(() => this.loadLogs(), 5000);
+        // Split the query around the position a syntax error reports
+        queryErrorSpan(details) {
+          if (!this.filters.advanced || typeof details?.position !== 'number') return null;
+          const query = this.filters.query;
+          const start = Math.min(details.position, query.length);
+          const end = Math.min(start + (details.length || 1), query.length);
+          return { before: query.slice(0, start), at: query.slice(start, end) || ' ', after: query.slice(end) };
+        },
+
+        toggleLiveTail() {
+          if (this.liveTail) {
+            this.connectTail();
           } else {
-            clearInterval(this.autoRefreshInterval);
-            this.autoRefreshInterval = null;
+            this.disconnectTail();
           }
         },
 
+        connectTail() {
+          this.disconnectTail();
+
+          // Date range doesn't apply to new entries
+          const params = this.buildFilterParams();
+          params.delete('since');
+          params.delete('until');
+
+          const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+          const socket = new WebSocket(protocol + '//' + location.host + '/dashboard/api/tail/' + APP_ID + '?' + params.toString());
+          this.tailSocket = socket;
+
+          socket.addEventListener('message', (event) => {
+            const message = JSON.parse(event.data);
+            if (message.type === 'ready') {
+              this.tailConnected = true;
+            } else if (message.type === 'logs' && this.page === 0) {
+              // Newest first, keep the page size stable
+              this.logs = message.data.slice().reverse().concat(this.logs).slice(0, this.limit);
+            }
+          });
+
+          socket.addEventListener('close', () => {
+            if (this.tailSocket !== socket) return;
+            this.tailConnected = false;
+            // Reconnect after a drop while live tail is still on
+            if (this.liveTail) {
+              setTimeout(() => {
+                if (this.liveTail && this.tailSocket === socket) this.connectTail();
+              }, 3000);
+            }
+          });
+        },
+
+        disconnectTail() {
+          if (this.tailSocket) {
+            const socket = this.tailSocket;
+            this.tailSocket = null;
+            socket.close();
+          }
+          this.tailConnected = false;
+        },
+
         prevPage() {
-          if (this.offset > 0) {
-            this.offset -= this.limit;
+          if (this.page > 0) {
+            this.page--;
             this.loadLogs();
           }
         },
 
         nextPage() {
-          this.offset += this.limit;
+          if (!this.hasMore) return;
+          this.cursors[this.page + 1] = this.nextCursor;
+          this.page++;
           this.loadLogs();
         },
 
+        async loadIssues() {
+          this.issuesLoading = true;
+          try {
+            const params = new URLSearchParams({ sort: this.issueSort, limit: 100 });
+            if (this.issueStatus) {
+              params.set('status', this.issueStatus);
+            }
+            const res = await fetch('/dashboard/api/issues/' + APP_ID + '?' + params.toString());
+            const data = await res.json();
+            if (data.ok && data.data) {
+              this.issues = data.data;
+            }
+          } catch (err) {
+            console.error('Failed to load issues:', err);
+          } finally {
+            this.issuesLoading = false;
+          }
+        },
+
+        async setIssueStatus(issue, status) {
+          try {
+            const res = await fetch('/dashboard/api/issues/' + APP_ID + '/' + issue.id, {
+              method: 'PATCH',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ status })
+            });
+            const data = await res.json();
+            if (data.ok) {
+              this.loadIssues();
+            }
+          } catch (err) {
+            console.error('Failed to update issue:', err);
+          }
+        },
+
+        async saveHealthUrls() {
+          let urls;
+          if (this.healthUrlsText.trim().startsWith('[')) {
+            try {
+              urls = JSON.parse(this.healthUrlsText);
+            } catch (err) {
+              this.healthUrlsMessage = 'Invalid JSON';
+              return;
+            }
+          } else {
+            urls = this.healthUrlsText.split('\\n').map(url => url.trim()).filter(Boolean);
+          }
+          try {
+            const res = await fetch('/dashboard/api/health-urls/' + APP_ID, {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ urls })
+            });
+            const data = await res.json();
+            this.healthUrlsMessage = data.ok ? 'Saved' : (data.error?.message || 'Failed to save');
+          } catch (err) {
+            this.healthUrlsMessage = 'Failed to save';
+          }
+        },
+
+        async saveHealthAlerts() {
+          const { webhooks, ...settings } = this.healthAlerts;
+          settings.webhook_urls = (webhooks || '').split('\\n').map(url => url.trim()).filter(Boolean);
+          try {
+            const res = await fetch('/dashboard/api/health-alerts/' + APP_ID, {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify(settings)
+            });
+            const data = await res.json();
+            this.healthAlertsMessage = data.ok ? 'Saved' : (data.error?.message || 'Failed to save');
+          } catch (err) {
+            this.healthAlertsMessage = 'Failed to save';
+          }
+        },
+
+        async createHeartbeat() {
+          try {
+            const res = await fetch('/dashboard/api/heartbeats/' + APP_ID, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({
+                name: this.newHeartbeat.name,
+                period_seconds: this.newHeartbeat.period_minutes * 60,
+                grace_seconds: this.newHeartbeat.grace_minutes * 60
+              })
+            });
+            const data = await res.json();
+            if (data.ok) {
+              location.reload();
+            } else {
+              this.heartbeatMessage = data.error?.message || 'Failed to add';
+            }
+          } catch (err) {
+            this.heartbeatMessage = 'Failed to add';
+          }
+        },
+
+        async deleteHeartbeat(monitorId) {
+          if (!confirm('Delete this heartbeat monitor and its pings?')) return;
+          try {
+            const res = await fetch('/dashboard/api/heartbeats/' + APP_ID + '/' + monitorId, { method: 'DELETE' });
+            const data = await res.json();
+            if (data.ok) location.reload();
+          } catch (err) {
+            console.error('Failed to delete heartbeat:', err);
+          }
+        },
+
+        async prune() {
+          if (!confirm('Delete all entries logged before ' + this.pruneBefore + '?')) return;
+          try {
+            const res = await fetch('/dashboard/api/prune/' + APP_ID, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ before: new Date(this.pruneBefore).toISOString() })
+            });
+            const data = await res.json();
+            this.pruneMessage = data.ok ? 'Deleted ' + data.data.deleted + ' entries' : (data.error?.message || 'Failed to prune');
+            if (data.ok) this.loadLogs();
+          } catch (err) {
+            this.pruneMessage = 'Failed to prune';
+          }
+        },
+
+        viewIssueLogs(issue) {
+          this.activeIssue = issue;
+          this.filters.issueId = issue.id;
+          this.tab = 'logs';
+          this.applyFilters();
+        },
+
+        clearIssueFilter() {
+          this.activeIssue = null;
+          this.filters.issueId = '';
+          this.applyFilters();
+        },
+
         showLog(log) {
           this.selectedLog = log;
         },
 
+        // Snippets are raw text with <mark> highlights: escape everything else
+        highlight(snippet) {
+          const div = document.createElement('div');
+          div.textContent = snippet || '';
+          return div.innerHTML
+            .replaceAll('&lt;mark&gt;', '<mark class="bg-yellow-500/30 text-inherit rounded">')
+            .replaceAll('&lt;/mark&gt;', '</mark>');
+        },
+
         formatTimestamp(ts) {
           return new Date(ts).toLocaleString();
         }
       }
     }
 
-    // Initialize chart
-    document.addEventListener('DOMContentLoaded', () => {
+    // Stats chart at each granularity; the daily one is shown first
+    const statsChartConfigs = ${chartConfigs};
+    let statsChart = null;
+
+    function showStatsChart(granularity) {
       const ctx = document.getElementById('statsChart');
-      if (ctx) {
-        new Chart(ctx, ${chartConfig});
-      }
+      if (!ctx) return;
+      if (statsChart) statsChart.destroy();
+      statsChart = new Chart(ctx, statsChartConfigs[granularity]);
+    }
+
+    // Hourly latency of each health check URL
+    const latencyChartConfigs = ${latencyChartConfigs};
+
+    document.addEventListener('DOMContentLoaded', () => {
+      showStatsChart('day');
+      latencyChartConfigs.forEach((config, index) => {
+        const ctx = document.getElementById('latencyChart-' + index);
+        if (ctx) new Chart(ctx, config);
+      });
     });
   </script>`
 
@@ -0,0 +1,137 @@
+/**
+ * Audit log page - administrative actions across all apps (admins only)
+ */
+
+import { htmlDocument, header } from '../components/layout'
+import { escapeHtml } from '../styles'
+import type { BrandConfig } from '../brand'
+import { DEFAULT_BRAND_CONFIG } from '../brand'
+import type { SessionUser } from '../auth'
+
+export function auditPage(apps: string[], brand: BrandConfig = DEFAULT_BRAND_CONFIG, user?: SessionUser): string {
+  const content = `
+  ${header({ currentView: 'audit', apps, brand, user })}
+
+  <main class="max-w-7xl mx-auto px-6 py-6" x-data="auditState()" x-init="load()">
+    <div class="flex flex-wrap items-center gap-3 mb-4">
+      <h1 class="text-xl font-medium mr-auto">Audit Log</h1>
+      <select x-model="appId" @change="load()" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm">
+        <option value="">All apps</option>
+        ${apps.map(app => `<option value="${escapeHtml(app)}">${escapeHtml(app)}</option>`).join('')}
+      </select>
+      <select x-model="action" @change="load()" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm">
+        <option value="">All actions</option>
+        <option value="app.">Apps</option>
+        <option value="key.">API keys</option>
+        <option value="user.">Users</option>
+        <option value="dashboard.">Dashboard logins</option>
+        <option value="issue.">Issues</option>
+      </select>
+      <input type="text" x-model="actorId" @keydown.enter="load()" placeholder="Actor (username, key id)"
+             class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm">
+    </div>
+
+    <div class="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
+      <div class="overflow-x-auto">
+        <table class="w-full text-sm">
+          <thead class="bg-gray-750">
+            <tr class="text-left text-gray-400 border-b border-gray-700">
+              <th class="px-4 py-3 w-44">Time</th>
+              <th class="px-4 py-3">Actor</th>
+              <th class="px-4 py-3">Action</th>
+              <th class="px-4 py-3">App</th>
+              <th class="px-4 py-3">Request</th>
+            </tr>
+          </thead>
+          <tbody class="divide-y divide-gray-700">
+            <template x-for="entry in entries" :key="entry.id">
+              <tr class="hover:bg-gray-750 cursor-pointer" @click="selected = entry">
+                <td class="px-4 py-2 text-gray-400 font-mono text-xs" x-text="new Date(entry.timestamp).toLocaleString()"></td>
+                <td class="px-4 py-2">
+                  <span class="text-gray-300" x-text="entry.actor.id || entry.actor.type.replace('_', ' ')"></span>
+                  <span x-show="entry.actor.id" class="text-xs text-gray-500" x-text="entry.actor.type.replace('_', ' ')"></span>
+                </td>
+                <td class="px-4 py-2 font-mono text-xs" :class="entry.action.endsWith('_failed') ? 'text-red-400' : 'text-gray-200'" x-text="entry.action"></td>
+                <td class="px-4 py-2 text-xs text-gray-400" x-text="entry.app_id || '-'"></td>
+                <td class="px-4 py-2 text-xs text-gray-500 font-mono truncate max-w-xs" x-text="entry.request.method + ' ' + entry.request.path + (entry.request.ip ? ' · ' + entry.request.ip : '')"></td>
+              </tr>
+            </template>
+          </tbody>
+        </table>
+      </div>
+      <div x-show="!loading && entries.length === 0" class="px-4 py-8 text-center text-gray-500">No audit entries</div>
+      <div x-show="error" class="px-4 py-3 text-sm text-red-400" x-text="error"></div>
+      <div x-show="nextCursor" class="px-4 py-3 border-t border-gray-700 text-center">
+        <button @click="load(true)" :disabled="loading" class="text-sm text-blue-400 hover:text-blue-300">Load more</button>
+      </div>
+    </div>
+
+    <!-- Entry Detail Modal -->
+    <div x-show="selected" x-cloak
+         class="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50"
+         @click.self="selected = null">
+      <div class="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-hidden" @click.stop>
+        <div class="flex items-center justify-between px-4 py-3 border-b border-gray-700">
+          <h3 class="font-medium font-mono" x-text="selected?.action"></h3>
+          <button @click="selected = null" class="text-gray-400 hover:text-gray-200">&times;</button>
+        </div>
+        <div class="p-4 overflow-auto max-h-[calc(80vh-60px)] grid md:grid-cols-2 gap-4">
+          <div>
+            <div class="text-xs text-gray-500 mb-1">Before</div>
+            <pre class="text-xs whitespace-pre-wrap text-gray-300" x-text="JSON.stringify(selected?.before, null, 2)"></pre>
+          </div>
+          <div>
+            <div class="text-xs text-gray-500 mb-1">After</div>
+            <pre class="text-xs whitespace-pre-wrap text-gray-300" x-text="JSON.stringify(selected?.after, null, 2)"></pre>
+          </div>
+          <div class="md:col-span-2">
+            <div class="text-xs text-gray-500 mb-1">Request</div>
+            <pre class="text-xs whitespace-pre-wrap text-gray-300" x-text="JSON.stringify(selected?.request, null, 2)"></pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  </main>
+
+  <script>
+    function auditState() {
+      return {
+        entries: [],
+        nextCursor: null,
+        loading: false,
+        error: '',
+        appId: '',
+        action: '',
+        actorId: '',
+        selected: null,
+
+        async load(more = false) {
+          this.loading = true;
+          this.error = '';
+          const params = new URLSearchParams({ limit: '100' });
+          if (this.appId) params.set('app_id', this.appId);
+          if (this.action) params.set('action', this.action);
+          if (this.actorId.trim()) params.set('actor_id', this.actorId.trim());
+          if (more && this.nextCursor) params.set('cursor', this.nextCursor);
+
+          try {
+            const res = await fetch('/dashboard/api/audit?' + params);
+            const data = await res.json();
+            if (!data.ok) {
+              this.error = data.error?.message || 'Failed to load audit log';
+              return;
+            }
+            this.entries = more ? this.entries.concat(data.data.entries) : data.data.entries;
+            this.nextCursor = data.data.next_cursor;
+          } catch (err) {
+            this.error = 'Failed to load audit log';
+          } finally {
+            this.loading = false;
+          }
+        }
+      }
+    }
+  </script>`
+
+  return htmlDocument(content, { title: 'Worker Logs - Audit Log', brand })
+}
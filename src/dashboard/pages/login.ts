@@ -21,14 +21,23 @@ export function loginPage(error?: string, brand: BrandConfig = DEFAULT_BRAND_CON
       </div>
       ${errorHtml}
       <form method="POST" action="/dashboard/login">
-        <label class="block mb-2 text-sm text-gray-400">Admin Key</label>
+        <label class="block mb-2 text-sm text-gray-400">Username</label>
+        <input
+          type="text"
+          name="username"
+          autocomplete="username"
+          class="w-full px-4 py-2 mb-4 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
+          placeholder="Leave empty to sign in with the admin key"
+          autofocus
+        />
+        <label class="block mb-2 text-sm text-gray-400">Password</label>
         <input
           type="password"
-          name="admin_key"
+          name="password"
+          autocomplete="current-password"
           class="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded focus:outline-none focus:border-blue-500"
-          placeholder="Enter admin key"
+          placeholder="Password or admin key"
           required
-          autofocus
         />
         <button
           type="submit"
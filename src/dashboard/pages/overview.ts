@@ -5,12 +5,92 @@
 import { htmlDocument, header, statsCard } from '../components/layout'
 import { sparkline, formatTrend, formatHealthStatus, dailyStatsChartConfig } from '../components/charts'
 import { escapeHtml, styles } from '../styles'
-import type { OverviewResponse } from '../types'
+import type { OverviewResponse, AppSummary } from '../types'
+import type { AppFilters } from '../../types'
 import type { BrandConfig } from '../brand'
 import { DEFAULT_BRAND_CONFIG } from '../brand'
+import type { SessionUser } from '../auth'
+import { groupApps, type AppGrouping } from '../../services/app-metadata'
 
-export function overviewPage(data: OverviewResponse, apps: string[], brand: BrandConfig = DEFAULT_BRAND_CONFIG): string {
-  const { totals, apps: appSummaries, recent_errors } = data
+/**
+ * Filters and grouping chosen on the overview page
+ */
+export interface OverviewView {
+  filters: AppFilters
+  group: AppGrouping | null
+}
+
+const GROUP_LABELS: Record<AppGrouping, string> = { team: 'Team', environment: 'Environment', tag: 'Tag' }
+
+/**
+ * A select that submits the filter form when changed
+ */
+function filterSelect(name: string, label: string, values: string[], selected: string | null | undefined): string {
+  return `
+      <select name="${name}" onchange="this.form.submit()" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm">
+        <option value="">${label}</option>
+        ${values.map(value => `<option value="${escapeHtml(value)}"${value === selected ? ' selected' : ''}>${escapeHtml(value)}</option>`).join('')}
+      </select>`
+}
+
+/**
+ * One row of the app health table
+ */
+function appRow(app: AppSummary): string {
+  return `
+            <tr class="hover:bg-gray-750">
+              <td class="px-4 py-3">
+                <a href="/dashboard/app/${app.id}" class="text-blue-400 hover:text-blue-300 font-medium">${escapeHtml(app.name)}</a>
+                ${app.name !== app.id ? `<div class="text-xs text-gray-500">${escapeHtml(app.id)}</div>` : ''}
+                ${app.environment || app.tags.length > 0 ? `
+                <div class="flex flex-wrap gap-1 mt-1">
+                  ${app.environment ? `<span class="px-1.5 rounded text-xs ${app.environment === 'prod' ? 'bg-red-900/50 text-red-300' : 'bg-gray-700 text-gray-300'}">${escapeHtml(app.environment)}</span>` : ''}
+                  ${app.tags.map(tag => `<span class="px-1.5 rounded-full text-xs bg-gray-700 text-gray-400">${escapeHtml(tag)}</span>`).join('')}
+                </div>` : ''}
+              </td>
+              <td class="px-4 py-3 text-gray-400 text-xs">${app.team ? escapeHtml(app.team) : '-'}</td>
+              <td class="px-4 py-3 text-right font-mono ${app.today_stats.error > 0 ? 'text-red-400' : 'text-gray-400'}">
+                ${app.today_stats.error}
+              </td>
+              <td class="px-4 py-3">
+                <div class="w-24 h-6 text-red-400" title="Errors per hour, last 24 hours">
+                  ${sparkline(app.hourly_errors, { width: 96, height: 24, showArea: true })}
+                </div>
+              </td>
+              <td class="px-4 py-3 text-center">
+                ${formatTrend(app.today_stats.error, app.yesterday_stats.error)}
+              </td>
+              <td class="px-4 py-3">
+                ${formatHealthStatus(app.health_status)}
+              </td>
+              <td class="px-4 py-3 text-gray-400 text-xs max-w-xs truncate">
+                ${app.last_error ? `
+                  <span title="${escapeHtml(app.last_error.message)}">${escapeHtml(app.last_error.message.substring(0, 50))}${app.last_error.message.length > 50 ? '...' : ''}</span>
+                ` : '-'}
+              </td>
+              <td class="px-4 py-3">
+                <a href="/dashboard/app/${app.id}" class="text-gray-400 hover:text-gray-200">
+                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7"/>
+                  </svg>
+                </a>
+              </td>
+            </tr>`
+}
+
+export function overviewPage(
+  data: OverviewResponse,
+  apps: string[],
+  brand: BrandConfig = DEFAULT_BRAND_CONFIG,
+  user?: SessionUser,
+  view: OverviewView = { filters: {}, group: null }
+): string {
+  const { totals, apps: appSummaries, recent_issues, filter_options } = data
+  const { filters, group } = view
+  const filtered = Object.keys(filters).length > 0
+  const groups = group
+    ? groupApps(appSummaries, group)
+    : [{ key: null, apps: appSummaries }]
 
   const totalErrors = totals.today.error
   const appsWithErrors = appSummaries.filter(a => a.today_stats.error > 0).length
@@ -23,7 +103,7 @@ export function overviewPage(data: OverviewResponse, apps: string[], brand: Bran
   ]
 
   const content = `
-  ${header({ currentView: 'overview', apps, brand })}
+  ${header({ currentView: 'overview', apps, brand, user })}
 
   <main class="max-w-7xl mx-auto px-6 py-6" x-data="overviewState()">
     <!-- Error Summary Cards -->
@@ -37,7 +117,17 @@ export function overviewPage(data: OverviewResponse, apps: string[], brand: Bran
     <!-- App Health Table -->
     <div class="bg-gray-800 rounded-lg border border-gray-700 mb-6 overflow-hidden">
       <div class="px-4 py-3 border-b border-gray-700 flex items-center justify-between">
-        <h2 class="font-medium">App Health Summary</h2>
+        <h2 class="font-medium mr-auto">App Health Summary</h2>
+        <form method="get" action="/dashboard" class="flex flex-wrap items-center gap-2 mr-4">
+          ${filterSelect('team', 'All teams', filter_options.teams, filters.team)}
+          ${filterSelect('environment', 'All environments', filter_options.environments, filters.environment)}
+          ${filterSelect('tag', 'All tags', filter_options.tags, filters.tag)}
+          <select name="group" onchange="this.form.submit()" class="bg-gray-700 border border-gray-600 rounded px-3 py-1.5 text-sm">
+            <option value="">No grouping</option>
+            ${(Object.keys(GROUP_LABELS) as AppGrouping[]).map(by => `<option value="${by}"${by === group ? ' selected' : ''}>Group by ${GROUP_LABELS[by].toLowerCase()}</option>`).join('')}
+          </select>
+          ${filtered ? `<a href="/dashboard${group ? `?group=${group}` : ''}" class="text-sm text-gray-400 hover:text-gray-200">Clear</a>` : ''}
+        </form>
         <button @click="refreshData()" class="text-sm text-gray-400 hover:text-gray-200 flex items-center gap-1">
           <svg class="w-4 h-4" :class="{ 'animate-spin': loading }" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"/>
@@ -51,46 +141,33 @@ export function overviewPage(data: OverviewResponse, apps: string[], brand: Bran
           <thead class="bg-gray-750">
             <tr class="text-left text-gray-400 border-b border-gray-700">
               <th class="px-4 py-3">App</th>
+              <th class="px-4 py-3">Team</th>
               <th class="px-4 py-3 text-right">Errors (24h)</th>
+              <th class="px-4 py-3">Hourly</th>
               <th class="px-4 py-3 text-center">Trend</th>
               <th class="px-4 py-3">Status</th>
               <th class="px-4 py-3">Last Error</th>
               <th class="px-4 py-3 w-10"></th>
             </tr>
           </thead>
-          <tbody class="divide-y divide-gray-700">
-            ${appSummaries.map(app => `
-            <tr class="hover:bg-gray-750">
-              <td class="px-4 py-3">
-                <a href="/dashboard/app/${app.id}" class="text-blue-400 hover:text-blue-300 font-medium">${escapeHtml(app.name)}</a>
-                ${app.name !== app.id ? `<div class="text-xs text-gray-500">${escapeHtml(app.id)}</div>` : ''}
-              </td>
-              <td class="px-4 py-3 text-right font-mono ${app.today_stats.error > 0 ? 'text-red-400' : 'text-gray-400'}">
-                ${app.today_stats.error}
-              </td>
-              <td class="px-4 py-3 text-center">
-                ${formatTrend(app.today_stats.error, app.yesterday_stats.error)}
-              </td>
-              <td class="px-4 py-3">
-                ${formatHealthStatus(app.health_status)}
-              </td>
-              <td class="px-4 py-3 text-gray-400 text-xs max-w-xs truncate">
-                ${app.last_error ? `
-                  <span title="${escapeHtml(app.last_error.message)}">${escapeHtml(app.last_error.message.substring(0, 50))}${app.last_error.message.length > 50 ? '...' : ''}</span>
-                ` : '-'}
-              </td>
-              <td class="px-4 py-3">
-                <a href="/dashboard/app/${app.id}" class="text-gray-400 hover:text-gray-200">
-                  <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9 5l7 7-7 7"/>
-                  </svg>
-                </a>
+          ${groups.map(({ key, apps: members }) => `
+          <tbody class="divide-y divide-gray-700 border-b border-gray-700">
+            ${group ? `
+            <tr class="bg-gray-900/40">
+              <td colspan="8" class="px-4 py-2 text-xs font-medium text-gray-400">
+                ${key === null ? `No ${GROUP_LABELS[group].toLowerCase()}` : escapeHtml(key)}
+                <span class="text-gray-600">(${members.length})</span>
               </td>
-            </tr>
-            `).join('')}
+            </tr>` : ''}
+            ${members.map(appRow).join('')}
           </tbody>
+          `).join('')}
         </table>
       </div>
+      ` : filtered ? `
+      <div class="px-4 py-8 text-center text-gray-500">
+        No apps match these filters.
+      </div>
       ` : `
       <div class="px-4 py-8 text-center text-gray-500">
         No apps registered yet. Use the API to register your first app.
@@ -98,38 +175,43 @@ export function overviewPage(data: OverviewResponse, apps: string[], brand: Bran
       `}
     </div>
 
-    <!-- Recent Errors -->
+    <!-- Open Issues -->
     <div class="bg-gray-800 rounded-lg border border-gray-700 overflow-hidden">
       <div class="px-4 py-3 border-b border-gray-700">
-        <h2 class="font-medium">Recent Errors (All Apps)</h2>
+        <h2 class="font-medium">Open Issues (All Apps)</h2>
       </div>
-      ${recent_errors.length > 0 ? `
+      ${recent_issues.length > 0 ? `
       <div class="overflow-x-auto">
         <table class="w-full text-sm">
           <thead class="bg-gray-750">
             <tr class="text-left text-gray-400 border-b border-gray-700">
-              <th class="px-4 py-3 w-40">Timestamp</th>
+              <th class="px-4 py-3 w-40">Last Seen</th>
               <th class="px-4 py-3 w-32">App</th>
-              <th class="px-4 py-3">Message</th>
-              <th class="px-4 py-3 w-32">Path</th>
+              <th class="px-4 py-3">Issue</th>
+              <th class="px-4 py-3 w-24 text-right">Events</th>
+              <th class="px-4 py-3 w-40">First Seen</th>
             </tr>
           </thead>
           <tbody class="divide-y divide-gray-700">
-            ${recent_errors.map(error => `
-            <tr class="hover:bg-gray-750 cursor-pointer" @click="showError(${JSON.stringify(error).replace(/"/g, '&quot;')})">
+            ${recent_issues.map(issue => `
+            <tr class="hover:bg-gray-750 cursor-pointer" @click="showError(${JSON.stringify(issue).replace(/"/g, '&quot;')})">
               <td class="px-4 py-2 text-gray-400 font-mono text-xs">
-                ${new Date(error.timestamp).toLocaleString()}
+                ${new Date(issue.last_seen).toLocaleString()}
               </td>
               <td class="px-4 py-2">
-                <a href="/dashboard/app/${error.app_id}" class="text-blue-400 hover:text-blue-300 text-xs" @click.stop>
-                  ${escapeHtml(error.app_id)}
+                <a href="/dashboard/app/${issue.app_id}#issue-${issue.id}" class="text-blue-400 hover:text-blue-300 text-xs" @click.stop>
+                  ${escapeHtml(issue.app_id)}
                 </a>
               </td>
-              <td class="px-4 py-2 text-red-400 truncate max-w-md">
-                ${escapeHtml(error.message)}
+              <td class="px-4 py-2 truncate max-w-md">
+                <div class="${issue.level === 'WARN' ? 'text-yellow-400' : 'text-red-400'} truncate">${escapeHtml(issue.message)}</div>
+                ${issue.culprit ? `<div class="text-xs text-gray-500 font-mono truncate">${escapeHtml(issue.culprit)}</div>` : ''}
+              </td>
+              <td class="px-4 py-2 text-right font-mono text-gray-300">
+                ${issue.count.toLocaleString()}
               </td>
-              <td class="px-4 py-2 text-gray-500 text-xs truncate">
-                ${error.context?.path ? escapeHtml(String(error.context.path)) : '-'}
+              <td class="px-4 py-2 text-gray-500 font-mono text-xs">
+                ${new Date(issue.first_seen).toLocaleString()}
               </td>
             </tr>
             `).join('')}
@@ -138,7 +220,7 @@ export function overviewPage(data: OverviewResponse, apps: string[], brand: Bran
       </div>
       ` : `
       <div class="px-4 py-8 text-center text-gray-500">
-        No recent errors. Your apps are running smoothly!
+        No open issues. Your apps are running smoothly!
       </div>
       `}
     </div>
@@ -149,7 +231,7 @@ export function overviewPage(data: OverviewResponse, apps: string[], brand: Bran
          @click.self="selectedError = null">
       <div class="bg-gray-800 rounded-lg max-w-2xl w-full max-h-[80vh] overflow-hidden" @click.stop>
         <div class="flex items-center justify-between px-4 py-3 border-b border-gray-700">
-          <h3 class="font-medium">Error Details</h3>
+          <h3 class="font-medium">Issue Details</h3>
           <button @click="selectedError = null" class="text-gray-400 hover:text-gray-200">&times;</button>
         </div>
         <div class="p-4 overflow-auto max-h-[calc(80vh-60px)]">
@@ -0,0 +1,138 @@
+/**
+ * Public status page - apps on the page, their targets' uptime and incidents
+ */
+
+import { htmlDocument } from '../components/layout'
+import { formatUptime, uptimeBars } from '../components/charts'
+import { escapeHtml } from '../styles'
+import { formatDuration } from '../../services/health'
+import type { StatusApp, StatusLevel, StatusNote, StatusPage, StatusTarget } from '../../types'
+import type { BrandConfig } from '../brand'
+import { DEFAULT_BRAND_CONFIG } from '../brand'
+
+// Status page levels in the dashboard's status classes and colors
+const STATUS_CLASSES: Record<StatusLevel, 'healthy' | 'degraded' | 'down' | 'unknown'> = {
+  operational: 'healthy',
+  degraded: 'degraded',
+  outage: 'down',
+  unknown: 'unknown',
+}
+
+const STATUS_LABELS: Record<StatusLevel, string> = {
+  operational: 'Operational',
+  degraded: 'Degraded',
+  outage: 'Outage',
+  unknown: 'No data',
+}
+
+const SUMMARIES: Record<StatusLevel, string> = {
+  operational: 'All systems operational',
+  degraded: 'Some systems are degraded',
+  outage: 'Some systems are down',
+  unknown: 'No status yet',
+}
+
+/**
+ * A status label in its color
+ */
+function statusLabel(status: StatusLevel): string {
+  return `<span class="status-${STATUS_CLASSES[status]} text-sm">${STATUS_LABELS[status]}</span>`
+}
+
+/**
+ * An incident note with its progress
+ */
+function noteCard(note: StatusNote, appName: string): string {
+  return `
+      <div class="border-l-2 ${note.resolved_at ? 'border-gray-600' : 'border-yellow-400'} pl-3 py-1">
+        <div class="flex flex-wrap items-baseline gap-2">
+          <span class="font-medium">${escapeHtml(note.title)}</span>
+          <span class="text-xs uppercase tracking-wide ${note.resolved_at ? 'text-gray-500' : 'text-yellow-400'}">${escapeHtml(note.status)}</span>
+          <span class="text-xs text-gray-500">${escapeHtml(appName)}</span>
+        </div>
+        <p class="text-sm text-gray-300 whitespace-pre-line mt-1">${escapeHtml(note.message)}</p>
+        <div class="text-xs text-gray-500 mt-1">
+          Posted ${new Date(note.created_at).toUTCString()}${note.updated_at !== note.created_at ? `, updated ${new Date(note.updated_at).toUTCString()}` : ''}
+        </div>
+      </div>`
+}
+
+/**
+ * A target's status, uptime bars and recent incidents
+ */
+function targetRow(target: StatusTarget): string {
+  const incidents = target.incidents.map(incident => incident.ended_at
+    ? `Down ${formatDuration(incident.duration_ms)} from ${new Date(incident.started_at).toUTCString()}`
+    : `Failing for ${formatDuration(incident.duration_ms)}, since ${new Date(incident.started_at).toUTCString()}`)
+
+  return `
+        <div class="py-3">
+          <div class="flex items-center justify-between mb-2">
+            <span>${escapeHtml(target.label)}</span>
+            <span class="flex items-center gap-3">
+              <span class="text-xs text-gray-500">${formatUptime(target.uptime)} uptime</span>
+              ${statusLabel(target.status)}
+            </span>
+          </div>
+          ${uptimeBars(target.daily)}
+          <div class="flex justify-between text-xs text-gray-500 mt-1">
+            <span>${target.daily.length} days ago</span>
+            <span>Today</span>
+          </div>
+          ${incidents.length > 0 ? `<ul class="mt-2 text-xs text-gray-400 space-y-0.5">${incidents.map(text => `<li>${text}</li>`).join('')}</ul>` : ''}
+        </div>`
+}
+
+/**
+ * An app's card: its targets and resolved notes
+ */
+function appCard(app: StatusApp): string {
+  const resolved = app.notes.filter(note => note.resolved_at)
+  return `
+    <section class="bg-gray-800 rounded-lg border border-gray-700 px-4 py-2 mb-4">
+      <div class="flex items-center justify-between py-2 border-b border-gray-700">
+        <h2 class="font-medium text-lg">${escapeHtml(app.name)}</h2>
+        ${statusLabel(app.status)}
+      </div>
+      <div class="divide-y divide-gray-700">
+        ${app.targets.length > 0 ? app.targets.map(targetRow).join('') : '<div class="py-3 text-sm text-gray-500">No checks yet</div>'}
+      </div>
+      ${resolved.length > 0 ? `
+      <div class="border-t border-gray-700 py-3 space-y-3">
+        <h3 class="text-sm text-gray-400">Recently resolved</h3>
+        ${resolved.map(note => noteCard(note, app.name)).join('')}
+      </div>` : ''}
+    </section>`
+}
+
+export function statusPage(page: StatusPage, brand: BrandConfig = DEFAULT_BRAND_CONFIG): string {
+  const active = page.apps.flatMap(app => app.notes.filter(note => !note.resolved_at).map(note => noteCard(note, app.name)))
+
+  const content = `
+  <main class="max-w-3xl mx-auto px-6 py-10">
+    <header class="flex items-center gap-3 mb-8">
+      <img src="${escapeHtml(brand.logoUrl)}" alt="${escapeHtml(brand.name)}" class="header-logo">
+      <span class="text-lg font-medium" style="color: var(--text-secondary);">Status</span>
+    </header>
+
+    <div class="brand-card rounded-lg p-5 mb-6 flex items-center gap-3">
+      <span class="w-3 h-3 rounded-full bg-current status-${STATUS_CLASSES[page.status]}"></span>
+      <span class="text-xl font-medium">${SUMMARIES[page.status]}</span>
+    </div>
+
+    ${active.length > 0 ? `
+    <section class="bg-gray-800 rounded-lg border border-gray-700 p-4 mb-6 space-y-3">
+      <h2 class="font-medium">Active incidents</h2>
+      ${active.join('')}
+    </section>` : ''}
+
+    ${page.apps.map(appCard).join('')}
+
+    <footer class="text-xs text-gray-500 flex justify-between mt-6">
+      <span>Updated ${new Date(page.updated_at).toUTCString()}</span>
+      <a href="/status.json" class="text-blue-400 hover:text-blue-300">JSON</a>
+    </footer>
+  </main>`
+
+  return htmlDocument(content, { title: `${escapeHtml(brand.name)} Status`, brand })
+}
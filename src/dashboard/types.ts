@@ -2,7 +2,7 @@
  * Dashboard-specific type definitions
  */
 
-import type { DailyStats, LogEntry } from '../types'
+import type { AppEnvironment, DailyStats, Issue } from '../types'
 
 /**
  * App summary for the overview page
@@ -10,8 +10,12 @@ import type { DailyStats, LogEntry } from '../types'
 export interface AppSummary {
   id: string
   name: string
+  team: string | null
+  environment: AppEnvironment | null
+  tags: string[]
   today_stats: DailyStats
   yesterday_stats: DailyStats
+  hourly_errors: number[] // Errors per hour over the last 24 hours, oldest first
   error_trend: 'up' | 'down' | 'stable'
   health_status: 'healthy' | 'degraded' | 'down' | 'unknown'
   last_error?: {
@@ -29,5 +33,11 @@ export interface OverviewResponse {
     today: { debug: number; info: number; warn: number; error: number }
     yesterday: { debug: number; info: number; warn: number; error: number }
   }
-  recent_errors: Array<LogEntry & { app_id: string }>
+  recent_issues: Array<Issue & { app_id: string }>
+  // Values in use across the user's apps, for the filter controls
+  filter_options: {
+    teams: string[]
+    environments: AppEnvironment[]
+    tags: string[]
+  }
 }
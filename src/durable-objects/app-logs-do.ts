@@ -5,11 +5,92 @@ import type {
   LogLevel,
   LogEntry,
   LogInput,
+  TimedLogInput,
+  LogPage,
   QueryFilters,
   HealthCheck,
+  HealthTarget,
+  HealthIncident,
+  HealthSummary,
+  HealthAlertSettings,
+  HealthAlertState,
+  HealthState,
+  UptimeWindow,
   PruneResult,
   DailyStats,
+  StatsBucket,
+  AggregateGroup,
+  AggregateResult,
+  RetentionPolicy,
+  RetentionRun,
+  RetentionStatus,
+  AlertRule,
+  AlertRuleInput,
+  AlertFiring,
+  Issue,
+  IssueSettings,
+  IssueStatus,
+  ArchiveManifest,
+  HeartbeatInput,
+  HeartbeatMonitor,
+  HeartbeatPing,
+  HeartbeatState,
+  StatusNote,
+  StatusNoteInput,
+  StatusTarget,
 } from '../types'
+import { HeartbeatStatus, StatusNoteStatus } from '../types'
+import { retentionCutoffs } from '../services/retention'
+import { parseQueryFilters, matchesFilters, encodeCursor, decodeCursor, jsonPath } from '../services/filters'
+import { buildAlertPayload } from '../services/alerts'
+import { sendWebhook } from '../services/webhooks'
+import { toFtsQuery } from '../services/search'
+import { parseQuery, compileQuery } from '../services/query-language'
+import { fingerprintEntry } from '../services/issues'
+import { STATS_BUCKETS, bucketStart, parseStatsQuery } from '../services/stats'
+import { parseAggregateOptions, parseAggregateParams, type AggregateSpec, type GroupBy } from '../services/aggregate'
+import {
+  parseHealthTargets,
+  healthSecrets,
+  resolveHealthHeaders,
+  checkHealthResponse,
+  UPTIME_WINDOWS,
+  uptimePercent,
+  percentile,
+  DEFAULT_HEALTH_ALERT_SETTINGS,
+  initialHealthAlertState,
+  applyHealthCheck,
+  healthAlertEvents,
+  describeHealthAlert,
+  buildHealthAlertPayload,
+  type HealthAlertEvent,
+  type HealthAlertUpdate,
+} from '../services/health'
+import { heartbeatState, nextHeartbeatDeadline, describeHeartbeatChange } from '../services/heartbeats'
+import { STATUS_PAGE_DAYS, STATUS_RECENT_MS, targetStatus } from '../services/status-page'
+import { getApp } from '../services/registry'
+
+/**
+ * Background jobs multiplexed onto the single DO alarm
+ */
+type AlarmJob = 'health' | 'heartbeat' | 'retention' | 'search_backfill'
+
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000
+const SEARCH_BACKFILL_INTERVAL_MS = 10 * 1000
+const SEARCH_BACKFILL_BATCH_SIZE = 5000
+// Delay before the first run of a newly enabled job
+const FIRST_RUN_DELAY_MS = 60 * 1000
+// Raw health checks are kept this long (and at least the last HEALTH_CHECK_MIN_ROWS per URL);
+// hourly rollups and incidents are kept for the longest uptime window plus a day
+const HEALTH_CHECK_RETENTION_MS = 24 * 60 * 60 * 1000
+const HEALTH_CHECK_MIN_ROWS = 1000
+// Rollups and incidents back the status page's 90 days of uptime bars
+const HEALTH_HISTORY_RETENTION_MS = (STATUS_PAGE_DAYS + 1) * 24 * 60 * 60 * 1000
+const RECENT_INCIDENTS_LIMIT = 20
+// Pings kept per heartbeat monitor
+const HEARTBEAT_PINGS_LIMIT = 100
+// Rows per NDJSON object when archiving
+const ARCHIVE_PAGE_SIZE = 10000
 
 /**
  * Durable Object for per-app log storage with SQLite backend
@@ -17,12 +98,25 @@ import type {
  */
 export class AppLogsDO extends DurableObject<Env> {
   private sql: SqlStorage
-  private healthUrls: string[] = []
+  private healthTargets: HealthTarget[] | null = null
+  // Latest bucket written per granularity; expired buckets are dropped when it changes
+  private currentBuckets: Partial<Record<'hour' | 'minute', string>> = {}
 
   constructor(ctx: DurableObjectState, env: Env) {
     super(ctx, env)
     this.sql = ctx.storage.sql
     this.initSchema()
+    this.migrateLogsTable()
+    this.migrateHealthChecksTable()
+    this.initHealthRollups()
+
+    // DOs created before the search index existed need a backfill scheduled
+    if (this.initSearchIndex()) {
+      ctx.blockConcurrencyWhile(() => this.scheduleAlarm())
+    }
+
+    // Answer keepalive pings from tail clients without waking the DO
+    ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair('ping', 'pong'))
   }
 
   /**
@@ -36,7 +130,8 @@ export class AppLogsDO extends DurableObject<Env> {
         level TEXT NOT NULL CHECK (level IN ('DEBUG', 'INFO', 'WARN', 'ERROR')),
         message TEXT NOT NULL,
         context TEXT,
-        request_id TEXT
+        request_id TEXT,
+        issue_id TEXT
       );
       CREATE INDEX IF NOT EXISTS idx_logs_timestamp ON logs(timestamp DESC);
       CREATE INDEX IF NOT EXISTS idx_logs_level ON logs(level);
@@ -47,10 +142,57 @@ export class AppLogsDO extends DurableObject<Env> {
         url TEXT NOT NULL,
         status INTEGER,
         latency_ms INTEGER,
-        checked_at TEXT NOT NULL
+        checked_at TEXT NOT NULL,
+        ok INTEGER NOT NULL DEFAULT 0,
+        error TEXT
       );
       CREATE INDEX IF NOT EXISTS idx_health_url ON health_checks(url, checked_at DESC);
 
+      CREATE TABLE IF NOT EXISTS health_states (
+        url TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        since TEXT,
+        failures INTEGER NOT NULL,
+        successes INTEGER NOT NULL,
+        streak_started_at TEXT,
+        flapping INTEGER NOT NULL,
+        transitions TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS heartbeats (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        token TEXT NOT NULL UNIQUE,
+        period_seconds INTEGER NOT NULL,
+        grace_seconds INTEGER NOT NULL,
+        state TEXT NOT NULL DEFAULT 'new',
+        created_at TEXT NOT NULL,
+        last_ping_at TEXT,
+        last_status TEXT,
+        last_duration_ms INTEGER,
+        started_at TEXT,
+        next_due_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS heartbeat_pings (
+        id TEXT PRIMARY KEY,
+        monitor_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        duration_ms INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_heartbeat_pings_monitor ON heartbeat_pings(monitor_id, received_at DESC);
+
+      CREATE TABLE IF NOT EXISTS status_notes (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        message TEXT NOT NULL,
+        status TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        resolved_at TEXT
+      );
+
       CREATE TABLE IF NOT EXISTS config (
         key TEXT PRIMARY KEY,
         value TEXT NOT NULL
@@ -63,7 +205,232 @@ export class AppLogsDO extends DurableObject<Env> {
         warn INTEGER DEFAULT 0,
         error INTEGER DEFAULT 0
       );
+
+      CREATE TABLE IF NOT EXISTS hourly_stats (
+        hour TEXT PRIMARY KEY,
+        debug INTEGER NOT NULL DEFAULT 0,
+        info INTEGER NOT NULL DEFAULT 0,
+        warn INTEGER NOT NULL DEFAULT 0,
+        error INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS minute_stats (
+        minute TEXT PRIMARY KEY,
+        debug INTEGER NOT NULL DEFAULT 0,
+        info INTEGER NOT NULL DEFAULT 0,
+        warn INTEGER NOT NULL DEFAULT 0,
+        error INTEGER NOT NULL DEFAULT 0
+      );
+
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        level TEXT,
+        search TEXT,
+        context TEXT,
+        threshold INTEGER NOT NULL,
+        window_seconds INTEGER NOT NULL,
+        cooldown_seconds INTEGER NOT NULL,
+        webhook_url TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL,
+        last_fired_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS alert_firings (
+        id TEXT PRIMARY KEY,
+        rule_id TEXT NOT NULL,
+        fired_at TEXT NOT NULL,
+        match_count INTEGER NOT NULL,
+        test INTEGER NOT NULL DEFAULT 0,
+        delivery_status INTEGER,
+        delivery_error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_alert_firings_rule ON alert_firings(rule_id, fired_at DESC);
+
+      CREATE TABLE IF NOT EXISTS issues (
+        id TEXT PRIMARY KEY,
+        level TEXT NOT NULL,
+        title TEXT NOT NULL,
+        message TEXT NOT NULL,
+        culprit TEXT,
+        status TEXT NOT NULL DEFAULT 'open',
+        count INTEGER NOT NULL DEFAULT 0,
+        first_seen TEXT NOT NULL,
+        last_seen TEXT NOT NULL,
+        last_log_id TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_issues_last_seen ON issues(status, last_seen DESC);
+
+      -- Range of log rowids not yet in logs_fts (at most one row)
+      CREATE TABLE IF NOT EXISTS fts_backfill (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        next_rowid INTEGER NOT NULL,
+        max_rowid INTEGER NOT NULL
+      );
+    `)
+  }
+
+  /**
+   * Add logs columns introduced after a DO's table was created
+   */
+  private migrateLogsTable() {
+    const columns = this.sql.exec(`PRAGMA table_info(logs)`).toArray().map((row) => row.name)
+    if (!columns.includes('issue_id')) {
+      this.sql.exec(`ALTER TABLE logs ADD COLUMN issue_id TEXT`)
+    }
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_logs_issue ON logs(issue_id, timestamp DESC)`)
+  }
+
+  /**
+   * Add the outcome columns to health checks recorded before targets had
+   * expectations, when any status below 500 was healthy
+   */
+  private migrateHealthChecksTable() {
+    const columns = this.sql.exec(`PRAGMA table_info(health_checks)`).toArray().map((row) => row.name)
+    if (!columns.includes('ok')) {
+      this.sql.exec(`
+        ALTER TABLE health_checks ADD COLUMN ok INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE health_checks ADD COLUMN error TEXT;
+        UPDATE health_checks SET ok = (status > 0 AND status < 500);
+      `)
+    }
+  }
+
+  /**
+   * Create the hourly uptime rollups and incidents on first load, building
+   * them from the health checks recorded so far
+   */
+  private initHealthRollups() {
+    const exists = this.sql.exec(
+      `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'health_rollups'`
+    ).toArray().length > 0
+    if (exists) return
+
+    this.sql.exec(`
+      CREATE TABLE health_rollups (
+        url TEXT NOT NULL,
+        hour TEXT NOT NULL,
+        checks INTEGER NOT NULL DEFAULT 0,
+        failures INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (url, hour)
+      );
+
+      CREATE TABLE IF NOT EXISTS health_incidents (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        failures INTEGER NOT NULL,
+        error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_health_incidents_url ON health_incidents(url, started_at DESC);
+
+      INSERT INTO health_rollups (url, hour, checks, failures)
+      SELECT url, strftime('%Y-%m-%dT%H:00:00.000Z', checked_at), COUNT(*), SUM(ok = 0)
+      FROM health_checks
+      GROUP BY 1, 2;
+    `)
+
+    const checks = this.sql.exec(
+      `SELECT url, checked_at, error, ok FROM health_checks ORDER BY url, checked_at`
+    ).toArray()
+    for (const check of checks) {
+      this.updateHealthIncident(check.url as string, check.checked_at as string, check.ok === 1 ? null : check.error as string | null)
+    }
+  }
+
+  /**
+   * Create the FTS5 index over message and context on first load.
+   * It is an external-content table keyed by the logs rowid and kept in sync
+   * by triggers. Existing logs are queued for backfill.
+   * Returns true if a backfill was queued.
+   */
+  private initSearchIndex(): boolean {
+    const exists = this.sql.exec(
+      `SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'logs_fts'`
+    ).toArray().length > 0
+    if (exists) return false
+
+    this.sql.exec(`
+      CREATE VIRTUAL TABLE logs_fts USING fts5(message, context, content='logs', content_rowid='rowid');
+
+      CREATE TRIGGER logs_fts_insert AFTER INSERT ON logs BEGIN
+        INSERT INTO logs_fts (rowid, message, context) VALUES (new.rowid, new.message, new.context);
+      END;
+
+      -- Rows still waiting for backfill were never indexed, so there is nothing to remove
+      CREATE TRIGGER logs_fts_delete AFTER DELETE ON logs
+      WHEN NOT EXISTS (SELECT 1 FROM fts_backfill WHERE old.rowid BETWEEN next_rowid AND max_rowid)
+      BEGIN
+        INSERT INTO logs_fts (logs_fts, rowid, message, context) VALUES ('delete', old.rowid, old.message, old.context);
+      END;
     `)
+
+    return this.queueSearchBackfill()
+  }
+
+  /**
+   * Mark every existing log as needing to be indexed. Returns false if there are no logs.
+   */
+  private queueSearchBackfill(): boolean {
+    const row = this.sql.exec(`SELECT MIN(rowid) AS min, MAX(rowid) AS max FROM logs`).one()
+    if (row.max === null) {
+      this.sql.exec(`DELETE FROM fts_backfill`)
+      return false
+    }
+
+    this.sql.exec(
+      `INSERT OR REPLACE INTO fts_backfill (id, next_rowid, max_rowid) VALUES (1, ?, ?)`,
+      row.min,
+      row.max
+    )
+    return true
+  }
+
+  /**
+   * Read a JSON value from the config table
+   */
+  private getConfig<T>(key: string): T | null {
+    const rows = this.sql.exec(`SELECT value FROM config WHERE key = ?`, key).toArray()
+    return rows.length > 0 ? (JSON.parse(rows[0].value as string) as T) : null
+  }
+
+  /**
+   * Write a JSON value to the config table
+   */
+  private setConfig(key: string, value: unknown) {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)`,
+      key,
+      JSON.stringify(value)
+    )
+  }
+
+  /**
+   * Remove a value from the config table
+   */
+  private deleteConfig(key: string) {
+    this.sql.exec(`DELETE FROM config WHERE key = ?`, key)
+  }
+
+  /**
+   * App ID this DO belongs to (stubs are created with idFromName(appId)).
+   * The name isn't always available, e.g. in alarms, so the app ID sent
+   * with health check targets and alert rules is stored for their alerts.
+   */
+  private get appId(): string {
+    return this.ctx.id.name ?? this.getConfig<string>('app_id') ?? this.ctx.id.toString()
+  }
+
+  /**
+   * Store the app ID sent by the worker, if it's new (see appId)
+   */
+  private rememberAppId(appId: string | null | undefined) {
+    if (appId && appId !== this.getConfig<string>('app_id')) {
+      this.setConfig('app_id', appId)
+    }
   }
 
   /**
@@ -73,6 +440,15 @@ export class AppLogsDO extends DurableObject<Env> {
     return crypto.randomUUID()
   }
 
+  /**
+   * An entry's timestamp, normalized to ISO 8601 UTC. Missing, unparseable
+   * or future timestamps fall back to when the entry is written.
+   */
+  private entryTimestamp(value: string | undefined, fallback: string): string {
+    const time = typeof value === 'string' ? Date.parse(value) : NaN
+    return Number.isFinite(time) && time <= Date.parse(fallback) ? new Date(time).toISOString() : fallback
+  }
+
   /**
    * Log a single entry
    */
@@ -87,17 +463,25 @@ export class AppLogsDO extends DurableObject<Env> {
         request_id: input.request_id,
       }
 
+      if (this.getIssueLevels().includes(entry.level)) {
+        await this.groupIntoIssue(entry)
+      }
+
       this.sql.exec(
-        `INSERT INTO logs (id, timestamp, level, message, context, request_id)
-         VALUES (?, ?, ?, ?, ?, ?)`,
+        `INSERT INTO logs (id, timestamp, level, message, context, request_id, issue_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
         entry.id,
         entry.timestamp,
         entry.level,
         entry.message,
         entry.context ? JSON.stringify(entry.context) : null,
-        entry.request_id ?? null
+        entry.request_id ?? null,
+        entry.issue_id ?? null
       )
 
+      this.broadcast([entry])
+      this.evaluateAlerts([entry])
+
       return Ok(entry)
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error'
@@ -106,37 +490,47 @@ export class AppLogsDO extends DurableObject<Env> {
   }
 
   /**
-   * Log multiple entries in a batch
+   * Log multiple entries in a batch. Given timestamps are only kept with
+   * keepTimestamps (OTLP records); otherwise entries are stamped on arrival.
    */
-  async logBatch(inputs: LogInput[]): Promise<Result<LogEntry[]>> {
+  async logBatch(inputs: TimedLogInput[], keepTimestamps: boolean = false): Promise<Result<LogEntry[]>> {
     try {
       const entries: LogEntry[] = []
       const timestamp = new Date().toISOString()
+      const issueLevels = this.getIssueLevels()
 
       for (const input of inputs) {
         const entry: LogEntry = {
           id: this.generateId(),
-          timestamp,
+          timestamp: keepTimestamps ? this.entryTimestamp(input.timestamp, timestamp) : timestamp,
           level: input.level,
           message: input.message,
           context: input.context,
           request_id: input.request_id,
         }
 
+        if (issueLevels.includes(entry.level)) {
+          await this.groupIntoIssue(entry)
+        }
+
         this.sql.exec(
-          `INSERT INTO logs (id, timestamp, level, message, context, request_id)
-           VALUES (?, ?, ?, ?, ?, ?)`,
+          `INSERT INTO logs (id, timestamp, level, message, context, request_id, issue_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
           entry.id,
           entry.timestamp,
           entry.level,
           entry.message,
           entry.context ? JSON.stringify(entry.context) : null,
-          entry.request_id ?? null
+          entry.request_id ?? null,
+          entry.issue_id ?? null
         )
 
         entries.push(entry)
       }
 
+      this.broadcast(entries)
+      this.evaluateAlerts(entries)
+
       return Ok(entries)
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error'
@@ -145,74 +539,150 @@ export class AppLogsDO extends DurableObject<Env> {
   }
 
   /**
-   * Query logs with filters
+   * Build a WHERE clause and params for the filter fields of QueryFilters.
+   * A search adds a join against logs_fts, so columns are qualified with `logs.`
    */
-  async query(filters: QueryFilters = {}): Promise<Result<LogEntry[]>> {
-    try {
-      const conditions: string[] = []
-      const params: unknown[] = []
+  private buildWhere(filters: QueryFilters): Result<{ join: string; where: string; params: unknown[] }> {
+    const conditions: string[] = []
+    const params: unknown[] = []
+    let join = ''
+
+    if (filters.level) {
+      conditions.push('logs.level = ?')
+      params.push(filters.level)
+    }
 
-      if (filters.level) {
-        conditions.push('level = ?')
-        params.push(filters.level)
-      }
+    if (filters.since) {
+      conditions.push('logs.timestamp >= ?')
+      params.push(filters.since)
+    }
 
-      if (filters.since) {
-        conditions.push('timestamp >= ?')
-        params.push(filters.since)
-      }
+    if (filters.until) {
+      conditions.push('logs.timestamp <= ?')
+      params.push(filters.until)
+    }
 
-      if (filters.until) {
-        conditions.push('timestamp <= ?')
-        params.push(filters.until)
-      }
+    if (filters.request_id) {
+      conditions.push('logs.request_id = ?')
+      params.push(filters.request_id)
+    }
+
+    if (filters.issue_id) {
+      conditions.push('logs.issue_id = ?')
+      params.push(filters.issue_id)
+    }
 
-      if (filters.request_id) {
-        conditions.push('request_id = ?')
-        params.push(filters.request_id)
+    // Full-text search over message and context
+    if (filters.search) {
+      const match = toFtsQuery(filters.search)
+      if (!match.ok) {
+        return match
       }
+      join = 'JOIN logs_fts ON logs_fts.rowid = logs.rowid'
+      conditions.push('logs_fts MATCH ?')
+      params.push(match.data)
+    }
 
-      // Full-text search in message
-      if (filters.search) {
-        conditions.push('message LIKE ?')
-        params.push(`%${filters.search}%`)
+    // Context field filters (e.g., path, status)
+    if (filters.context) {
+      for (const [key, value] of Object.entries(filters.context)) {
+        // Use json_extract for SQLite JSON querying; compare as text so
+        // numeric fields (e.g. status=500) match like they do in live tail
+        conditions.push(`CAST(json_extract(logs.context, '$.${key}') AS TEXT) = ?`)
+        params.push(value)
       }
+    }
 
-      // Context field filters (e.g., path, status)
-      if (filters.context) {
-        for (const [key, value] of Object.entries(filters.context)) {
-          // Use json_extract for SQLite JSON querying
-          conditions.push(`json_extract(context, '$.${key}') = ?`)
-          params.push(value)
-        }
+    // Query language, combined with the other filters
+    if (filters.q) {
+      const query = parseQuery(filters.q)
+      if (!query.ok) {
+        return query
       }
+      const compiled = compileQuery(query.data)
+      conditions.push(compiled.sql)
+      params.push(...compiled.params)
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+    return Ok({ join, where, params })
+  }
+
+  /**
+   * Convert a logs table row to a LogEntry
+   */
+  private rowToEntry(row: Record<string, SqlStorageValue>): LogEntry {
+    return {
+      id: row.id as string,
+      timestamp: row.timestamp as string,
+      level: row.level as LogLevel,
+      message: row.message as string,
+      context: row.context ? JSON.parse(row.context as string) : undefined,
+      request_id: row.request_id as string | undefined,
+      issue_id: (row.issue_id as string | null) ?? undefined,
+      // Only present for searches
+      score: typeof row.rank === 'number' ? -row.rank : undefined,
+      snippet: (row.snippet as string | null) ?? undefined,
+    }
+  }
 
-      const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+  /**
+   * Query one page of logs with filters, newest first unless sorting by relevance
+   */
+  async query(filters: QueryFilters = {}): Promise<Result<LogPage>> {
+    try {
+      const built = this.buildWhere(filters)
+      if (!built.ok) {
+        return built
+      }
+      const { join, where, params } = built.data
       const limit = filters.limit ?? 100
-      const offset = filters.offset ?? 0
+      const relevance = Boolean(join) && filters.sort === 'relevance'
+
+      // Searches also return a bm25 relevance rank and a highlighted snippet
+      const searchColumns = join
+        ? `, bm25(logs_fts) AS rank, snippet(logs_fts, -1, '<mark>', '</mark>', '…', 16) AS snippet`
+        : ''
+      const orderBy = relevance ? 'rank' : 'logs.timestamp DESC, logs.id DESC'
+
+      // Keyset paging continues after the cursor's (timestamp, id);
+      // offset paging is kept for older clients
+      let conditions = where
+      let offset = filters.offset ?? 0
+      if (filters.cursor) {
+        if (relevance) {
+          return Err({ code: ErrorCode.BAD_REQUEST, message: 'Cursors are not supported with sort=relevance' })
+        }
+        const position = decodeCursor(filters.cursor)
+        if (!position.ok) {
+          return position
+        }
+        const keyset = '(logs.timestamp < ? OR (logs.timestamp = ? AND logs.id < ?))'
+        conditions = where ? `${where} AND ${keyset}` : `WHERE ${keyset}`
+        params.push(position.data.timestamp, position.data.timestamp, position.data.id)
+        offset = 0
+      }
 
+      // Fetch one extra row to know whether there is a next page
       const query = `
-        SELECT id, timestamp, level, message, context, request_id
+        SELECT logs.id, logs.timestamp, logs.level, logs.message, logs.context, logs.request_id, logs.issue_id${searchColumns}
         FROM logs
-        ${whereClause}
-        ORDER BY timestamp DESC
+        ${join}
+        ${conditions}
+        ORDER BY ${orderBy}
         LIMIT ? OFFSET ?
       `
-      params.push(limit, offset)
+      params.push(limit + 1, offset)
 
       const cursor = this.sql.exec(query, ...params)
-      const rows = cursor.toArray()
+      const entries = cursor.toArray().map((row) => this.rowToEntry(row))
+      const hasMore = entries.length > limit
+      const logs = entries.slice(0, limit)
 
-      const entries: LogEntry[] = rows.map((row) => ({
-        id: row.id as string,
-        timestamp: row.timestamp as string,
-        level: row.level as LogLevel,
-        message: row.message as string,
-        context: row.context ? JSON.parse(row.context as string) : undefined,
-        request_id: row.request_id as string | undefined,
-      }))
+      const last = logs[logs.length - 1]
+      const nextCursor = hasMore && !relevance && last ? encodeCursor(last) : null
 
-      return Ok(entries)
+      return Ok({ logs, next_cursor: nextCursor })
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error'
       return Err({ code: ErrorCode.INTERNAL_ERROR, message })
@@ -220,17 +690,76 @@ export class AppLogsDO extends DurableObject<Env> {
   }
 
   /**
-   * Prune logs older than the specified timestamp
+   * Aggregate entries matching the filters, optionally grouped by level, a
+   * context field or a time bucket. Paging fields in filters are ignored.
+   * Percentiles use the nearest rank, computed per group with window functions.
    */
-  async pruneLogs(before: string): Promise<Result<PruneResult>> {
+  async aggregate(filters: QueryFilters, spec: AggregateSpec): Promise<Result<AggregateResult>> {
     try {
-      const cursor = this.sql.exec(
-        `DELETE FROM logs WHERE timestamp < ? RETURNING id`,
-        before
-      )
-      const deleted = cursor.toArray().length
+      const built = this.buildWhere(filters)
+      if (!built.ok) {
+        return built
+      }
+      const { join, where, params } = built.data
+      const group = this.groupExpression(spec.group_by)
+
+      // Numeric-only aggregations skip entries where the field is missing or not a number
+      const columns = spec.aggregations.map((agg, i) => {
+        if (agg.fn === 'count') return `COUNT(*) AS a${i}`
+        const value = `json_extract(logs.context, '${jsonPath(agg.path!)}')`
+        if (agg.fn === 'count_distinct') return `COUNT(DISTINCT ${value}) AS a${i}`
+        if (agg.fn === 'percentile') return `NULL AS a${i}`
+        const numeric = `CASE WHEN json_type(logs.context, '${jsonPath(agg.path!)}') IN ('integer', 'real') THEN ${value} END`
+        return `${agg.fn.toUpperCase()}(${numeric}) AS a${i}`
+      })
+
+      // Percentiles are filled in afterwards, so groups led by one are ordered by size
+      const first = spec.aggregations[0].fn
+      const orderBy = spec.group_by?.type === 'time' ? 'g ASC' : first === 'percentile' ? 'n DESC, g' : 'a0 DESC NULLS LAST, g'
+      const rows = this.sql.exec(
+        `SELECT ${group} AS g, COUNT(*) AS n, ${columns.join(', ')}
+         FROM logs ${join} ${where}
+         GROUP BY g
+         ORDER BY ${orderBy}
+         LIMIT ?`,
+        ...params,
+        spec.limit
+      ).toArray()
+
+      const groups = new Map<SqlStorageValue, AggregateGroup>()
+      for (const row of rows) {
+        groups.set(row.g, {
+          key: row.g as string | number | null,
+          count: row.n as number,
+          values: Object.fromEntries(spec.aggregations.map((agg, i) => [agg.name, row[`a${i}`] as number | null])),
+        })
+      }
 
-      return Ok({ deleted })
+      // Percentiles: the value at rank ceil(p * n / 100) of each group's sorted values,
+      // found with integer arithmetic as the rank r where (r - 1) * 100 < p * n <= r * 100
+      for (const agg of spec.aggregations) {
+        if (agg.fn !== 'percentile' || groups.size === 0) continue
+        const path = jsonPath(agg.path!)
+        const percentiles = this.sql.exec(
+          `WITH ranked AS (
+             SELECT ${group} AS g, json_extract(logs.context, '${path}') AS v,
+               ROW_NUMBER() OVER (PARTITION BY ${group} ORDER BY json_extract(logs.context, '${path}')) AS r,
+               COUNT(*) OVER (PARTITION BY ${group}) AS n
+             FROM logs ${join}
+             ${where ? `${where} AND` : 'WHERE'} json_type(logs.context, '${path}') IN ('integer', 'real')
+           )
+           SELECT g, v FROM ranked WHERE (r - 1) * 100 < ? * n AND ? * n <= r * 100`,
+          ...params,
+          agg.percentile!,
+          agg.percentile!
+        ).toArray()
+        for (const row of percentiles) {
+          const target = groups.get(row.g)
+          if (target) target.values[agg.name] = row.v as number
+        }
+      }
+
+      return Ok({ group_by: spec.group_by_name, groups: [...groups.values()] })
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error'
       return Err({ code: ErrorCode.INTERNAL_ERROR, message })
@@ -238,26 +767,38 @@ export class AppLogsDO extends DurableObject<Env> {
   }
 
   /**
-   * Set health check URLs and start monitoring
+   * SQL expression for an aggregate group key. Time buckets are ISO
+   * timestamps of the bucket start.
    */
-  async setHealthUrls(urls: string[]): Promise<Result<{ urls: string[] }>> {
-    try {
-      this.healthUrls = urls
-
-      // Store in config table for persistence
-      this.sql.exec(
-        `INSERT OR REPLACE INTO config (key, value) VALUES ('health_urls', ?)`,
-        JSON.stringify(urls)
-      )
+  private groupExpression(groupBy: GroupBy | null): string {
+    switch (groupBy?.type) {
+      case 'level':
+        return 'logs.level'
+      case 'context':
+        return `json_extract(logs.context, '${jsonPath(groupBy.path)}')`
+      case 'time':
+        return `strftime('%Y-%m-%dT%H:%M:%fZ', (CAST(strftime('%s', logs.timestamp) AS INTEGER) / ${groupBy.seconds}) * ${groupBy.seconds}, 'unixepoch')`
+      default:
+        return 'NULL'
+    }
+  }
 
-      // Check if alarm already exists before setting
-      const existingAlarm = await this.ctx.storage.getAlarm()
-      if (!existingAlarm && urls.length > 0) {
-        // Schedule first health check in 1 minute
-        await this.ctx.storage.setAlarm(Date.now() + 60 * 1000)
+  /**
+   * Get search index backfill progress
+   */
+  async getSearchIndexStatus(): Promise<Result<{ backfill_pending: boolean; remaining: number }>> {
+    try {
+      const rows = this.sql.exec(`SELECT next_rowid, max_rowid FROM fts_backfill`).toArray()
+      if (rows.length === 0) {
+        return Ok({ backfill_pending: false, remaining: 0 })
       }
 
-      return Ok({ urls })
+      const row = this.sql.exec(
+        `SELECT COUNT(*) AS remaining FROM logs WHERE rowid BETWEEN ? AND ?`,
+        rows[0].next_rowid,
+        rows[0].max_rowid
+      ).one()
+      return Ok({ backfill_pending: true, remaining: row.remaining as number })
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error'
       return Err({ code: ErrorCode.INTERNAL_ERROR, message })
@@ -265,67 +806,109 @@ export class AppLogsDO extends DurableObject<Env> {
   }
 
   /**
-   * Get health check URLs from storage
+   * Index the next batch of logs waiting for backfill
    */
-  private getHealthUrls(): string[] {
-    if (this.healthUrls.length > 0) {
-      return this.healthUrls
-    }
-
+  async backfillSearchIndex(batchSize = SEARCH_BACKFILL_BATCH_SIZE): Promise<Result<{ indexed: number; backfill_pending: boolean }>> {
     try {
-      const cursor = this.sql.exec(
-        `SELECT value FROM config WHERE key = 'health_urls'`
-      )
-      const row = cursor.one()
-      if (row?.value) {
-        this.healthUrls = JSON.parse(row.value as string)
+      const rows = this.sql.exec(`SELECT next_rowid, max_rowid FROM fts_backfill`).toArray()
+      if (rows.length === 0) {
+        return Ok({ indexed: 0, backfill_pending: false })
+      }
+
+      const next = rows[0].next_rowid as number
+      const max = rows[0].max_rowid as number
+      const batch = this.sql.exec(
+        `SELECT rowid, message, context FROM logs WHERE rowid BETWEEN ? AND ? ORDER BY rowid LIMIT ?`,
+        next,
+        max,
+        batchSize
+      ).toArray()
+
+      for (const row of batch) {
+        this.sql.exec(
+          `INSERT INTO logs_fts (rowid, message, context) VALUES (?, ?, ?)`,
+          row.rowid,
+          row.message,
+          row.context
+        )
+      }
+
+      const last = batch.length > 0 ? (batch[batch.length - 1].rowid as number) : max
+      if (batch.length < batchSize || last >= max) {
+        this.sql.exec(`DELETE FROM fts_backfill`)
+        return Ok({ indexed: batch.length, backfill_pending: false })
       }
-    } catch {
-      // No config found, return empty
-    }
 
-    return this.healthUrls
+      this.sql.exec(`UPDATE fts_backfill SET next_rowid = ? WHERE id = 1`, last + 1)
+      return Ok({ indexed: batch.length, backfill_pending: true })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
   }
 
   /**
-   * Get recent health checks for a URL
+   * Drop the search index contents and re-index every log in the background
    */
-  async getHealthHistory(url?: string, limit = 50): Promise<Result<HealthCheck[]>> {
+  async rebuildSearchIndex(): Promise<Result<{ backfill_pending: boolean }>> {
     try {
-      let query: string
-      const params: unknown[] = []
+      this.sql.exec(`INSERT INTO logs_fts (logs_fts) VALUES ('delete-all')`)
+      const pending = this.queueSearchBackfill()
+      await this.scheduleAlarm()
+      return Ok({ backfill_pending: pending })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
 
-      if (url) {
-        query = `
-          SELECT id, url, status, latency_ms, checked_at
-          FROM health_checks
-          WHERE url = ?
-          ORDER BY checked_at DESC
-          LIMIT ?
-        `
-        params.push(url, limit)
-      } else {
-        query = `
-          SELECT id, url, status, latency_ms, checked_at
-          FROM health_checks
-          ORDER BY checked_at DESC
-          LIMIT ?
-        `
-        params.push(limit)
+  /**
+   * Export every table to the archive bucket under prefix, as NDJSON pages
+   * plus a manifest.json. The search index is left out; it is rebuilt from
+   * the logs.
+   */
+  async archive(prefix: string, app: unknown): Promise<Result<ArchiveManifest>> {
+    try {
+      const bucket = this.env.ARCHIVE_BUCKET
+      if (!bucket) {
+        return Err({ code: ErrorCode.BAD_REQUEST, message: 'Archiving requires the ARCHIVE_BUCKET R2 binding' })
       }
 
-      const cursor = this.sql.exec(query, ...params)
-      const rows = cursor.toArray()
-
-      const checks: HealthCheck[] = rows.map((row) => ({
-        id: row.id as string,
-        url: row.url as string,
-        status: row.status as number,
-        latency_ms: row.latency_ms as number,
-        checked_at: row.checked_at as string,
-      }))
+      const tables = this.sql.exec(
+        `SELECT name FROM sqlite_master
+         WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%'
+           AND name NOT LIKE 'logs_fts%' AND name != 'fts_backfill'
+         ORDER BY name`
+      ).toArray().map((row) => row.name as string)
+
+      const manifest: ArchiveManifest = { prefix, archived_at: new Date().toISOString(), app, tables: {} }
+      for (const table of tables) {
+        const files: string[] = []
+        let rows = 0
+        let lastRowid = 0
+        for (;;) {
+          const page = this.sql.exec(
+            `SELECT rowid AS _rowid, * FROM "${table}" WHERE rowid > ? ORDER BY rowid LIMIT ?`,
+            lastRowid,
+            ARCHIVE_PAGE_SIZE
+          ).toArray()
+          if (page.length === 0) break
+
+          lastRowid = page[page.length - 1]._rowid as number
+          const key = `${prefix}/${table}/${String(files.length + 1).padStart(4, '0')}.ndjson`
+          const body = page.map(({ _rowid, ...row }) => JSON.stringify(row)).join('\n') + '\n'
+          await bucket.put(key, body, { httpMetadata: { contentType: 'application/x-ndjson' } })
+          files.push(key)
+          rows += page.length
+          if (page.length < ARCHIVE_PAGE_SIZE) break
+        }
+        manifest.tables[table] = { rows, files }
+      }
 
-      return Ok(checks)
+      await bucket.put(`${prefix}/manifest.json`, JSON.stringify(manifest, null, 2), {
+        httpMetadata: { contentType: 'application/json' },
+      })
+      return Ok(manifest)
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Unknown error'
       return Err({ code: ErrorCode.INTERNAL_ERROR, message })
@@ -333,188 +916,1995 @@ export class AppLogsDO extends DurableObject<Env> {
   }
 
   /**
-   * Record a health check result
+   * Pause the app while it's deleted but not yet purged: writes are
+   * rejected and health and heartbeat checks (and their alerts) stop
    */
-  private recordHealthCheck(url: string, status: number, latencyMs: number) {
-    const id = this.generateId()
-    const checkedAt = new Date().toISOString()
-
-    this.sql.exec(
-      `INSERT INTO health_checks (id, url, status, latency_ms, checked_at)
-       VALUES (?, ?, ?, ?, ?)`,
-      id,
-      url,
-      status,
-      latencyMs,
-      checkedAt
-    )
-
-    // Clean up old health checks (keep last 1000 per URL)
-    this.sql.exec(
-      `DELETE FROM health_checks
-       WHERE url = ? AND id NOT IN (
-         SELECT id FROM health_checks WHERE url = ? ORDER BY checked_at DESC LIMIT 1000
-       )`,
-      url,
-      url
-    )
+  async pause(): Promise<Result<{ paused: boolean }>> {
+    try {
+      this.setConfig('paused', true)
+      await this.scheduleAlarm()
+      return Ok({ paused: true })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
   }
 
   /**
-   * Get the date string for today (YYYY-MM-DD)
+   * Undo pause() when a deleted app is restored
    */
-  private getDateKey(date?: Date): string {
-    const d = date ?? new Date()
-    return d.toISOString().split('T')[0]
+  async resume(): Promise<Result<{ paused: boolean }>> {
+    try {
+      this.deleteConfig('paused')
+      await this.scheduleAlarm()
+      return Ok({ paused: false })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
   }
 
   /**
-   * Record stats for a log level (atomic increment in SQLite)
-   * This is called internally after successfully storing a log
+   * Whether the app is paused (see pause())
    */
-  recordStats(level: LogLevel, count: number = 1): DailyStats {
+  private get paused(): boolean {
+    return this.getConfig<boolean>('paused') === true
+  }
+
+  /**
+   * Wipe all storage and cancel the alarm, closing any live tail clients.
+   * The schema is recreated empty, since this instance can still serve
+   * requests if the app ID is registered again.
+   */
+  async purge(): Promise<Result<{ purged: boolean }>> {
+    try {
+      for (const ws of this.ctx.getWebSockets()) {
+        ws.close(1001, 'App deleted')
+      }
+      await this.ctx.storage.deleteAlarm()
+      await this.ctx.storage.deleteAll()
+
+      this.healthTargets = null
+      this.initSchema()
+      this.migrateLogsTable()
+      this.initSearchIndex()
+      this.initHealthRollups()
+      return Ok({ purged: true })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Prune logs older than the specified timestamp
+   */
+  async pruneLogs(before: string): Promise<Result<PruneResult>> {
+    try {
+      const cursor = this.sql.exec(
+        `DELETE FROM logs WHERE timestamp < ? RETURNING id`,
+        before
+      )
+      const deleted = cursor.toArray().length
+
+      return Ok({ deleted })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Get the retention policy and the result of its last run
+   */
+  async getRetention(): Promise<Result<RetentionStatus>> {
+    try {
+      return Ok({
+        policy: this.getConfig<RetentionPolicy>('retention'),
+        last_run: this.getConfig<RetentionRun>('retention_last_run'),
+      })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Set the retention policy and schedule enforcement
+   * The policy is expected to be validated by the caller (see parseRetentionPolicy)
+   */
+  async setRetention(policy: RetentionPolicy): Promise<Result<RetentionPolicy>> {
+    try {
+      this.setConfig('retention', policy)
+      await this.scheduleAlarm()
+      return Ok(policy)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Remove the retention policy (logs are kept until pruned manually)
+   */
+  async clearRetention(): Promise<Result<{ cleared: boolean }>> {
+    try {
+      this.deleteConfig('retention')
+      this.deleteConfig('next_run:retention')
+      await this.scheduleAlarm()
+      return Ok({ cleared: true })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Apply the retention policy now: per-level max age first, then the row cap
+   */
+  async enforceRetention(): Promise<Result<RetentionRun>> {
+    try {
+      const policy = this.getConfig<RetentionPolicy>('retention')
+      let deleted = 0
+
+      if (policy) {
+        for (const [level, cutoff] of Object.entries(retentionCutoffs(policy))) {
+          const cursor = this.sql.exec(
+            `DELETE FROM logs WHERE level = ? AND timestamp < ? RETURNING id`,
+            level,
+            cutoff
+          )
+          deleted += cursor.toArray().length
+        }
+
+        if (policy.max_rows !== undefined) {
+          // LIMIT -1 means "no limit" in SQLite, so this selects everything past the cap
+          const cursor = this.sql.exec(
+            `DELETE FROM logs WHERE id IN (
+               SELECT id FROM logs ORDER BY timestamp DESC LIMIT -1 OFFSET ?
+             ) RETURNING id`,
+            policy.max_rows
+          )
+          deleted += cursor.toArray().length
+        }
+      }
+
+      const run: RetentionRun = { ran_at: new Date().toISOString(), deleted }
+      this.setConfig('retention_last_run', run)
+
+      return Ok(run)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Convert an alert_rules row to an AlertRule
+   */
+  private rowToAlertRule(row: Record<string, SqlStorageValue>): AlertRule {
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      level: (row.level as LogLevel | null) ?? undefined,
+      search: (row.search as string | null) ?? undefined,
+      context: row.context ? JSON.parse(row.context as string) : undefined,
+      threshold: row.threshold as number,
+      window_seconds: row.window_seconds as number,
+      cooldown_seconds: row.cooldown_seconds as number,
+      webhook_url: row.webhook_url as string,
+      enabled: row.enabled === 1,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+      last_fired_at: (row.last_fired_at as string | null) ?? undefined,
+    }
+  }
+
+  /**
+   * Convert an alert_firings row to an AlertFiring
+   */
+  private rowToAlertFiring(row: Record<string, SqlStorageValue>): AlertFiring {
+    return {
+      id: row.id as string,
+      rule_id: row.rule_id as string,
+      fired_at: row.fired_at as string,
+      match_count: row.match_count as number,
+      test: row.test === 1,
+      delivery_status: (row.delivery_status as number | null) ?? undefined,
+      delivery_error: (row.delivery_error as string | null) ?? undefined,
+    }
+  }
+
+  /**
+   * List all alert rules
+   */
+  async listAlertRules(): Promise<Result<AlertRule[]>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM alert_rules ORDER BY created_at`).toArray()
+      return Ok(rows.map((row) => this.rowToAlertRule(row)))
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Get an alert rule by ID (null if not found)
+   */
+  async getAlertRule(id: string): Promise<Result<AlertRule | null>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM alert_rules WHERE id = ?`, id).toArray()
+      return Ok(rows.length > 0 ? this.rowToAlertRule(rows[0]) : null)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Create an alert rule
+   * The input is expected to be validated by the caller (see parseAlertRuleInput)
+   */
+  async createAlertRule(input: AlertRuleInput): Promise<Result<AlertRule>> {
+    try {
+      const now = new Date().toISOString()
+      const rule: AlertRule = { ...input, id: this.generateId(), created_at: now, updated_at: now }
+
+      this.sql.exec(
+        `INSERT INTO alert_rules (id, name, level, search, context, threshold, window_seconds,
+           cooldown_seconds, webhook_url, enabled, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        rule.id,
+        rule.name,
+        rule.level ?? null,
+        rule.search ?? null,
+        rule.context ? JSON.stringify(rule.context) : null,
+        rule.threshold,
+        rule.window_seconds,
+        rule.cooldown_seconds,
+        rule.webhook_url,
+        rule.enabled ? 1 : 0,
+        rule.created_at,
+        rule.updated_at
+      )
+
+      return Ok(rule)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Replace an alert rule's settings (null if not found)
+   */
+  async updateAlertRule(id: string, input: AlertRuleInput): Promise<Result<AlertRule | null>> {
+    try {
+      const cursor = this.sql.exec(
+        `UPDATE alert_rules
+         SET name = ?, level = ?, search = ?, context = ?, threshold = ?, window_seconds = ?,
+             cooldown_seconds = ?, webhook_url = ?, enabled = ?, updated_at = ?
+         WHERE id = ?
+         RETURNING *`,
+        input.name,
+        input.level ?? null,
+        input.search ?? null,
+        input.context ? JSON.stringify(input.context) : null,
+        input.threshold,
+        input.window_seconds,
+        input.cooldown_seconds,
+        input.webhook_url,
+        input.enabled ? 1 : 0,
+        new Date().toISOString(),
+        id
+      )
+      const rows = cursor.toArray()
+
+      return Ok(rows.length > 0 ? this.rowToAlertRule(rows[0]) : null)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Delete an alert rule and its firing history
+   */
+  async deleteAlertRule(id: string): Promise<Result<{ deleted: boolean }>> {
+    try {
+      const cursor = this.sql.exec(`DELETE FROM alert_rules WHERE id = ? RETURNING id`, id)
+      const deleted = cursor.toArray().length > 0
+      this.sql.exec(`DELETE FROM alert_firings WHERE rule_id = ?`, id)
+
+      return Ok({ deleted })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Get recent alert firings, optionally for a single rule
+   */
+  async getAlertHistory(ruleId?: string, limit = 50): Promise<Result<AlertFiring[]>> {
+    try {
+      const rows = ruleId
+        ? this.sql.exec(
+            `SELECT * FROM alert_firings WHERE rule_id = ? ORDER BY fired_at DESC LIMIT ?`,
+            ruleId,
+            limit
+          ).toArray()
+        : this.sql.exec(`SELECT * FROM alert_firings ORDER BY fired_at DESC LIMIT ?`, limit).toArray()
+
+      return Ok(rows.map((row) => this.rowToAlertFiring(row)))
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Fire a rule's webhook now, ignoring threshold and cooldown.
+   * Waits for delivery so the caller sees the outcome (null if rule not found).
+   */
+  async testAlertRule(id: string): Promise<Result<AlertFiring | null>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM alert_rules WHERE id = ?`, id).toArray()
+      if (rows.length === 0) {
+        return Ok(null)
+      }
+
+      const rule = this.rowToAlertRule(rows[0])
+      const since = new Date(Date.now() - rule.window_seconds * 1000).toISOString()
+      const firing = await this.fireAlert(rule, this.countAlertMatches(rule, since), true)
+
+      return Ok(firing)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Count logs matching a rule's filters since the given timestamp
+   */
+  private countAlertMatches(rule: AlertRule, since: string): number {
+    const built = this.buildWhere({
+      level: rule.level,
+      search: rule.search,
+      context: rule.context,
+      since,
+    })
+    // Rule searches are validated when the rule is saved
+    if (!built.ok) {
+      throw new Error(built.error.message)
+    }
+    const { join, where, params } = built.data
+    const row = this.sql.exec(`SELECT COUNT(*) AS count FROM logs ${join} ${where}`, ...params).one()
+    return row.count as number
+  }
+
+  /**
+   * Record a firing and deliver the rule's webhook.
+   * The returned promise resolves once delivery finishes and the firing row is updated.
+   */
+  private async fireAlert(rule: AlertRule, matchCount: number, test: boolean): Promise<AlertFiring> {
+    const firing: AlertFiring = {
+      id: this.generateId(),
+      rule_id: rule.id,
+      fired_at: new Date().toISOString(),
+      match_count: matchCount,
+      test,
+    }
+
+    this.sql.exec(
+      `INSERT INTO alert_firings (id, rule_id, fired_at, match_count, test) VALUES (?, ?, ?, ?, ?)`,
+      firing.id,
+      firing.rule_id,
+      firing.fired_at,
+      firing.match_count,
+      test ? 1 : 0
+    )
+
+    // Test firings don't start a cooldown
+    if (!test) {
+      this.sql.exec(`UPDATE alert_rules SET last_fired_at = ? WHERE id = ?`, firing.fired_at, rule.id)
+    }
+
+    // Keep the last 1000 firings per rule
+    this.sql.exec(
+      `DELETE FROM alert_firings
+       WHERE rule_id = ? AND id NOT IN (
+         SELECT id FROM alert_firings WHERE rule_id = ? ORDER BY fired_at DESC LIMIT 1000
+       )`,
+      rule.id,
+      rule.id
+    )
+
+    const samples = await this.query({ level: rule.level, search: rule.search, context: rule.context, limit: 5 })
+    const payload = buildAlertPayload(this.appId, rule, firing, samples.ok ? samples.data.logs : [])
+
+    const delivery = await sendWebhook(rule.webhook_url, payload)
+    this.sql.exec(
+      `UPDATE alert_firings SET delivery_status = ?, delivery_error = ? WHERE id = ?`,
+      delivery.status,
+      delivery.error ?? null,
+      firing.id
+    )
+
+    return { ...firing, delivery_status: delivery.status, delivery_error: delivery.error }
+  }
+
+  /**
+   * Evaluate enabled alert rules against newly written entries.
+   * Only rules whose level/context filters match a new entry are counted,
+   * and webhooks are delivered in the background so ingest isn't delayed.
+   */
+  private evaluateAlerts(entries: LogEntry[]) {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM alert_rules WHERE enabled = 1`).toArray()
+      const now = Date.now()
+
+      for (const row of rows) {
+        const rule = this.rowToAlertRule(row)
+        // Search uses FTS syntax, so it is only checked by the count query below
+        const filters: QueryFilters = { level: rule.level, context: rule.context }
+        if (!entries.some((entry) => matchesFilters(entry, filters))) continue
+
+        if (rule.last_fired_at && Date.parse(rule.last_fired_at) + rule.cooldown_seconds * 1000 > now) {
+          continue
+        }
+
+        const since = new Date(now - rule.window_seconds * 1000).toISOString()
+        const matchCount = this.countAlertMatches(rule, since)
+        if (matchCount < rule.threshold) continue
+
+        this.ctx.waitUntil(
+          this.fireAlert(rule, matchCount, false).catch((e) => {
+            console.error(`Failed to fire alert ${rule.id}:`, e)
+          })
+        )
+      }
+    } catch (e) {
+      // Alerting must never fail a write
+      console.error('Alert evaluation failed:', e)
+    }
+  }
+
+  /**
+   * Levels whose entries are grouped into issues
+   */
+  private getIssueLevels(): LogLevel[] {
+    const settings = this.getConfig<IssueSettings>('issue_settings')
+    return settings?.include_warn ? ['ERROR', 'WARN'] : ['ERROR']
+  }
+
+  /**
+   * Fingerprint an entry and count it against its issue, creating the issue
+   * on first sight and reopening it if it was resolved. Sets entry.issue_id.
+   */
+  private async groupIntoIssue(entry: LogEntry) {
+    const { fingerprint, title, culprit } = await fingerprintEntry(entry)
+
+    this.sql.exec(
+      `INSERT INTO issues (id, level, title, message, culprit, status, count, first_seen, last_seen, last_log_id)
+       VALUES (?, ?, ?, ?, ?, 'open', 1, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET
+         count = count + 1,
+         message = excluded.message,
+         last_seen = excluded.last_seen,
+         last_log_id = excluded.last_log_id,
+         status = CASE WHEN status = 'resolved' THEN 'open' ELSE status END`,
+      fingerprint,
+      entry.level,
+      title,
+      entry.message,
+      culprit ?? null,
+      entry.timestamp,
+      entry.timestamp,
+      entry.id
+    )
+
+    entry.issue_id = fingerprint
+  }
+
+  /**
+   * Convert an issues row to an Issue
+   */
+  private rowToIssue(row: Record<string, SqlStorageValue>): Issue {
+    return {
+      id: row.id as string,
+      level: row.level as LogLevel,
+      title: row.title as string,
+      message: row.message as string,
+      culprit: (row.culprit as string | null) ?? undefined,
+      status: row.status as IssueStatus,
+      count: row.count as number,
+      first_seen: row.first_seen as string,
+      last_seen: row.last_seen as string,
+      last_log_id: row.last_log_id as string,
+    }
+  }
+
+  /**
+   * List issues, most recently seen first (or most frequent first with sort=count)
+   */
+  async listIssues(options: { status?: IssueStatus; sort?: 'last_seen' | 'count'; limit?: number; offset?: number } = {}): Promise<Result<Issue[]>> {
+    try {
+      const where = options.status ? 'WHERE status = ?' : ''
+      const orderBy = options.sort === 'count' ? 'count DESC, last_seen DESC' : 'last_seen DESC'
+      const params: unknown[] = options.status ? [options.status] : []
+      params.push(options.limit ?? 50, options.offset ?? 0)
+
+      const rows = this.sql.exec(
+        `SELECT * FROM issues ${where} ORDER BY ${orderBy} LIMIT ? OFFSET ?`,
+        ...params
+      ).toArray()
+      return Ok(rows.map((row) => this.rowToIssue(row)))
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Get an issue by ID (null if not found)
+   */
+  async getIssue(id: string): Promise<Result<Issue | null>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM issues WHERE id = ?`, id).toArray()
+      return Ok(rows.length > 0 ? this.rowToIssue(rows[0]) : null)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Set an issue's status (null if not found)
+   */
+  async setIssueStatus(id: string, status: IssueStatus): Promise<Result<Issue | null>> {
+    try {
+      const rows = this.sql.exec(
+        `UPDATE issues SET status = ? WHERE id = ? RETURNING *`,
+        status,
+        id
+      ).toArray()
+      return Ok(rows.length > 0 ? this.rowToIssue(rows[0]) : null)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Get issue grouping settings
+   */
+  async getIssueSettings(): Promise<Result<IssueSettings>> {
+    try {
+      return Ok(this.getConfig<IssueSettings>('issue_settings') ?? { include_warn: false })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Store issue grouping settings (applies to entries logged from now on)
+   * The input is expected to be validated by the caller (see parseIssueSettings)
+   */
+  async setIssueSettings(settings: IssueSettings): Promise<Result<IssueSettings>> {
+    try {
+      this.setConfig('issue_settings', settings)
+      return Ok(settings)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Set health check targets and start monitoring
+   */
+  async setHealthUrls(targets: HealthTarget[], appId?: string): Promise<Result<{ urls: string[]; targets: HealthTarget[] }>> {
+    try {
+      const now = Date.now()
+      const previousDue = this.getConfig<Record<string, number>>('health_due')
+      const scheduled = this.getConfig<number>('next_run:health')
+
+      // Keep each target's scheduled check unless its interval got shorter.
+      // New targets are first checked in 1 minute; ones set before targets
+      // had their own schedule keep the job's.
+      const due: Record<string, number> = {}
+      for (const target of targets) {
+        const runAt = previousDue ? previousDue[target.url] : scheduled
+        due[target.url] = runAt !== undefined && runAt !== null
+          ? Math.min(runAt, now + target.interval_seconds * 1000)
+          : now + FIRST_RUN_DELAY_MS
+      }
+
+      this.rememberAppId(appId)
+      this.healthTargets = targets
+      this.setConfig('health_targets', targets)
+      this.deleteConfig('health_urls')
+      this.sql.exec(
+        `DELETE FROM health_states WHERE url NOT IN (SELECT value FROM json_each(?))`,
+        JSON.stringify(targets.map((target) => target.url))
+      )
+      this.scheduleHealthChecks(due)
+      await this.scheduleAlarm()
+
+      return Ok({ urls: targets.map((target) => target.url), targets })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Get health check targets from storage. URLs set before targets existed
+   * are checked with the defaults.
+   */
+  private getHealthTargets(): HealthTarget[] {
+    if (this.healthTargets) {
+      return this.healthTargets
+    }
+
+    const legacy = parseHealthTargets(this.getConfig<string[]>('health_urls') ?? [])
+    this.healthTargets = this.getConfig<HealthTarget[]>('health_targets') ?? (legacy.ok ? legacy.data : [])
+    return this.healthTargets
+  }
+
+  /**
+   * Store when each target is next due and run the health job at the earliest
+   */
+  private scheduleHealthChecks(due: Record<string, number>) {
+    this.setConfig('health_due', due)
+    const times = Object.values(due)
+    if (times.length === 0) {
+      this.deleteConfig('next_run:health')
+    } else {
+      this.setConfig('next_run:health', Math.min(...times))
+    }
+  }
+
+  /**
+   * Get recent health checks for a URL
+   */
+  async getHealthHistory(url?: string, limit = 50): Promise<Result<HealthCheck[]>> {
+    try {
+      let query: string
+      const params: unknown[] = []
+
+      if (url) {
+        query = `
+          SELECT id, url, status, latency_ms, checked_at, ok, error
+          FROM health_checks
+          WHERE url = ?
+          ORDER BY checked_at DESC
+          LIMIT ?
+        `
+        params.push(url, limit)
+      } else {
+        query = `
+          SELECT id, url, status, latency_ms, checked_at, ok, error
+          FROM health_checks
+          ORDER BY checked_at DESC
+          LIMIT ?
+        `
+        params.push(limit)
+      }
+
+      const cursor = this.sql.exec(query, ...params)
+      const rows = cursor.toArray()
+
+      const checks: HealthCheck[] = rows.map((row) => ({
+        id: row.id as string,
+        url: row.url as string,
+        status: row.status as number,
+        latency_ms: row.latency_ms as number,
+        checked_at: row.checked_at as string,
+        ok: row.ok === 1,
+        error: row.error as string | null,
+      }))
+
+      return Ok(checks)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Uptime over 24h/7d/30d, latency percentiles and incidents for each
+   * monitored target (or just one URL)
+   */
+  async getHealthSummary(url?: string, now: number = Date.now()): Promise<Result<HealthSummary[]>> {
+    try {
+      const urls = this.getHealthTargets().map((target) => target.url).filter((target) => !url || target === url)
+      return Ok(urls.map((targetUrl) => this.summarizeHealth(targetUrl, now)))
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Build one URL's health summary from its rollups, incidents, the last day
+   * of checks and its alert state
+   */
+  private summarizeHealth(url: string, now: number): HealthSummary {
+    const windows = Object.entries(UPTIME_WINDOWS) as [UptimeWindow, number][]
+    const uptime = {} as HealthSummary['uptime']
+    const incidents = {} as HealthSummary['incidents']
+    for (const [window, length] of windows) {
+      const since = new Date(now - length).toISOString()
+      const totals = this.sql.exec(
+        `SELECT IFNULL(SUM(checks), 0) AS checks, IFNULL(SUM(failures), 0) AS failures
+         FROM health_rollups WHERE url = ? AND hour >= ?`,
+        url,
+        bucketStart(now - length, 'hour')
+      ).one()
+      uptime[window] = uptimePercent(totals.checks as number, totals.failures as number)
+      incidents[window] = this.sql.exec(
+        `SELECT COUNT(*) AS count FROM health_incidents WHERE url = ? AND (ended_at IS NULL OR ended_at >= ?)`,
+        url,
+        since
+      ).one().count as number
+    }
+
+    const daily = this.dailyUptime(url, now, UPTIME_WINDOWS['30d'] / (24 * 60 * 60 * 1000))
+
+    // Latency of checks that got a response, overall and per hour
+    const latencies = this.sql.exec(
+      `SELECT latency_ms, checked_at FROM health_checks
+       WHERE url = ? AND checked_at >= ? AND status > 0
+       ORDER BY latency_ms`,
+      url,
+      new Date(now - UPTIME_WINDOWS['24h']).toISOString()
+    ).toArray()
+    const sorted = latencies.map((row) => row.latency_ms as number)
+    const byHour = new Map<string, number[]>()
+    for (const row of latencies) {
+      const hour = bucketStart(Date.parse(row.checked_at as string), 'hour')
+      byHour.set(hour, [...(byHour.get(hour) ?? []), row.latency_ms as number])
+    }
+    const hourly_latency: HealthSummary['hourly_latency'] = []
+    for (let i = 23; i >= 0; i--) {
+      const hour = bucketStart(now - i * 60 * 60 * 1000, 'hour')
+      const values = byHour.get(hour) ?? []
+      hourly_latency.push({ hour, p50: percentile(values, 50), p95: percentile(values, 95) })
+    }
+
+    const recent_incidents = this.sql.exec(
+      `SELECT * FROM health_incidents WHERE url = ? ORDER BY started_at DESC LIMIT ?`,
+      url,
+      RECENT_INCIDENTS_LIMIT
+    ).toArray().map((row): HealthIncident => ({
+      id: row.id as string,
+      url: row.url as string,
+      started_at: row.started_at as string,
+      ended_at: row.ended_at as string | null,
+      duration_ms: (row.ended_at ? Date.parse(row.ended_at as string) : now) - Date.parse(row.started_at as string),
+      failures: row.failures as number,
+      error: row.error as string | null,
+    }))
+    const alertState = this.getHealthAlertState(url)
+
+    return {
+      url,
+      uptime,
+      latency_ms: { p50: percentile(sorted, 50), p95: percentile(sorted, 95), p99: percentile(sorted, 99) },
+      incidents,
+      recent_incidents,
+      daily,
+      hourly_latency,
+      state: alertState.state,
+      flapping: alertState.flapping,
+    }
+  }
+
+  /**
+   * One entry per day of the last `days`, oldest first, including days
+   * without checks
+   */
+  private dailyUptime(url: string, now: number, days: number): HealthSummary['daily'] {
+    const dailyRows = new Map(this.sql.exec(
+      `SELECT substr(hour, 1, 10) AS date, SUM(checks) AS checks, SUM(failures) AS failures
+       FROM health_rollups WHERE url = ? AND hour >= ? GROUP BY 1`,
+      url,
+      this.getDateKey(new Date(now - (days - 1) * 24 * 60 * 60 * 1000))
+    ).toArray().map((row) => [row.date as string, row]))
+    const daily: HealthSummary['daily'] = []
+    for (let i = days - 1; i >= 0; i--) {
+      const date = this.getDateKey(new Date(now - i * 24 * 60 * 60 * 1000))
+      const row = dailyRows.get(date)
+      const checks = (row?.checks as number | undefined) ?? 0
+      const failures = (row?.failures as number | undefined) ?? 0
+      daily.push({ date, checks, failures, uptime: uptimePercent(checks, failures) })
+    }
+    return daily
+  }
+
+  /**
+   * Public status of the given targets (those still monitored) and the
+   * incident notes to show with them: unresolved or recently resolved
+   */
+  async getStatus(urls: string[], now: number = Date.now()): Promise<Result<{
+    targets: (Omit<StatusTarget, 'label'> & { url: string })[]
+    notes: StatusNote[]
+  }>> {
+    try {
+      const monitored = new Set(this.getHealthTargets().map((target) => target.url))
+      const recent = new Date(now - STATUS_RECENT_MS).toISOString()
+
+      const targets = urls.filter((url) => monitored.has(url)).map((url) => {
+        const daily = this.dailyUptime(url, now, STATUS_PAGE_DAYS)
+        const checks = daily.reduce((sum, day) => sum + day.checks, 0)
+        const failures = daily.reduce((sum, day) => sum + day.failures, 0)
+        const incidents = this.sql.exec(
+          `SELECT started_at, ended_at FROM health_incidents
+           WHERE url = ? AND (ended_at IS NULL OR ended_at >= ?)
+           ORDER BY started_at DESC`,
+          url,
+          recent
+        ).toArray().map((row) => ({
+          started_at: row.started_at as string,
+          ended_at: row.ended_at as string | null,
+          duration_ms: (row.ended_at ? Date.parse(row.ended_at as string) : now) - Date.parse(row.started_at as string),
+        }))
+        const alertState = this.getHealthAlertState(url)
+        const failing = incidents.some((incident) => incident.ended_at === null)
+
+        return {
+          url,
+          status: targetStatus(alertState.state, alertState.flapping, failing),
+          uptime: uptimePercent(checks, failures),
+          daily: daily.map(({ date, checks, uptime }) => ({ date, checks, uptime })),
+          incidents,
+        }
+      })
+
+      const notes = this.sql.exec(
+        `SELECT * FROM status_notes WHERE resolved_at IS NULL OR resolved_at >= ? ORDER BY created_at DESC`,
+        recent
+      ).toArray().map((row) => this.rowToStatusNote(row))
+
+      return Ok({ targets, notes })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Convert a status_notes row to a StatusNote
+   */
+  private rowToStatusNote(row: Record<string, SqlStorageValue>): StatusNote {
+    return {
+      id: row.id as string,
+      title: row.title as string,
+      message: row.message as string,
+      status: row.status as StatusNoteStatus,
+      created_at: row.created_at as string,
+      updated_at: row.updated_at as string,
+      resolved_at: row.resolved_at as string | null,
+    }
+  }
+
+  /**
+   * List every incident note, newest first
+   */
+  async listStatusNotes(): Promise<Result<StatusNote[]>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM status_notes ORDER BY created_at DESC`).toArray()
+      return Ok(rows.map((row) => this.rowToStatusNote(row)))
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Post an incident note (validated by the caller)
+   */
+  async createStatusNote(input: StatusNoteInput): Promise<Result<StatusNote>> {
+    try {
+      const now = new Date().toISOString()
+      const note: StatusNote = {
+        ...input,
+        id: this.generateId(),
+        created_at: now,
+        updated_at: now,
+        resolved_at: input.status === StatusNoteStatus.RESOLVED ? now : null,
+      }
+      this.sql.exec(
+        `INSERT INTO status_notes (id, title, message, status, created_at, updated_at, resolved_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        note.id,
+        note.title,
+        note.message,
+        note.status,
+        note.created_at,
+        note.updated_at,
+        note.resolved_at
+      )
+      return Ok(note)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Change an incident note's fields (null if not found). It is resolved
+   * when its status first becomes resolved, and reopened by any other status.
+   */
+  async updateStatusNote(id: string, patch: Partial<StatusNoteInput>): Promise<Result<StatusNote | null>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM status_notes WHERE id = ?`, id).toArray()
+      if (rows.length === 0) {
+        return Ok(null)
+      }
+
+      const previous = this.rowToStatusNote(rows[0])
+      const now = new Date().toISOString()
+      const note: StatusNote = { ...previous, ...patch, updated_at: now }
+      if (note.status !== StatusNoteStatus.RESOLVED) {
+        note.resolved_at = null
+      } else if (previous.status !== StatusNoteStatus.RESOLVED) {
+        note.resolved_at = now
+      }
+
+      this.sql.exec(
+        `UPDATE status_notes SET title = ?, message = ?, status = ?, updated_at = ?, resolved_at = ? WHERE id = ?`,
+        note.title,
+        note.message,
+        note.status,
+        note.updated_at,
+        note.resolved_at,
+        id
+      )
+      return Ok(note)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Delete an incident note (null if not found)
+   */
+  async deleteStatusNote(id: string): Promise<Result<StatusNote | null>> {
+    try {
+      const rows = this.sql.exec(`DELETE FROM status_notes WHERE id = ? RETURNING *`, id).toArray()
+      return Ok(rows.length > 0 ? this.rowToStatusNote(rows[0]) : null)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Record a health check result and return when it was checked. error is
+   * null if the check passed.
+   */
+  private recordHealthCheck(url: string, status: number, latencyMs: number, error: string | null): string {
+    const id = this.generateId()
+    const checkedAt = new Date().toISOString()
+
+    this.sql.exec(
+      `INSERT INTO health_checks (id, url, status, latency_ms, checked_at, ok, error)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      id,
+      url,
+      status,
+      latencyMs,
+      checkedAt,
+      error === null ? 1 : 0,
+      error
+    )
+
+    this.sql.exec(
+      `INSERT INTO health_rollups (url, hour, checks, failures) VALUES (?, ?, 1, ?)
+       ON CONFLICT (url, hour) DO UPDATE SET checks = checks + 1, failures = failures + excluded.failures`,
+      url,
+      bucketStart(Date.parse(checkedAt), 'hour'),
+      error === null ? 0 : 1
+    )
+    this.updateHealthIncident(url, checkedAt, error)
+
+    // Raw checks older than a day are only needed as recent history; the rollups keep counting them
+    this.sql.exec(
+      `DELETE FROM health_checks
+       WHERE url = ? AND checked_at < ? AND id NOT IN (
+         SELECT id FROM health_checks WHERE url = ? ORDER BY checked_at DESC LIMIT ?
+       )`,
+      url,
+      new Date(Date.parse(checkedAt) - HEALTH_CHECK_RETENTION_MS).toISOString(),
+      url,
+      HEALTH_CHECK_MIN_ROWS
+    )
+    return checkedAt
+  }
+
+  /**
+   * Open or extend the URL's incident on a failure (error set), or end the
+   * open one when a check passes
+   */
+  private updateHealthIncident(url: string, checkedAt: string, error: string | null) {
+    if (error === null) {
+      this.sql.exec(`UPDATE health_incidents SET ended_at = ? WHERE url = ? AND ended_at IS NULL`, checkedAt, url)
+      return
+    }
+
+    const open = this.sql.exec(`UPDATE health_incidents SET failures = failures + 1 WHERE url = ? AND ended_at IS NULL`, url)
+    if (open.rowsWritten === 0) {
+      this.sql.exec(
+        `INSERT INTO health_incidents (id, url, started_at, ended_at, failures, error) VALUES (?, ?, ?, NULL, 1, ?)`,
+        this.generateId(),
+        url,
+        checkedAt,
+        error
+      )
+    }
+  }
+
+  /**
+   * Drop rollups and ended incidents older than the status page's uptime bars
+   */
+  private pruneHealthHistory(now: number) {
+    const cutoff = new Date(now - HEALTH_HISTORY_RETENTION_MS).toISOString()
+    this.sql.exec(`DELETE FROM health_rollups WHERE hour < ?`, cutoff)
+    this.sql.exec(`DELETE FROM health_incidents WHERE ended_at < ?`, cutoff)
+  }
+
+  /**
+   * Get the date string for today (YYYY-MM-DD)
+   */
+  private getDateKey(date?: Date): string {
+    const d = date ?? new Date()
+    return d.toISOString().split('T')[0]
+  }
+
+  /**
+   * Record stats for a log level (atomic increment in SQLite)
+   * This is called internally after successfully storing a log
+   */
+  recordStats(level: LogLevel, count: number = 1): DailyStats {
     const dateKey = this.getDateKey()
 
-    // Ensure row exists for today
-    this.sql.exec(
-      `INSERT OR IGNORE INTO daily_stats (date, debug, info, warn, error) VALUES (?, 0, 0, 0, 0)`,
-      dateKey
-    )
+    // Ensure row exists for today
+    this.sql.exec(
+      `INSERT OR IGNORE INTO daily_stats (date, debug, info, warn, error) VALUES (?, 0, 0, 0, 0)`,
+      dateKey
+    )
+
+    // Atomic increment based on level
+    const column = level.toLowerCase()
+    this.sql.exec(
+      `UPDATE daily_stats SET ${column} = ${column} + ? WHERE date = ?`,
+      count,
+      dateKey
+    )
+    this.recordStatsBuckets({ debug: 0, info: 0, warn: 0, error: 0, [column]: count })
+
+    // Return current stats
+    const cursor = this.sql.exec(`SELECT * FROM daily_stats WHERE date = ?`, dateKey)
+    const row = cursor.one()
+
+    return {
+      date: row!.date as string,
+      debug: row!.debug as number,
+      info: row!.info as number,
+      warn: row!.warn as number,
+      error: row!.error as number,
+    }
+  }
+
+  /**
+   * Record stats for multiple log levels (batch)
+   */
+  recordStatsBatch(counts: { level: LogLevel; count: number }[]): DailyStats {
+    const dateKey = this.getDateKey()
+
+    // Ensure row exists for today
+    this.sql.exec(
+      `INSERT OR IGNORE INTO daily_stats (date, debug, info, warn, error) VALUES (?, 0, 0, 0, 0)`,
+      dateKey
+    )
+
+    // Aggregate counts by level
+    const totals = { debug: 0, info: 0, warn: 0, error: 0 }
+    for (const { level, count } of counts) {
+      totals[level.toLowerCase() as keyof typeof totals] += count
+    }
+
+    // Single update with all increments
+    this.sql.exec(
+      `UPDATE daily_stats SET debug = debug + ?, info = info + ?, warn = warn + ?, error = error + ? WHERE date = ?`,
+      totals.debug,
+      totals.info,
+      totals.warn,
+      totals.error,
+      dateKey
+    )
+    this.recordStatsBuckets(totals)
+
+    // Return current stats
+    const cursor = this.sql.exec(`SELECT * FROM daily_stats WHERE date = ?`, dateKey)
+    const row = cursor.one()
+
+    return {
+      date: row!.date as string,
+      debug: row!.debug as number,
+      info: row!.info as number,
+      warn: row!.warn as number,
+      error: row!.error as number,
+    }
+  }
+
+  /**
+   * Add counts to the current hour and minute buckets. Buckets past their
+   * retention window are dropped whenever a new bucket starts.
+   */
+  private recordStatsBuckets(totals: { debug: number; info: number; warn: number; error: number }) {
+    const now = Date.now()
+    for (const [granularity, table, column] of [['hour', 'hourly_stats', 'hour'], ['minute', 'minute_stats', 'minute']] as const) {
+      const bucket = bucketStart(now, granularity)
+      this.sql.exec(
+        `INSERT INTO ${table} (${column}, debug, info, warn, error) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(${column}) DO UPDATE SET
+           debug = debug + excluded.debug, info = info + excluded.info,
+           warn = warn + excluded.warn, error = error + excluded.error`,
+        bucket,
+        totals.debug,
+        totals.info,
+        totals.warn,
+        totals.error
+      )
+
+      if (this.currentBuckets[granularity] !== bucket) {
+        this.currentBuckets[granularity] = bucket
+        this.sql.exec(
+          `DELETE FROM ${table} WHERE ${column} < ?`,
+          bucketStart(now - STATS_BUCKETS[granularity].retention_ms, granularity)
+        )
+      }
+    }
+  }
+
+  /**
+   * Get the last `count` hourly or minute buckets, newest first, with
+   * empty buckets filled in
+   */
+  getStatsBuckets(granularity: 'hour' | 'minute', count: number): StatsBucket[] {
+    const [table, column] = granularity === 'hour' ? ['hourly_stats', 'hour'] : ['minute_stats', 'minute']
+    const size = STATS_BUCKETS[granularity].size_ms
+    const newest = Date.parse(bucketStart(Date.now(), granularity))
+    const oldest = new Date(newest - (count - 1) * size).toISOString()
+
+    const rows = new Map(
+      this.sql.exec(`SELECT * FROM ${table} WHERE ${column} >= ?`, oldest)
+        .toArray()
+        .map((row) => [row[column] as string, row])
+    )
+
+    const buckets: StatsBucket[] = []
+    for (let i = 0; i < count; i++) {
+      const bucket = new Date(newest - i * size).toISOString()
+      const row = rows.get(bucket)
+      buckets.push({
+        bucket,
+        debug: (row?.debug as number) ?? 0,
+        info: (row?.info as number) ?? 0,
+        warn: (row?.warn as number) ?? 0,
+        error: (row?.error as number) ?? 0,
+      })
+    }
+    return buckets
+  }
+
+  /**
+   * Get stats for a specific date
+   */
+  getStats(date?: string): DailyStats {
+    const dateKey = date ?? this.getDateKey()
+    const cursor = this.sql.exec(`SELECT * FROM daily_stats WHERE date = ?`, dateKey)
+    const rows = cursor.toArray()
+
+    if (rows.length === 0) {
+      return { date: dateKey, debug: 0, info: 0, warn: 0, error: 0 }
+    }
+
+    const row = rows[0]
+    return {
+      date: row.date as string,
+      debug: row.debug as number,
+      info: row.info as number,
+      warn: row.warn as number,
+      error: row.error as number,
+    }
+  }
+
+  /**
+   * Get stats for multiple days
+   */
+  getStatsRange(days: number = 7): DailyStats[] {
+    const stats: DailyStats[] = []
+    const today = new Date()
+
+    for (let i = 0; i < days; i++) {
+      const date = new Date(today)
+      date.setDate(date.getDate() - i)
+      const dateKey = this.getDateKey(date)
+      stats.push(this.getStats(dateKey))
+    }
+
+    return stats
+  }
+
+  /**
+   * Convert a heartbeats row to a HeartbeatMonitor
+   */
+  private rowToHeartbeat(row: Record<string, SqlStorageValue>): HeartbeatMonitor {
+    return {
+      id: row.id as string,
+      name: row.name as string,
+      token: row.token as string,
+      period_seconds: row.period_seconds as number,
+      grace_seconds: row.grace_seconds as number,
+      state: row.state as HeartbeatState,
+      created_at: row.created_at as string,
+      last_ping_at: row.last_ping_at as string | null,
+      last_status: row.last_status as HeartbeatStatus | null,
+      last_duration_ms: row.last_duration_ms as number | null,
+      started_at: row.started_at as string | null,
+      next_due_at: row.next_due_at as string,
+    }
+  }
+
+  /**
+   * List heartbeat monitors
+   */
+  async listHeartbeats(): Promise<Result<HeartbeatMonitor[]>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM heartbeats ORDER BY created_at`).toArray()
+      return Ok(rows.map((row) => this.rowToHeartbeat(row)))
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Create a heartbeat monitor. It stays new, and isn't checked, until its
+   * first ping. The input is expected to be validated by the caller (see
+   * parseHeartbeatInput), which also creates the token.
+   */
+  async createHeartbeat(input: HeartbeatInput, token: string): Promise<Result<HeartbeatMonitor>> {
+    try {
+      const now = Date.now()
+      const monitor: HeartbeatMonitor = {
+        ...input,
+        id: this.generateId(),
+        token,
+        state: 'new',
+        created_at: new Date(now).toISOString(),
+        last_ping_at: null,
+        last_status: null,
+        last_duration_ms: null,
+        started_at: null,
+        next_due_at: new Date(now + input.period_seconds * 1000).toISOString(),
+      }
+      await this.saveHeartbeat(monitor, 'new', now)
+      return Ok(monitor)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Change a monitor's name and timing (null if not found). The next run
+   * is then due the new period after the last finished one.
+   */
+  async updateHeartbeat(id: string, input: HeartbeatInput): Promise<Result<HeartbeatMonitor | null>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM heartbeats WHERE id = ?`, id).toArray()
+      if (rows.length === 0) {
+        return Ok(null)
+      }
+
+      const previous = this.rowToHeartbeat(rows[0])
+      const lastRun = Date.parse(previous.next_due_at) - previous.period_seconds * 1000
+      const monitor: HeartbeatMonitor = {
+        ...previous,
+        ...input,
+        next_due_at: new Date(lastRun + input.period_seconds * 1000).toISOString(),
+      }
+      await this.saveHeartbeat(monitor, previous.state, Date.now())
+      return Ok(monitor)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Delete a heartbeat monitor and its pings
+   */
+  async deleteHeartbeat(id: string): Promise<Result<{ deleted: boolean }>> {
+    try {
+      const cursor = this.sql.exec(`DELETE FROM heartbeats WHERE id = ? RETURNING id`, id)
+      const deleted = cursor.toArray().length > 0
+      this.sql.exec(`DELETE FROM heartbeat_pings WHERE monitor_id = ?`, id)
+      await this.scheduleHeartbeatChecks(Date.now())
+      return Ok({ deleted })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Get a monitor's recent pings, newest first
+   */
+  async getHeartbeatPings(id: string, limit = 50): Promise<Result<HeartbeatPing[]>> {
+    try {
+      const rows = this.sql.exec(
+        `SELECT * FROM heartbeat_pings WHERE monitor_id = ? ORDER BY received_at DESC LIMIT ?`,
+        id,
+        limit
+      ).toArray()
+      return Ok(rows.map((row) => ({
+        id: row.id as string,
+        monitor_id: row.monitor_id as string,
+        status: row.status as HeartbeatStatus,
+        received_at: row.received_at as string,
+        duration_ms: row.duration_ms as number | null,
+      })))
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Record a ping for the monitor with this token (null if there is none).
+   * A finished run, successful or not, makes the next one due a period
+   * later; its duration is measured from the start ping if it has none.
+   */
+  async pingHeartbeat(token: string, status: HeartbeatStatus, durationMs: number | null): Promise<Result<HeartbeatMonitor | null>> {
+    try {
+      const rows = this.sql.exec(`SELECT * FROM heartbeats WHERE token = ?`, token).toArray()
+      if (rows.length === 0) {
+        return Ok(null)
+      }
+
+      const now = Date.now()
+      const receivedAt = new Date(now).toISOString()
+      const previous = this.rowToHeartbeat(rows[0])
+      const monitor: HeartbeatMonitor = { ...previous, last_ping_at: receivedAt, last_status: status }
+
+      if (status === HeartbeatStatus.START) {
+        monitor.started_at = receivedAt
+      } else {
+        monitor.last_duration_ms = durationMs ?? (previous.started_at ? now - Date.parse(previous.started_at) : null)
+        monitor.started_at = null
+        monitor.next_due_at = new Date(now + monitor.period_seconds * 1000).toISOString()
+      }
+
+      this.sql.exec(
+        `INSERT INTO heartbeat_pings (id, monitor_id, status, received_at, duration_ms) VALUES (?, ?, ?, ?, ?)`,
+        this.generateId(),
+        monitor.id,
+        status,
+        receivedAt,
+        status === HeartbeatStatus.START ? null : monitor.last_duration_ms
+      )
+      this.sql.exec(
+        `DELETE FROM heartbeat_pings
+         WHERE monitor_id = ? AND id NOT IN (
+           SELECT id FROM heartbeat_pings WHERE monitor_id = ? ORDER BY received_at DESC LIMIT ?
+         )`,
+        monitor.id,
+        monitor.id,
+        HEARTBEAT_PINGS_LIMIT
+      )
+
+      await this.saveHeartbeat(monitor, previous.state, now)
+      return Ok(monitor)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Mark monitors late or missing once their runs are overdue
+   */
+  private async runHeartbeatChecks(now: number) {
+    const rows = this.sql.exec(`SELECT * FROM heartbeats WHERE last_ping_at IS NOT NULL`).toArray()
+    for (const row of rows) {
+      const monitor = this.rowToHeartbeat(row)
+      const state = heartbeatState(monitor, now)
+      if (state !== monitor.state) {
+        await this.saveHeartbeat(monitor, monitor.state, now)
+      }
+    }
+    await this.scheduleHeartbeatChecks(now)
+  }
+
+  /**
+   * Store a monitor with its state as of now, log the change if it has
+   * one, and schedule the next check
+   */
+  private async saveHeartbeat(monitor: HeartbeatMonitor, previous: HeartbeatState, now: number) {
+    monitor.state = heartbeatState(monitor, now)
+    this.sql.exec(
+      `INSERT OR REPLACE INTO heartbeats (id, name, token, period_seconds, grace_seconds, state, created_at,
+         last_ping_at, last_status, last_duration_ms, started_at, next_due_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      monitor.id,
+      monitor.name,
+      monitor.token,
+      monitor.period_seconds,
+      monitor.grace_seconds,
+      monitor.state,
+      monitor.created_at,
+      monitor.last_ping_at,
+      monitor.last_status,
+      monitor.last_duration_ms,
+      monitor.started_at,
+      monitor.next_due_at
+    )
+
+    // The first ping isn't a change worth logging unless the run failed
+    if (monitor.state !== previous && !(previous === 'new' && monitor.state === 'up')) {
+      const level: LogLevel = monitor.state === 'late' ? 'WARN' : monitor.state === 'up' ? 'INFO' : 'ERROR'
+      const logged = await this.log({
+        level,
+        message: describeHeartbeatChange(monitor, previous, now),
+        context: {
+          heartbeat: monitor.name,
+          heartbeat_id: monitor.id,
+          state: monitor.state,
+          previous_state: previous,
+          ...(monitor.last_duration_ms !== null ? { duration_ms: monitor.last_duration_ms } : {}),
+        },
+      })
+      if (logged.ok) {
+        this.recordStats(level)
+      }
+    }
+
+    await this.scheduleHeartbeatChecks(now)
+  }
+
+  /**
+   * Run the heartbeat job at the next time a monitor would go late or
+   * missing (or stop it if none can)
+   */
+  private async scheduleHeartbeatChecks(now: number) {
+    const deadlines = this.sql.exec(`SELECT * FROM heartbeats WHERE last_ping_at IS NOT NULL`).toArray()
+      .map((row) => nextHeartbeatDeadline(this.rowToHeartbeat(row), now))
+      .filter((deadline): deadline is number => deadline !== null)
+
+    if (deadlines.length === 0) {
+      this.deleteConfig('next_run:heartbeat')
+    } else {
+      this.setConfig('next_run:heartbeat', Math.min(...deadlines))
+    }
+    await this.scheduleAlarm()
+  }
+
+  /**
+   * Whether an alarm job is currently enabled
+   */
+  private isJobActive(job: AlarmJob): boolean {
+    switch (job) {
+      case 'health':
+        return this.getHealthTargets().length > 0 && !this.paused
+      case 'heartbeat':
+        // Only while some monitor can still go late or missing
+        return this.getConfig<number>('next_run:heartbeat') !== null && !this.paused
+      case 'retention':
+        return this.getConfig<RetentionPolicy>('retention') !== null
+      case 'search_backfill':
+        return this.sql.exec(`SELECT 1 FROM fts_backfill`).toArray().length > 0
+    }
+  }
+
+  /**
+   * Set the alarm to the earliest next run of any active job (or clear it)
+   */
+  private async scheduleAlarm() {
+    const jobs: AlarmJob[] = ['health', 'heartbeat', 'retention', 'search_backfill']
+    const now = Date.now()
+    let next: number | null = null
+
+    for (const job of jobs) {
+      if (!this.isJobActive(job)) continue
+
+      let runAt = this.getConfig<number>(`next_run:${job}`)
+      if (runAt === null) {
+        runAt = now + FIRST_RUN_DELAY_MS
+        this.setConfig(`next_run:${job}`, runAt)
+      }
+      next = next === null ? runAt : Math.min(next, runAt)
+    }
+
+    if (next === null) {
+      await this.ctx.storage.deleteAlarm()
+    } else {
+      await this.ctx.storage.setAlarm(Math.max(next, now))
+    }
+  }
+
+  /**
+   * Whether an active job's next run time has passed.
+   * Jobs with no stored run time (e.g. alarms scheduled before jobs were tracked) are due.
+   */
+  private isJobDue(job: AlarmJob, now: number): boolean {
+    if (!this.isJobActive(job)) return false
+    const runAt = this.getConfig<number>(`next_run:${job}`)
+    return runAt === null || runAt <= now
+  }
+
+  /**
+   * Check each target that is due, then schedule the next checks
+   */
+  private async runHealthChecks(now: number) {
+    const previousDue = this.getConfig<Record<string, number>>('health_due') ?? {}
+    const due: Record<string, number> = {}
+
+    for (const target of this.getHealthTargets()) {
+      const runAt = previousDue[target.url]
+      if (runAt === undefined || runAt <= now) {
+        await this.checkHealthTarget(target)
+        due[target.url] = now + target.interval_seconds * 1000
+      } else {
+        due[target.url] = runAt
+      }
+    }
+
+    this.scheduleHealthChecks(due)
+    this.pruneHealthHistory(now)
+  }
+
+  /**
+   * Check a target once, record the result and alert if its state changed
+   */
+  private async checkHealthTarget(target: HealthTarget) {
+    const { status, latencyMs, error } = await this.requestHealthTarget(target)
+    const checkedAt = this.recordHealthCheck(target.url, status, latencyMs, error)
+    await this.updateHealthAlertState(target.url, checkedAt, error)
+  }
+
+  /**
+   * Fill in a target's header secrets, using the bindings an admin made
+   * in the registry (only looked up when the target has headers)
+   */
+  private async resolveHealthHeaders(target: HealthTarget): Promise<Result<Record<string, string>>> {
+    if (Object.keys(target.headers).length === 0) {
+      return Ok({})
+    }
+    const app = await getApp(this.env, this.appId)
+    if (!app.ok) {
+      return app
+    }
+    return resolveHealthHeaders(target, app.data?.health_secrets ?? {}, healthSecrets(this.env))
+  }
+
+  /**
+   * Request a target and say whether it met its expectations (error is
+   * null if it did; status is 0 if no response arrived)
+   */
+  private async requestHealthTarget(target: HealthTarget): Promise<{ status: number; latencyMs: number; error: string | null }> {
+    const headers = await this.resolveHealthHeaders(target)
+    if (!headers.ok) {
+      return { status: 0, latencyMs: 0, error: headers.error.message }
+    }
 
-    // Atomic increment based on level
-    const column = level.toLowerCase()
-    this.sql.exec(
-      `UPDATE daily_stats SET ${column} = ${column} + ? WHERE date = ?`,
-      count,
-      dateKey
-    )
+    const start = Date.now()
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), target.timeout_ms)
+    try {
+      const res = await fetch(target.url, {
+        method: target.method,
+        headers: headers.data,
+        signal: controller.signal,
+      })
+
+      // Only read the body when something is asserted about it
+      let body: string | null = null
+      if (target.body_assertion) {
+        body = await res.text()
+      } else {
+        await res.body?.cancel()
+      }
 
-    // Return current stats
-    const cursor = this.sql.exec(`SELECT * FROM daily_stats WHERE date = ?`, dateKey)
-    const row = cursor.one()
+      return { status: res.status, latencyMs: Date.now() - start, error: checkHealthResponse(target, res.status, body) }
+    } catch (e) {
+      const error = controller.signal.aborted
+        ? `Timed out after ${target.timeout_ms}ms`
+        : e instanceof Error ? e.message : 'Request failed'
+      return { status: 0, latencyMs: Date.now() - start, error }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+
+  /**
+   * Get the health alert settings, or the defaults if none are set
+   */
+  private getHealthAlertSettings(): HealthAlertSettings {
+    return this.getConfig<HealthAlertSettings>('health_alert_settings') ?? DEFAULT_HEALTH_ALERT_SETTINGS
+  }
 
+  /**
+   * Convert a health_states row to a HealthAlertState
+   */
+  private rowToHealthAlertState(row: Record<string, SqlStorageValue>): HealthAlertState {
     return {
-      date: row!.date as string,
-      debug: row!.debug as number,
-      info: row!.info as number,
-      warn: row!.warn as number,
-      error: row!.error as number,
+      url: row.url as string,
+      state: row.state as HealthState,
+      since: row.since as string | null,
+      failures: row.failures as number,
+      successes: row.successes as number,
+      streak_started_at: row.streak_started_at as string | null,
+      flapping: row.flapping === 1,
+      transitions: JSON.parse(row.transitions as string) as string[],
     }
   }
 
   /**
-   * Record stats for multiple log levels (batch)
+   * Get a URL's alert state (unknown if it hasn't been checked)
    */
-  recordStatsBatch(counts: { level: LogLevel; count: number }[]): DailyStats {
-    const dateKey = this.getDateKey()
+  private getHealthAlertState(url: string): HealthAlertState {
+    const rows = this.sql.exec(`SELECT * FROM health_states WHERE url = ?`, url).toArray()
+    return rows.length > 0 ? this.rowToHealthAlertState(rows[0]) : initialHealthAlertState(url)
+  }
+
+  /**
+   * Apply a check to the URL's alert state. State changes and flapping are
+   * written to the app's logs and sent to the webhooks, except for state
+   * changes while the URL is flapping.
+   */
+  private async updateHealthAlertState(url: string, checkedAt: string, error: string | null) {
+    const settings = this.getHealthAlertSettings()
+    const update = applyHealthCheck(this.getHealthAlertState(url), error === null, checkedAt, settings)
+    const { state } = update
 
-    // Ensure row exists for today
     this.sql.exec(
-      `INSERT OR IGNORE INTO daily_stats (date, debug, info, warn, error) VALUES (?, 0, 0, 0, 0)`,
-      dateKey
+      `INSERT OR REPLACE INTO health_states (url, state, since, failures, successes, streak_started_at, flapping, transitions)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      url,
+      state.state,
+      state.since,
+      state.failures,
+      state.successes,
+      state.streak_started_at,
+      state.flapping ? 1 : 0,
+      JSON.stringify(state.transitions)
     )
 
-    // Aggregate counts by level
-    const totals = { debug: 0, info: 0, warn: 0, error: 0 }
-    for (const { level, count } of counts) {
-      totals[level.toLowerCase() as keyof typeof totals] += count
+    for (const event of healthAlertEvents(update)) {
+      const level: LogLevel = event === 'flapping' ? 'WARN' : state.state === 'down' ? 'ERROR' : 'INFO'
+      const logged = await this.log({
+        level,
+        message: describeHealthAlert(event, update, error, settings),
+        context: {
+          health_url: url,
+          event,
+          state: state.state,
+          ...(update.change && (event === 'down' || event === 'up') ? { previous_state: update.change.from } : {}),
+          ...(event === 'up' ? { duration_ms: update.change?.duration_ms } : {}),
+          ...(error ? { error } : {}),
+        },
+      })
+      if (logged.ok) {
+        this.recordStats(level)
+      }
+
+      // While flapping, only its start and end are sent
+      if (!state.flapping || event === 'flapping') {
+        await this.notifyHealthAlert(event, update, error, checkedAt, settings)
+      }
     }
+  }
 
-    // Single update with all increments
-    this.sql.exec(
-      `UPDATE daily_stats SET debug = debug + ?, info = info + ?, warn = warn + ?, error = error + ? WHERE date = ?`,
-      totals.debug,
-      totals.info,
-      totals.warn,
-      totals.error,
-      dateKey
-    )
+  /**
+   * Send a health alert to every configured webhook. Failed deliveries are
+   * logged to the console; the alert is already in the app's logs.
+   */
+  private async notifyHealthAlert(
+    event: HealthAlertEvent,
+    update: HealthAlertUpdate,
+    error: string | null,
+    at: string,
+    settings: HealthAlertSettings
+  ) {
+    const payload = buildHealthAlertPayload(this.appId, event, update, error, at, settings)
+    await Promise.all(settings.webhook_urls.map(async (webhookUrl) => {
+      const delivery = await sendWebhook(webhookUrl, payload)
+      if (delivery.error) {
+        console.error(`Health alert to ${webhookUrl} failed: ${delivery.error}`)
+      }
+    }))
+  }
 
-    // Return current stats
-    const cursor = this.sql.exec(`SELECT * FROM daily_stats WHERE date = ?`, dateKey)
-    const row = cursor.one()
+  /**
+   * Get the health alert settings and each target's current alert state
+   */
+  async getHealthAlerts(): Promise<Result<{ settings: HealthAlertSettings; states: HealthAlertState[] }>> {
+    try {
+      const states = this.getHealthTargets().map((target) => this.getHealthAlertState(target.url))
+      return Ok({ settings: this.getHealthAlertSettings(), states })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
 
-    return {
-      date: row!.date as string,
-      debug: row!.debug as number,
-      info: row!.info as number,
-      warn: row!.warn as number,
-      error: row!.error as number,
+  /**
+   * Store health alert settings (applies from the next check)
+   * The input is expected to be validated by the caller (see parseHealthAlertSettings)
+   */
+  async setHealthAlertSettings(settings: HealthAlertSettings): Promise<Result<HealthAlertSettings>> {
+    try {
+      this.setConfig('health_alert_settings', settings)
+      return Ok(settings)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
     }
   }
 
   /**
-   * Get stats for a specific date
+   * Alarm handler - runs whichever jobs are due (health checks, heartbeats, retention)
+   * and reschedules for the next one
    */
-  getStats(date?: string): DailyStats {
-    const dateKey = date ?? this.getDateKey()
-    const cursor = this.sql.exec(`SELECT * FROM daily_stats WHERE date = ?`, dateKey)
-    const rows = cursor.toArray()
+  async alarm(alarmInfo?: { retryCount: number; isRetry: boolean }) {
+    if (alarmInfo?.isRetry) {
+      console.log(`Alarm retry attempt ${alarmInfo.retryCount}`)
+    }
 
-    if (rows.length === 0) {
-      return { date: dateKey, debug: 0, info: 0, warn: 0, error: 0 }
+    const now = Date.now()
+
+    if (this.isJobDue('health', now)) {
+      await this.runHealthChecks(now)
     }
 
-    const row = rows[0]
-    return {
-      date: row.date as string,
-      debug: row.debug as number,
-      info: row.info as number,
-      warn: row.warn as number,
-      error: row.error as number,
+    if (this.isJobDue('heartbeat', now)) {
+      await this.runHeartbeatChecks(now)
+    }
+
+    if (this.isJobDue('retention', now)) {
+      const result = await this.enforceRetention()
+      if (!result.ok) {
+        console.error(`Retention enforcement failed: ${result.error.message}`)
+      }
+      this.setConfig('next_run:retention', now + RETENTION_INTERVAL_MS)
+    }
+
+    if (this.isJobDue('search_backfill', now)) {
+      const result = await this.backfillSearchIndex()
+      if (!result.ok) {
+        console.error(`Search index backfill failed: ${result.error.message}`)
+      }
+      this.setConfig('next_run:search_backfill', now + SEARCH_BACKFILL_INTERVAL_MS)
     }
+
+    await this.scheduleAlarm()
   }
 
   /**
-   * Get stats for multiple days
+   * Accept a live tail WebSocket using the hibernation API.
+   * Filters come from the query string and are kept as the socket's attachment
+   * so they survive hibernation.
    */
-  getStatsRange(days: number = 7): DailyStats[] {
-    const stats: DailyStats[] = []
-    const today = new Date()
+  private acceptTail(params: URLSearchParams): Response {
+    const { limit: _limit, offset: _offset, ...filters } = parseQueryFilters(params)
+    if (filters.q) {
+      const query = parseQuery(filters.q)
+      if (!query.ok) {
+        return Response.json(query, { status: 400 })
+      }
+    }
+    const pair = new WebSocketPair()
+    const [client, server] = Object.values(pair)
 
-    for (let i = 0; i < days; i++) {
-      const date = new Date(today)
-      date.setDate(date.getDate() - i)
-      const dateKey = this.getDateKey(date)
-      stats.push(this.getStats(dateKey))
+    this.ctx.acceptWebSocket(server)
+    server.serializeAttachment(filters)
+    server.send(JSON.stringify({ type: 'ready', data: { filters } }))
+
+    return new Response(null, { status: 101, webSocket: client })
+  }
+
+  /**
+   * Push newly written entries to every tail client whose filters match
+   */
+  private broadcast(entries: LogEntry[]) {
+    for (const ws of this.ctx.getWebSockets()) {
+      try {
+        const filters = (ws.deserializeAttachment() ?? {}) as QueryFilters
+        const matching = entries.filter((entry) => matchesFilters(entry, filters))
+        if (matching.length > 0) {
+          ws.send(JSON.stringify({ type: 'logs', data: matching }))
+        }
+      } catch (e) {
+        // A closing socket must not fail the write
+        console.error('Failed to send to tail client:', e)
+      }
     }
+  }
 
-    return stats
+  /**
+   * Tail clients can replace their filters by sending
+   * {"type": "filters", "filters": { level, search, request_id, context }}
+   */
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
+    if (typeof message !== 'string') return
+
+    let parsed: { type?: string; filters?: QueryFilters }
+    try {
+      parsed = JSON.parse(message)
+    } catch {
+      ws.send(JSON.stringify(Err({ code: ErrorCode.BAD_REQUEST, message: 'Invalid JSON message' })))
+      return
+    }
+
+    if (parsed.type === 'filters') {
+      const { limit: _limit, offset: _offset, ...filters } = parsed.filters ?? {}
+      if (filters.q) {
+        const query = parseQuery(filters.q)
+        if (!query.ok) {
+          ws.send(JSON.stringify(query))
+          return
+        }
+      }
+      ws.serializeAttachment(filters)
+      ws.send(JSON.stringify({ type: 'filters', data: { filters } }))
+      return
+    }
+
+    ws.send(JSON.stringify(Err({ code: ErrorCode.BAD_REQUEST, message: `Unknown message type: ${parsed.type}` })))
   }
 
   /**
-   * Alarm handler for periodic health checks
+   * Complete the close handshake for tail clients
    */
-  async alarm(alarmInfo?: { retryCount: number; isRetry: boolean }) {
-    if (alarmInfo?.isRetry) {
-      console.log(`Health check alarm retry attempt ${alarmInfo.retryCount}`)
+  async webSocketClose(ws: WebSocket, code: number, reason: string) {
+    try {
+      ws.close(code, reason)
+    } catch {
+      // Already closed, or a reserved code (1005/1006) that can't be echoed
     }
+  }
 
-    const urls = this.getHealthUrls()
+  /**
+   * Route /alerts requests (rule bodies are validated by the caller)
+   */
+  private async handleAlertsRequest(request: Request, url: URL): Promise<Response> {
+    const [, , ruleId, action] = url.pathname.split('/')
+    const limit = url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit')!) : 50
+    // Rules that fire send the app ID, so it comes along when they're written or tested
+    if (request.method !== 'GET') {
+      this.rememberAppId(url.searchParams.get('app_id'))
+    }
 
-    for (const url of urls) {
-      const start = Date.now()
-      try {
-        const controller = new AbortController()
-        const timeoutId = setTimeout(() => controller.abort(), 10000) // 10s timeout
+    if (!ruleId) {
+      if (request.method === 'GET') {
+        return Response.json(await this.listAlertRules())
+      }
+      if (request.method === 'POST') {
+        const input = (await request.json()) as AlertRuleInput
+        return Response.json(await this.createAlertRule(input))
+      }
+    } else if (ruleId === 'history' && !action && request.method === 'GET') {
+      return Response.json(await this.getAlertHistory(undefined, limit))
+    } else if (!action) {
+      if (request.method === 'GET') {
+        return Response.json(await this.getAlertRule(ruleId))
+      }
+      if (request.method === 'PUT') {
+        const input = (await request.json()) as AlertRuleInput
+        return Response.json(await this.updateAlertRule(ruleId, input))
+      }
+      if (request.method === 'DELETE') {
+        return Response.json(await this.deleteAlertRule(ruleId))
+      }
+    } else if (action === 'history' && request.method === 'GET') {
+      return Response.json(await this.getAlertHistory(ruleId, limit))
+    } else if (action === 'test' && request.method === 'POST') {
+      return Response.json(await this.testAlertRule(ruleId))
+    }
 
-        const res = await fetch(url, {
-          method: 'HEAD',
-          signal: controller.signal,
-        })
-        clearTimeout(timeoutId)
+    return Response.json(
+      Err({ code: ErrorCode.NOT_FOUND, message: `Unknown path: ${url.pathname}` }),
+      { status: 404 }
+    )
+  }
 
-        this.recordHealthCheck(url, res.status, Date.now() - start)
-      } catch (e) {
-        // Record failed check with status 0
-        this.recordHealthCheck(url, 0, Date.now() - start)
+  /**
+   * Route /issues requests
+   */
+  private async handleIssuesRequest(request: Request, url: URL): Promise<Response> {
+    const [, , issueId, action] = url.pathname.split('/')
+
+    if (!issueId && request.method === 'GET') {
+      const status = url.searchParams.get('status') as IssueStatus | null
+      const sort = url.searchParams.get('sort') === 'count' ? 'count' : 'last_seen'
+      return Response.json(await this.listIssues({
+        status: status ?? undefined,
+        sort,
+        limit: url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit')!) : undefined,
+        offset: url.searchParams.has('offset') ? parseInt(url.searchParams.get('offset')!) : undefined,
+      }))
+    } else if (issueId === 'settings' && !action) {
+      if (request.method === 'GET') {
+        return Response.json(await this.getIssueSettings())
+      }
+      if (request.method === 'PUT') {
+        const settings = (await request.json()) as IssueSettings
+        return Response.json(await this.setIssueSettings(settings))
+      }
+    } else if (issueId && !action) {
+      if (request.method === 'GET') {
+        return Response.json(await this.getIssue(issueId))
+      }
+      if (request.method === 'PATCH') {
+        const { status } = (await request.json()) as { status: IssueStatus }
+        return Response.json(await this.setIssueStatus(issueId, status))
       }
     }
 
-    // Schedule next check in 5 minutes if we have URLs to monitor
-    if (urls.length > 0) {
-      await this.ctx.storage.setAlarm(Date.now() + 5 * 60 * 1000)
+    return Response.json(
+      Err({ code: ErrorCode.NOT_FOUND, message: `Unknown path: ${url.pathname}` }),
+      { status: 404 }
+    )
+  }
+
+  /**
+   * Route /heartbeats requests (monitor bodies and pings are validated by the caller)
+   */
+  private async handleHeartbeatsRequest(request: Request, url: URL): Promise<Response> {
+    const [, , monitorId, action] = url.pathname.split('/')
+
+    if (!monitorId) {
+      if (request.method === 'GET') {
+        return Response.json(await this.listHeartbeats())
+      }
+      if (request.method === 'POST') {
+        const { token, ...input } = (await request.json()) as HeartbeatInput & { token: string }
+        return Response.json(await this.createHeartbeat(input, token))
+      }
+    } else if (monitorId === 'ping' && !action && request.method === 'POST') {
+      const { token, status, duration_ms } = (await request.json()) as {
+        token: string
+        status: HeartbeatStatus
+        duration_ms: number | null
+      }
+      return Response.json(await this.pingHeartbeat(token, status, duration_ms))
+    } else if (!action) {
+      if (request.method === 'PUT') {
+        const input = (await request.json()) as HeartbeatInput
+        return Response.json(await this.updateHeartbeat(monitorId, input))
+      }
+      if (request.method === 'DELETE') {
+        return Response.json(await this.deleteHeartbeat(monitorId))
+      }
+    } else if (action === 'pings' && request.method === 'GET') {
+      const limit = url.searchParams.has('limit') ? parseInt(url.searchParams.get('limit')!) : 50
+      return Response.json(await this.getHeartbeatPings(monitorId, limit))
     }
+
+    return Response.json(
+      Err({ code: ErrorCode.NOT_FOUND, message: `Unknown path: ${url.pathname}` }),
+      { status: 404 }
+    )
   }
 
   /**
@@ -525,6 +2915,11 @@ export class AppLogsDO extends DurableObject<Env> {
     const path = url.pathname
 
     try {
+      // Deleted apps take no writes until restored
+      if (request.method === 'POST' && (path === '/log' || path === '/logs') && this.paused) {
+        return Response.json(Err({ code: ErrorCode.FORBIDDEN, message: 'App is deleted' }), { status: 403 })
+      }
+
       // POST /log - single log
       if (request.method === 'POST' && path === '/log') {
         const input = (await request.json()) as LogInput
@@ -532,40 +2927,40 @@ export class AppLogsDO extends DurableObject<Env> {
         return Response.json(result)
       }
 
-      // POST /logs - batch logs
+      // POST /logs - batch logs (?keep_timestamps=true keeps the given times, for OTLP only)
       if (request.method === 'POST' && path === '/logs') {
-        const { logs } = (await request.json()) as { logs: LogInput[] }
-        const result = await this.logBatch(logs)
+        const { logs } = (await request.json()) as { logs: TimedLogInput[] }
+        const result = await this.logBatch(logs, url.searchParams.get('keep_timestamps') === 'true')
         return Response.json(result)
       }
 
+      // GET /tail - live tail WebSocket
+      if (request.method === 'GET' && path === '/tail') {
+        if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+          return Response.json(
+            Err({ code: ErrorCode.BAD_REQUEST, message: 'Expected WebSocket upgrade' }),
+            { status: 426 }
+          )
+        }
+        return this.acceptTail(url.searchParams)
+      }
+
       // GET /logs - query
       if (request.method === 'GET' && path === '/logs') {
-        // Parse context.* filters from query params
-        const context: Record<string, string> = {}
-        for (const [key, value] of url.searchParams.entries()) {
-          if (key.startsWith('context.')) {
-            const contextKey = key.substring(8) // Remove 'context.' prefix
-            context[contextKey] = value
-          }
-        }
+        const filters = parseQueryFilters(url.searchParams)
+        const result = await this.query(filters)
+        // Entries stay in data for older clients; the cursor rides alongside
+        return Response.json(result.ok ? { ...Ok(result.data.logs), next_cursor: result.data.next_cursor } : result)
+      }
 
-        const filters: QueryFilters = {
-          level: url.searchParams.get('level') as LogLevel | undefined,
-          since: url.searchParams.get('since') ?? undefined,
-          until: url.searchParams.get('until') ?? undefined,
-          request_id: url.searchParams.get('request_id') ?? undefined,
-          search: url.searchParams.get('search') ?? undefined,
-          context: Object.keys(context).length > 0 ? context : undefined,
-          limit: url.searchParams.has('limit')
-            ? parseInt(url.searchParams.get('limit')!)
-            : undefined,
-          offset: url.searchParams.has('offset')
-            ? parseInt(url.searchParams.get('offset')!)
-            : undefined,
+      // GET /aggregate - aggregate entries (filters as for /logs, plus group_by, agg, limit)
+      if (request.method === 'GET' && path === '/aggregate') {
+        const spec = parseAggregateOptions(parseAggregateParams(url.searchParams))
+        if (!spec.ok) {
+          return Response.json(spec, { status: 400 })
         }
-        const result = await this.query(filters)
-        return Response.json(result)
+        const result = await this.aggregate(parseQueryFilters(url.searchParams), spec.data)
+        return Response.json(result, { status: !result.ok && result.error.code === ErrorCode.BAD_REQUEST ? 400 : 200 })
       }
 
       // POST /prune - cleanup old logs
@@ -575,10 +2970,134 @@ export class AppLogsDO extends DurableObject<Env> {
         return Response.json(result)
       }
 
-      // POST /health-urls - set URLs to monitor
+      // POST /archive - export all data to the archive bucket
+      if (request.method === 'POST' && path === '/archive') {
+        const { prefix, app } = (await request.json()) as { prefix: string; app: unknown }
+        return Response.json(await this.archive(prefix, app))
+      }
+
+      // POST /pause, /resume - stop and restart writes and checks while the app is deleted
+      if (request.method === 'POST' && path === '/pause') {
+        return Response.json(await this.pause())
+      }
+      if (request.method === 'POST' && path === '/resume') {
+        return Response.json(await this.resume())
+      }
+
+      // POST /purge - wipe all data and cancel the alarm
+      if (request.method === 'POST' && path === '/purge') {
+        return Response.json(await this.purge())
+      }
+
+      // GET /health-urls - targets being monitored
+      if (request.method === 'GET' && path === '/health-urls') {
+        return Response.json(Ok(this.getHealthTargets()))
+      }
+
+      // POST /health-urls - set targets to monitor (URLs or target objects) and the app's ID
       if (request.method === 'POST' && path === '/health-urls') {
-        const { urls } = (await request.json()) as { urls: string[] }
-        const result = await this.setHealthUrls(urls)
+        const { urls, app_id } = (await request.json()) as { urls: unknown; app_id?: string }
+        const targets = parseHealthTargets(urls)
+        if (!targets.ok) {
+          return Response.json(targets, { status: 400 })
+        }
+        const result = await this.setHealthUrls(targets.data, app_id)
+        return Response.json(result)
+      }
+
+      // GET /health-alerts - alert settings and each target's state
+      if (request.method === 'GET' && path === '/health-alerts') {
+        return Response.json(await this.getHealthAlerts())
+      }
+
+      // PUT /health-alerts - set alert settings (validated by caller)
+      if (request.method === 'PUT' && path === '/health-alerts') {
+        const settings = (await request.json()) as HealthAlertSettings
+        return Response.json(await this.setHealthAlertSettings(settings))
+      }
+
+      // GET /retention - get retention policy and last run
+      if (request.method === 'GET' && path === '/retention') {
+        const result = await this.getRetention()
+        return Response.json(result)
+      }
+
+      // PUT /retention - set retention policy (validated by caller)
+      if (request.method === 'PUT' && path === '/retention') {
+        const policy = (await request.json()) as RetentionPolicy
+        const result = await this.setRetention(policy)
+        return Response.json(result)
+      }
+
+      // DELETE /retention - remove retention policy
+      if (request.method === 'DELETE' && path === '/retention') {
+        const result = await this.clearRetention()
+        return Response.json(result)
+      }
+
+      // POST /retention/run - enforce retention policy immediately
+      if (request.method === 'POST' && path === '/retention/run') {
+        const result = await this.enforceRetention()
+        return Response.json(result)
+      }
+
+      // Alert rules: /alerts, /alerts/history, /alerts/:id, /alerts/:id/history, /alerts/:id/test
+      if (path === '/alerts' || path.startsWith('/alerts/')) {
+        return await this.handleAlertsRequest(request, url)
+      }
+
+      // Issues: /issues, /issues/settings, /issues/:id
+      if (path === '/issues' || path.startsWith('/issues/')) {
+        return await this.handleIssuesRequest(request, url)
+      }
+
+      // GET /status - public status of targets (url repeated) and incident notes
+      if (request.method === 'GET' && path === '/status') {
+        return Response.json(await this.getStatus(url.searchParams.getAll('url')))
+      }
+
+      // GET /status-notes - every incident note
+      if (request.method === 'GET' && path === '/status-notes') {
+        return Response.json(await this.listStatusNotes())
+      }
+
+      // POST /status-notes - post an incident note (validated by caller)
+      if (request.method === 'POST' && path === '/status-notes') {
+        const input = (await request.json()) as StatusNoteInput
+        return Response.json(await this.createStatusNote(input))
+      }
+
+      // PATCH /status-notes/:id - change an incident note (validated by caller)
+      if (request.method === 'PATCH' && path.startsWith('/status-notes/')) {
+        const patch = (await request.json()) as Partial<StatusNoteInput>
+        return Response.json(await this.updateStatusNote(path.slice('/status-notes/'.length), patch))
+      }
+
+      // DELETE /status-notes/:id - delete an incident note
+      if (request.method === 'DELETE' && path.startsWith('/status-notes/')) {
+        return Response.json(await this.deleteStatusNote(path.slice('/status-notes/'.length)))
+      }
+
+      // Heartbeats: /heartbeats, /heartbeats/ping, /heartbeats/:id, /heartbeats/:id/pings
+      if (path === '/heartbeats' || path.startsWith('/heartbeats/')) {
+        return await this.handleHeartbeatsRequest(request, url)
+      }
+
+      // GET /search-index - search index backfill status
+      if (request.method === 'GET' && path === '/search-index') {
+        const result = await this.getSearchIndexStatus()
+        return Response.json(result)
+      }
+
+      // POST /search-index/backfill - index the next batch now
+      if (request.method === 'POST' && path === '/search-index/backfill') {
+        const result = await this.backfillSearchIndex()
+        return Response.json(result)
+      }
+
+      // POST /search-index/rebuild - re-index all logs
+      if (request.method === 'POST' && path === '/search-index/rebuild') {
+        const result = await this.rebuildSearchIndex()
         return Response.json(result)
       }
 
@@ -592,6 +3111,12 @@ export class AppLogsDO extends DurableObject<Env> {
         return Response.json(result)
       }
 
+      // GET /health/summary - uptime, latency percentiles and incidents per target
+      if (request.method === 'GET' && path === '/health/summary') {
+        const result = await this.getHealthSummary(url.searchParams.get('url') ?? undefined)
+        return Response.json(result)
+      }
+
       // POST /stats - record stats (internal only)
       if (request.method === 'POST' && path === '/stats') {
         const body = (await request.json()) as { level?: LogLevel; counts?: { level: LogLevel; count: number }[] }
@@ -609,12 +3134,16 @@ export class AppLogsDO extends DurableObject<Env> {
         return Response.json(Ok(result))
       }
 
-      // GET /stats - get daily stats
+      // GET /stats - get daily stats, or hourly/minute buckets with granularity=hour|minute
       if (request.method === 'GET' && path === '/stats') {
-        const days = url.searchParams.has('days')
-          ? parseInt(url.searchParams.get('days')!)
-          : 7
-        const result = this.getStatsRange(days)
+        const query = parseStatsQuery(url.searchParams)
+        if (!query.ok) {
+          return Response.json(query, { status: 400 })
+        }
+        const { granularity, periods } = query.data
+        const result: DailyStats[] | StatsBucket[] = granularity === 'day'
+          ? this.getStatsRange(periods)
+          : this.getStatsBuckets(granularity, periods)
         return Response.json(Ok(result))
       }
 
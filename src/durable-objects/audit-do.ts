@@ -0,0 +1,192 @@
+import { DurableObject } from 'cloudflare:workers'
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import type { Env, AuditActorType, AuditEntry, AuditPage, AuditQuery } from '../types'
+import { encodeCursor, decodeCursor } from '../services/filters'
+
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 500
+
+/**
+ * Durable Object holding the append-only audit log of administrative actions.
+ * A single instance (idFromName('audit')) serves the whole deployment; there
+ * is no route to change or delete entries.
+ */
+export class AuditDO extends DurableObject<Env> {
+  private sql: SqlStorage
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env)
+    this.sql = ctx.storage.sql
+    this.initSchema()
+  }
+
+  /**
+   * Initialize SQLite schema on first load
+   */
+  private initSchema() {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS audit_log (
+        id TEXT PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        actor_type TEXT NOT NULL,
+        actor_id TEXT,
+        action TEXT NOT NULL,
+        app_id TEXT,
+        request TEXT NOT NULL,
+        before TEXT,
+        after TEXT
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_log(timestamp DESC, id DESC);
+      CREATE INDEX IF NOT EXISTS idx_audit_app ON audit_log(app_id, timestamp DESC);
+      CREATE INDEX IF NOT EXISTS idx_audit_actor ON audit_log(actor_type, actor_id, timestamp DESC);
+    `)
+  }
+
+  /**
+   * Append an entry, assigning its id and timestamp
+   */
+  append(input: Omit<AuditEntry, 'id' | 'timestamp'>): Result<AuditEntry> {
+    try {
+      const entry: AuditEntry = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), ...input }
+      this.sql.exec(
+        `INSERT INTO audit_log (id, timestamp, actor_type, actor_id, action, app_id, request, before, after)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        entry.id,
+        entry.timestamp,
+        entry.actor.type,
+        entry.actor.id,
+        entry.action,
+        entry.app_id,
+        JSON.stringify(entry.request),
+        entry.before === undefined ? null : JSON.stringify(entry.before),
+        entry.after === undefined ? null : JSON.stringify(entry.after)
+      )
+      return Ok(entry)
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Query entries newest first, paged by cursor
+   */
+  query(filters: AuditQuery): Result<AuditPage> {
+    try {
+      const conditions: string[] = []
+      const params: unknown[] = []
+
+      if (filters.app_id) {
+        conditions.push('app_id = ?')
+        params.push(filters.app_id)
+      }
+      if (filters.action) {
+        if (filters.action.endsWith('.')) {
+          conditions.push('substr(action, 1, ?) = ?')
+          params.push(filters.action.length, filters.action)
+        } else {
+          conditions.push('action = ?')
+          params.push(filters.action)
+        }
+      }
+      if (filters.actor_type) {
+        conditions.push('actor_type = ?')
+        params.push(filters.actor_type)
+      }
+      if (filters.actor_id) {
+        conditions.push('actor_id = ?')
+        params.push(filters.actor_id)
+      }
+      if (filters.since) {
+        conditions.push('timestamp >= ?')
+        params.push(filters.since)
+      }
+      if (filters.until) {
+        conditions.push('timestamp <= ?')
+        params.push(filters.until)
+      }
+      if (filters.cursor) {
+        const cursor = decodeCursor(filters.cursor)
+        if (!cursor.ok) return cursor
+        conditions.push('(timestamp < ? OR (timestamp = ? AND id < ?))')
+        params.push(cursor.data.timestamp, cursor.data.timestamp, cursor.data.id)
+      }
+
+      const limit = Math.min(Math.max(filters.limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE)
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''
+
+      // Fetch one extra row to know whether there is another page
+      const rows = this.sql.exec(
+        `SELECT * FROM audit_log ${where} ORDER BY timestamp DESC, id DESC LIMIT ?`,
+        ...params,
+        limit + 1
+      ).toArray()
+
+      const entries = rows.slice(0, limit).map((row) => this.rowToEntry(row))
+      const last = entries[entries.length - 1]
+      return Ok({ entries, next_cursor: rows.length > limit && last ? encodeCursor(last) : null })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * Convert a SQLite row to an AuditEntry
+   */
+  private rowToEntry(row: Record<string, SqlStorageValue>): AuditEntry {
+    return {
+      id: row.id as string,
+      timestamp: row.timestamp as string,
+      actor: { type: row.actor_type as AuditActorType, id: row.actor_id as string | null },
+      action: row.action as string,
+      app_id: row.app_id as string | null,
+      request: JSON.parse(row.request as string),
+      before: row.before === null ? null : JSON.parse(row.before as string),
+      after: row.after === null ? null : JSON.parse(row.after as string),
+    }
+  }
+
+  /**
+   * HTTP handler (called by the worker via stub.fetch)
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const path = url.pathname
+
+    try {
+      // POST /entries - append an entry
+      if (request.method === 'POST' && path === '/entries') {
+        const input = (await request.json()) as Omit<AuditEntry, 'id' | 'timestamp'>
+        return Response.json(this.append(input))
+      }
+
+      // GET /entries - query entries
+      if (request.method === 'GET' && path === '/entries') {
+        const params = url.searchParams
+        const result = this.query({
+          app_id: params.get('app_id') ?? undefined,
+          action: params.get('action') ?? undefined,
+          actor_type: (params.get('actor_type') as AuditActorType | null) ?? undefined,
+          actor_id: params.get('actor_id') ?? undefined,
+          since: params.get('since') ?? undefined,
+          until: params.get('until') ?? undefined,
+          limit: params.has('limit') ? parseInt(params.get('limit')!) : undefined,
+          cursor: params.get('cursor') ?? undefined,
+        })
+        return Response.json(result, { status: !result.ok && result.error.code === ErrorCode.BAD_REQUEST ? 400 : 200 })
+      }
+
+      return Response.json(
+        Err({ code: ErrorCode.NOT_FOUND, message: `Unknown path: ${path}` }),
+        { status: 404 }
+      )
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Response.json(
+        Err({ code: ErrorCode.INTERNAL_ERROR, message }),
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -0,0 +1,1116 @@
+import { DurableObject } from 'cloudflare:workers'
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import {
+  DeleteMode,
+  type Env,
+  type ApiKey,
+  type ApiKeyInfo,
+  type ApiKeyInput,
+  type ApiKeyScope,
+  type AppConfig,
+  type AppDeletion,
+  type AppEnvironment,
+  type AppFilters,
+  type AppListing,
+  type AppMetadata,
+  type AppPatch,
+  type CreatedApiKey,
+  type StatusPageSettings,
+} from '../types'
+import { ALL_SCOPES, apiKeysOf, generateSecret, hashApiKey, migrateApiKey } from '../services/api-keys'
+import { getAppDO } from '../utils'
+import { EMPTY_METADATA, matchesAppFilters } from '../services/app-metadata'
+
+// KV keys: app configs and script mappings are cached under the same names
+// the registry used when it lived in KV, so the old records seed the cache
+const APPS_KEY = 'apps'
+const APP_PREFIX = 'app:'
+const SCRIPT_PREFIX = 'script:'
+const KEY_USED_PREFIX = 'key_used:'
+// Cached for scripts with no app, so unmapped Tail Worker events skip the registry
+const UNMAPPED_SCRIPT = ''
+// Cached for app IDs that don't exist, so requests naming them skip the registry
+const MISSING_APP = ''
+
+// Cache entries expire so that a failed invalidation heals by itself
+const CACHE_TTL_SECONDS = 60 * 60
+// Unmapped scripts and missing apps are cached briefly, since an app may be
+// registered for them
+const UNMAPPED_TTL_SECONDS = 60
+
+// Delay before retrying a purge that failed
+const PURGE_RETRY_MS = 5 * 60 * 1000
+
+/**
+ * Durable Object owning the app registry: apps, their API keys and tail
+ * script mappings. A single instance (idFromName('registry')) serves the
+ * whole deployment, so registrations and key changes are serialized and
+ * immediately visible. Every change is written through to the KV cache
+ * that the auth path reads.
+ *
+ * Deleted apps stay here until their purge time, so they can be restored;
+ * the alarm then wipes (or archives and wipes) their AppLogsDO.
+ */
+export class RegistryDO extends DurableObject<Env> {
+  private sql: SqlStorage
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env)
+    this.sql = ctx.storage.sql
+    this.initSchema()
+    this.migrateAppsTable()
+
+    // One-time import of the registry from its old KV records
+    if (this.getConfig('kv_imported') === null) {
+      ctx.blockConcurrencyWhile(async () => {
+        await this.importFromKv()
+        this.setConfig('kv_imported', new Date().toISOString())
+      })
+    }
+  }
+
+  /**
+   * Initialize SQLite schema on first load
+   */
+  private initSchema() {
+    this.sql.exec(`
+      CREATE TABLE IF NOT EXISTS apps (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        health_urls TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        deleted_at TEXT,
+        purge_at TEXT,
+        delete_mode TEXT,
+        owner TEXT,
+        team TEXT,
+        environment TEXT,
+        tags TEXT NOT NULL DEFAULT '[]',
+        description TEXT,
+        repository_url TEXT,
+        runbook_url TEXT,
+        status_page TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS api_keys (
+        app_id TEXT NOT NULL,
+        id TEXT NOT NULL,
+        label TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        salt TEXT NOT NULL,
+        hash TEXT NOT NULL,
+        key TEXT,
+        scopes TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        expires_at TEXT,
+        last_used_at TEXT,
+        PRIMARY KEY (app_id, id)
+      );
+
+      CREATE TABLE IF NOT EXISTS tail_scripts (
+        script TEXT PRIMARY KEY,
+        app_id TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_tail_scripts_app ON tail_scripts(app_id);
+
+      CREATE TABLE IF NOT EXISTS health_secrets (
+        name TEXT PRIMARY KEY,
+        app_id TEXT NOT NULL,
+        host TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_health_secrets_app ON health_secrets(app_id);
+
+      CREATE TABLE IF NOT EXISTS deleted_apps (
+        id TEXT PRIMARY KEY,
+        deleted_at TEXT NOT NULL
+      );
+
+      CREATE TABLE IF NOT EXISTS config (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `)
+  }
+
+  /**
+   * Add columns to apps tables created before them (soft delete, metadata,
+   * status page)
+   */
+  private migrateAppsTable() {
+    const columns = this.sql.exec(`PRAGMA table_info(apps)`).toArray().map((row) => row.name)
+    const added: [string, string][] = [
+      ['deleted_at', 'TEXT'],
+      ['purge_at', 'TEXT'],
+      ['delete_mode', 'TEXT'],
+      ['owner', 'TEXT'],
+      ['team', 'TEXT'],
+      ['environment', 'TEXT'],
+      ['tags', `TEXT NOT NULL DEFAULT '[]'`],
+      ['description', 'TEXT'],
+      ['repository_url', 'TEXT'],
+      ['runbook_url', 'TEXT'],
+      ['status_page', 'TEXT'],
+    ]
+    for (const [name, type] of added) {
+      if (!columns.includes(name)) {
+        this.sql.exec(`ALTER TABLE apps ADD COLUMN ${name} ${type}`)
+      }
+    }
+    this.sql.exec(`CREATE INDEX IF NOT EXISTS idx_apps_purge ON apps(purge_at) WHERE purge_at IS NOT NULL`)
+  }
+
+  /**
+   * Read a JSON value from the config table
+   */
+  private getConfig<T>(key: string): T | null {
+    const rows = this.sql.exec(`SELECT value FROM config WHERE key = ?`, key).toArray()
+    return rows.length > 0 ? (JSON.parse(rows[0].value as string) as T) : null
+  }
+
+  /**
+   * Write a JSON value to the config table
+   */
+  private setConfig(key: string, value: unknown) {
+    this.sql.exec(
+      `INSERT OR REPLACE INTO config (key, value) VALUES (?, ?)`,
+      key,
+      JSON.stringify(value)
+    )
+  }
+
+  // ---------------------------------------------------------------------------
+  // KV import and cache
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Import apps that only exist in the old KV records: those in the `apps`
+   * list plus any `app:` config (concurrent registrations could drop an app
+   * from the list). Apps already here or deleted since are skipped.
+   * Returns the imported app IDs.
+   */
+  private async importFromKv(): Promise<string[]> {
+    const names = new Set<string>()
+    const listed = await this.env.LOGS_KV.get<string[]>(APPS_KEY, 'json')
+    for (const appId of listed ?? []) {
+      names.add(appId)
+    }
+
+    let cursor: string | undefined
+    do {
+      const page = await this.env.LOGS_KV.list({ prefix: APP_PREFIX, cursor })
+      for (const key of page.keys) {
+        names.add(key.name.slice(APP_PREFIX.length))
+      }
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+
+    const imported: string[] = []
+    for (const appId of names) {
+      if (await this.importApp(appId)) {
+        imported.push(appId)
+      }
+    }
+    return imported
+  }
+
+  /**
+   * Import one app from its KV config if it isn't registered here and
+   * wasn't deleted. A KV config for such an app can only have been written
+   * by the KV-based registry, since the cache only holds unknown apps as
+   * MISSING_APP.
+   */
+  private async importApp(appId: string): Promise<boolean> {
+    if (this.isKnown(appId)) {
+      return false
+    }
+
+    const cached = await this.env.LOGS_KV.get(`${APP_PREFIX}${appId}`)
+    if (!cached) {
+      return false
+    }
+    const config = JSON.parse(cached) as AppConfig
+
+    const keys = apiKeysOf(config)
+    const lastUsed = await Promise.all(keys.map((key) => this.env.LOGS_KV.get(`${KEY_USED_PREFIX}${appId}:${key.id}`)))
+
+    // Re-check after the reads above, which let other requests in
+    if (this.isKnown(appId)) {
+      return false
+    }
+
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec(
+        `INSERT INTO apps (id, name, health_urls, created_at) VALUES (?, ?, ?, ?)`,
+        appId,
+        config.name,
+        JSON.stringify(config.health_urls ?? []),
+        config.created_at
+      )
+      keys.forEach((key, i) => this.insertKey(appId, key, lastUsed[i]))
+      for (const script of config.tail_scripts ?? []) {
+        this.sql.exec(`INSERT OR IGNORE INTO tail_scripts (script, app_id) VALUES (?, ?)`, script, appId)
+      }
+      for (const [name, host] of Object.entries(config.health_secrets ?? {})) {
+        this.sql.exec(`INSERT OR IGNORE INTO health_secrets (name, app_id, host) VALUES (?, ?, ?)`, name, appId, host)
+      }
+    })
+    return true
+  }
+
+  /**
+   * Write an app's current config to the KV cache, or remove it if the app
+   * is gone. Failures are logged; the entry expires on its own.
+   */
+  private async cacheApp(appId: string): Promise<void> {
+    try {
+      const config = this.configOf(appId)
+      if (config) {
+        await this.env.LOGS_KV.put(`${APP_PREFIX}${appId}`, JSON.stringify(config), { expirationTtl: CACHE_TTL_SECONDS })
+      } else {
+        await this.env.LOGS_KV.delete(`${APP_PREFIX}${appId}`)
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      console.error(`Failed to cache app '${appId}': ${message}`)
+    }
+  }
+
+  /**
+   * Cache that an app doesn't exist (or is deleted). Registering or
+   * restoring it overwrites the entry with its config.
+   */
+  private async cacheMissingApp(appId: string): Promise<void> {
+    try {
+      await this.env.LOGS_KV.put(`${APP_PREFIX}${appId}`, MISSING_APP, { expirationTtl: UNMAPPED_TTL_SECONDS })
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      console.error(`Failed to cache missing app '${appId}': ${message}`)
+    }
+  }
+
+  /**
+   * Cache a script's resolved app (UNMAPPED_SCRIPT if it has none), or
+   * remove it (null)
+   */
+  private async cacheScript(script: string, appId: string | null): Promise<void> {
+    try {
+      if (appId !== null) {
+        const expirationTtl = appId === UNMAPPED_SCRIPT ? UNMAPPED_TTL_SECONDS : CACHE_TTL_SECONDS
+        await this.env.LOGS_KV.put(`${SCRIPT_PREFIX}${script}`, appId, { expirationTtl })
+      } else {
+        await this.env.LOGS_KV.delete(`${SCRIPT_PREFIX}${script}`)
+      }
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      console.error(`Failed to cache script '${script}': ${message}`)
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Apps
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Whether an app is registered and not deleted
+   */
+  private hasApp(appId: string): boolean {
+    return this.sql.exec(`SELECT 1 FROM apps WHERE id = ? AND deleted_at IS NULL`, appId).toArray().length > 0
+  }
+
+  /**
+   * Whether an app is registered, awaiting purge or was purged
+   */
+  private isKnown(appId: string): boolean {
+    return this.sql.exec(
+      `SELECT 1 FROM apps WHERE id = ? UNION ALL SELECT 1 FROM deleted_apps WHERE id = ?`,
+      appId,
+      appId
+    ).toArray().length > 0
+  }
+
+  /**
+   * Whether an app exists, importing it from KV first if needed
+   */
+  private async loadApp(appId: string): Promise<boolean> {
+    return this.hasApp(appId) || await this.importApp(appId)
+  }
+
+  /**
+   * Read an app row's metadata columns
+   */
+  private rowToMetadata(row: Record<string, SqlStorageValue>): AppMetadata {
+    return {
+      owner: row.owner as string | null,
+      team: row.team as string | null,
+      environment: row.environment as AppEnvironment | null,
+      tags: JSON.parse(row.tags as string) as string[],
+      description: row.description as string | null,
+      repository_url: row.repository_url as string | null,
+      runbook_url: row.runbook_url as string | null,
+    }
+  }
+
+  /**
+   * Build an app's config from its rows (null if it doesn't exist or is
+   * deleted, unless includeDeleted)
+   */
+  private configOf(appId: string, includeDeleted: boolean = false): AppConfig | null {
+    const app = this.sql.exec(
+      `SELECT * FROM apps WHERE id = ?${includeDeleted ? '' : ' AND deleted_at IS NULL'}`,
+      appId
+    ).toArray()[0]
+    if (!app) {
+      return null
+    }
+
+    const scripts = this.sql.exec(`SELECT script FROM tail_scripts WHERE app_id = ? ORDER BY script`, appId)
+      .toArray()
+      .map((row) => row.script as string)
+    const secrets = this.sql.exec(`SELECT name, host FROM health_secrets WHERE app_id = ? ORDER BY name`, appId)
+      .toArray()
+      .map((row) => [row.name as string, row.host as string])
+
+    return {
+      name: app.name as string,
+      health_urls: JSON.parse(app.health_urls as string) as string[],
+      created_at: app.created_at as string,
+      ...this.rowToMetadata(app),
+      api_keys: this.keysOf(appId).map(({ key }) => key),
+      ...(scripts.length > 0 ? { tail_scripts: scripts } : {}),
+      ...(app.status_page ? { status_page: JSON.parse(app.status_page as string) as StatusPageSettings } : {}),
+      ...(secrets.length > 0 ? { health_secrets: Object.fromEntries(secrets) } : {}),
+    }
+  }
+
+  /**
+   * List registered apps with their metadata, oldest first
+   */
+  listApps(filters: AppFilters = {}): Result<AppListing[]> {
+    const rows = this.sql.exec(`SELECT * FROM apps WHERE deleted_at IS NULL ORDER BY created_at, id`).toArray()
+    const apps = rows.map((row) => ({ id: row.id as string, name: row.name as string, ...this.rowToMetadata(row) }))
+    return Ok(apps.filter((app) => matchesAppFilters(app, filters)))
+  }
+
+  /**
+   * Get an app's config, refreshing its cache entry (apps that don't exist
+   * are cached too, briefly)
+   */
+  async getApp(appId: string): Promise<Result<AppConfig | null>> {
+    if (!await this.loadApp(appId)) {
+      await this.cacheMissingApp(appId)
+      return Ok(null)
+    }
+    await this.cacheApp(appId)
+    return Ok(this.configOf(appId))
+  }
+
+  /**
+   * Register a new app (or update an existing one's name and health URLs).
+   * New apps get a key with every scope, returned once as api_key.
+   */
+  async registerApp(appId: string, name: string, healthUrls: string[]): Promise<Result<{ config: AppConfig; api_key: string | null }>> {
+    const exists = await this.loadApp(appId)
+    // Generate the key up front so the check and insert below run without yielding
+    const { record, secret } = await this.newApiKey({ label: 'Default', scopes: ALL_SCOPES, expires_at: null })
+
+    const pending = this.deletionOf(appId)
+    if (pending) {
+      return Err({
+        code: ErrorCode.CONFLICT,
+        message: `App '${appId}' is deleted and will be purged at ${pending.purge_at}; restore it or register it after that`,
+      })
+    }
+
+    let apiKey: string | null = null
+    this.ctx.storage.transactionSync(() => {
+      if (exists || this.hasApp(appId)) {
+        this.sql.exec(`UPDATE apps SET name = ?, health_urls = ? WHERE id = ?`, name, JSON.stringify(healthUrls), appId)
+      } else {
+        this.sql.exec(
+          `INSERT INTO apps (id, name, health_urls, created_at) VALUES (?, ?, ?, ?)`,
+          appId,
+          name,
+          JSON.stringify(healthUrls),
+          record.created_at
+        )
+        this.insertKey(appId, record)
+        this.sql.exec(`DELETE FROM deleted_apps WHERE id = ?`, appId)
+        apiKey = secret
+      }
+    })
+
+    await this.cacheApp(appId)
+    if (apiKey) {
+      // Tail events for a script named after the app may have been cached as unmapped
+      await this.cacheScript(appId, null)
+    }
+    return Ok({ config: this.configOf(appId)!, api_key: apiKey })
+  }
+
+  /**
+   * Replace an app's health check URLs (null if the app doesn't exist)
+   */
+  async setHealthUrls(appId: string, urls: string[]): Promise<Result<string[] | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    this.sql.exec(`UPDATE apps SET health_urls = ? WHERE id = ?`, JSON.stringify(urls), appId)
+    await this.cacheApp(appId)
+    return Ok(urls)
+  }
+
+  /**
+   * Put an app on the public status page, or take it off with null (null
+   * if the app doesn't exist)
+   */
+  async setStatusPage(appId: string, settings: StatusPageSettings | null): Promise<Result<StatusPageSettings | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    this.sql.exec(`UPDATE apps SET status_page = ? WHERE id = ?`, settings ? JSON.stringify(settings) : null, appId)
+    await this.cacheApp(appId)
+    return Ok(settings)
+  }
+
+  /**
+   * Apps on the public status page with their settings, oldest first
+   */
+  listStatusPages(): Result<{ id: string; name: string; status_page: StatusPageSettings }[]> {
+    const rows = this.sql.exec(
+      `SELECT id, name, status_page FROM apps WHERE deleted_at IS NULL AND status_page IS NOT NULL ORDER BY created_at, id`
+    ).toArray()
+    return Ok(rows.map((row) => ({
+      id: row.id as string,
+      name: row.name as string,
+      status_page: JSON.parse(row.status_page as string) as StatusPageSettings,
+    })))
+  }
+
+  /**
+   * Change an app's name and metadata (null if the app doesn't exist)
+   */
+  async updateApp(appId: string, patch: AppPatch): Promise<Result<AppConfig | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    // Only known fields become column names
+    const columns = (['name', ...Object.keys(EMPTY_METADATA)] as (keyof AppPatch)[]).filter((column) => column in patch)
+    if (columns.length > 0) {
+      this.sql.exec(
+        `UPDATE apps SET ${columns.map((column) => `${column} = ?`).join(', ')} WHERE id = ?`,
+        ...columns.map((column) => column === 'tags' ? JSON.stringify(patch.tags) : patch[column] ?? null),
+        appId
+      )
+      await this.cacheApp(appId)
+    }
+    return Ok(this.configOf(appId))
+  }
+
+  /**
+   * The deletion of an app awaiting purge (null if it isn't deleted)
+   */
+  private deletionOf(appId: string): AppDeletion | null {
+    const row = this.sql.exec(`SELECT * FROM apps WHERE id = ? AND deleted_at IS NOT NULL`, appId).toArray()[0]
+    return row ? this.rowToDeletion(row) : null
+  }
+
+  private rowToDeletion(row: Record<string, SqlStorageValue>): AppDeletion {
+    return {
+      app_id: row.id as string,
+      name: row.name as string,
+      mode: row.delete_mode as DeleteMode,
+      deleted_at: row.deleted_at as string,
+      purge_at: row.purge_at as string,
+      purged: false,
+      archive: null,
+    }
+  }
+
+  /**
+   * Delete an app: it stops resolving at once, and its data is purged
+   * (or archived, then purged) after graceSeconds. Deleting an app that is
+   * already awaiting purge reschedules it. Null if the app doesn't exist.
+   */
+  async deleteApp(appId: string, mode: DeleteMode, graceSeconds: number): Promise<Result<AppDeletion | null>> {
+    if (!await this.loadApp(appId) && !this.deletionOf(appId)) {
+      return Ok(null)
+    }
+
+    const paused = await this.setAppPaused(appId, true)
+    if (!paused.ok) {
+      return paused
+    }
+
+    const now = Date.now()
+    this.sql.exec(
+      `UPDATE apps SET deleted_at = COALESCE(deleted_at, ?), purge_at = ?, delete_mode = ? WHERE id = ?`,
+      new Date(now).toISOString(),
+      new Date(now + graceSeconds * 1000).toISOString(),
+      mode,
+      appId
+    )
+
+    const scripts = this.sql.exec(`SELECT script FROM tail_scripts WHERE app_id = ?`, appId)
+      .toArray()
+      .map((row) => row.script as string)
+    await this.cacheApp(appId)
+    await Promise.all([...scripts, appId].map((script) => this.cacheScript(script, null)))
+
+    if (graceSeconds === 0) {
+      return this.purgeApp(appId)
+    }
+    await this.scheduleAlarm()
+    return Ok(this.deletionOf(appId))
+  }
+
+  /**
+   * Undo a deletion before the app is purged (null if it isn't awaiting purge)
+   */
+  async restoreApp(appId: string): Promise<Result<AppConfig | null>> {
+    if (!this.deletionOf(appId)) {
+      return Ok(null)
+    }
+
+    const resumed = await this.setAppPaused(appId, false)
+    if (!resumed.ok) {
+      return resumed
+    }
+
+    this.sql.exec(`UPDATE apps SET deleted_at = NULL, purge_at = NULL, delete_mode = NULL WHERE id = ?`, appId)
+    const scripts = this.sql.exec(`SELECT script FROM tail_scripts WHERE app_id = ?`, appId)
+      .toArray()
+      .map((row) => row.script as string)
+    await this.cacheApp(appId)
+    await Promise.all([...scripts, appId].map((script) => this.cacheScript(script, null)))
+    await this.scheduleAlarm()
+    return Ok(this.configOf(appId))
+  }
+
+  /**
+   * Stop a deleted app's writes and health and heartbeat checks during the
+   * grace period, or restart them on restore
+   */
+  private async setAppPaused(appId: string, paused: boolean): Promise<Result<unknown>> {
+    try {
+      const res = await getAppDO(this.env, appId).fetch(new Request(`http://do/${paused ? 'pause' : 'resume'}`, { method: 'POST' }))
+      return await res.json() as Result<unknown>
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Err({ code: ErrorCode.INTERNAL_ERROR, message })
+    }
+  }
+
+  /**
+   * List deleted apps awaiting purge, soonest first
+   */
+  listDeletedApps(): Result<AppDeletion[]> {
+    const rows = this.sql.exec(`SELECT * FROM apps WHERE deleted_at IS NOT NULL ORDER BY purge_at, id`).toArray()
+    return Ok(rows.map((row) => this.rowToDeletion(row)))
+  }
+
+  /**
+   * Archive (if asked) and wipe a deleted app's AppLogsDO, then remove its
+   * registration. The ID is remembered so a stale KV entry can't bring the
+   * app back. On failure the app stays deleted and is retried.
+   */
+  private async purgeApp(appId: string): Promise<Result<AppDeletion | null>> {
+    const deletion = this.deletionOf(appId)
+    if (!deletion) {
+      return Ok(null)
+    }
+
+    const stub = getAppDO(this.env, appId)
+    let archive: string | null = null
+    if (deletion.mode === DeleteMode.ARCHIVE) {
+      const { api_keys: _, ...app } = this.configOf(appId, true)!
+      const prefix = `archives/${appId}/${deletion.deleted_at}`
+      const res = await stub.fetch(new Request('http://do/archive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prefix, app: { app_id: appId, ...app, deleted_at: deletion.deleted_at } }),
+      }))
+      const archived = await res.json() as Result<unknown>
+      if (!archived.ok) {
+        return archived
+      }
+      archive = prefix
+    }
+
+    const res = await stub.fetch(new Request('http://do/purge', { method: 'POST' }))
+    const purged = await res.json() as Result<unknown>
+    if (!purged.ok) {
+      return purged
+    }
+
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM apps WHERE id = ?`, appId)
+      this.sql.exec(`DELETE FROM api_keys WHERE app_id = ?`, appId)
+      this.sql.exec(`DELETE FROM tail_scripts WHERE app_id = ?`, appId)
+      this.sql.exec(`DELETE FROM health_secrets WHERE app_id = ?`, appId)
+      this.sql.exec(`INSERT OR REPLACE INTO deleted_apps (id, deleted_at) VALUES (?, ?)`, appId, deletion.deleted_at)
+    })
+    return Ok({ ...deletion, purged: true, archive })
+  }
+
+  /**
+   * Set the alarm for the next purge, or clear it if nothing is deleted
+   */
+  private async scheduleAlarm(retryAt?: number) {
+    const row = this.sql.exec(`SELECT MIN(purge_at) AS next FROM apps WHERE purge_at IS NOT NULL`).one()
+    const next = row.next === null ? null : Date.parse(row.next as string)
+    const at = [next, retryAt].filter((time): time is number => time !== null && time !== undefined)
+    if (at.length > 0) {
+      await this.ctx.storage.setAlarm(Math.min(...at))
+    } else {
+      await this.ctx.storage.deleteAlarm()
+    }
+  }
+
+  /**
+   * Alarm handler - purges deleted apps whose grace period is over
+   */
+  async alarm() {
+    const now = new Date().toISOString()
+    const due = this.sql.exec(`SELECT id FROM apps WHERE purge_at IS NOT NULL AND purge_at <= ?`, now)
+      .toArray()
+      .map((row) => row.id as string)
+
+    let failed = false
+    for (const appId of due) {
+      const result = await this.purgeApp(appId)
+      if (!result.ok) {
+        console.error(`Failed to purge app '${appId}': ${result.error.message}`)
+        failed = true
+      }
+    }
+
+    // Failed purges stay due, so retry them after a delay rather than at once
+    if (failed) {
+      this.sql.exec(
+        `UPDATE apps SET purge_at = ? WHERE purge_at IS NOT NULL AND purge_at <= ?`,
+        new Date(Date.now() + PURGE_RETRY_MS).toISOString(),
+        now
+      )
+    }
+    await this.scheduleAlarm()
+  }
+
+  // ---------------------------------------------------------------------------
+  // Tail scripts
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Resolve the app for a Tail Worker script name: an explicit mapping
+   * first, then a registered app whose ID is the script name
+   */
+  async getAppForScript(script: string): Promise<Result<string | null>> {
+    const mapped = this.sql.exec(
+      `SELECT t.app_id FROM tail_scripts t JOIN apps a ON a.id = t.app_id WHERE t.script = ? AND a.deleted_at IS NULL`,
+      script
+    ).toArray()[0]
+    const appId = mapped ? mapped.app_id as string : await this.loadApp(script) ? script : null
+    await this.cacheScript(script, appId ?? UNMAPPED_SCRIPT)
+    return Ok(appId)
+  }
+
+  /**
+   * Replace the script names mapped to an app (null if the app doesn't
+   * exist). Fails with CONFLICT if another app already has one.
+   */
+  async setTailScripts(appId: string, scripts: string[]): Promise<Result<string[] | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    for (const script of scripts) {
+      const owner = this.sql.exec(`SELECT app_id FROM tail_scripts WHERE script = ?`, script).toArray()[0]
+      if (owner && owner.app_id !== appId) {
+        return Err({ code: ErrorCode.CONFLICT, message: `Script '${script}' is already mapped to app '${owner.app_id}'` })
+      }
+    }
+
+    const previous = this.sql.exec(`SELECT script FROM tail_scripts WHERE app_id = ?`, appId)
+      .toArray()
+      .map((row) => row.script as string)
+
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM tail_scripts WHERE app_id = ?`, appId)
+      for (const script of scripts) {
+        this.sql.exec(`INSERT INTO tail_scripts (script, app_id) VALUES (?, ?)`, script, appId)
+      }
+    })
+
+    await this.cacheApp(appId)
+    await Promise.all([
+      ...previous.filter((script) => !scripts.includes(script)).map((script) => this.cacheScript(script, null)),
+      ...scripts.map((script) => this.cacheScript(script, appId)),
+    ])
+    return Ok(scripts)
+  }
+
+  /**
+   * Replace the HEALTH_* secrets bound to an app, by name and host (null if
+   * the app doesn't exist). Fails with CONFLICT if another app has one.
+   */
+  async setHealthSecrets(appId: string, bindings: Record<string, string>): Promise<Result<Record<string, string> | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    for (const name of Object.keys(bindings)) {
+      const owner = this.sql.exec(`SELECT app_id FROM health_secrets WHERE name = ?`, name).toArray()[0]
+      if (owner && owner.app_id !== appId) {
+        return Err({ code: ErrorCode.CONFLICT, message: `Secret '${name}' is already bound to app '${owner.app_id}'` })
+      }
+    }
+
+    this.ctx.storage.transactionSync(() => {
+      this.sql.exec(`DELETE FROM health_secrets WHERE app_id = ?`, appId)
+      for (const [name, host] of Object.entries(bindings)) {
+        this.sql.exec(`INSERT INTO health_secrets (name, app_id, host) VALUES (?, ?, ?)`, name, appId, host)
+      }
+    })
+
+    await this.cacheApp(appId)
+    return Ok(bindings)
+  }
+
+  // ---------------------------------------------------------------------------
+  // API keys
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Create a key record with a fresh secret. The secret is returned
+   * separately since only its hash is stored.
+   */
+  private async newApiKey(input: ApiKeyInput): Promise<{ record: ApiKey; secret: string }> {
+    const secret = generateSecret()
+    const record: ApiKey = {
+      id: crypto.randomUUID(),
+      label: input.label,
+      ...await hashApiKey(secret),
+      scopes: input.scopes,
+      created_at: new Date().toISOString(),
+      expires_at: input.expires_at,
+    }
+    return { record, secret }
+  }
+
+  private insertKey(appId: string, key: ApiKey, lastUsedAt: string | null = null) {
+    this.sql.exec(
+      `INSERT INTO api_keys (app_id, id, label, prefix, salt, hash, key, scopes, created_at, expires_at, last_used_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      appId,
+      key.id,
+      key.label,
+      key.prefix,
+      key.salt,
+      key.hash,
+      key.key ?? null,
+      JSON.stringify(key.scopes),
+      key.created_at,
+      key.expires_at,
+      lastUsedAt
+    )
+  }
+
+  /**
+   * An app's keys, oldest first, with when each was last used
+   */
+  private keysOf(appId: string): { key: ApiKey; lastUsedAt: string | null }[] {
+    return this.sql.exec(`SELECT * FROM api_keys WHERE app_id = ? ORDER BY created_at, id`, appId)
+      .toArray()
+      .map((row) => ({
+        key: {
+          id: row.id as string,
+          label: row.label as string,
+          prefix: row.prefix as string,
+          salt: row.salt as string,
+          hash: row.hash as string,
+          ...(row.key !== null ? { key: row.key as string } : {}),
+          scopes: JSON.parse(row.scopes as string) as ApiKeyScope[],
+          created_at: row.created_at as string,
+          expires_at: row.expires_at as string | null,
+        },
+        lastUsedAt: row.last_used_at as string | null,
+      }))
+  }
+
+  /**
+   * Strip the secret and hash from a key
+   */
+  private toApiKeyInfo(key: ApiKey, lastUsedAt: string | null = null): ApiKeyInfo {
+    const { key: _, salt: __, hash: ___, ...info } = key
+    return { ...info, last_used_at: lastUsedAt }
+  }
+
+  /**
+   * Replace an app's plaintext secrets with salted hashes. Returns whether
+   * anything changed.
+   */
+  private async hashPlaintextKeys(appId: string): Promise<boolean> {
+    const plaintext = this.keysOf(appId).filter(({ key }) => key.key !== undefined)
+    const hashed = await Promise.all(plaintext.map(({ key }) => migrateApiKey(key)))
+
+    let changed = false
+    for (const key of hashed) {
+      const result = this.sql.exec(
+        `UPDATE api_keys SET key = NULL, prefix = ?, salt = ?, hash = ? WHERE app_id = ? AND id = ? AND key IS NOT NULL`,
+        key.prefix,
+        key.salt,
+        key.hash,
+        appId,
+        key.id
+      )
+      changed ||= result.rowsWritten > 0
+    }
+    return changed
+  }
+
+  /**
+   * Drop an app's expired keys and hash any plaintext ones, as every key
+   * change does
+   */
+  private async tidyKeys(appId: string): Promise<void> {
+    this.sql.exec(`DELETE FROM api_keys WHERE app_id = ? AND expires_at IS NOT NULL AND expires_at <= ?`, appId, new Date().toISOString())
+    await this.hashPlaintextKeys(appId)
+  }
+
+  /**
+   * List an app's API keys without secrets (null if the app doesn't exist)
+   */
+  async listApiKeys(appId: string): Promise<Result<ApiKeyInfo[] | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+    return Ok(this.keysOf(appId).map(({ key, lastUsedAt }) => this.toApiKeyInfo(key, lastUsedAt)))
+  }
+
+  /**
+   * Add an API key to an app (null if the app doesn't exist)
+   */
+  async createApiKey(appId: string, input: ApiKeyInput): Promise<Result<CreatedApiKey | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    const { record, secret } = await this.newApiKey(input)
+    if (!this.hasApp(appId)) {
+      return Ok(null)
+    }
+    this.insertKey(appId, record)
+    await this.tidyKeys(appId)
+
+    await this.cacheApp(appId)
+    return Ok({ ...this.toApiKeyInfo(record), api_key: secret })
+  }
+
+  /**
+   * Replace a key with a new secret, keeping its label, scopes and expiry.
+   * The old key keeps working for graceSeconds so callers can switch over
+   * (0 revokes it now). Null if the app or key doesn't exist.
+   */
+  async rotateApiKey(appId: string, keyId: string, graceSeconds: number): Promise<Result<CreatedApiKey | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    const now = Date.now()
+    const find = () => this.keysOf(appId).find(({ key }) => key.id === keyId && (key.expires_at === null || Date.parse(key.expires_at) > now))
+    const old = find()
+    if (!old) {
+      return Ok(null)
+    }
+
+    const { record: replacement, secret } = await this.newApiKey(old.key)
+    // Another request may have rotated or revoked it meanwhile
+    if (!find()) {
+      return Ok(null)
+    }
+
+    const graceEnd = now + graceSeconds * 1000
+    const oldExpiry = old.key.expires_at ? Math.min(Date.parse(old.key.expires_at), graceEnd) : graceEnd
+    this.ctx.storage.transactionSync(() => {
+      if (graceSeconds > 0) {
+        this.sql.exec(`UPDATE api_keys SET expires_at = ? WHERE app_id = ? AND id = ?`, new Date(oldExpiry).toISOString(), appId, keyId)
+      } else {
+        this.sql.exec(`DELETE FROM api_keys WHERE app_id = ? AND id = ?`, appId, keyId)
+      }
+      this.insertKey(appId, replacement)
+    })
+    await this.tidyKeys(appId)
+
+    await this.cacheApp(appId)
+    return Ok({ ...this.toApiKeyInfo(replacement), api_key: secret })
+  }
+
+  /**
+   * Remove a key immediately. Returns the revoked key, or null if the app or
+   * key doesn't exist.
+   */
+  async revokeApiKey(appId: string, keyId: string): Promise<Result<ApiKeyInfo | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    const revoked = this.keysOf(appId).find(({ key }) => key.id === keyId)
+    if (!revoked) {
+      return Ok(null)
+    }
+
+    this.sql.exec(`DELETE FROM api_keys WHERE app_id = ? AND id = ?`, appId, keyId)
+    await this.tidyKeys(appId)
+
+    await this.cacheApp(appId)
+    return Ok(this.toApiKeyInfo(revoked.key, revoked.lastUsedAt))
+  }
+
+  /**
+   * Replace an app's plaintext secrets with salted hashes. Returns whether
+   * anything changed, or null if the app doesn't exist.
+   */
+  async migrateApiKeys(appId: string): Promise<Result<boolean | null>> {
+    if (!await this.loadApp(appId)) {
+      return Ok(null)
+    }
+
+    const changed = await this.hashPlaintextKeys(appId)
+    if (changed) {
+      await this.cacheApp(appId)
+    }
+    return Ok(changed)
+  }
+
+  /**
+   * Record when a key was last used
+   */
+  touchApiKey(appId: string, keyId: string, usedAt: string): Result<void> {
+    this.sql.exec(`UPDATE api_keys SET last_used_at = ? WHERE app_id = ? AND id = ?`, usedAt, appId, keyId)
+    return Ok(undefined)
+  }
+
+  /**
+   * Route /apps/:app_id requests
+   */
+  private async handleAppRequest(request: Request, url: URL): Promise<Response> {
+    const [, , rawAppId, section, rawKeyId, action] = url.pathname.split('/')
+    const appId = decodeURIComponent(rawAppId)
+    const keyId = rawKeyId === undefined ? undefined : decodeURIComponent(rawKeyId)
+
+    if (!section) {
+      if (request.method === 'GET') {
+        return Response.json(await this.getApp(appId))
+      }
+      if (request.method === 'PUT') {
+        const { name, health_urls } = (await request.json()) as { name: string; health_urls: string[] }
+        return Response.json(await this.registerApp(appId, name, health_urls))
+      }
+      if (request.method === 'PATCH') {
+        const patch = (await request.json()) as AppPatch
+        return Response.json(await this.updateApp(appId, patch))
+      }
+      if (request.method === 'DELETE') {
+        const { mode, grace_seconds } = (await request.json()) as { mode: DeleteMode; grace_seconds: number }
+        return Response.json(await this.deleteApp(appId, mode, grace_seconds))
+      }
+    } else if (section === 'restore' && request.method === 'POST') {
+      return Response.json(await this.restoreApp(appId))
+    } else if (section === 'health-urls' && request.method === 'PUT') {
+      const { urls } = (await request.json()) as { urls: string[] }
+      return Response.json(await this.setHealthUrls(appId, urls))
+    } else if (section === 'status-page' && request.method === 'PUT') {
+      const { settings } = (await request.json()) as { settings: StatusPageSettings | null }
+      return Response.json(await this.setStatusPage(appId, settings))
+    } else if (section === 'tail-scripts' && request.method === 'PUT') {
+      const { scripts } = (await request.json()) as { scripts: string[] }
+      return Response.json(await this.setTailScripts(appId, scripts))
+    } else if (section === 'health-secrets' && request.method === 'PUT') {
+      const { secrets } = (await request.json()) as { secrets: Record<string, string> }
+      return Response.json(await this.setHealthSecrets(appId, secrets))
+    } else if (section === 'keys') {
+      if (!keyId) {
+        if (request.method === 'GET') {
+          return Response.json(await this.listApiKeys(appId))
+        }
+        if (request.method === 'POST') {
+          const input = (await request.json()) as ApiKeyInput
+          return Response.json(await this.createApiKey(appId, input))
+        }
+      } else if (keyId === 'migrate' && !action && request.method === 'POST') {
+        return Response.json(await this.migrateApiKeys(appId))
+      } else if (!action && request.method === 'DELETE') {
+        return Response.json(await this.revokeApiKey(appId, keyId))
+      } else if (action === 'rotate' && request.method === 'POST') {
+        const { grace_seconds } = (await request.json()) as { grace_seconds: number }
+        return Response.json(await this.rotateApiKey(appId, keyId, grace_seconds))
+      } else if (action === 'touch' && request.method === 'POST') {
+        const { used_at } = (await request.json()) as { used_at: string }
+        return Response.json(this.touchApiKey(appId, keyId, used_at))
+      }
+    }
+
+    return Response.json(
+      Err({ code: ErrorCode.NOT_FOUND, message: `Unknown path: ${url.pathname}` }),
+      { status: 404 }
+    )
+  }
+
+  /**
+   * HTTP handler (called by the worker via stub.fetch)
+   */
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const path = url.pathname
+
+    try {
+      // GET /apps - list apps with their metadata, optionally filtered
+      if (request.method === 'GET' && path === '/apps') {
+        const params = url.searchParams
+        return Response.json(this.listApps({
+          team: params.get('team') ?? undefined,
+          environment: (params.get('environment') as AppEnvironment | null) ?? undefined,
+          tag: params.get('tag') ?? undefined,
+        }))
+      }
+
+      // GET /deleted-apps - deleted apps awaiting purge
+      if (request.method === 'GET' && path === '/deleted-apps') {
+        return Response.json(this.listDeletedApps())
+      }
+
+      // GET /status-pages - apps on the public status page
+      if (request.method === 'GET' && path === '/status-pages') {
+        return Response.json(this.listStatusPages())
+      }
+
+      // /apps/:app_id[/...] - one app, its keys and scripts
+      if (path.startsWith('/apps/')) {
+        return await this.handleAppRequest(request, url)
+      }
+
+      // GET /scripts/:name - resolve a tail script to its app
+      if (request.method === 'GET' && path.startsWith('/scripts/')) {
+        return Response.json(await this.getAppForScript(decodeURIComponent(path.slice('/scripts/'.length))))
+      }
+
+      // POST /import - import apps still only in the old KV records
+      if (request.method === 'POST' && path === '/import') {
+        return Response.json(Ok({ imported: await this.importFromKv() }))
+      }
+
+      return Response.json(
+        Err({ code: ErrorCode.NOT_FOUND, message: `Unknown path: ${path}` }),
+        { status: 404 }
+      )
+    } catch (e) {
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      return Response.json(
+        Err({ code: ErrorCode.INTERNAL_ERROR, message }),
+        { status: 500 }
+      )
+    }
+  }
+}
@@ -1,23 +1,44 @@
 import { Hono } from 'hono'
+import { createMiddleware } from 'hono/factory'
 import { cors } from 'hono/cors'
-import { Ok, Err, ErrorCode } from './result'
-import type { Env, LogInput, LogBatchInput } from './types'
+import { Ok, Err, ErrorCode, type Result } from './result'
+import { ApiKeyScope, DeleteMode, type AggregateResult, type AppConfig, type Env, type LogInput, type LogBatchInput, type LogEntry, type AuditActor, type HealthTarget, type HealthAlertSettings, type HeartbeatMonitor, type RetentionStatus } from './types'
 import * as registry from './services/registry'
-import { requireApiKey, requireAdminKey, requireApiKeyOrAdmin } from './middleware/auth'
+import { requireApiKey, requireAdminKey, requireApiKeyOrAdmin, requireMatchingAppId } from './middleware/auth'
 import { dashboard } from './dashboard/index'
+import { alerts } from './routes/alerts'
+import { issues } from './routes/issues'
+import { keys } from './routes/keys'
+import { otlp } from './routes/otlp'
+import { users } from './routes/users'
+import { heartbeats } from './routes/heartbeats'
+import { status } from './routes/status-page'
 import { getAppDO, countByLevel } from './utils'
-
-// Re-export AppLogsDO for wrangler to find
+import { parseRetentionPolicy } from './services/retention'
+import { parseAppPatch, parseAppFilters } from './services/app-metadata'
+import { parseStatsQuery } from './services/stats'
+import { parseHealthTargets, compactHealthTarget, parseHealthAlertSettings, auditedHealthAlertSettings, parseHealthSecretBindings } from './services/health'
+import { parseHeartbeatPing, heartbeatTokenAppId } from './services/heartbeats'
+import { getStatusPage, statusCacheKey, STATUS_CACHE_SECONDS } from './services/status-page'
+import { statusPage } from './dashboard/pages/status'
+import { getBrandConfig } from './dashboard/brand'
+import { handleTail } from './tail'
+import { recordAudit, getAuditDO } from './services/audit'
+
+// Re-export Durable Objects for wrangler to find
 export { AppLogsDO } from './durable-objects/app-logs-do'
+export { AuditDO } from './durable-objects/audit-do'
+export { RegistryDO } from './durable-objects/registry-do'
 
 // Re-export RPC entrypoint for service bindings
 export { LogsRPC } from './rpc'
 
 // Re-export types for consumers
-export type { LogInput, LogEntry, LogLevel, QueryFilters, DailyStats } from './types'
+export type { LogInput, LogEntry, LogLevel, QueryFilters, LogPage, DailyStats, RetentionPolicy, Issue, IssueStatus, ApiKeyScope, ApiKeyInfo, UserRole, DashboardUserInfo, AuditEntry, AuditPage, AppDeletion, DeleteMode, AppMetadata, AppEnvironment, AppPatch, AppFilters, AppListing, StatsBucket, StatsGranularity, AggregateOptions, AggregateGroup, AggregateResult } from './types'
 
 type Variables = {
   appId: string
+  actor: AuditActor
 }
 
 const app = new Hono<{ Bindings: Env; Variables: Variables }>()
@@ -27,6 +48,27 @@ app.use('*', cors())
 // Mount dashboard routes
 app.route('/dashboard', dashboard)
 
+// Mount alert rule routes
+app.route('/apps/:app_id/alerts', alerts)
+
+// Mount issue routes
+app.route('/apps/:app_id/issues', issues)
+
+// Mount heartbeat monitor routes
+app.route('/apps/:app_id/heartbeats', heartbeats)
+
+// Mount status page settings and incident note routes
+app.route('/apps/:app_id/status-page', status)
+
+// Mount API key routes
+app.route('/apps/:app_id/keys', keys)
+
+// Mount dashboard user routes
+app.route('/users', users)
+
+// Mount OpenTelemetry ingestion
+app.route('/v1/logs', otlp)
+
 // Service info
 app.get('/', (c) => {
   return c.json(
@@ -35,24 +77,80 @@ app.get('/', (c) => {
       version: '0.4.0',
       description: 'Centralized logging service for Cloudflare Workers',
       endpoints: {
-        'GET /dashboard': 'Web UI for browsing logs (requires admin key)',
+        'GET /dashboard': 'Web UI for browsing logs (requires a dashboard user or admin key)',
         'POST /logs': 'Write log entries (requires API key)',
-        'GET /logs': 'Query log entries (requires API key)',
+        'GET /logs': 'Query log entries, with full-text search and the q query language (requires API key)',
+        'POST /v1/logs': 'Write OTLP/HTTP JSON logs (requires API key)',
+        'GET /apps/:app_id/tail': 'Live tail logs over WebSocket (requires API key or admin)',
+        'GET /apps/:app_id/aggregate': 'Count and aggregate log entries by group (requires API key or admin)',
         'GET /health/:app_id': 'Get health check history (public)',
-        'GET /stats/:app_id': 'Get daily stats (requires API key or admin)',
+        'GET /health/:app_id/summary': 'Uptime, latency percentiles and incidents per health check URL (requires API key or admin)',
+        'GET /status': 'Status page of the apps put on it (public)',
+        'GET /status.json': 'Status page data (public)',
+        'GET /stats/:app_id': 'Get daily, hourly or per-minute stats (requires API key or admin)',
         'POST /apps/:app_id/prune': 'Delete old logs (requires API key)',
-        'POST /apps/:app_id/health-urls': 'Set health check URLs (requires API key)',
+        'POST /apps/:app_id/health-urls': 'Set health check URLs or targets (requires API key)',
+        'GET /apps/:app_id/health-alerts': 'Health alert settings and each URL\'s state (requires API key or admin)',
+        'PUT /apps/:app_id/health-alerts': 'Set health alert thresholds and webhooks (requires API key or admin)',
+        'POST /heartbeat/:token': 'Ping a heartbeat monitor, optionally with a start/success/fail status and duration (the token authenticates)',
+        'GET /apps/:app_id/heartbeats': 'List heartbeat monitors (requires API key or admin)',
+        'POST /apps/:app_id/heartbeats': 'Create a heartbeat monitor (requires API key or admin)',
+        'PUT /apps/:app_id/heartbeats/:monitor_id': 'Change a heartbeat monitor\'s period or grace time (requires API key or admin)',
+        'DELETE /apps/:app_id/heartbeats/:monitor_id': 'Delete a heartbeat monitor (requires API key or admin)',
+        'GET /apps/:app_id/heartbeats/:monitor_id/pings': 'Recent pings for a heartbeat monitor (requires API key or admin)',
+        'GET /apps/:app_id/retention': 'Get retention policy (requires API key or admin)',
+        'PUT /apps/:app_id/retention': 'Set retention policy (requires API key or admin)',
+        'DELETE /apps/:app_id/retention': 'Remove retention policy (requires API key or admin)',
+        'POST /apps/:app_id/retention/run': 'Enforce retention policy now (requires API key or admin)',
+        'GET /apps/:app_id/alerts': 'List alert rules (requires API key or admin)',
+        'POST /apps/:app_id/alerts': 'Create an alert rule (requires API key or admin)',
+        'GET /apps/:app_id/alerts/history': 'Alert firing history (requires API key or admin)',
+        'GET /apps/:app_id/alerts/:rule_id': 'Get an alert rule (requires API key or admin)',
+        'PUT /apps/:app_id/alerts/:rule_id': 'Replace an alert rule (requires API key or admin)',
+        'DELETE /apps/:app_id/alerts/:rule_id': 'Delete an alert rule (requires API key or admin)',
+        'GET /apps/:app_id/alerts/:rule_id/history': 'Firing history for a rule (requires API key or admin)',
+        'POST /apps/:app_id/alerts/:rule_id/test': 'Test-fire an alert rule (requires API key or admin)',
+        'GET /apps/:app_id/issues': 'List error issues (requires API key or admin)',
+        'GET /apps/:app_id/issues/settings': 'Get issue grouping settings (requires API key or admin)',
+        'PUT /apps/:app_id/issues/settings': 'Set issue grouping settings (requires API key or admin)',
+        'GET /apps/:app_id/issues/:issue_id': 'Get an issue (requires API key or admin)',
+        'PATCH /apps/:app_id/issues/:issue_id': 'Set an issue status (requires API key or admin)',
+        'GET /apps/:app_id/issues/:issue_id/logs': 'Entries grouped into an issue (requires API key or admin)',
+        'GET /apps/:app_id/search-index': 'Search index backfill status (requires API key or admin)',
+        'POST /apps/:app_id/search-index/backfill': 'Index the next backfill batch now (requires API key or admin)',
+        'POST /apps/:app_id/search-index/rebuild': 'Rebuild the search index (requires API key or admin)',
         'GET /apps': 'List registered apps (requires admin key)',
         'POST /apps': 'Register a new app (requires admin key)',
+        'POST /apps/migrate-keys': 'Hash plaintext API keys left from older versions (requires admin key)',
         'GET /apps/:app_id': 'Get app details (requires API key or admin)',
         'DELETE /apps/:app_id': 'Delete an app (requires API key or admin)',
+        'GET /apps/:app_id/keys': 'List API keys (requires admin key)',
+        'POST /apps/:app_id/keys': 'Create a scoped API key (requires admin key)',
+        'POST /apps/:app_id/keys/:key_id/rotate': 'Replace an API key, keeping the old one for a grace period (requires admin key)',
+        'DELETE /apps/:app_id/keys/:key_id': 'Revoke an API key (requires admin key)',
+        'GET /apps/:app_id/status-page': 'Get the app\'s status page settings (requires admin key)',
+        'PUT /apps/:app_id/status-page': 'Put the app and chosen health check URLs on the status page (requires admin key)',
+        'DELETE /apps/:app_id/status-page': 'Take the app off the status page (requires admin key)',
+        'GET /apps/:app_id/status-page/notes': 'List incident notes (requires admin key)',
+        'POST /apps/:app_id/status-page/notes': 'Post an incident note to the status page (requires admin key)',
+        'PATCH /apps/:app_id/status-page/notes/:note_id': 'Update or resolve an incident note (requires admin key)',
+        'DELETE /apps/:app_id/status-page/notes/:note_id': 'Delete an incident note (requires admin key)',
+        'GET /apps/:app_id/tail-scripts': 'Worker scripts tailed into this app (requires admin key)',
+        'PUT /apps/:app_id/tail-scripts': 'Set worker scripts tailed into this app (requires admin key)',
+        'GET /apps/:app_id/health-secrets': 'HEALTH_* secrets bound to this app and the host each is sent to (requires admin key)',
+        'PUT /apps/:app_id/health-secrets': 'Bind HEALTH_* secrets to this app\'s health checks for one host each (requires admin key)',
+        'GET /users': 'List dashboard users (requires admin key)',
+        'GET /users/:username': 'Get a dashboard user (requires admin key)',
+        'PUT /users/:username': 'Create or update a dashboard user (requires admin key)',
+        'DELETE /users/:username': 'Delete a dashboard user (requires admin key)',
+        'GET /audit': 'Query the audit log of administrative actions (requires admin key)',
       },
     })
   )
 })
 
 // POST /logs - Write log(s) (requires API key)
-app.post('/logs', requireApiKey, async (c) => {
+app.post('/logs', requireApiKey(ApiKeyScope.LOGS_WRITE), async (c) => {
   const appId = c.get('appId')
   const body = await c.req.json<LogInput | LogBatchInput>()
   const stub = getAppDO(c.env, appId)
@@ -99,7 +197,8 @@ app.post('/logs', requireApiKey, async (c) => {
 })
 
 // GET /logs - Query logs (requires API key)
-app.get('/logs', requireApiKey, async (c) => {
+// Page with ?cursor=<next_cursor from the previous response>; offset still works
+app.get('/logs', requireApiKey(ApiKeyScope.LOGS_READ), async (c) => {
   const appId = c.get('appId')
   const stub = getAppDO(c.env, appId)
   const url = new URL(c.req.url)
@@ -107,7 +206,57 @@ app.get('/logs', requireApiKey, async (c) => {
   const res = await stub.fetch(new Request(`http://do/logs${url.search}`, {
     method: 'GET',
   }))
-  return c.json(await res.json())
+
+  // Malformed searches and cursors are the caller's fault
+  const result = await res.json() as Result<LogEntry[]>
+  if (!result.ok && result.error.code === ErrorCode.BAD_REQUEST) {
+    return c.json(result, 400)
+  }
+  return c.json(result)
+})
+
+// GET /apps/:app_id/aggregate - Aggregate log entries (requires API key or admin)
+// Filters as for GET /logs, plus group_by, agg (repeatable) and limit
+app.get('/apps/:app_id/aggregate', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  const url = new URL(c.req.url)
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/aggregate${url.search}`, {
+    method: 'GET',
+  }))
+
+  // Invalid specs, searches and filters are the caller's fault
+  const result = await res.json() as Result<AggregateResult>
+  return c.json(result, res.status === 400 ? 400 : result.ok ? 200 : 500)
+})
+
+// GET /apps/:app_id/tail - Live tail over WebSocket (requires API key or admin)
+// Optional filters: level, search, request_id, context.*
+app.get('/apps/:app_id/tail', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+    return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: 'Expected WebSocket upgrade' }), 426)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const url = new URL(c.req.url)
+
+  // Forward the original request so the Upgrade headers reach the DO
+  return stub.fetch(new Request(`http://do/tail${url.search}`, c.req.raw))
 })
 
 // GET /health/:app_id - Get health check history
@@ -122,8 +271,113 @@ app.get('/health/:app_id', async (c) => {
   return c.json(await res.json())
 })
 
+// GET /health/:app_id/summary - Uptime over 24h/7d/30d, latency percentiles and incidents
+// (requires API key or admin)
+app.get('/health/:app_id/summary', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), requireMatchingAppId, async (c) => {
+  const appId = c.req.param('app_id')
+  const stub = getAppDO(c.env, appId)
+  const url = new URL(c.req.url)
+
+  const res = await stub.fetch(new Request(`http://do/health/summary${url.search}`, {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// The status page is public and reads every listed app's DO, so it's built
+// at most once per cache period (per data center) and served from the cache
+const statusCache = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+  const key = statusCacheKey(c.req.url)
+  const cached = await caches.default.match(key)
+  if (cached) {
+    return cached
+  }
+
+  await next()
+  if (c.res.status === 200 || c.res.status === 404) {
+    c.res.headers.set('Cache-Control', `public, max-age=${STATUS_CACHE_SECONDS}`)
+    c.executionCtx.waitUntil(caches.default.put(key, c.res.clone()))
+  }
+})
+
+// GET /status.json - Status page data; 404 until an app is put on the page
+app.get('/status.json', statusCache, async (c) => {
+  const result = await getStatusPage(c.env)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+  if (result.data.apps.length === 0) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: 'No status page' }), 404)
+  }
+  return c.json(result)
+})
+
+// GET /status - Public status page, in the dashboard's branding
+app.get('/status', statusCache, async (c) => {
+  const result = await getStatusPage(c.env)
+  if (!result.ok) {
+    return c.text('Status unavailable', 500)
+  }
+  if (result.data.apps.length === 0) {
+    return c.notFound()
+  }
+  return c.html(statusPage(result.data, getBrandConfig(c.env)))
+})
+
+// POST /heartbeat/:token - Ping a heartbeat monitor (the token is the credential)
+// Body (optional): { status?: 'start' | 'success' | 'fail', duration_ms? }
+app.post('/heartbeat/:token', async (c) => {
+  const token = c.req.param('token')
+  const notFound = Err({ code: ErrorCode.NOT_FOUND, message: 'Unknown heartbeat token' })
+
+  // Tokens carry their app's ID; check it's registered before waking its DO
+  const appId = heartbeatTokenAppId(token)
+  if (!appId) {
+    return c.json(notFound, 404)
+  }
+  const app = await registry.getApp(c.env, appId)
+  if (!app.ok) {
+    return c.json(app, 500)
+  }
+  if (!app.data) {
+    return c.json(notFound, 404)
+  }
+
+  const text = await c.req.text()
+  let body: unknown = null
+  if (text.trim() !== '') {
+    try {
+      body = JSON.parse(text)
+    } catch {
+      return c.json(Err({ code: ErrorCode.VALIDATION_ERROR, message: 'Ping body must be JSON' }), 400)
+    }
+  }
+  const ping = parseHeartbeatPing(body)
+  if (!ping.ok) {
+    return c.json(ping, 400)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request('http://do/heartbeats/ping', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token, ...ping.data }),
+  }))
+  const result = await res.json() as Result<HeartbeatMonitor | null>
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+  if (!result.data) {
+    return c.json(notFound, 404)
+  }
+
+  const { name, state, next_due_at } = result.data
+  return c.json(Ok({ name, state, next_due_at }))
+})
+
 // GET /stats/:app_id - Get daily stats (requires API key or admin)
-app.get('/stats/:app_id', requireApiKeyOrAdmin, async (c) => {
+// Query: granularity (day, hour, minute) with days, hours or minutes
+app.get('/stats/:app_id', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), async (c) => {
   const appId = c.req.param('app_id')
   const authenticatedAppId = c.get('appId')
 
@@ -132,17 +386,21 @@ app.get('/stats/:app_id', requireApiKeyOrAdmin, async (c) => {
     return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
   }
 
-  const days = c.req.query('days') ? parseInt(c.req.query('days')!) : 7
-  const stub = getAppDO(c.env, appId)
+  const url = new URL(c.req.url)
+  const query = parseStatsQuery(url.searchParams)
+  if (!query.ok) {
+    return c.json(query, 400)
+  }
 
-  const res = await stub.fetch(new Request(`http://do/stats?days=${days}`, {
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/stats${url.search}`, {
     method: 'GET',
   }))
   return c.json(await res.json())
 })
 
 // POST /apps/:app_id/prune - Delete old logs (requires API key)
-app.post('/apps/:app_id/prune', requireApiKey, async (c) => {
+app.post('/apps/:app_id/prune', requireApiKey(ApiKeyScope.ADMIN_PRUNE), async (c) => {
   const appId = c.req.param('app_id')
   const authenticatedAppId = c.get('appId')
 
@@ -162,11 +420,19 @@ app.post('/apps/:app_id/prune', requireApiKey, async (c) => {
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(body),
   }))
-  return c.json(await res.json())
+  const result = await res.json() as Result<{ deleted: number }>
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, {
+      action: 'app.prune',
+      app_id: appId,
+      after: { before: body.before, deleted: result.data.deleted },
+    })
+  }
+  return c.json(result)
 })
 
-// POST /apps/:app_id/health-urls - Set health check URLs (requires API key or admin)
-app.post('/apps/:app_id/health-urls', requireApiKeyOrAdmin, async (c) => {
+// POST /apps/:app_id/health-urls - Set health check URLs or targets (requires API key or admin)
+app.post('/apps/:app_id/health-urls', requireApiKeyOrAdmin(ApiKeyScope.HEALTH_WRITE), async (c) => {
   const appId = c.req.param('app_id')
   const authenticatedAppId = c.get('appId')
 
@@ -175,28 +441,224 @@ app.post('/apps/:app_id/health-urls', requireApiKeyOrAdmin, async (c) => {
     return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
   }
 
-  const body = await c.req.json<{ urls: string[] }>()
-
-  if (!body.urls || !Array.isArray(body.urls)) {
-    return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: '"urls" array required' }), 400)
+  const body = await c.req.json<{ urls?: unknown }>()
+  const targets = parseHealthTargets(body.urls)
+  if (!targets.ok) {
+    return c.json(targets, 400)
   }
 
   const stub = getAppDO(c.env, appId)
+  const previous = await (await stub.fetch(new Request('http://do/health-urls'))).json() as Result<HealthTarget[]>
   const res = await stub.fetch(new Request('http://do/health-urls', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
+    body: JSON.stringify({ urls: targets.data, app_id: appId }),
+  }))
+  const result = await res.json() as Result<{ urls: string[]; targets: HealthTarget[] }>
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, {
+      action: 'app.health_urls',
+      app_id: appId,
+      before: previous.ok ? previous.data.map(compactHealthTarget) : null,
+      after: result.data.targets.map(compactHealthTarget),
+    })
+  }
+  return c.json(result)
+})
+
+// GET /apps/:app_id/health-alerts - Health alert settings and states (requires API key or admin)
+app.get('/apps/:app_id/health-alerts', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request('http://do/health-alerts', {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// PUT /apps/:app_id/health-alerts - Set health alert settings (requires API key or admin)
+app.put('/apps/:app_id/health-alerts', requireApiKeyOrAdmin(ApiKeyScope.HEALTH_WRITE), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  const parsed = parseHealthAlertSettings(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const previous = await (await stub.fetch(new Request('http://do/health-alerts'))).json() as Result<{ settings: HealthAlertSettings }>
+  const res = await stub.fetch(new Request('http://do/health-alerts', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+  const result = await res.json() as Result<HealthAlertSettings>
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, {
+      action: 'app.health_alerts',
+      app_id: appId,
+      before: previous.ok ? auditedHealthAlertSettings(previous.data.settings) : null,
+      after: auditedHealthAlertSettings(result.data),
+    })
+  }
+  return c.json(result)
+})
+
+// GET /apps/:app_id/retention - Get retention policy (requires API key or admin)
+app.get('/apps/:app_id/retention', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request('http://do/retention', {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// PUT /apps/:app_id/retention - Set retention policy (requires API key or admin)
+app.put('/apps/:app_id/retention', requireApiKeyOrAdmin(ApiKeyScope.ADMIN_PRUNE), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  const parsed = parseRetentionPolicy(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const previous = await (await stub.fetch(new Request('http://do/retention'))).json() as Result<RetentionStatus>
+  const res = await stub.fetch(new Request('http://do/retention', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+  const result = await res.json() as Result<unknown>
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, {
+      action: 'app.retention.set',
+      app_id: appId,
+      before: previous.ok ? previous.data.policy : null,
+      after: parsed.data,
+    })
+  }
+  return c.json(result)
+})
+
+// DELETE /apps/:app_id/retention - Remove retention policy (requires API key or admin)
+app.delete('/apps/:app_id/retention', requireApiKeyOrAdmin(ApiKeyScope.ADMIN_PRUNE), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const previous = await (await stub.fetch(new Request('http://do/retention'))).json() as Result<RetentionStatus>
+  const res = await stub.fetch(new Request('http://do/retention', {
+    method: 'DELETE',
+  }))
+  const result = await res.json() as Result<unknown>
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, {
+      action: 'app.retention.clear',
+      app_id: appId,
+      before: previous.ok ? previous.data.policy : null,
+    })
+  }
+  return c.json(result)
+})
+
+// POST /apps/:app_id/retention/run - Enforce retention policy now (requires API key or admin)
+app.post('/apps/:app_id/retention/run', requireApiKeyOrAdmin(ApiKeyScope.ADMIN_PRUNE), async (c) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
+
+  // If using API key auth, must match the requested app
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request('http://do/retention/run', {
+    method: 'POST',
+  }))
+  const result = await res.json() as Result<{ deleted: number }>
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, {
+      action: 'app.retention.run',
+      app_id: appId,
+      after: { deleted: result.data.deleted },
+    })
+  }
+  return c.json(result)
+})
+
+// GET /apps/:app_id/search-index - Search index backfill status (requires API key or admin)
+app.get('/apps/:app_id/search-index', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), requireMatchingAppId, async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id'))
+  const res = await stub.fetch(new Request('http://do/search-index', {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// POST /apps/:app_id/search-index/backfill - Index the next backfill batch now (requires API key or admin)
+app.post('/apps/:app_id/search-index/backfill', requireApiKeyOrAdmin(ApiKeyScope.LOGS_WRITE), requireMatchingAppId, async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id'))
+  const res = await stub.fetch(new Request('http://do/search-index/backfill', {
+    method: 'POST',
+  }))
+  return c.json(await res.json())
+})
+
+// POST /apps/:app_id/search-index/rebuild - Re-index all logs in the background (requires API key or admin)
+app.post('/apps/:app_id/search-index/rebuild', requireApiKeyOrAdmin(ApiKeyScope.LOGS_WRITE), requireMatchingAppId, async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id'))
+  const res = await stub.fetch(new Request('http://do/search-index/rebuild', {
+    method: 'POST',
   }))
   return c.json(await res.json())
 })
 
 // GET /apps - List registered apps (admin only)
+// Filters: team, environment, tag
 app.get('/apps', requireAdminKey, async (c) => {
   if (!c.env.LOGS_KV) {
     return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
   }
 
-  const result = await registry.listApps(c.env.LOGS_KV)
+  const filters = parseAppFilters(new URL(c.req.url).searchParams)
+  if (!filters.ok) {
+    return c.json(filters, 400)
+  }
+
+  const result = await registry.listApps(c.env, filters.data)
   if (!result.ok) {
     return c.json(result, 500)
   }
@@ -216,16 +678,70 @@ app.post('/apps', requireAdminKey, async (c) => {
     return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: '"app_id" and "name" required' }), 400)
   }
 
-  const result = await registry.registerApp(c.env.LOGS_KV, body.app_id, body.name, body.health_urls)
+  const result = await registry.registerApp(c.env, body.app_id, body.name, body.health_urls)
+  if (!result.ok) {
+    return c.json(result, result.error.code === ErrorCode.CONFLICT ? 409 : 500)
+  }
+
+  // Only a new app's first key is returned; keys can't be read back later
+  const { config, api_key } = result.data
+  const { api_key: _, api_keys: __, ...safeData } = config
+  if (api_key) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'app.register', app_id: body.app_id, after: safeData })
+  }
+  return c.json(Ok(api_key ? { ...safeData, api_key } : safeData), 201)
+})
+
+// POST /apps/migrate-keys - Hash every app's plaintext API keys (admin only)
+// Keys are also hashed on first use; this closes the gap for keys that are never used.
+// Apps still only in the KV-based registry's records are imported first.
+app.post('/apps/migrate-keys', requireAdminKey, async (c) => {
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+
+  const imported = await registry.importLegacyApps(c.env)
+  if (!imported.ok) {
+    return c.json(imported, 500)
+  }
+  if (imported.data.imported.length > 0) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'app.import', after: imported.data })
+  }
+
+  const apps = await registry.listApps(c.env)
+  if (!apps.ok) {
+    return c.json(apps, 500)
+  }
+
+  const migrated: string[] = []
+  for (const appId of apps.data) {
+    const result = await registry.migrateApiKeys(c.env, appId)
+    if (!result.ok) {
+      return c.json(result, 500)
+    }
+    if (result.data) {
+      migrated.push(appId)
+    }
+  }
+
+  if (migrated.length > 0) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'key.migrate', after: { migrated } })
+  }
+  return c.json(Ok({ checked: apps.data.length, migrated, imported: imported.data.imported }))
+})
+
+// GET /apps/deleted - Deleted apps awaiting purge (admin only)
+app.get('/apps/deleted', requireAdminKey, async (c) => {
+  const result = await registry.listDeletedApps(c.env)
   if (!result.ok) {
     return c.json(result, 500)
   }
 
-  return c.json(Ok(result.data), 201)
+  return c.json(Ok(result.data))
 })
 
 // GET /apps/:app_id - Get app details (requires API key or admin)
-app.get('/apps/:app_id', requireApiKeyOrAdmin, async (c) => {
+app.get('/apps/:app_id', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), async (c) => {
   const appId = c.req.param('app_id')
   const authenticatedAppId = c.get('appId')
 
@@ -238,7 +754,36 @@ app.get('/apps/:app_id', requireApiKeyOrAdmin, async (c) => {
     return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
   }
 
-  const result = await registry.getApp(c.env.LOGS_KV, appId)
+  const result = await registry.getApp(c.env, appId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  // Don't expose API keys
+  const { api_key: _, api_keys: __, ...safeData } = result.data
+  return c.json(Ok(safeData))
+})
+
+// PATCH /apps/:app_id - Change an app's name and metadata (admin only)
+// Fields: name, owner, team, environment, tags, description, repository_url, runbook_url (null clears)
+app.patch('/apps/:app_id', requireAdminKey, async (c) => {
+  const appId = c.req.param('app_id')
+
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+
+  const patch = parseAppPatch(await c.req.json().catch(() => null))
+  if (!patch.ok) {
+    return c.json(patch, 400)
+  }
+
+  const previous = await registry.getApp(c.env, appId)
+  const result = await registry.updateApp(c.env, appId, patch.data)
   if (!result.ok) {
     return c.json(result, 500)
   }
@@ -247,13 +792,129 @@ app.get('/apps/:app_id', requireApiKeyOrAdmin, async (c) => {
     return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
   }
 
-  // Don't expose API key
-  const { api_key: _, ...safeData } = result.data
+  const { api_key: _, api_keys: __, ...safeData } = result.data
+  let before: Omit<AppConfig, 'api_key' | 'api_keys'> | null = null
+  if (previous.ok && previous.data) {
+    const { api_key: _, api_keys: __, ...safePrevious } = previous.data
+    before = safePrevious
+  }
+  await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'app.update', app_id: appId, before, after: safeData })
   return c.json(Ok(safeData))
 })
 
+// GET /apps/:app_id/tail-scripts - Worker scripts whose Tail Worker events go to this app (admin only)
+app.get('/apps/:app_id/tail-scripts', requireAdminKey, async (c) => {
+  const appId = c.req.param('app_id')
+
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+
+  const result = await registry.getApp(c.env, appId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  return c.json(Ok(result.data.tail_scripts ?? []))
+})
+
+// PUT /apps/:app_id/tail-scripts - Replace the app's tail script names (admin only,
+// since a mapping routes another worker's logs into this app)
+app.put('/apps/:app_id/tail-scripts', requireAdminKey, async (c) => {
+  const appId = c.req.param('app_id')
+
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+
+  const body = await c.req.json<{ scripts?: unknown }>()
+  const scripts = body.scripts
+  if (!Array.isArray(scripts) || !scripts.every((script) => typeof script === 'string' && script.length > 0)) {
+    return c.json(Err({ code: ErrorCode.VALIDATION_ERROR, message: '"scripts" must be an array of script names' }), 400)
+  }
+
+  const previous = await registry.getApp(c.env, appId)
+  const result = await registry.setTailScripts(c.env, appId, [...new Set(scripts as string[])])
+  if (!result.ok) {
+    return c.json(result, result.error.code === ErrorCode.CONFLICT ? 409 : 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, {
+    action: 'app.tail_scripts',
+    app_id: appId,
+    before: previous.ok ? previous.data?.tail_scripts ?? [] : null,
+    after: result.data,
+  })
+  return c.json(Ok(result.data))
+})
+
+// GET /apps/:app_id/health-secrets - HEALTH_* secrets bound to the app, by host (admin only)
+app.get('/apps/:app_id/health-secrets', requireAdminKey, async (c) => {
+  const appId = c.req.param('app_id')
+
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+
+  const result = await registry.getApp(c.env, appId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  return c.json(Ok(result.data.health_secrets ?? {}))
+})
+
+// PUT /apps/:app_id/health-secrets - Replace the app's secret bindings (admin only,
+// since a binding lets the app's health checks send a Worker secret to that host)
+app.put('/apps/:app_id/health-secrets', requireAdminKey, async (c) => {
+  const appId = c.req.param('app_id')
+
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+
+  const body = await c.req.json<{ secrets?: unknown }>()
+  const bindings = parseHealthSecretBindings(body.secrets)
+  if (!bindings.ok) {
+    return c.json(bindings, 400)
+  }
+
+  const previous = await registry.getApp(c.env, appId)
+  const result = await registry.setHealthSecrets(c.env, appId, bindings.data)
+  if (!result.ok) {
+    return c.json(result, result.error.code === ErrorCode.CONFLICT ? 409 : 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, {
+    action: 'app.health_secrets',
+    app_id: appId,
+    before: previous.ok ? previous.data?.health_secrets ?? {} : null,
+    after: result.data,
+  })
+  return c.json(Ok(result.data))
+})
+
 // DELETE /apps/:app_id - Delete an app (requires API key or admin)
-app.delete('/apps/:app_id', requireApiKeyOrAdmin, async (c) => {
+// ?mode=purge (default) wipes its logs, health checks and stats; mode=archive exports them
+// to R2 first. Either happens after ?grace_seconds (default 7 days; 0 for now), until
+// which the app can be restored. Only the admin key can change the grace period.
+app.delete('/apps/:app_id', requireApiKeyOrAdmin(ApiKeyScope.ADMIN_PRUNE), async (c) => {
   const appId = c.req.param('app_id')
   const authenticatedAppId = c.get('appId')
 
@@ -266,13 +927,71 @@ app.delete('/apps/:app_id', requireApiKeyOrAdmin, async (c) => {
     return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
   }
 
-  const result = await registry.deleteApp(c.env.LOGS_KV, appId)
+  // An app key can't cut the grace period short, so the delete stays undoable
+  const params = new URL(c.req.url).searchParams
+  if (authenticatedAppId) {
+    params.delete('grace_seconds')
+  }
+  const options = registry.parseDeleteOptions(params)
+  if (!options.ok) {
+    return c.json(options, 400)
+  }
+  if (options.data.mode === DeleteMode.ARCHIVE && !c.env.ARCHIVE_BUCKET) {
+    return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: 'Archiving requires the ARCHIVE_BUCKET R2 binding' }), 400)
+  }
+
+  const previous = await registry.getApp(c.env, appId)
+  const result = await registry.deleteApp(c.env, appId, options.data.mode, options.data.grace_seconds)
   if (!result.ok) {
     return c.json(result, 500)
   }
 
-  return c.json(Ok(result.data))
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  let before: Omit<AppConfig, 'api_key' | 'api_keys'> | null = null
+  if (previous.ok && previous.data) {
+    const { api_key: _, api_keys: __, ...safeData } = previous.data
+    before = safeData
+  }
+  const { mode, purge_at, purged, archive } = result.data
+  await recordAudit(c.env, c.get('actor'), c.req.raw, {
+    action: 'app.delete',
+    app_id: appId,
+    before,
+    after: { mode, purge_at, purged, archive },
+  })
+  return c.json(Ok({ deleted: true, ...result.data }))
+})
+
+// POST /apps/:app_id/restore - Undo a delete before the app is purged (admin only)
+app.post('/apps/:app_id/restore', requireAdminKey, async (c) => {
+  const appId = c.req.param('app_id')
+  const result = await registry.restoreApp(c.env, appId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' is not awaiting purge` }), 404)
+  }
+
+  const { api_key: _, api_keys: __, ...safeData } = result.data
+  await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'app.restore', app_id: appId, after: safeData })
+  return c.json(Ok(safeData))
+})
+
+// GET /audit - Query the audit log, newest first (admin only)
+// Filters: app_id, action (exact, or a prefix ending in '.'), actor_type, actor_id, since, until, limit, cursor
+app.get('/audit', requireAdminKey, async (c) => {
+  const url = new URL(c.req.url)
+  const res = await getAuditDO(c.env).fetch(new Request(`http://do/entries${url.search}`))
+  return c.json(await res.json(), res.status as 200 | 400 | 500)
 })
 
-// Export the Hono app as the default fetch handler
-export default app
+// Export the Hono app as the fetch handler, plus the Tail Worker handler
+export default {
+  fetch: app.fetch,
+  tail: (events, env) => handleTail(events, env),
+} satisfies ExportedHandler<Env>
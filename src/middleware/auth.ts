@@ -3,19 +3,108 @@
  */
 
 import { createMiddleware } from 'hono/factory'
-import { Err, ErrorCode } from '../result'
+import { Ok, Err, ErrorCode, type Result } from '../result'
 import * as registry from '../services/registry'
-import type { Env } from '../types'
+import { apiKeysOf, isExpired, matchesApiKey, hasPlaintextKeys } from '../services/api-keys'
+import { ACCESS_JWT_HEADER, authenticateAccess, getAccessConfig } from '../services/access'
+import { timingSafeEqual } from '../utils'
+import { ADMIN_KEY_ACTOR } from '../services/audit'
+import { AuditActorType, UserRole, type ApiKey, type ApiKeyScope, type AuditActor, type Env } from '../types'
 
 type Variables = {
   appId: string
+  actor: AuditActor // Who authenticated, for the audit log
+}
+
+/**
+ * Failed credential check: the error response body and its HTTP status
+ */
+interface ApiKeyFailure {
+  status: 401 | 403 | 404 | 500
+  body: Err
+}
+
+/**
+ * Check an API key against the registered app's keys and require a scope.
+ * Returns the matching key.
+ */
+export async function verifyApiKey(env: Env, appId: string, apiKey: string, scope: ApiKeyScope): Promise<Result<ApiKey, ApiKeyFailure>> {
+  if (!env.LOGS_KV) {
+    return Err({ status: 500, body: Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }) })
+  }
+
+  // Look up the app and validate API key
+  const appResult = await registry.getApp(env, appId)
+  if (!appResult.ok) {
+    return Err({ status: 500, body: appResult })
+  }
+
+  if (!appResult.data) {
+    return Err({ status: 404, body: Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }) })
+  }
+
+  let key: ApiKey | undefined
+  for (const candidate of apiKeysOf(appResult.data)) {
+    if (await matchesApiKey(candidate, apiKey)) {
+      key = candidate
+      break
+    }
+  }
+  if (!key) {
+    return Err({ status: 401, body: Err({ code: ErrorCode.UNAUTHORIZED, message: 'Invalid API key' }) })
+  }
+
+  if (isExpired(key)) {
+    return Err({ status: 401, body: Err({ code: ErrorCode.UNAUTHORIZED, message: 'API key expired' }) })
+  }
+
+  if (!key.scopes.includes(scope)) {
+    return Err({ status: 403, body: Err({ code: ErrorCode.FORBIDDEN, message: `API key lacks the '${scope}' scope` }) })
+  }
+
+  // Hash secrets still stored in plaintext now that one is known to be in use
+  if (hasPlaintextKeys(appResult.data)) {
+    const migrated = await registry.migrateApiKeys(env, appId)
+    if (!migrated.ok) {
+      console.error(`Failed to hash API keys for '${appId}': ${migrated.error.message}`)
+    }
+  }
+
+  const touched = await registry.touchApiKey(env, appId, key.id)
+  if (!touched.ok) {
+    console.error(`Failed to record API key use for '${appId}': ${touched.error.message}`)
+  }
+
+  return Ok(key)
+}
+
+/**
+ * Check a Cloudflare Access JWT for the admin role over every app, the
+ * Access equivalent of the admin key. Returns the identity's email.
+ */
+export async function verifyAccessAdmin(env: Env, token: string): Promise<Result<string, ApiKeyFailure>> {
+  const result = await authenticateAccess(env, token)
+  if (!result.ok) {
+    return Err({ status: 500, body: result })
+  }
+
+  if (!result.data) {
+    return Err({ status: 401, body: Err({ code: ErrorCode.UNAUTHORIZED, message: 'Invalid Access token' }) })
+  }
+
+  const { identity, grant } = result.data
+  if (!grant || grant.role !== UserRole.ADMIN || grant.apps !== null) {
+    return Err({ status: 403, body: Err({ code: ErrorCode.FORBIDDEN, message: `'${identity.email}' is not an admin` }) })
+  }
+
+  return Ok(identity.email)
 }
 
 /**
  * Middleware that requires X-App-ID and X-Api-Key headers.
- * Validates the API key against the registered app.
+ * Validates the API key against the registered app and requires the scope.
  */
-export const requireApiKey = createMiddleware<{ Bindings: Env; Variables: Variables }>(async (c, next) => {
+export const requireApiKey = (scope: ApiKeyScope) => createMiddleware<{ Bindings: Env; Variables: Variables }>(async (c, next) => {
   const appId = c.req.header('X-App-ID')
   const apiKey = c.req.header('X-Api-Key')
 
@@ -27,26 +116,14 @@ export const requireApiKey = createMiddleware<{ Bindings: Env; Variables: Variab
     return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'X-Api-Key header required' }), 401)
   }
 
-  if (!c.env.LOGS_KV) {
-    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
-  }
-
-  // Look up the app and validate API key
-  const appResult = await registry.getApp(c.env.LOGS_KV, appId)
-  if (!appResult.ok) {
-    return c.json(appResult, 500)
-  }
-
-  if (!appResult.data) {
-    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
-  }
-
-  if (appResult.data.api_key !== apiKey) {
-    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'Invalid API key' }), 401)
+  const verified = await verifyApiKey(c.env, appId, apiKey, scope)
+  if (!verified.ok) {
+    return c.json(verified.error.body, verified.error.status)
   }
 
   // Store validated app ID in context for downstream handlers
   c.set('appId', appId)
+  c.set('actor', { type: AuditActorType.API_KEY, id: verified.data.id })
 
   await next()
 })
@@ -71,8 +148,20 @@ export const requireAppId = createMiddleware<{ Bindings: Env; Variables: Variabl
  * Middleware that requires X-Admin-Key header for admin operations.
  * Used to protect app registration and other administrative endpoints.
  */
-export const requireAdminKey = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+export const requireAdminKey = createMiddleware<{ Bindings: Env; Variables: Variables }>(async (c, next) => {
   const adminKey = c.req.header('X-Admin-Key')
+  const accessToken = c.req.header(ACCESS_JWT_HEADER)
+
+  // Behind Cloudflare Access, an admin identity stands in for the admin key
+  if (!adminKey && accessToken && getAccessConfig(c.env)) {
+    const verified = await verifyAccessAdmin(c.env, accessToken)
+    if (!verified.ok) {
+      return c.json(verified.error.body, verified.error.status)
+    }
+    c.set('actor', { type: AuditActorType.ACCESS, id: verified.data })
+    await next()
+    return
+  }
 
   if (!c.env.ADMIN_API_KEY) {
     return c.json(Err({ code: ErrorCode.SERVICE_UNAVAILABLE, message: 'Admin authentication not configured' }), 503)
@@ -82,20 +171,22 @@ export const requireAdminKey = createMiddleware<{ Bindings: Env }>(async (c, nex
     return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'X-Admin-Key header required' }), 401)
   }
 
-  if (adminKey !== c.env.ADMIN_API_KEY) {
+  if (!timingSafeEqual(adminKey, c.env.ADMIN_API_KEY)) {
     return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'Invalid admin key' }), 401)
   }
 
+  c.set('actor', ADMIN_KEY_ACTOR)
   await next()
 })
 
 /**
  * Middleware that accepts either admin key OR API key authentication.
- * Admin key grants access to any resource.
- * API key grants access only to the authenticated app's resources.
+ * Admin key (or a Cloudflare Access admin) grants access to any resource.
+ * API key grants access only to the authenticated app's resources, and
+ * only if it has the scope.
  * Sets appId in context if API key auth is used (null for admin auth).
  */
-export const requireApiKeyOrAdmin = createMiddleware<{ Bindings: Env; Variables: Variables }>(async (c, next) => {
+export const requireApiKeyOrAdmin = (scope: ApiKeyScope) => createMiddleware<{ Bindings: Env; Variables: Variables }>(async (c, next) => {
   const adminKey = c.req.header('X-Admin-Key')
   const apiKey = c.req.header('X-Api-Key')
   const appId = c.req.header('X-App-ID')
@@ -105,14 +196,27 @@ export const requireApiKeyOrAdmin = createMiddleware<{ Bindings: Env; Variables:
     if (!c.env.ADMIN_API_KEY) {
       return c.json(Err({ code: ErrorCode.SERVICE_UNAVAILABLE, message: 'Admin authentication not configured' }), 503)
     }
-    if (adminKey === c.env.ADMIN_API_KEY) {
+    if (timingSafeEqual(adminKey, c.env.ADMIN_API_KEY)) {
       // Admin auth successful - no appId restriction
+      c.set('actor', ADMIN_KEY_ACTOR)
       await next()
       return
     }
     return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'Invalid admin key' }), 401)
   }
 
+  // Then a Cloudflare Access admin identity
+  const accessToken = c.req.header(ACCESS_JWT_HEADER)
+  if (!apiKey && accessToken && getAccessConfig(c.env)) {
+    const verified = await verifyAccessAdmin(c.env, accessToken)
+    if (!verified.ok) {
+      return c.json(verified.error.body, verified.error.status)
+    }
+    c.set('actor', { type: AuditActorType.ACCESS, id: verified.data })
+    await next()
+    return
+  }
+
   // Fall back to API key auth
   if (!appId) {
     return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: 'X-App-ID header required (or use X-Admin-Key)' }), 400)
@@ -122,26 +226,29 @@ export const requireApiKeyOrAdmin = createMiddleware<{ Bindings: Env; Variables:
     return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'X-Api-Key header required (or use X-Admin-Key)' }), 401)
   }
 
-  if (!c.env.LOGS_KV) {
-    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  const verified = await verifyApiKey(c.env, appId, apiKey, scope)
+  if (!verified.ok) {
+    return c.json(verified.error.body, verified.error.status)
   }
 
-  // Look up the app and validate API key
-  const appResult = await registry.getApp(c.env.LOGS_KV, appId)
-  if (!appResult.ok) {
-    return c.json(appResult, 500)
-  }
+  // Store validated app ID in context for downstream handlers
+  c.set('appId', appId)
+  c.set('actor', { type: AuditActorType.API_KEY, id: verified.data.id })
 
-  if (!appResult.data) {
-    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
-  }
+  await next()
+})
 
-  if (appResult.data.api_key !== apiKey) {
-    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'Invalid API key' }), 401)
-  }
+/**
+ * Middleware that rejects API key callers whose app doesn't match the :app_id route param.
+ * Must run after requireApiKeyOrAdmin (admin callers have no appId and pass through).
+ */
+export const requireMatchingAppId = createMiddleware<{ Bindings: Env; Variables: Variables }>(async (c, next) => {
+  const appId = c.req.param('app_id')
+  const authenticatedAppId = c.get('appId')
 
-  // Store validated app ID in context for downstream handlers
-  c.set('appId', appId)
+  if (authenticatedAppId && appId !== authenticatedAppId) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'App ID mismatch' }), 403)
+  }
 
   await next()
 })
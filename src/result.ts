@@ -66,6 +66,7 @@ export const ErrorCode = {
   UNAUTHORIZED: 'UNAUTHORIZED',
   FORBIDDEN: 'FORBIDDEN',
   NOT_FOUND: 'NOT_FOUND',
+  CONFLICT: 'CONFLICT',
   VALIDATION_ERROR: 'VALIDATION_ERROR',
 
   // Server errors
@@ -83,3 +84,10 @@ export function wrapError(e: unknown): Err<ApiError> {
   const message = e instanceof Error ? e.message : 'Unknown error'
   return Err({ code: ErrorCode.INTERNAL_ERROR, message })
 }
+
+/**
+ * Create an Err result with VALIDATION_ERROR code
+ */
+export function validationError(message: string): Err<ApiError> {
+  return Err({ code: ErrorCode.VALIDATION_ERROR, message })
+}
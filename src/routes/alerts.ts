@@ -0,0 +1,130 @@
+/**
+ * Alert rule routes - mounted at /apps/:app_id/alerts
+ */
+
+import { Hono } from 'hono'
+import { Err, ErrorCode, type Result } from '../result'
+import { ApiKeyScope, type Env, type AlertRule, type AlertFiring } from '../types'
+import { requireApiKeyOrAdmin, requireMatchingAppId } from '../middleware/auth'
+import { parseAlertRuleInput } from '../services/alerts'
+import { getAppDO } from '../utils'
+
+type Variables = {
+  appId: string
+}
+
+const alerts = new Hono<{ Bindings: Env; Variables: Variables }>()
+
+// Rules send matching entries to webhooks, so managing them needs read access
+alerts.use('*', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), requireMatchingAppId)
+
+// GET / - List alert rules
+alerts.get('/', async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request('http://do/alerts', {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// POST / - Create an alert rule
+alerts.post('/', async (c) => {
+  const parsed = parseAlertRuleInput(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const appId = c.req.param('app_id')!
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/alerts?app_id=${encodeURIComponent(appId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+  return c.json(await res.json(), 201)
+})
+
+// GET /history - Firing history across all rules
+alerts.get('/history', async (c) => {
+  const limit = c.req.query('limit') ?? '50'
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/alerts/history?limit=${limit}`, {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// GET /:rule_id - Get an alert rule
+alerts.get('/:rule_id', async (c) => {
+  const ruleId = c.req.param('rule_id')
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/alerts/${ruleId}`, {
+    method: 'GET',
+  }))
+
+  const result = await res.json() as Result<AlertRule | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Alert rule '${ruleId}' not found` }), 404)
+  }
+  return c.json(result)
+})
+
+// PUT /:rule_id - Replace an alert rule
+alerts.put('/:rule_id', async (c) => {
+  const ruleId = c.req.param('rule_id')
+  const parsed = parseAlertRuleInput(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const appId = c.req.param('app_id')!
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/alerts/${ruleId}?app_id=${encodeURIComponent(appId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+
+  const result = await res.json() as Result<AlertRule | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Alert rule '${ruleId}' not found` }), 404)
+  }
+  return c.json(result)
+})
+
+// DELETE /:rule_id - Delete an alert rule and its history
+alerts.delete('/:rule_id', async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/alerts/${c.req.param('rule_id')}`, {
+    method: 'DELETE',
+  }))
+  return c.json(await res.json())
+})
+
+// GET /:rule_id/history - Firing history for a rule
+alerts.get('/:rule_id/history', async (c) => {
+  const limit = c.req.query('limit') ?? '50'
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/alerts/${c.req.param('rule_id')}/history?limit=${limit}`, {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// POST /:rule_id/test - Send the rule's webhook now and report delivery
+alerts.post('/:rule_id/test', async (c) => {
+  const ruleId = c.req.param('rule_id')
+  const appId = c.req.param('app_id')!
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/alerts/${ruleId}/test?app_id=${encodeURIComponent(appId)}`, {
+    method: 'POST',
+  }))
+
+  const result = await res.json() as Result<AlertFiring | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Alert rule '${ruleId}' not found` }), 404)
+  }
+  return c.json(result)
+})
+
+export { alerts }
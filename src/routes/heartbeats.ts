@@ -0,0 +1,130 @@
+/**
+ * Heartbeat monitor routes - mounted at /apps/:app_id/heartbeats
+ */
+
+import { Hono } from 'hono'
+import { createMiddleware } from 'hono/factory'
+import { Err, ErrorCode, type Result } from '../result'
+import { ApiKeyScope, type AuditActor, type Env, type HeartbeatMonitor } from '../types'
+import { requireApiKeyOrAdmin, requireMatchingAppId } from '../middleware/auth'
+import * as registry from '../services/registry'
+import { parseHeartbeatInput, createHeartbeatToken } from '../services/heartbeats'
+import { recordAudit } from '../services/audit'
+import { getAppDO } from '../utils'
+
+type Variables = {
+  appId: string
+  actor: AuditActor
+}
+
+const heartbeats = new Hono<{ Bindings: Env; Variables: Variables }>()
+
+// Monitors are read like health checks and managed like health check URLs
+const read = requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ)
+const write = requireApiKeyOrAdmin(ApiKeyScope.HEALTH_WRITE)
+
+// The admin key works for any app ID, so check the app exists rather than
+// leaving monitors whose pings are rejected (after auth, so unauthenticated
+// callers can't probe app IDs)
+const requireApp = createMiddleware<{ Bindings: Env; Variables: Variables }>(async (c, next) => {
+  const appId = c.req.param('app_id')!
+  const result = await registry.getApp(c.env, appId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  await next()
+})
+
+// GET / - List monitors with their state and ping tokens
+heartbeats.get('/', read, requireMatchingAppId, requireApp, async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request('http://do/heartbeats', {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// POST / - Create a monitor ({ name, period_seconds, grace_seconds? })
+heartbeats.post('/', write, requireMatchingAppId, requireApp, async (c) => {
+  const appId = c.req.param('app_id')!
+  const parsed = parseHeartbeatInput(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request('http://do/heartbeats', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...parsed.data, token: createHeartbeatToken(appId) }),
+  }))
+
+  const result = await res.json() as Result<HeartbeatMonitor>
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  const { token: _, ...monitor } = result.data
+  await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'heartbeat.create', app_id: appId, after: monitor })
+  return c.json(result, 201)
+})
+
+// PUT /:monitor_id - Change a monitor's name, period or grace time
+heartbeats.put('/:monitor_id', write, requireMatchingAppId, requireApp, async (c) => {
+  const appId = c.req.param('app_id')!
+  const monitorId = c.req.param('monitor_id')
+  const parsed = parseHeartbeatInput(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/heartbeats/${monitorId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+
+  const result = await res.json() as Result<HeartbeatMonitor | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Heartbeat monitor '${monitorId}' not found` }), 404)
+  }
+  if (result.ok && result.data) {
+    const { token: _, ...monitor } = result.data
+    await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'heartbeat.update', app_id: appId, after: monitor })
+  }
+  return c.json(result)
+})
+
+// DELETE /:monitor_id - Delete a monitor and its pings
+heartbeats.delete('/:monitor_id', write, requireMatchingAppId, requireApp, async (c) => {
+  const appId = c.req.param('app_id')!
+  const monitorId = c.req.param('monitor_id')
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/heartbeats/${monitorId}`, {
+    method: 'DELETE',
+  }))
+
+  const result = await res.json() as Result<{ deleted: boolean }>
+  if (result.ok && result.data.deleted) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'heartbeat.delete', app_id: appId, before: { id: monitorId } })
+  }
+  return c.json(result)
+})
+
+// GET /:monitor_id/pings - Recent pings, newest first
+heartbeats.get('/:monitor_id/pings', read, requireMatchingAppId, requireApp, async (c) => {
+  const limit = c.req.query('limit') ?? '50'
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/heartbeats/${c.req.param('monitor_id')}/pings?limit=${limit}`, {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+export { heartbeats }
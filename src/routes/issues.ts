@@ -0,0 +1,119 @@
+/**
+ * Issue routes - mounted at /apps/:app_id/issues
+ */
+
+import { Hono } from 'hono'
+import { Err, ErrorCode, type Result } from '../result'
+import { ApiKeyScope, IssueStatus, type Env, type Issue } from '../types'
+import { requireApiKeyOrAdmin, requireMatchingAppId } from '../middleware/auth'
+import { parseIssueStatus, parseIssueSettings } from '../services/issues'
+import { getAppDO } from '../utils'
+
+type Variables = {
+  appId: string
+}
+
+const issues = new Hono<{ Bindings: Env; Variables: Variables }>()
+
+issues.use('*', requireApiKeyOrAdmin(ApiKeyScope.LOGS_READ), requireMatchingAppId)
+
+// GET / - List issues
+// Optional: status (open|resolved|ignored), sort (last_seen|count), limit, offset
+issues.get('/', async (c) => {
+  const status = c.req.query('status')
+  if (status && !Object.values<string>(IssueStatus).includes(status)) {
+    return c.json(Err({ code: ErrorCode.VALIDATION_ERROR, message: `Unknown issue status '${status}'` }), 400)
+  }
+
+  const url = new URL(c.req.url)
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/issues${url.search}`, {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// GET /settings - Issue grouping settings
+issues.get('/settings', async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request('http://do/issues/settings', {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// PUT /settings - Set issue grouping settings ({ include_warn })
+issues.put('/settings', async (c) => {
+  const parsed = parseIssueSettings(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request('http://do/issues/settings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+  return c.json(await res.json())
+})
+
+// GET /:issue_id - Get an issue
+issues.get('/:issue_id', async (c) => {
+  const issueId = c.req.param('issue_id')
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/issues/${issueId}`, {
+    method: 'GET',
+  }))
+
+  const result = await res.json() as Result<Issue | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Issue '${issueId}' not found` }), 404)
+  }
+  return c.json(result)
+})
+
+// PATCH /:issue_id - Set an issue's status ({ status })
+issues.patch('/:issue_id', async (c) => {
+  const issueId = c.req.param('issue_id')
+  const parsed = parseIssueStatus(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/issues/${issueId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ status: parsed.data }),
+  }))
+
+  const result = await res.json() as Result<Issue | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Issue '${issueId}' not found` }), 404)
+  }
+  return c.json(result)
+})
+
+// GET /:issue_id/logs - Entries grouped into an issue, newest first
+// Optional: limit, cursor
+issues.get('/:issue_id/logs', async (c) => {
+  const params = new URLSearchParams({ issue_id: c.req.param('issue_id') })
+  const limit = c.req.query('limit')
+  const cursor = c.req.query('cursor')
+  if (limit) params.set('limit', limit)
+  if (cursor) params.set('cursor', cursor)
+
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request(`http://do/logs?${params.toString()}`, {
+    method: 'GET',
+  }))
+
+  const result = await res.json() as Result<unknown>
+  if (!result.ok && result.error.code === ErrorCode.BAD_REQUEST) {
+    return c.json(result, 400)
+  }
+  return c.json(result)
+})
+
+export { issues }
@@ -0,0 +1,107 @@
+/**
+ * API key routes - mounted at /apps/:app_id/keys (admin only)
+ */
+
+import { Hono } from 'hono'
+import { Ok, Err, ErrorCode } from '../result'
+import type { AuditActor, Env } from '../types'
+import { requireAdminKey } from '../middleware/auth'
+import * as registry from '../services/registry'
+import { parseApiKeyInput, parseGraceSeconds } from '../services/api-keys'
+import { recordAudit } from '../services/audit'
+
+const keys = new Hono<{ Bindings: Env; Variables: { actor: AuditActor } }>()
+
+keys.use('*', requireAdminKey)
+
+keys.use('*', async (c, next) => {
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+  await next()
+})
+
+// GET / - List keys (secrets are never returned)
+keys.get('/', async (c) => {
+  const appId = c.req.param('app_id')!
+  const result = await registry.listApiKeys(c.env, appId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  return c.json(Ok(result.data))
+})
+
+// POST / - Create a key ({ label, scopes, expires_at? }); the secret is only returned here
+keys.post('/', async (c) => {
+  const appId = c.req.param('app_id')!
+  const parsed = parseApiKeyInput(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const result = await registry.createApiKey(c.env, appId, parsed.data)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  const { api_key: _, ...info } = result.data
+  await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'key.create', app_id: appId, after: info })
+  return c.json(Ok(result.data), 201)
+})
+
+// POST /:key_id/rotate - Issue a replacement key ({ grace_seconds? })
+// The old key keeps working for grace_seconds (default 24h) so callers can switch without downtime
+keys.post('/:key_id/rotate', async (c) => {
+  const keyId = c.req.param('key_id')
+  const parsed = parseGraceSeconds(await c.req.json().catch(() => ({})))
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const appId = c.req.param('app_id')!
+  const result = await registry.rotateApiKey(c.env, appId, keyId, parsed.data)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `API key '${keyId}' not found` }), 404)
+  }
+
+  const { api_key: _, ...info } = result.data
+  await recordAudit(c.env, c.get('actor'), c.req.raw, {
+    action: 'key.rotate',
+    app_id: appId,
+    before: { id: keyId },
+    after: { ...info, grace_seconds: parsed.data },
+  })
+  return c.json(Ok(result.data), 201)
+})
+
+// DELETE /:key_id - Revoke a key immediately
+keys.delete('/:key_id', async (c) => {
+  const keyId = c.req.param('key_id')
+  const appId = c.req.param('app_id')!
+  const result = await registry.revokeApiKey(c.env, appId, keyId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `API key '${keyId}' not found` }), 404)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'key.revoke', app_id: appId, before: result.data })
+  return c.json(Ok(result.data))
+})
+
+export { keys }
@@ -0,0 +1,122 @@
+/**
+ * OpenTelemetry log ingestion - mounted at /v1/logs (the OTLP/HTTP default path)
+ */
+
+import { Hono } from 'hono'
+import { Err, ErrorCode } from '../result'
+import { ApiKeyScope, type Env } from '../types'
+import { verifyApiKey } from '../middleware/auth'
+import { parseOtlpLogs } from '../services/otlp'
+import { getAppDO, countByLevel } from '../utils'
+
+const otlp = new Hono<{ Bindings: Env }>()
+
+// Largest (decompressed) export request accepted
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+
+/**
+ * Read a stream as UTF-8 text, or null once it passes maxBytes (the rest
+ * isn't read, so a small gzip body can't expand without limit)
+ */
+async function readText(stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<string | null> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+  let bytes = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    bytes += value.byteLength
+    if (bytes > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+// POST / - OTLP/HTTP JSON ExportLogsServiceRequest (requires API key)
+// The app is X-App-ID, or the service.name resource attribute if the header is absent
+otlp.post('/', async (c) => {
+  const contentType = c.req.header('Content-Type') ?? ''
+  if (!contentType.includes('application/json')) {
+    return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: 'Only OTLP/HTTP JSON is supported (Content-Type: application/json)' }), 415)
+  }
+
+  const apiKey = c.req.header('X-Api-Key')
+  if (!apiKey) {
+    return c.json(Err({ code: ErrorCode.UNAUTHORIZED, message: 'X-Api-Key header required' }), 401)
+  }
+
+  // With X-App-ID the key can be checked before the body is read
+  let appId = c.req.header('X-App-ID')
+  if (appId) {
+    const verified = await verifyApiKey(c.env, appId, apiKey, ApiKeyScope.LOGS_WRITE)
+    if (!verified.ok) {
+      return c.json(verified.error.body, verified.error.status)
+    }
+  }
+
+  // Collectors gzip request bodies by default
+  const stream = c.req.header('Content-Encoding')?.toLowerCase() === 'gzip' && c.req.raw.body
+    ? c.req.raw.body.pipeThrough(new DecompressionStream('gzip'))
+    : c.req.raw.body
+  let body: unknown
+  try {
+    const raw = stream ? await readText(stream, MAX_BODY_BYTES) : ''
+    if (raw === null) {
+      return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: `Body is larger than ${MAX_BODY_BYTES} bytes` }), 413)
+    }
+    body = JSON.parse(raw)
+  } catch {
+    return c.json(Err({ code: ErrorCode.BAD_REQUEST, message: 'Invalid JSON body' }), 400)
+  }
+
+  const parsed = parseOtlpLogs(body)
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const { logs, service_names } = parsed.data
+  if (!appId) {
+    if (service_names.length !== 1) {
+      const message = service_names.length === 0
+        ? 'X-App-ID header or service.name resource attribute required'
+        : 'Multiple service.name values in one request, send X-App-ID'
+      return c.json(Err({ code: ErrorCode.BAD_REQUEST, message }), 400)
+    }
+    appId = service_names[0]
+
+    const verified = await verifyApiKey(c.env, appId, apiKey, ApiKeyScope.LOGS_WRITE)
+    if (!verified.ok) {
+      return c.json(verified.error.body, verified.error.status)
+    }
+  }
+
+  if (logs.length > 0) {
+    const stub = getAppDO(c.env, appId)
+    const res = await stub.fetch(new Request('http://do/logs?keep_timestamps=true', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ logs }),
+    }))
+    const result = await res.json() as { ok: boolean }
+
+    if (!result.ok) {
+      return c.json(result, 500)
+    }
+
+    // Record stats in DO (atomic, no race condition)
+    await stub.fetch(new Request('http://do/stats', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ counts: countByLevel(logs) }),
+    }))
+  }
+
+  // ExportLogsServiceResponse: an empty object means everything was accepted
+  return c.json({})
+})
+
+export { otlp }
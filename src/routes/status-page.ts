@@ -0,0 +1,169 @@
+/**
+ * Status page routes - mounted at /apps/:app_id/status-page (admin only)
+ */
+
+import { Hono } from 'hono'
+import { Ok, Err, ErrorCode, type Result } from '../result'
+import type { AuditActor, AppConfig, Env, HealthTarget, StatusNote } from '../types'
+import { requireAdminKey } from '../middleware/auth'
+import * as registry from '../services/registry'
+import { parseStatusPageSettings, parseStatusNoteInput, parseStatusNotePatch, purgeStatusCache } from '../services/status-page'
+import { recordAudit } from '../services/audit'
+import { getAppDO } from '../utils'
+
+const status = new Hono<{ Bindings: Env; Variables: { actor: AuditActor; app: AppConfig } }>()
+
+status.use('*', requireAdminKey)
+
+// Every route needs the app to exist, so notes aren't kept for unknown apps
+status.use('*', async (c, next) => {
+  const appId = c.req.param('app_id')!
+  const result = await registry.getApp(c.env, appId)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `App '${appId}' not found` }), 404)
+  }
+
+  c.set('app', result.data)
+  await next()
+})
+
+// Changes show on the public page straight away rather than when its cache expires
+status.use('*', async (c, next) => {
+  await next()
+  if (c.req.method !== 'GET' && c.res.ok) {
+    await purgeStatusCache(c.req.url)
+  }
+})
+
+// GET / - The app's status page settings (null if it isn't on the page)
+status.get('/', (c) => {
+  return c.json(Ok(c.get('app').status_page ?? null))
+})
+
+// PUT / - Put the app on the status page ({ name?, targets: [{ url, label }] })
+status.put('/', async (c) => {
+  const appId = c.req.param('app_id')!
+  const targets = await (await getAppDO(c.env, appId).fetch(new Request('http://do/health-urls'))).json() as Result<HealthTarget[]>
+  if (!targets.ok) {
+    return c.json(targets, 500)
+  }
+
+  const parsed = parseStatusPageSettings(await c.req.json(), targets.data.map((target) => target.url))
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const result = await registry.setStatusPage(c.env, appId, parsed.data)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, {
+    action: 'app.status_page',
+    app_id: appId,
+    before: c.get('app').status_page ?? null,
+    after: parsed.data,
+  })
+  return c.json(result)
+})
+
+// DELETE / - Take the app off the status page (its notes are kept)
+status.delete('/', async (c) => {
+  const appId = c.req.param('app_id')!
+  const result = await registry.setStatusPage(c.env, appId, null)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, {
+    action: 'app.status_page',
+    app_id: appId,
+    before: c.get('app').status_page ?? null,
+    after: null,
+  })
+  return c.json(result)
+})
+
+// GET /notes - Every incident note, newest first
+status.get('/notes', async (c) => {
+  const stub = getAppDO(c.env, c.req.param('app_id')!)
+  const res = await stub.fetch(new Request('http://do/status-notes', {
+    method: 'GET',
+  }))
+  return c.json(await res.json())
+})
+
+// POST /notes - Post an incident note ({ title, message, status? })
+status.post('/notes', async (c) => {
+  const appId = c.req.param('app_id')!
+  const parsed = parseStatusNoteInput(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request('http://do/status-notes', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+
+  const result = await res.json() as Result<StatusNote>
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'status_note.create', app_id: appId, after: result.data })
+  return c.json(result, 201)
+})
+
+// PATCH /notes/:note_id - Update a note's title, message or status
+status.patch('/notes/:note_id', async (c) => {
+  const appId = c.req.param('app_id')!
+  const noteId = c.req.param('note_id')
+  const parsed = parseStatusNotePatch(await c.req.json())
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/status-notes/${noteId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(parsed.data),
+  }))
+
+  const result = await res.json() as Result<StatusNote | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Incident note '${noteId}' not found` }), 404)
+  }
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'status_note.update', app_id: appId, after: result.data })
+  }
+  return c.json(result)
+})
+
+// DELETE /notes/:note_id - Delete a note
+status.delete('/notes/:note_id', async (c) => {
+  const appId = c.req.param('app_id')!
+  const noteId = c.req.param('note_id')
+  const stub = getAppDO(c.env, appId)
+  const res = await stub.fetch(new Request(`http://do/status-notes/${noteId}`, {
+    method: 'DELETE',
+  }))
+
+  const result = await res.json() as Result<StatusNote | null>
+  if (result.ok && !result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `Incident note '${noteId}' not found` }), 404)
+  }
+  if (result.ok) {
+    await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'status_note.delete', app_id: appId, before: result.data })
+  }
+  return c.json(result)
+})
+
+export { status }
@@ -0,0 +1,96 @@
+/**
+ * Dashboard user routes - mounted at /users (admin only)
+ */
+
+import { Hono } from 'hono'
+import { Ok, Err, ErrorCode } from '../result'
+import type { AuditActor, Env } from '../types'
+import { requireAdminKey } from '../middleware/auth'
+import * as userService from '../services/users'
+import { recordAudit } from '../services/audit'
+
+const users = new Hono<{ Bindings: Env; Variables: { actor: AuditActor } }>()
+
+users.use('*', requireAdminKey)
+
+users.use('*', async (c, next) => {
+  if (!c.env.LOGS_KV) {
+    return c.json(Err({ code: ErrorCode.INTERNAL_ERROR, message: 'KV namespace not configured' }), 500)
+  }
+  await next()
+})
+
+// GET / - List users (password hashes are never returned)
+users.get('/', async (c) => {
+  const result = await userService.listUsers(c.env.LOGS_KV)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  return c.json(result)
+})
+
+// GET /:username - Get a user
+users.get('/:username', async (c) => {
+  const username = c.req.param('username')
+  const result = await userService.getUser(c.env.LOGS_KV, username)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `User '${username}' not found` }), 404)
+  }
+
+  return c.json(Ok(result.data))
+})
+
+// PUT /:username - Create or update a user ({ role, apps?, password? })
+// A password is required to create a user; omit it to keep the current one
+users.put('/:username', async (c) => {
+  const username = c.req.param('username')
+  if (!userService.isValidUsername(username)) {
+    return c.json(Err({ code: ErrorCode.VALIDATION_ERROR, message: 'Username must be 1-64 letters, digits, dots, dashes or underscores' }), 400)
+  }
+
+  const existing = await userService.getUser(c.env.LOGS_KV, username)
+  if (!existing.ok) {
+    return c.json(existing, 500)
+  }
+
+  const parsed = userService.parseUserInput(await c.req.json(), existing.data === null)
+  if (!parsed.ok) {
+    return c.json(parsed, 400)
+  }
+
+  const result = await userService.saveUser(c.env.LOGS_KV, username, parsed.data)
+  if (!result.ok) {
+    return c.json(result, result.error.code === ErrorCode.VALIDATION_ERROR ? 400 : 500)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, {
+    action: result.data.created ? 'user.create' : 'user.update',
+    before: existing.data,
+    after: parsed.data.password !== undefined ? { ...result.data.user, password_changed: true } : result.data.user,
+  })
+  return c.json(Ok(result.data.user), result.data.created ? 201 : 200)
+})
+
+// DELETE /:username - Delete a user; their dashboard sessions stop working immediately
+users.delete('/:username', async (c) => {
+  const username = c.req.param('username')
+  const existing = await userService.getUser(c.env.LOGS_KV, username)
+  const result = await userService.deleteUser(c.env.LOGS_KV, username)
+  if (!result.ok) {
+    return c.json(result, 500)
+  }
+
+  if (!result.data.deleted) {
+    return c.json(Err({ code: ErrorCode.NOT_FOUND, message: `User '${username}' not found` }), 404)
+  }
+
+  await recordAudit(c.env, c.get('actor'), c.req.raw, { action: 'user.delete', before: existing.ok ? existing.data : null })
+  return c.json(Ok(result.data))
+})
+
+export { users }
@@ -6,8 +6,29 @@
  */
 
 import { WorkerEntrypoint } from 'cloudflare:workers'
-import type { Env, LogInput, LogEntry, QueryFilters, DailyStats } from './types'
+import type { Env, LogInput, LogEntry, LogPage, QueryFilters, DailyStats, StatsBucket, AggregateOptions, AggregateResult, RetentionPolicy, RetentionStatus } from './types'
 import { getAppDO, countByLevel } from './utils'
+import { parseRetentionPolicy } from './services/retention'
+import { STATS_BUCKETS } from './services/stats'
+import { parseAggregateOptions } from './services/aggregate'
+
+/**
+ * Query string for the filter fields of QueryFilters (not paging or sort)
+ */
+function filterParams(filters?: QueryFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters?.level) params.set('level', filters.level)
+  if (filters?.since) params.set('since', filters.since)
+  if (filters?.until) params.set('until', filters.until)
+  if (filters?.request_id) params.set('request_id', filters.request_id)
+  if (filters?.issue_id) params.set('issue_id', filters.issue_id)
+  if (filters?.search) params.set('search', filters.search)
+  if (filters?.q) params.set('q', filters.q)
+  for (const [key, value] of Object.entries(filters?.context ?? {})) {
+    params.set(`context.${key}`, value)
+  }
+  return params
+}
 
 /**
  * RPC interface for worker-logs service binding.
@@ -38,16 +59,17 @@ export class LogsRPC extends WorkerEntrypoint<Env> {
       body: JSON.stringify(entry),
     }))
 
-    const result = await res.json() as { ok: boolean; data: LogEntry }
+    const result = await res.json() as { ok: true; data: LogEntry } | { ok: false; error: { message: string } }
+    if (!result.ok) {
+      throw new Error(result.error.message)
+    }
 
     // Record stats in DO (atomic, no race condition)
-    if (result.ok) {
-      await stub.fetch(new Request('http://do/stats', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ level: entry.level }),
-      }))
-    }
+    await stub.fetch(new Request('http://do/stats', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ level: entry.level }),
+    }))
 
     return result.data
   }
@@ -64,41 +86,77 @@ export class LogsRPC extends WorkerEntrypoint<Env> {
       body: JSON.stringify({ logs: entries }),
     }))
 
-    const result = await res.json() as { ok: boolean; data: { count: number } }
+    const result = await res.json() as { ok: true; data: { count: number } } | { ok: false; error: { message: string } }
+    if (!result.ok) {
+      throw new Error(result.error.message)
+    }
 
     // Record stats in DO (atomic, no race condition)
-    if (result.ok) {
-      const counts = countByLevel(entries)
-      await stub.fetch(new Request('http://do/stats', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ counts }),
-      }))
-    }
+    const counts = countByLevel(entries)
+    await stub.fetch(new Request('http://do/stats', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ counts }),
+    }))
 
     return result.data
   }
 
   /**
    * Query logs with optional filters
+   * Pass `cursor` from queryPage() to continue where a page left off
    */
   async query(appId: string, filters?: QueryFilters): Promise<LogEntry[]> {
+    const page = await this.queryPage(appId, filters)
+    return page.logs
+  }
+
+  /**
+   * Query one page of logs, returning the cursor for the next page
+   * (next_cursor is null on the last page)
+   */
+  async queryPage(appId: string, filters?: QueryFilters): Promise<LogPage> {
     const stub = this.getStub(appId)
 
-    const params = new URLSearchParams()
-    if (filters?.level) params.set('level', filters.level)
-    if (filters?.since) params.set('since', filters.since)
-    if (filters?.until) params.set('until', filters.until)
-    if (filters?.request_id) params.set('request_id', filters.request_id)
+    const params = filterParams(filters)
+    if (filters?.sort) params.set('sort', filters.sort)
     if (filters?.limit) params.set('limit', String(filters.limit))
     if (filters?.offset) params.set('offset', String(filters.offset))
+    if (filters?.cursor) params.set('cursor', filters.cursor)
 
     const search = params.toString() ? `?${params.toString()}` : ''
     const res = await stub.fetch(new Request(`http://do/logs${search}`, {
       method: 'GET',
     }))
 
-    const result = await res.json() as { ok: boolean; data: LogEntry[] }
+    const result = await res.json() as { ok: boolean; data: LogEntry[]; next_cursor?: string | null }
+    return { logs: result.data, next_cursor: result.next_cursor ?? null }
+  }
+
+  /**
+   * Aggregate entries matching the filters, e.g. p95 of a context field by
+   * route: aggregate(appId, { since }, { group_by: 'context.route', aggregations: ['p95(context.duration_ms)'] })
+   * Throws on an invalid group_by, aggregation or search.
+   */
+  async aggregate(appId: string, filters: QueryFilters = {}, options: AggregateOptions = {}): Promise<AggregateResult> {
+    const spec = parseAggregateOptions(options)
+    if (!spec.ok) {
+      throw new Error(spec.error.message)
+    }
+
+    const params = filterParams(filters)
+    if (options.group_by) params.set('group_by', options.group_by)
+    for (const aggregation of options.aggregations ?? []) params.append('agg', aggregation)
+    if (options.limit) params.set('limit', String(options.limit))
+
+    const res = await this.getStub(appId).fetch(new Request(`http://do/aggregate?${params}`, {
+      method: 'GET',
+    }))
+
+    const result = await res.json() as { ok: true; data: AggregateResult } | { ok: false; error: { message: string } }
+    if (!result.ok) {
+      throw new Error(result.error.message)
+    }
     return result.data
   }
 
@@ -116,6 +174,68 @@ export class LogsRPC extends WorkerEntrypoint<Env> {
     return result.ok ? result.data : []
   }
 
+  /**
+   * Get hourly or per-minute stats for an app, newest first. Defaults to
+   * the last 24 hours or 60 minutes.
+   */
+  async getStatsBuckets(appId: string, granularity: 'hour' | 'minute', count?: number): Promise<StatsBucket[]> {
+    const stub = this.getStub(appId)
+    const { param, default: defaultCount } = STATS_BUCKETS[granularity]
+
+    const res = await stub.fetch(new Request(`http://do/stats?granularity=${granularity}&${param}=${count ?? defaultCount}`, {
+      method: 'GET',
+    }))
+
+    const result = await res.json() as { ok: boolean; data: StatsBucket[] }
+    return result.ok ? result.data : []
+  }
+
+  /**
+   * Get the retention policy for an app and its last run
+   */
+  async getRetention(appId: string): Promise<RetentionStatus> {
+    const stub = this.getStub(appId)
+
+    const res = await stub.fetch(new Request('http://do/retention', {
+      method: 'GET',
+    }))
+
+    const result = await res.json() as { ok: boolean; data: RetentionStatus }
+    return result.ok ? result.data : { policy: null, last_run: null }
+  }
+
+  /**
+   * Set the retention policy for an app (throws on an invalid policy)
+   */
+  async setRetention(appId: string, policy: RetentionPolicy): Promise<RetentionPolicy> {
+    const parsed = parseRetentionPolicy(policy)
+    if (!parsed.ok) {
+      throw new Error(parsed.error.message)
+    }
+
+    const stub = this.getStub(appId)
+
+    const res = await stub.fetch(new Request('http://do/retention', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(parsed.data),
+    }))
+
+    const result = await res.json() as { ok: boolean; data: RetentionPolicy }
+    return result.data
+  }
+
+  /**
+   * Remove the retention policy for an app
+   */
+  async clearRetention(appId: string): Promise<void> {
+    const stub = this.getStub(appId)
+
+    await stub.fetch(new Request('http://do/retention', {
+      method: 'DELETE',
+    }))
+  }
+
   /**
    * Convenience method: log an info message
    */
@@ -0,0 +1,265 @@
+/**
+ * Cloudflare Access Service - verify Access JWTs and map groups to roles
+ *
+ * When the worker sits behind Cloudflare Access, every request carries a
+ * signed Cf-Access-Jwt-Assertion header. The JWT's email is the caller's
+ * identity and its groups map to a role and apps through ACCESS_GROUPS.
+ */
+
+import { Ok, Err, type Result, ErrorCode, wrapError } from '../result'
+import { UserRole, type Env } from '../types'
+import { canAccess, parseUserInput } from './users'
+
+export const ACCESS_JWT_HEADER = 'Cf-Access-Jwt-Assertion'
+
+// Re-fetch signing keys this often, or sooner when a token names an unknown key,
+// but never more than once a minute (failed fetches included)
+const JWKS_TTL_MS = 10 * 60 * 1000
+const JWKS_MIN_REFRESH_MS = 60 * 1000
+
+// Tolerated clock difference for exp and nbf
+const CLOCK_SKEW_SECONDS = 60
+
+/**
+ * A role over some apps (null for all apps), granted to an Access group
+ */
+export interface AccessGrant {
+  role: UserRole
+  apps: string[] | null
+}
+
+/**
+ * Access settings from the environment
+ */
+export interface AccessConfig {
+  issuer: string
+  audiences: string[]
+  groups: Record<string, AccessGrant>
+}
+
+/**
+ * Verified claims of an Access JWT
+ */
+export interface AccessIdentity {
+  email: string
+  groups: string[]
+}
+
+type AccessJwk = JsonWebKey & { kid?: string }
+
+const jwksCache = new Map<string, { keys: AccessJwk[]; fetched_at: number; attempted_at: number }>()
+
+/**
+ * Decode a base64url string to bytes
+ */
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=')
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+/**
+ * Decode a base64url JSON segment, or null if it isn't an object
+ */
+function decodeSegment(segment: string): Record<string, unknown> | null {
+  try {
+    const value = JSON.parse(new TextDecoder().decode(base64UrlDecode(segment)))
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Validate ACCESS_GROUPS: a JSON object of group name to { role, apps? }
+ */
+export function parseAccessGroups(json: string | undefined): Result<Record<string, AccessGrant>> {
+  if (!json) {
+    return Ok({})
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: 'ACCESS_GROUPS must be valid JSON' })
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: 'ACCESS_GROUPS must map group names to { role, apps? }' })
+  }
+
+  const groups: Record<string, AccessGrant> = {}
+  for (const [group, grant] of Object.entries(raw)) {
+    const parsed = parseUserInput(grant, false)
+    if (!parsed.ok) {
+      return Err({ code: ErrorCode.VALIDATION_ERROR, message: `ACCESS_GROUPS '${group}': ${parsed.error.message}` })
+    }
+    groups[group] = { role: parsed.data.role, apps: parsed.data.apps }
+  }
+  return Ok(groups)
+}
+
+/**
+ * Read Access settings from the environment. Null unless both the team
+ * domain and audience are set; an invalid ACCESS_GROUPS grants nothing.
+ */
+export function getAccessConfig(env: Env): AccessConfig | null {
+  if (!env.ACCESS_TEAM_DOMAIN || !env.ACCESS_AUD) {
+    return null
+  }
+
+  const groups = parseAccessGroups(env.ACCESS_GROUPS)
+  if (!groups.ok) {
+    console.error(groups.error.message)
+  }
+
+  const domain = env.ACCESS_TEAM_DOMAIN.replace(/^https?:\/\//, '').replace(/\/+$/, '')
+  return {
+    issuer: `https://${domain}`,
+    audiences: env.ACCESS_AUD.split(',').map((aud) => aud.trim()).filter(Boolean),
+    groups: groups.ok ? groups.data : {},
+  }
+}
+
+/**
+ * The team's signing keys, cached per issuer. A token signed with a key we
+ * haven't seen refreshes the cache, at most once a minute. While the certs
+ * endpoint is failing, the last keys fetched are used; with none, only the
+ * first failure in a minute is an error and other tokens are rejected.
+ */
+async function getSigningKey(issuer: string, kid: string): Promise<AccessJwk | null> {
+  const now = Date.now()
+  const cached = jwksCache.get(issuer)
+  const known = cached?.keys.find((key) => key.kid === kid)
+  const stale = !cached || now - cached.fetched_at > JWKS_TTL_MS
+  const refreshable = !cached || now - cached.attempted_at > JWKS_MIN_REFRESH_MS
+
+  if ((stale || !known) && refreshable) {
+    try {
+      const res = await fetch(`${issuer}/cdn-cgi/access/certs`)
+      if (!res.ok) {
+        throw new Error(`Fetching Access signing keys failed: HTTP ${res.status}`)
+      }
+      const body = await res.json() as { keys?: AccessJwk[] }
+      const keys = body.keys ?? []
+      jwksCache.set(issuer, { keys, fetched_at: now, attempted_at: now })
+      return keys.find((key) => key.kid === kid) ?? null
+    } catch (e) {
+      jwksCache.set(issuer, { keys: cached?.keys ?? [], fetched_at: cached?.fetched_at ?? 0, attempted_at: now })
+      if (!cached?.keys.length) {
+        throw e
+      }
+      const message = e instanceof Error ? e.message : 'Unknown error'
+      console.error(`${message}; using the signing keys fetched at ${new Date(cached.fetched_at).toISOString()}`)
+    }
+  }
+
+  return known ?? null
+}
+
+/**
+ * Read group names from a groups claim (strings, or objects with a name
+ * or id), top-level or under Access's custom OIDC claims
+ */
+function groupsOf(claims: Record<string, unknown>): string[] {
+  const custom = claims.custom as Record<string, unknown> | undefined
+  const raw = Array.isArray(claims.groups) ? claims.groups : Array.isArray(custom?.groups) ? custom.groups : []
+  return raw.flatMap((group: unknown) => {
+    if (typeof group === 'string') return [group]
+    if (group && typeof group === 'object') {
+      const { name, id } = group as { name?: unknown; id?: unknown }
+      return [name, id].filter((value): value is string => typeof value === 'string')
+    }
+    return []
+  })
+}
+
+/**
+ * Verify an Access JWT: RS256 signature from the team's keys, issuer,
+ * audience and expiry. Returns the identity, or null if the token is invalid.
+ */
+export async function verifyAccessJwt(token: string, config: AccessConfig): Promise<Result<AccessIdentity | null>> {
+  try {
+    const parts = token.split('.')
+    if (parts.length !== 3) {
+      return Ok(null)
+    }
+
+    const header = decodeSegment(parts[0])
+    const claims = decodeSegment(parts[1])
+    if (!header || !claims || header.alg !== 'RS256' || typeof header.kid !== 'string') {
+      return Ok(null)
+    }
+
+    const jwk = await getSigningKey(config.issuer, header.kid)
+    if (!jwk) {
+      return Ok(null)
+    }
+
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify'])
+    const valid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      key,
+      base64UrlDecode(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    )
+    if (!valid) {
+      return Ok(null)
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (
+      claims.iss !== config.issuer ||
+      !audiences.some((aud) => typeof aud === 'string' && config.audiences.includes(aud)) ||
+      typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now ||
+      (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECONDS > now) ||
+      typeof claims.email !== 'string' || claims.email === ''
+    ) {
+      return Ok(null)
+    }
+
+    return Ok({ email: claims.email.toLowerCase(), groups: groupsOf(claims) })
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * Combine the grants of an identity's mapped groups: the highest role,
+ * over every app any of them covers. Null if no group is mapped.
+ */
+export function accessGrant(identity: AccessIdentity, config: AccessConfig): AccessGrant | null {
+  const grants = identity.groups.map((group) => config.groups[group]).filter((grant) => grant !== undefined)
+  if (grants.length === 0) {
+    return null
+  }
+
+  const role = grants.reduce<UserRole>((best, grant) => canAccess({ role: grant.role, apps: null }, best) ? grant.role : best, UserRole.VIEWER)
+  const apps = grants.some((grant) => grant.apps === null)
+    ? null
+    : [...new Set(grants.flatMap((grant) => grant.apps ?? []))]
+
+  return { role, apps }
+}
+
+/**
+ * Authenticate an Access JWT from a request header: the identity and its
+ * grant (null if none of its groups are mapped), or null if the token is
+ * missing, invalid, or Access isn't configured
+ */
+export async function authenticateAccess(
+  env: Env,
+  token: string | undefined
+): Promise<Result<{ identity: AccessIdentity; grant: AccessGrant | null } | null>> {
+  const config = getAccessConfig(env)
+  if (!config || !token) {
+    return Ok(null)
+  }
+
+  const verified = await verifyAccessJwt(token, config)
+  if (!verified.ok || !verified.data) {
+    return verified.ok ? Ok(null) : verified
+  }
+
+  return Ok({ identity: verified.data, grant: accessGrant(verified.data, config) })
+}
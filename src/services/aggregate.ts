@@ -0,0 +1,128 @@
+/**
+ * Aggregate query parsing: group_by and aggregation specs
+ */
+
+import { Ok, type Result, validationError } from '../result'
+import type { AggregateOptions } from '../types'
+
+const DEFAULT_GROUP_LIMIT = 100
+const MAX_GROUP_LIMIT = 1000
+const MAX_AGGREGATIONS = 10
+
+// Context paths become part of a JSON path in SQL, so only plain keys are allowed
+const CONTEXT_PATH = /^context\.([A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*)$/
+const TIME_BUCKET = /^time:(\d+)([mhd])$/
+const AGGREGATION = /^(count_distinct|min|max|avg|p(\d{1,2}))\((.+)\)$/
+
+const UNIT_SECONDS = { m: 60, h: 60 * 60, d: 24 * 60 * 60 }
+
+/**
+ * What to group entries by
+ */
+export type GroupBy =
+  | { type: 'level' }
+  | { type: 'context'; path: string }
+  | { type: 'time'; seconds: number }
+
+/**
+ * One aggregation. path is a context path without the "context." prefix
+ * (null for count); percentile is 1-99 for fn "percentile".
+ */
+export interface AggregationSpec {
+  name: string
+  fn: 'count' | 'count_distinct' | 'min' | 'max' | 'avg' | 'percentile'
+  path: string | null
+  percentile?: number
+}
+
+/**
+ * A validated aggregate request
+ */
+export interface AggregateSpec {
+  group_by: GroupBy | null
+  group_by_name: string | null
+  aggregations: AggregationSpec[]
+  limit: number
+}
+
+/**
+ * Parse a group_by value: level, context.<path> or time:<n><m|h|d>
+ */
+export function parseGroupBy(value: string): Result<GroupBy> {
+  if (value === 'level') return Ok({ type: 'level' })
+
+  const context = CONTEXT_PATH.exec(value)
+  if (context) return Ok({ type: 'context', path: context[1] })
+
+  const time = TIME_BUCKET.exec(value)
+  if (time && Number(time[1]) > 0) {
+    return Ok({ type: 'time', seconds: Number(time[1]) * UNIT_SECONDS[time[2] as keyof typeof UNIT_SECONDS] })
+  }
+
+  return validationError(`Invalid group_by '${value}': use level, context.<field> or time:<n>m|h|d`)
+}
+
+/**
+ * Parse an aggregation: count, or count_distinct/min/max/avg/p1-p99 of a
+ * context path, e.g. "p95(context.duration_ms)"
+ */
+export function parseAggregation(value: string): Result<AggregationSpec> {
+  if (value === 'count') return Ok({ name: value, fn: 'count', path: null })
+
+  const match = AGGREGATION.exec(value)
+  const path = match ? CONTEXT_PATH.exec(match[3]) : null
+  if (!match || !path) {
+    return validationError(`Invalid aggregation '${value}': use count, or count_distinct, min, max, avg or p1-p99 of context.<field>`)
+  }
+
+  if (match[2] !== undefined) {
+    const percentile = Number(match[2])
+    if (percentile < 1 || percentile > 99) {
+      return validationError(`Invalid aggregation '${value}': percentiles go from p1 to p99`)
+    }
+    return Ok({ name: value, fn: 'percentile', path: path[1], percentile })
+  }
+
+  return Ok({ name: value, fn: match[1] as AggregationSpec['fn'], path: path[1] })
+}
+
+/**
+ * Validate aggregate options (from a query string or RPC caller)
+ */
+export function parseAggregateOptions(options: AggregateOptions): Result<AggregateSpec> {
+  let groupBy: GroupBy | null = null
+  if (options.group_by) {
+    const parsed = parseGroupBy(options.group_by)
+    if (!parsed.ok) return parsed
+    groupBy = parsed.data
+  }
+
+  const names = options.aggregations?.length ? [...new Set(options.aggregations)] : ['count']
+  if (names.length > MAX_AGGREGATIONS) {
+    return validationError(`At most ${MAX_AGGREGATIONS} aggregations are allowed`)
+  }
+  const aggregations: AggregationSpec[] = []
+  for (const name of names) {
+    const parsed = parseAggregation(name)
+    if (!parsed.ok) return parsed
+    aggregations.push(parsed.data)
+  }
+
+  const limit = options.limit ?? DEFAULT_GROUP_LIMIT
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_GROUP_LIMIT) {
+    return validationError(`"limit" must be an integer from 1 to ${MAX_GROUP_LIMIT}`)
+  }
+
+  return Ok({ group_by: groupBy, group_by_name: options.group_by || null, aggregations, limit })
+}
+
+/**
+ * Read aggregate options from a query string (group_by, agg (repeatable), limit)
+ */
+export function parseAggregateParams(params: URLSearchParams): AggregateOptions {
+  return {
+    group_by: params.get('group_by') ?? undefined,
+    aggregations: params.getAll('agg'),
+    limit: params.has('limit') ? Number(params.get('limit')) : undefined,
+  }
+}
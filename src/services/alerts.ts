@@ -0,0 +1,119 @@
+/**
+ * Alert rule validation and webhook payloads
+ */
+
+import { Ok, type Result, validationError } from '../result'
+import { LogLevel, type AlertRule, type AlertRuleInput, type LogEntry } from '../types'
+import { isHttpUrl } from './webhooks'
+import { toFtsQuery } from './search'
+import { isPositiveInt } from '../utils'
+
+const DEFAULTS = {
+  threshold: 1,
+  window_seconds: 300,
+  cooldown_seconds: 900,
+  enabled: true,
+} as const
+
+/**
+ * Check that a value is a non-negative integer
+ */
+function isNonNegativeInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+}
+
+/**
+ * Validate an untrusted alert rule body, filling in defaults for
+ * threshold (1), window (5 min), cooldown (15 min) and enabled (true)
+ */
+export function parseAlertRuleInput(input: unknown): Result<AlertRuleInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('Alert rule must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const rule: Partial<AlertRuleInput> = {}
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') {
+    return validationError('"name" required')
+  }
+  rule.name = raw.name.trim()
+
+  if (!isHttpUrl(raw.webhook_url)) {
+    return validationError('"webhook_url" must be an http(s) URL')
+  }
+  rule.webhook_url = raw.webhook_url
+
+  if (raw.level !== undefined && raw.level !== null) {
+    if (!Object.values<unknown>(LogLevel).includes(raw.level)) return validationError(`Unknown log level '${raw.level}'`)
+    rule.level = raw.level as LogLevel
+  }
+
+  if (raw.search !== undefined && raw.search !== null) {
+    if (typeof raw.search !== 'string') return validationError('"search" must be a string')
+    const match = toFtsQuery(raw.search)
+    if (!match.ok) return validationError(`Invalid "search": ${match.error.message}`)
+    rule.search = raw.search
+  }
+
+  if (raw.context !== undefined && raw.context !== null) {
+    if (typeof raw.context !== 'object' || Array.isArray(raw.context)) return validationError('"context" must be an object')
+    const context: Record<string, string> = {}
+    for (const [key, value] of Object.entries(raw.context)) {
+      if (typeof value !== 'string') return validationError(`"context.${key}" must be a string`)
+      context[key] = value
+    }
+    rule.context = context
+  }
+
+  if (raw.threshold !== undefined) {
+    if (!isPositiveInt(raw.threshold)) return validationError('"threshold" must be a positive integer')
+    rule.threshold = raw.threshold
+  }
+
+  if (raw.window_seconds !== undefined) {
+    if (!isPositiveInt(raw.window_seconds)) return validationError('"window_seconds" must be a positive integer')
+    rule.window_seconds = raw.window_seconds
+  }
+
+  if (raw.cooldown_seconds !== undefined) {
+    if (!isNonNegativeInt(raw.cooldown_seconds)) return validationError('"cooldown_seconds" must be a non-negative integer')
+    rule.cooldown_seconds = raw.cooldown_seconds
+  }
+
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== 'boolean') return validationError('"enabled" must be a boolean')
+    rule.enabled = raw.enabled
+  }
+
+  return Ok({ ...DEFAULTS, ...rule } as AlertRuleInput)
+}
+
+/**
+ * JSON body sent to an alert rule's webhook
+ */
+export function buildAlertPayload(
+  appId: string,
+  rule: AlertRule,
+  firing: { id: string; fired_at: string; match_count: number; test: boolean },
+  samples: LogEntry[]
+) {
+  return {
+    type: firing.test ? 'alert.test' : 'alert.fired',
+    app_id: appId,
+    firing_id: firing.id,
+    fired_at: firing.fired_at,
+    match_count: firing.match_count,
+    rule: {
+      id: rule.id,
+      name: rule.name,
+      level: rule.level,
+      search: rule.search,
+      context: rule.context,
+      threshold: rule.threshold,
+      window_seconds: rule.window_seconds,
+    },
+    text: `[${appId}] ${rule.name}: ${firing.match_count} matching log(s) in the last ${rule.window_seconds}s`,
+    samples,
+  }
+}
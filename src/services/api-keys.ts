@@ -0,0 +1,179 @@
+/**
+ * API key hashing, validation and scope checks
+ */
+
+import { Ok, type Result, validationError } from '../result'
+import { ApiKeyScope, type ApiKey, type ApiKeyInput, type AppConfig } from '../types'
+import { timingSafeEqual } from '../utils'
+
+/**
+ * Scopes of the key created with an app (and of legacy single keys)
+ */
+export const ALL_SCOPES: ApiKeyScope[] = Object.values(ApiKeyScope)
+
+/**
+ * How long a rotated key keeps working by default (24 hours)
+ */
+export const DEFAULT_ROTATION_GRACE_SECONDS = 86400
+
+/**
+ * Id given to an app's legacy single key when it is read as a key list
+ */
+export const LEGACY_KEY_ID = 'default'
+
+/**
+ * Number of leading secret characters kept in the clear to identify a key
+ */
+const PREFIX_LENGTH = 8
+
+/**
+ * Hex-encode bytes
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Generate a random API key secret
+ */
+export function generateSecret(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(24)))
+}
+
+/**
+ * Salted SHA-256 of a secret. Secrets are 192 random bits, so a fast hash is
+ * enough; the salt keeps equal secrets from having equal hashes.
+ */
+async function hashSecret(secret: string, salt: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${secret}`))
+  return toHex(new Uint8Array(digest))
+}
+
+/**
+ * The stored fields for a secret: its prefix, a fresh salt and the hash
+ */
+export async function hashApiKey(secret: string): Promise<Pick<ApiKey, 'prefix' | 'salt' | 'hash'>> {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)))
+  return { prefix: secret.slice(0, PREFIX_LENGTH), salt, hash: await hashSecret(secret, salt) }
+}
+
+/**
+ * Check a presented secret against a stored key in constant time
+ */
+export async function matchesApiKey(key: ApiKey, secret: string): Promise<boolean> {
+  if (key.key !== undefined) {
+    return timingSafeEqual(key.key, secret)
+  }
+  // The prefix is public, so filtering on it first leaks nothing
+  if (!secret.startsWith(key.prefix)) {
+    return false
+  }
+  return timingSafeEqual(key.hash, await hashSecret(secret, key.salt))
+}
+
+/**
+ * Replace a record's plaintext secret with its hash (records written
+ * before hashing). Hashed records are returned as is.
+ */
+export async function migrateApiKey(key: ApiKey): Promise<ApiKey> {
+  if (key.key === undefined) {
+    return key
+  }
+  const { key: secret, ...rest } = key
+  return { ...rest, ...await hashApiKey(secret) }
+}
+
+/**
+ * Whether a config still holds any plaintext secret
+ */
+export function hasPlaintextKeys(config: AppConfig): boolean {
+  return config.api_key !== undefined || (config.api_keys ?? []).some((key) => key.key !== undefined)
+}
+
+/**
+ * An app's keys. Apps registered before key lists had a single api_key with
+ * every scope; it is returned as an unhashed key with id 'default' until
+ * the app's keys are migrated.
+ */
+export function apiKeysOf(config: AppConfig): ApiKey[] {
+  if (config.api_keys) {
+    // Plaintext records from before hashing have no prefix yet
+    return config.api_keys.map((key) => key.key !== undefined && !key.prefix
+      ? { ...key, prefix: key.key.slice(0, PREFIX_LENGTH), salt: '', hash: '' }
+      : key)
+  }
+  if (!config.api_key) {
+    return []
+  }
+  return [{
+    id: LEGACY_KEY_ID,
+    label: 'Default',
+    prefix: config.api_key.slice(0, PREFIX_LENGTH),
+    salt: '',
+    hash: '',
+    key: config.api_key,
+    scopes: ALL_SCOPES,
+    created_at: config.created_at,
+    expires_at: null,
+  }]
+}
+
+/**
+ * Check whether a key has expired
+ */
+export function isExpired(key: ApiKey, now: number = Date.now()): boolean {
+  return key.expires_at !== null && Date.parse(key.expires_at) <= now
+}
+
+/**
+ * Validate an untrusted API key body ({ label, scopes, expires_at? })
+ */
+export function parseApiKeyInput(input: unknown): Result<ApiKeyInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('API key must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+
+  if (typeof raw.label !== 'string' || raw.label.trim() === '') {
+    return validationError('"label" required')
+  }
+
+  if (!Array.isArray(raw.scopes) || raw.scopes.length === 0) {
+    return validationError(`"scopes" must be a non-empty array of ${ALL_SCOPES.join(', ')}`)
+  }
+  for (const scope of raw.scopes) {
+    if (!ALL_SCOPES.includes(scope)) return validationError(`Unknown scope '${scope}'`)
+  }
+
+  let expiresAt: string | null = null
+  if (raw.expires_at !== undefined && raw.expires_at !== null) {
+    const time = typeof raw.expires_at === 'string' ? Date.parse(raw.expires_at) : NaN
+    if (Number.isNaN(time)) return validationError('"expires_at" must be an ISO timestamp')
+    if (time <= Date.now()) return validationError('"expires_at" must be in the future')
+    expiresAt = new Date(time).toISOString()
+  }
+
+  return Ok({
+    label: raw.label.trim(),
+    scopes: [...new Set(raw.scopes as ApiKeyScope[])],
+    expires_at: expiresAt,
+  })
+}
+
+/**
+ * Validate a rotation body ({ grace_seconds? }), returning how long the old
+ * key keeps working. 0 revokes it immediately.
+ */
+export function parseGraceSeconds(input: unknown): Result<number> {
+  const grace = (input as { grace_seconds?: unknown } | null)?.grace_seconds
+  if (grace === undefined) {
+    return Ok(DEFAULT_ROTATION_GRACE_SECONDS)
+  }
+  if (typeof grace !== 'number' || !Number.isInteger(grace) || grace < 0) {
+    return validationError('"grace_seconds" must be a non-negative integer')
+  }
+  return Ok(grace)
+}
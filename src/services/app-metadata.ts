@@ -0,0 +1,166 @@
+/**
+ * App metadata validation, filtering and grouping
+ */
+
+import { Ok, type Result, validationError } from '../result'
+import { AppEnvironment, type AppFilters, type AppMetadata, type AppPatch } from '../types'
+import { isHttpUrl } from './webhooks'
+
+const MAX_NAME_LENGTH = 100
+const MAX_DESCRIPTION_LENGTH = 1000
+const MAX_TAGS = 20
+const MAX_TAG_LENGTH = 50
+
+const ENVIRONMENTS = Object.values(AppEnvironment) as string[]
+
+/**
+ * Ways the dashboard overview can group apps
+ */
+export const APP_GROUPINGS = ['team', 'environment', 'tag'] as const
+export type AppGrouping = (typeof APP_GROUPINGS)[number]
+
+/**
+ * Metadata of an app with nothing set
+ */
+export const EMPTY_METADATA: AppMetadata = {
+  owner: null,
+  team: null,
+  environment: null,
+  tags: [],
+  description: null,
+  repository_url: null,
+  runbook_url: null,
+}
+
+/**
+ * Validate an optional text field: a trimmed string, or null to clear it
+ */
+function parseText(raw: Record<string, unknown>, field: string, maxLength: number): Result<string | null | undefined> {
+  const value = raw[field]
+  if (value === undefined || value === null) {
+    return Ok(value)
+  }
+  if (typeof value !== 'string' || value.length > maxLength) {
+    return validationError(`"${field}" must be a string of at most ${maxLength} characters, or null`)
+  }
+  return Ok(value.trim() === '' ? null : value.trim())
+}
+
+/**
+ * Validate an untrusted PATCH /apps/:app_id body. Only the fields present
+ * are returned; null clears a field.
+ */
+export function parseAppPatch(input: unknown): Result<AppPatch> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('Body must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const allowed = ['name', ...Object.keys(EMPTY_METADATA)]
+  for (const field of Object.keys(raw)) {
+    if (!allowed.includes(field)) return validationError(`Unknown field '${field}'`)
+  }
+
+  const patch: AppPatch = {}
+
+  if (raw.name !== undefined) {
+    if (typeof raw.name !== 'string' || raw.name.trim() === '' || raw.name.length > MAX_NAME_LENGTH) {
+      return validationError(`"name" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`)
+    }
+    patch.name = raw.name.trim()
+  }
+
+  for (const field of ['owner', 'team'] as const) {
+    const value = parseText(raw, field, MAX_NAME_LENGTH)
+    if (!value.ok) return value
+    if (value.data !== undefined) patch[field] = value.data
+  }
+
+  const description = parseText(raw, 'description', MAX_DESCRIPTION_LENGTH)
+  if (!description.ok) return description
+  if (description.data !== undefined) patch.description = description.data
+
+  if (raw.environment !== undefined) {
+    if (raw.environment !== null && !ENVIRONMENTS.includes(raw.environment as string)) {
+      return validationError(`"environment" must be one of ${ENVIRONMENTS.join(', ')}, or null`)
+    }
+    patch.environment = raw.environment as AppEnvironment | null
+  }
+
+  if (raw.tags !== undefined) {
+    const tags = raw.tags === null ? [] : raw.tags
+    if (!Array.isArray(tags) || tags.length > MAX_TAGS) {
+      return validationError(`"tags" must be an array of at most ${MAX_TAGS} strings`)
+    }
+    for (const tag of tags) {
+      if (typeof tag !== 'string' || tag.trim() === '' || tag.length > MAX_TAG_LENGTH) {
+        return validationError(`Tags must be non-empty strings of at most ${MAX_TAG_LENGTH} characters`)
+      }
+    }
+    patch.tags = [...new Set((tags as string[]).map((tag) => tag.trim()))]
+  }
+
+  for (const field of ['repository_url', 'runbook_url'] as const) {
+    if (raw[field] !== undefined) {
+      if (raw[field] !== null && !isHttpUrl(raw[field])) {
+        return validationError(`"${field}" must be an http(s) URL, or null`)
+      }
+      patch[field] = raw[field] as string | null
+    }
+  }
+
+  return Ok(patch)
+}
+
+/**
+ * Read app filters (team, environment, tag) from a query string
+ */
+export function parseAppFilters(params: URLSearchParams): Result<AppFilters> {
+  const filters: AppFilters = {}
+
+  const team = params.get('team')
+  if (team) filters.team = team
+
+  const environment = params.get('environment')
+  if (environment) {
+    if (!ENVIRONMENTS.includes(environment)) {
+      return validationError(`"environment" must be one of ${ENVIRONMENTS.join(', ')}`)
+    }
+    filters.environment = environment as AppEnvironment
+  }
+
+  const tag = params.get('tag')
+  if (tag) filters.tag = tag
+
+  return Ok(filters)
+}
+
+/**
+ * Whether an app's metadata matches every filter
+ */
+export function matchesAppFilters(metadata: Partial<AppMetadata>, filters: AppFilters): boolean {
+  if (filters.team !== undefined && metadata.team !== filters.team) return false
+  if (filters.environment !== undefined && metadata.environment !== filters.environment) return false
+  if (filters.tag !== undefined && !(metadata.tags ?? []).includes(filters.tag)) return false
+  return true
+}
+
+/**
+ * Group apps by team, environment or tag, in name order with apps lacking
+ * the field last (key null). An app with several tags is in each tag's group.
+ */
+export function groupApps<T extends Partial<AppMetadata>>(apps: T[], by: AppGrouping): { key: string | null; apps: T[] }[] {
+  const groups = new Map<string | null, T[]>()
+  for (const app of apps) {
+    const keys = by === 'tag'
+      ? (app.tags?.length ? app.tags : [null])
+      : [app[by] ?? null]
+    for (const key of keys) {
+      groups.set(key, [...(groups.get(key) ?? []), app])
+    }
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => a === null ? 1 : b === null ? -1 : a.localeCompare(b))
+    .map(([key, members]) => ({ key, apps: members }))
+}
@@ -0,0 +1,89 @@
+/**
+ * Audit trail of administrative actions, stored in the AuditDO
+ */
+
+import { AuditActorType, type AuditActor, type AuditRequestMeta, type Env } from '../types'
+
+/**
+ * An action to record. before/after are snapshots of what it changed
+ * (never secrets); only the fields that differ are stored.
+ */
+export interface AuditEvent {
+  action: string
+  app_id?: string | null
+  before?: unknown
+  after?: unknown
+}
+
+export const ADMIN_KEY_ACTOR: AuditActor = { type: AuditActorType.ADMIN_KEY, id: null }
+
+/**
+ * Get the AuditDO stub (one instance for the whole deployment)
+ */
+export function getAuditDO(env: Env) {
+  return env.AUDIT_DO.get(env.AUDIT_DO.idFromName('audit'))
+}
+
+/**
+ * Method, path and client details of a request
+ */
+export function requestMeta(request: Request): AuditRequestMeta {
+  return {
+    method: request.method,
+    path: new URL(request.url).pathname,
+    ip: request.headers.get('CF-Connecting-IP'),
+    user_agent: request.headers.get('User-Agent'),
+    ray_id: request.headers.get('CF-Ray'),
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Reduce two object snapshots to the top-level fields that differ.
+ * Anything else (arrays, nulls, a missing side) is kept whole.
+ */
+export function diffSnapshots(before: unknown, after: unknown): { before: unknown; after: unknown } {
+  if (!isPlainObject(before) || !isPlainObject(after)) {
+    return { before: before ?? null, after: after ?? null }
+  }
+
+  const changedBefore: Record<string, unknown> = {}
+  const changedAfter: Record<string, unknown> = {}
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      if (key in before) changedBefore[key] = before[key]
+      if (key in after) changedAfter[key] = after[key]
+    }
+  }
+  return { before: changedBefore, after: changedAfter }
+}
+
+/**
+ * Append an event to the audit log. Never throws: a failed write is logged
+ * rather than failing the action it describes.
+ */
+export async function recordAudit(env: Env, actor: AuditActor, request: Request, event: AuditEvent): Promise<void> {
+  try {
+    const res = await getAuditDO(env).fetch(new Request('http://do/entries', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        actor,
+        action: event.action,
+        app_id: event.app_id ?? null,
+        request: requestMeta(request),
+        ...diffSnapshots(event.before, event.after),
+      }),
+    }))
+    const result = await res.json() as { ok: boolean; error?: { message: string } }
+    if (!result.ok) {
+      console.error(`Audit write failed for ${event.action}: ${result.error?.message}`)
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error'
+    console.error(`Audit write failed for ${event.action}: ${message}`)
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Log filter helpers shared by queries and live tail
+ */
+
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import type { LogEntry, LogLevel, QueryFilters } from '../types'
+import { parseQuery, matchesQuery } from './query-language'
+
+/**
+ * Parse QueryFilters from URL search params (level, since, until,
+ * request_id, issue_id, search, q, context.*, sort, limit, offset, cursor)
+ */
+export function parseQueryFilters(params: URLSearchParams): QueryFilters {
+  // Parse context.* filters from query params
+  const context: Record<string, string> = {}
+  for (const [key, value] of params.entries()) {
+    if (key.startsWith('context.')) {
+      const contextKey = key.substring(8) // Remove 'context.' prefix
+      context[contextKey] = value
+    }
+  }
+
+  return {
+    level: (params.get('level') as LogLevel | null) ?? undefined,
+    since: params.get('since') ?? undefined,
+    until: params.get('until') ?? undefined,
+    request_id: params.get('request_id') ?? undefined,
+    issue_id: params.get('issue_id') ?? undefined,
+    search: params.get('search') ?? undefined,
+    q: params.get('q') ?? undefined,
+    context: Object.keys(context).length > 0 ? context : undefined,
+    sort: params.get('sort') === 'relevance' ? 'relevance' : undefined,
+    limit: params.has('limit') ? parseInt(params.get('limit')!) : undefined,
+    offset: params.has('offset') ? parseInt(params.get('offset')!) : undefined,
+    cursor: params.get('cursor') ?? undefined,
+  }
+}
+
+/**
+ * Position of the last entry on a page, in (timestamp, id) order
+ */
+export interface LogCursor {
+  timestamp: string
+  id: string
+}
+
+/**
+ * Encode a page position as an opaque base64url cursor
+ */
+export function encodeCursor(entry: LogCursor): string {
+  const json = JSON.stringify([entry.timestamp, entry.id])
+  return btoa(json).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decode a cursor produced by encodeCursor
+ */
+export function decodeCursor(cursor: string): Result<LogCursor> {
+  try {
+    const json = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'))
+    const value = JSON.parse(json) as unknown
+    if (Array.isArray(value) && value.length === 2 && value.every((part) => typeof part === 'string')) {
+      return Ok({ timestamp: value[0], id: value[1] })
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  return Err({ code: ErrorCode.BAD_REQUEST, message: 'Invalid cursor' })
+}
+
+/**
+ * SQLite JSON path for a validated context path, each key quoted
+ * (e.g. "user.id" -> $."user"."id")
+ */
+export function jsonPath(path: string): string {
+  return '$.' + path.split('.').map((key) => `"${key}"`).join('.')
+}
+
+/**
+ * Resolve a dotted path (e.g. "user.id") inside a context object
+ */
+export function getContextValue(context: Record<string, unknown> | undefined, path: string): unknown {
+  let value: unknown = context
+  for (const part of path.split('.')) {
+    if (value === null || typeof value !== 'object') return undefined
+    value = (value as Record<string, unknown>)[part]
+  }
+  return value
+}
+
+/**
+ * Check an entry against filters in memory (used for live tail, where
+ * entries never touch SQL). Paging fields are ignored.
+ */
+export function matchesFilters(entry: LogEntry, filters: QueryFilters): boolean {
+  if (filters.level && entry.level !== filters.level) return false
+  if (filters.since && entry.timestamp < filters.since) return false
+  if (filters.until && entry.timestamp > filters.until) return false
+  if (filters.request_id && entry.request_id !== filters.request_id) return false
+  if (filters.issue_id && entry.issue_id !== filters.issue_id) return false
+
+  // Live tail matches search as a plain case-insensitive substring
+  if (filters.search && !entry.message.toLowerCase().includes(filters.search.toLowerCase())) {
+    return false
+  }
+
+  if (filters.context) {
+    for (const [key, expected] of Object.entries(filters.context)) {
+      const actual = getContextValue(entry.context, key)
+      if (actual === undefined || actual === null || String(actual) !== expected) return false
+    }
+  }
+
+  // Tail clients' queries are checked when set, so one that fails to parse matches nothing
+  if (filters.q) {
+    const query = parseQuery(filters.q)
+    if (!query.ok || !matchesQuery(query.data, entry)) return false
+  }
+
+  return true
+}
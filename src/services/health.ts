@@ -0,0 +1,592 @@
+/**
+ * Health target validation, secret resolution, response checks, uptime math
+ * and state change alerts
+ */
+
+import { Ok, Err, type Result, ErrorCode, validationError } from '../result'
+import {
+  HealthMethod,
+  type HealthAlertSettings,
+  type HealthAlertState,
+  type HealthBodyAssertion,
+  type HealthState,
+  type Env,
+  type HealthTarget,
+  type UptimeWindow,
+} from '../types'
+import { isHttpUrl } from './webhooks'
+import { getContextValue } from './filters'
+import { isIntBetween } from '../utils'
+
+export const DEFAULT_HEALTH_TIMEOUT_MS = 10 * 1000
+export const DEFAULT_HEALTH_INTERVAL_SECONDS = 5 * 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Length of each uptime window
+ */
+export const UPTIME_WINDOWS: Record<UptimeWindow, number> = {
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+}
+
+const MAX_TARGETS = 20
+const MAX_HEADERS = 20
+const MAX_HEADER_LENGTH = 1000
+const MAX_EXPECTED_STATUSES = 20
+const MAX_ASSERTION_LENGTH = 1000
+const MIN_TIMEOUT_MS = 1000
+const MAX_TIMEOUT_MS = 30 * 1000
+const MIN_INTERVAL_SECONDS = 30
+const MAX_INTERVAL_SECONDS = 24 * 60 * 60
+
+const MAX_ALERT_THRESHOLD = 100
+const MAX_ALERT_WEBHOOKS = 10
+const MIN_FLAP_WINDOW_SECONDS = 60
+const MAX_FLAP_WINDOW_SECONDS = 24 * 60 * 60
+
+/**
+ * Alert settings for apps that haven't set any: down after 3 failures, up
+ * after 2 passes, flapping at 4 state changes within an hour
+ */
+export const DEFAULT_HEALTH_ALERT_SETTINGS: HealthAlertSettings = {
+  failure_threshold: 3,
+  recovery_threshold: 2,
+  webhook_urls: [],
+  flap_threshold: 4,
+  flap_window_seconds: 60 * 60,
+}
+
+const METHODS = Object.values(HealthMethod) as string[]
+const HEADER_NAME = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/
+// Only secrets with this prefix can be sent, so a target can't leak e.g. ADMIN_API_KEY,
+// and only to the app and host an admin bound them to
+const SECRET_REFERENCE = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g
+const SECRET_NAME = /^HEALTH_[A-Z0-9_]+$/
+const SECRET_HOST = /^[a-z0-9.-]+(:\d{1,5})?$/
+const MAX_SECRET_BINDINGS = 20
+
+/**
+ * The target a bare URL stands for: HEAD, any status below 500 is healthy
+ */
+function defaultTarget(url: string): HealthTarget {
+  return {
+    url,
+    method: HealthMethod.HEAD,
+    headers: {},
+    expected_status: null,
+    body_assertion: null,
+    timeout_ms: DEFAULT_HEALTH_TIMEOUT_MS,
+    interval_seconds: DEFAULT_HEALTH_INTERVAL_SECONDS,
+  }
+}
+
+/**
+ * Validate request headers, including the secrets they reference
+ */
+function parseHeaders(input: unknown, field: string): Result<Record<string, string>> {
+  if (input === undefined || input === null) {
+    return Ok({})
+  }
+  if (typeof input !== 'object' || Array.isArray(input) || Object.keys(input).length > MAX_HEADERS) {
+    return validationError(`"${field}" must be an object of at most ${MAX_HEADERS} headers`)
+  }
+
+  const headers: Record<string, string> = {}
+  for (const [name, value] of Object.entries(input)) {
+    if (!HEADER_NAME.test(name)) {
+      return validationError(`Invalid header name '${name}' in "${field}"`)
+    }
+    if (typeof value !== 'string' || value.length > MAX_HEADER_LENGTH) {
+      return validationError(`"${field}.${name}" must be a string of at most ${MAX_HEADER_LENGTH} characters`)
+    }
+    for (const [, secret] of value.matchAll(SECRET_REFERENCE)) {
+      if (!SECRET_NAME.test(secret)) {
+        return validationError(`"${field}.${name}" references '${secret}'; only secrets named HEALTH_* can be used`)
+      }
+    }
+    headers[name] = value
+  }
+  return Ok(headers)
+}
+
+/**
+ * Validate a body assertion: { contains } or { json_path, equals? }
+ */
+function parseBodyAssertion(input: unknown, field: string): Result<HealthBodyAssertion | null> {
+  if (input === undefined || input === null) {
+    return Ok(null)
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return validationError(`"${field}" must be an object with "contains" or "json_path"`)
+  }
+
+  const raw = input as Record<string, unknown>
+  if (raw.contains !== undefined) {
+    if (typeof raw.contains !== 'string' || raw.contains === '' || raw.contains.length > MAX_ASSERTION_LENGTH) {
+      return validationError(`"${field}.contains" must be a non-empty string of at most ${MAX_ASSERTION_LENGTH} characters`)
+    }
+    return Ok({ contains: raw.contains })
+  }
+
+  if (raw.json_path !== undefined) {
+    if (typeof raw.json_path !== 'string' || !/^(\$\.)?[A-Za-z0-9_-]+(\.[A-Za-z0-9_-]+)*$/.test(raw.json_path)) {
+      return validationError(`"${field}.json_path" must be a dot path such as "status" or "checks.db"`)
+    }
+    if (raw.equals === undefined) {
+      return Ok({ json_path: raw.json_path })
+    }
+    if (raw.equals !== null && !['string', 'number', 'boolean'].includes(typeof raw.equals)) {
+      return validationError(`"${field}.equals" must be a string, number, boolean or null`)
+    }
+    return Ok({ json_path: raw.json_path, equals: raw.equals as string | number | boolean | null })
+  }
+
+  return validationError(`"${field}" must have "contains" or "json_path"`)
+}
+
+/**
+ * Validate one target: a bare URL, or an object with url and any of
+ * method, headers, expected_status, body_assertion, timeout_ms, interval_seconds
+ */
+function parseTarget(input: unknown, field: string): Result<HealthTarget> {
+  if (typeof input === 'string') {
+    return isHttpUrl(input) ? Ok(defaultTarget(input)) : validationError(`${field} must be an http(s) URL`)
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError(`${field} must be a URL or an object`)
+  }
+
+  const raw = input as Record<string, unknown>
+  const allowed = Object.keys(defaultTarget(''))
+  for (const key of Object.keys(raw)) {
+    if (!allowed.includes(key)) return validationError(`Unknown field '${key}' in ${field}`)
+  }
+  if (!isHttpUrl(raw.url)) {
+    return validationError(`"${field}.url" must be an http(s) URL`)
+  }
+  const target = defaultTarget(raw.url)
+
+  const bodyAssertion = parseBodyAssertion(raw.body_assertion, `${field}.body_assertion`)
+  if (!bodyAssertion.ok) return bodyAssertion
+  target.body_assertion = bodyAssertion.data
+
+  // A body assertion needs a body, so it switches the default method to GET
+  if (raw.method !== undefined) {
+    if (typeof raw.method !== 'string' || !METHODS.includes(raw.method)) {
+      return validationError(`"${field}.method" must be one of ${METHODS.join(', ')}`)
+    }
+    target.method = raw.method as HealthMethod
+  } else if (target.body_assertion) {
+    target.method = HealthMethod.GET
+  }
+  if (target.method === HealthMethod.HEAD && target.body_assertion) {
+    return validationError(`"${field}.body_assertion" can't be used with HEAD`)
+  }
+
+  const headers = parseHeaders(raw.headers, `${field}.headers`)
+  if (!headers.ok) return headers
+  target.headers = headers.data
+
+  if (raw.expected_status !== undefined && raw.expected_status !== null) {
+    const statuses = raw.expected_status
+    if (!Array.isArray(statuses) || statuses.length === 0 || statuses.length > MAX_EXPECTED_STATUSES ||
+      !statuses.every((status) => isIntBetween(status, 100, 599))) {
+      return validationError(`"${field}.expected_status" must be an array of 1-${MAX_EXPECTED_STATUSES} HTTP status codes, or null`)
+    }
+    target.expected_status = [...new Set(statuses as number[])]
+  }
+
+  if (raw.timeout_ms !== undefined) {
+    if (!isIntBetween(raw.timeout_ms, MIN_TIMEOUT_MS, MAX_TIMEOUT_MS)) {
+      return validationError(`"${field}.timeout_ms" must be an integer from ${MIN_TIMEOUT_MS} to ${MAX_TIMEOUT_MS}`)
+    }
+    target.timeout_ms = raw.timeout_ms
+  }
+
+  if (raw.interval_seconds !== undefined) {
+    if (!isIntBetween(raw.interval_seconds, MIN_INTERVAL_SECONDS, MAX_INTERVAL_SECONDS)) {
+      return validationError(`"${field}.interval_seconds" must be an integer from ${MIN_INTERVAL_SECONDS} to ${MAX_INTERVAL_SECONDS}`)
+    }
+    target.interval_seconds = raw.interval_seconds
+  }
+
+  return Ok(target)
+}
+
+/**
+ * Validate an untrusted list of health targets (bare URLs or objects),
+ * filling in defaults. Each URL can only be listed once.
+ */
+export function parseHealthTargets(input: unknown): Result<HealthTarget[]> {
+  if (!Array.isArray(input) || input.length > MAX_TARGETS) {
+    return validationError(`"urls" must be an array of at most ${MAX_TARGETS} URLs or targets`)
+  }
+
+  const targets: HealthTarget[] = []
+  for (const [index, item] of input.entries()) {
+    const target = parseTarget(item, `urls[${index}]`)
+    if (!target.ok) return target
+    if (targets.some((existing) => existing.url === target.data.url)) {
+      return validationError(`Duplicate health check URL '${target.data.url}'`)
+    }
+    targets.push(target.data)
+  }
+  return Ok(targets)
+}
+
+/**
+ * The shortest form of a target: its URL alone if everything else is a
+ * default, otherwise the fields that differ
+ */
+export function compactHealthTarget(target: HealthTarget): string | Partial<HealthTarget> {
+  const defaults = defaultTarget(target.url)
+  const compact: Partial<HealthTarget> = { url: target.url }
+  for (const key of Object.keys(defaults) as (keyof HealthTarget)[]) {
+    if (JSON.stringify(target[key]) !== JSON.stringify(defaults[key])) {
+      Object.assign(compact, { [key]: target[key] })
+    }
+  }
+  // GET is implied by a body assertion
+  if (compact.method === HealthMethod.GET && compact.body_assertion) {
+    delete compact.method
+  }
+  return Object.keys(compact).length === 1 ? target.url : compact
+}
+
+/**
+ * Validate an admin's secret bindings: HEALTH_* secret name to the host
+ * (hostname, with a port if not the default) its value may be sent to
+ */
+export function parseHealthSecretBindings(input: unknown): Result<Record<string, string>> {
+  if (!input || typeof input !== 'object' || Array.isArray(input) || Object.keys(input).length > MAX_SECRET_BINDINGS) {
+    return validationError(`"secrets" must be an object of at most ${MAX_SECRET_BINDINGS} secret names and hosts`)
+  }
+
+  const bindings: Record<string, string> = {}
+  for (const [name, host] of Object.entries(input)) {
+    if (!SECRET_NAME.test(name)) {
+      return validationError(`Invalid secret name '${name}'; only secrets named HEALTH_* can be bound`)
+    }
+    if (typeof host !== 'string' || !SECRET_HOST.test(host.toLowerCase())) {
+      return validationError(`"secrets.${name}" must be a host, e.g. "api.example.com"`)
+    }
+    bindings[name] = host.toLowerCase()
+  }
+  return Ok(bindings)
+}
+
+/**
+ * The Worker's HEALTH_* secrets by name
+ */
+export function healthSecrets(env: Env): Record<string, string> {
+  const secrets: Record<string, string> = {}
+  for (const [name, value] of Object.entries(env)) {
+    if (SECRET_NAME.test(name) && typeof value === 'string') {
+      secrets[name] = value
+    }
+  }
+  return secrets
+}
+
+/**
+ * Replace {{HEALTH_*}} references in a target's headers with Worker
+ * secrets. Fails if a secret isn't bound to the target's host or isn't set.
+ */
+export function resolveHealthHeaders(
+  target: HealthTarget,
+  bindings: Record<string, string>,
+  secrets: Record<string, string>
+): Result<Record<string, string>> {
+  const host = new URL(target.url).host
+  const headers: Record<string, string> = {}
+  for (const [name, value] of Object.entries(target.headers)) {
+    let failure: string | null = null
+    headers[name] = value.replace(SECRET_REFERENCE, (_, secret: string) => {
+      if (failure) {
+        return ''
+      }
+      if (bindings[secret] !== host) {
+        failure = `Secret ${secret} isn't bound to this app for ${host}`
+        return ''
+      }
+      if (secrets[secret] === undefined) {
+        failure = `Secret ${secret} is not set`
+        return ''
+      }
+      return secrets[secret]
+    })
+    if (failure) {
+      return Err({ code: ErrorCode.NOT_FOUND, message: failure })
+    }
+  }
+  return Ok(headers)
+}
+
+/**
+ * Check a response against a target's expectations. Returns why the check
+ * failed, or null if it passed. body is null when it wasn't read.
+ */
+export function checkHealthResponse(target: HealthTarget, status: number, body: string | null): string | null {
+  if (target.expected_status ? !target.expected_status.includes(status) : status >= 500) {
+    return target.expected_status
+      ? `Status ${status}, expected ${target.expected_status.join(' or ')}`
+      : `Status ${status}`
+  }
+
+  const assertion = target.body_assertion
+  if (!assertion) {
+    return null
+  }
+  if ('contains' in assertion) {
+    return body?.includes(assertion.contains) ? null : `Body does not contain "${assertion.contains}"`
+  }
+
+  let json: unknown
+  try {
+    json = JSON.parse(body ?? '')
+  } catch {
+    return 'Body is not JSON'
+  }
+  const value = getContextValue(json as Record<string, unknown>, assertion.json_path.replace(/^\$\./, ''))
+  if (value === undefined) {
+    return `Body has no ${assertion.json_path}`
+  }
+  if (assertion.equals !== undefined && value !== assertion.equals) {
+    return `${assertion.json_path} is ${JSON.stringify(value)}, expected ${JSON.stringify(assertion.equals)}`
+  }
+  return null
+}
+
+/**
+ * Percent of checks that passed, to 3 decimals (null without checks)
+ */
+export function uptimePercent(checks: number, failures: number): number | null {
+  if (checks === 0) return null
+  return Math.round(((checks - failures) / checks) * 100 * 1000) / 1000
+}
+
+/**
+ * Nearest-rank percentile (0-100) of values sorted ascending, null if there
+ * are none. Uses the same rank as percentile aggregations.
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  return sorted[Math.max(0, Math.ceil((p * sorted.length) / 100) - 1)]
+}
+
+/**
+ * Format a duration in the largest fitting units ("45s", "12m", "3h 5m")
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  const days = Math.floor(hours / 24)
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`
+}
+
+/**
+ * Validate an untrusted health alert settings body, filling in defaults
+ * for any field left out
+ */
+export function parseHealthAlertSettings(input: unknown): Result<HealthAlertSettings> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('Health alert settings must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const settings: HealthAlertSettings = { ...DEFAULT_HEALTH_ALERT_SETTINGS }
+  for (const key of Object.keys(raw)) {
+    if (!(key in settings)) return validationError(`Unknown field '${key}'`)
+  }
+
+  for (const key of ['failure_threshold', 'recovery_threshold'] as const) {
+    if (raw[key] === undefined) continue
+    if (!isIntBetween(raw[key], 1, MAX_ALERT_THRESHOLD)) {
+      return validationError(`"${key}" must be an integer from 1 to ${MAX_ALERT_THRESHOLD}`)
+    }
+    settings[key] = raw[key]
+  }
+
+  if (raw.webhook_urls !== undefined) {
+    const urls = raw.webhook_urls
+    if (!Array.isArray(urls) || urls.length > MAX_ALERT_WEBHOOKS || !urls.every(isHttpUrl)) {
+      return validationError(`"webhook_urls" must be an array of at most ${MAX_ALERT_WEBHOOKS} http(s) URLs`)
+    }
+    settings.webhook_urls = [...new Set(urls)]
+  }
+
+  if (raw.flap_threshold !== undefined) {
+    if (!isIntBetween(raw.flap_threshold, 2, MAX_ALERT_THRESHOLD)) {
+      return validationError(`"flap_threshold" must be an integer from 2 to ${MAX_ALERT_THRESHOLD}`)
+    }
+    settings.flap_threshold = raw.flap_threshold
+  }
+
+  if (raw.flap_window_seconds !== undefined) {
+    if (!isIntBetween(raw.flap_window_seconds, MIN_FLAP_WINDOW_SECONDS, MAX_FLAP_WINDOW_SECONDS)) {
+      return validationError(`"flap_window_seconds" must be an integer from ${MIN_FLAP_WINDOW_SECONDS} to ${MAX_FLAP_WINDOW_SECONDS}`)
+    }
+    settings.flap_window_seconds = raw.flap_window_seconds
+  }
+
+  return Ok(settings)
+}
+
+/**
+ * Alert settings as recorded in the audit log: webhook URLs often carry a
+ * token in the path or query, so only their origins are kept
+ */
+export function auditedHealthAlertSettings(settings: HealthAlertSettings): HealthAlertSettings {
+  return { ...settings, webhook_urls: settings.webhook_urls.map((url) => new URL(url).origin) }
+}
+
+/**
+ * Alert state of a URL that hasn't been checked yet
+ */
+export function initialHealthAlertState(url: string): HealthAlertState {
+  return {
+    url,
+    state: 'unknown',
+    since: null,
+    failures: 0,
+    successes: 0,
+    streak_started_at: null,
+    flapping: false,
+    transitions: [],
+  }
+}
+
+/**
+ * What a check did to a URL's alert state. change is set when the URL went
+ * down or came back up (duration_ms is how long it was down); flapping is
+ * set when it started or stopped flapping.
+ */
+export interface HealthAlertUpdate {
+  state: HealthAlertState
+  change: { from: HealthState; to: HealthState; duration_ms: number | null } | null
+  flapping: 'started' | 'stopped' | null
+}
+
+/**
+ * Apply a check result to a URL's alert state. Going from unknown to up
+ * isn't a change worth alerting on, so it isn't reported or counted
+ * towards flapping.
+ */
+export function applyHealthCheck(
+  previous: HealthAlertState,
+  passed: boolean,
+  checkedAt: string,
+  settings: HealthAlertSettings
+): HealthAlertUpdate {
+  const windowStart = Date.parse(checkedAt) - settings.flap_window_seconds * 1000
+  const state: HealthAlertState = {
+    ...previous,
+    transitions: previous.transitions.filter((at) => Date.parse(at) > windowStart),
+  }
+
+  const continuing = passed ? previous.successes > 0 : previous.failures > 0
+  state.streak_started_at = continuing ? previous.streak_started_at : checkedAt
+  state.failures = passed ? 0 : previous.failures + 1
+  state.successes = passed ? previous.successes + 1 : 0
+
+  let change: HealthAlertUpdate['change'] = null
+  if (!passed && state.state !== 'down' && state.failures >= settings.failure_threshold) {
+    change = { from: state.state, to: 'down', duration_ms: null }
+  } else if (passed && state.state === 'down' && state.successes >= settings.recovery_threshold) {
+    const downSince = Date.parse(state.since ?? checkedAt)
+    change = { from: 'down', to: 'up', duration_ms: Date.parse(state.streak_started_at!) - downSince }
+  } else if (passed && state.state === 'unknown' && state.successes >= settings.recovery_threshold) {
+    state.state = 'up'
+    state.since = state.streak_started_at
+  }
+
+  if (change) {
+    state.state = change.to
+    state.since = state.streak_started_at
+    state.transitions.push(checkedAt)
+  }
+
+  let flapping: HealthAlertUpdate['flapping'] = null
+  if (!state.flapping && state.transitions.length >= settings.flap_threshold) {
+    state.flapping = true
+    flapping = 'started'
+  } else if (state.flapping && state.transitions.length === 0) {
+    state.flapping = false
+    flapping = 'stopped'
+  }
+
+  return { state, change, flapping }
+}
+
+/**
+ * Something about a URL's alert state worth logging: it went down or up,
+ * or started flapping or stopped (became stable)
+ */
+export type HealthAlertEvent = 'down' | 'up' | 'flapping' | 'stable'
+
+/**
+ * The events an update caused, the state change first
+ */
+export function healthAlertEvents(update: HealthAlertUpdate): HealthAlertEvent[] {
+  const events: HealthAlertEvent[] = []
+  if (update.change) events.push(update.change.to === 'down' ? 'down' : 'up')
+  if (update.flapping) events.push(update.flapping === 'started' ? 'flapping' : 'stable')
+  return events
+}
+
+/**
+ * Describe an event in a sentence, for the log entry and the webhook text.
+ * error is the check's error, if it failed.
+ */
+export function describeHealthAlert(
+  event: HealthAlertEvent,
+  update: HealthAlertUpdate,
+  error: string | null,
+  settings: HealthAlertSettings
+): string {
+  const { state } = update
+  const reason = error ? `: ${error}` : ''
+  switch (event) {
+    case 'down':
+      return `${state.url} is down after ${state.failures} failed check${state.failures === 1 ? '' : 's'}${reason}`
+    case 'up':
+      return `${state.url} is up again after ${formatDuration(update.change?.duration_ms ?? 0)} down`
+    case 'flapping':
+      return `${state.url} is flapping (${state.transitions.length} state changes in ${formatDuration(settings.flap_window_seconds * 1000)}); notifications are paused until it settles`
+    case 'stable':
+      return `${state.url} stopped flapping and is ${state.state}${reason}`
+  }
+}
+
+/**
+ * JSON body sent to the health alert webhooks
+ */
+export function buildHealthAlertPayload(
+  appId: string,
+  event: HealthAlertEvent,
+  update: HealthAlertUpdate,
+  error: string | null,
+  at: string,
+  settings: HealthAlertSettings
+) {
+  const { state, change } = update
+  return {
+    type: `health.${event}`,
+    app_id: appId,
+    url: state.url,
+    state: state.state,
+    at,
+    since: state.since,
+    failures: state.failures,
+    duration_ms: change?.duration_ms ?? null,
+    error,
+    text: `[${appId}] ${describeHealthAlert(event, update, error, settings)}`,
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Heartbeat monitor validation, ping tokens and state
+ */
+
+import { Ok, type Result, validationError } from '../result'
+import { HeartbeatStatus, type HeartbeatInput, type HeartbeatMonitor, type HeartbeatState } from '../types'
+import { formatDuration } from './health'
+import { isIntBetween } from '../utils'
+
+export const DEFAULT_HEARTBEAT_GRACE_SECONDS = 5 * 60
+
+const MAX_NAME_LENGTH = 100
+const MIN_PERIOD_SECONDS = 60
+const MAX_PERIOD_SECONDS = 30 * 24 * 60 * 60
+const MAX_GRACE_SECONDS = 7 * 24 * 60 * 60
+const MAX_DURATION_MS = 7 * 24 * 60 * 60 * 1000
+const STATUSES = Object.values(HeartbeatStatus) as string[]
+
+/**
+ * Validate an untrusted heartbeat monitor body ({ name, period_seconds,
+ * grace_seconds? }), defaulting the grace time to 5 minutes
+ */
+export function parseHeartbeatInput(input: unknown): Result<HeartbeatInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('Heartbeat monitor must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  for (const key of Object.keys(raw)) {
+    if (!['name', 'period_seconds', 'grace_seconds'].includes(key)) return validationError(`Unknown field '${key}'`)
+  }
+
+  if (typeof raw.name !== 'string' || raw.name.trim() === '' || raw.name.trim().length > MAX_NAME_LENGTH) {
+    return validationError(`"name" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters`)
+  }
+
+  if (!isIntBetween(raw.period_seconds, MIN_PERIOD_SECONDS, MAX_PERIOD_SECONDS)) {
+    return validationError(`"period_seconds" must be an integer from ${MIN_PERIOD_SECONDS} to ${MAX_PERIOD_SECONDS}`)
+  }
+
+  const grace = raw.grace_seconds ?? DEFAULT_HEARTBEAT_GRACE_SECONDS
+  if (!isIntBetween(grace, 0, MAX_GRACE_SECONDS)) {
+    return validationError(`"grace_seconds" must be an integer from 0 to ${MAX_GRACE_SECONDS}`)
+  }
+
+  return Ok({ name: raw.name.trim(), period_seconds: raw.period_seconds, grace_seconds: grace })
+}
+
+/**
+ * Validate a ping body: empty, or { status?, duration_ms? }. Pings without
+ * a status report a successful run.
+ */
+export function parseHeartbeatPing(input: unknown): Result<{ status: HeartbeatStatus; duration_ms: number | null }> {
+  if (input === null || input === undefined) {
+    return Ok({ status: HeartbeatStatus.SUCCESS, duration_ms: null })
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('Ping body must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  const status = raw.status ?? HeartbeatStatus.SUCCESS
+  if (typeof status !== 'string' || !STATUSES.includes(status)) {
+    return validationError(`"status" must be one of ${STATUSES.join(', ')}`)
+  }
+
+  const duration = raw.duration_ms ?? null
+  if (duration !== null && !isIntBetween(duration, 0, MAX_DURATION_MS)) {
+    return validationError(`"duration_ms" must be an integer from 0 to ${MAX_DURATION_MS}`)
+  }
+
+  return Ok({ status: status as HeartbeatStatus, duration_ms: duration })
+}
+
+/**
+ * Encode a string as unpadded base64url
+ */
+function base64Url(value: string): string {
+  const bytes = new TextEncoder().encode(value)
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Create a ping token: the app ID (base64url) so pings can be routed to the
+ * app's DO without a lookup, then a random secret
+ */
+export function createHeartbeatToken(appId: string): string {
+  const secret = Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('')
+  return `${base64Url(appId)}.${secret}`
+}
+
+/**
+ * The app ID a ping token belongs to, or null if it isn't a token
+ */
+export function heartbeatTokenAppId(token: string): string | null {
+  const match = /^([A-Za-z0-9_-]+)\.[0-9a-f]{32}$/.exec(token)
+  if (!match) return null
+  try {
+    const binary = atob(match[1].replace(/-/g, '+').replace(/_/g, '/'))
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * A monitor's state at `now`. Missing and late take precedence over the
+ * last run's outcome, since they mean the job stopped running.
+ */
+export function heartbeatState(monitor: HeartbeatMonitor, now: number): HeartbeatState {
+  if (monitor.last_ping_at === null) return 'new'
+  const due = Date.parse(monitor.next_due_at)
+  if (now > due + monitor.grace_seconds * 1000) return 'missing'
+  if (now > due) return 'late'
+  return monitor.last_status === HeartbeatStatus.FAIL ? 'failed' : 'up'
+}
+
+/**
+ * When a monitor's state will next change if no ping arrives (it goes late,
+ * then missing), or null if it won't
+ */
+export function nextHeartbeatDeadline(monitor: HeartbeatMonitor, now: number): number | null {
+  if (monitor.last_ping_at === null) return null
+  const due = Date.parse(monitor.next_due_at)
+  if (now <= due) return due + 1
+  const missingAt = due + monitor.grace_seconds * 1000
+  return now <= missingAt ? missingAt + 1 : null
+}
+
+/**
+ * Describe a monitor's change to its current state, for the log entry
+ */
+export function describeHeartbeatChange(monitor: HeartbeatMonitor, previous: HeartbeatState, now: number): string {
+  const name = `Heartbeat '${monitor.name}'`
+  const since = monitor.last_ping_at ? formatDuration(now - Date.parse(monitor.last_ping_at)) : null
+  switch (monitor.state) {
+    case 'late':
+      return `${name} is late: last ping ${since} ago, expected every ${formatDuration(monitor.period_seconds * 1000)}`
+    case 'missing':
+      return `${name} is missing: last ping ${since} ago, expected every ${formatDuration(monitor.period_seconds * 1000)}`
+    case 'failed':
+      return `${name} reported a failed run${monitor.last_duration_ms !== null ? ` after ${formatDuration(monitor.last_duration_ms)}` : ''}`
+    default:
+      return `${name} is up again after being ${previous}`
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Error fingerprinting for grouping log entries into issues
+ */
+
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import { IssueStatus, type IssueSettings, type LogEntry } from '../types'
+
+const MAX_TITLE_LENGTH = 200
+const MAX_FRAMES = 5
+
+/**
+ * Fingerprint of a log entry plus the display fields derived with it
+ */
+export interface IssueFingerprint {
+  fingerprint: string
+  title: string
+  culprit?: string
+}
+
+/**
+ * Strip the parts of a message that vary between occurrences of the same
+ * bug: UUIDs, long hex strings (ids, hashes) and numbers
+ */
+export function normalizeMessage(message: string): string {
+  const normalized = message
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return normalized.length > MAX_TITLE_LENGTH ? normalized.slice(0, MAX_TITLE_LENGTH) + '…' : normalized
+}
+
+/**
+ * Extract the top stack frames from context.stack (a V8 stack string or an
+ * array of frame strings), without line and column numbers so that
+ * redeploys don't split an issue
+ */
+export function stackFrames(stack: unknown): string[] {
+  const lines = typeof stack === 'string'
+    ? stack.split('\n')
+    : Array.isArray(stack) ? stack.filter((line): line is string => typeof line === 'string') : []
+
+  return lines
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('at '))
+    .slice(0, MAX_FRAMES)
+    .map((line) => line.slice(3).replace(/(:\d+)+(?=\)?$)/, ''))
+}
+
+/**
+ * Fingerprint an entry by level, normalized message and top stack frames
+ */
+export async function fingerprintEntry(entry: Pick<LogEntry, 'level' | 'message' | 'context'>): Promise<IssueFingerprint> {
+  const title = normalizeMessage(entry.message)
+  const frames = stackFrames(entry.context?.stack)
+
+  const data = new TextEncoder().encode([entry.level, title, ...frames].join('\n'))
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  const fingerprint = Array.from(new Uint8Array(digest).slice(0, 8))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+
+  return { fingerprint, title, culprit: frames[0] }
+}
+
+/**
+ * Validate an issue status update body ({ status })
+ */
+export function parseIssueStatus(input: unknown): Result<IssueStatus> {
+  const status = (input as { status?: unknown } | null)?.status
+  if (!Object.values<unknown>(IssueStatus).includes(status)) {
+    return Err({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: `"status" must be one of ${Object.values(IssueStatus).join(', ')}`,
+    })
+  }
+  return Ok(status as IssueStatus)
+}
+
+/**
+ * Validate an issue settings body ({ include_warn })
+ */
+export function parseIssueSettings(input: unknown): Result<IssueSettings> {
+  const includeWarn = (input as { include_warn?: unknown } | null)?.include_warn
+  if (typeof includeWarn !== 'boolean') {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: '"include_warn" must be a boolean' })
+  }
+  return Ok({ include_warn: includeWarn })
+}
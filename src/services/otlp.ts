@@ -0,0 +1,194 @@
+/**
+ * OTLP/HTTP JSON log mapping (ExportLogsServiceRequest -> LogInput)
+ * See https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ */
+
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import { LogLevel, type TimedLogInput } from '../types'
+
+/**
+ * OTLP AnyValue - exactly one field is set
+ */
+interface OtlpAnyValue {
+  stringValue?: string
+  boolValue?: boolean
+  intValue?: string | number // int64 is encoded as a string in JSON
+  doubleValue?: number
+  bytesValue?: string // base64
+  arrayValue?: { values?: OtlpAnyValue[] }
+  kvlistValue?: { values?: OtlpKeyValue[] }
+}
+
+interface OtlpKeyValue {
+  key: string
+  value?: OtlpAnyValue
+}
+
+interface OtlpLogRecord {
+  timeUnixNano?: string | number // uint64, encoded as a string in JSON
+  observedTimeUnixNano?: string | number
+  severityNumber?: number
+  severityText?: string
+  body?: OtlpAnyValue
+  attributes?: OtlpKeyValue[]
+  traceId?: string // hex
+  spanId?: string // hex
+}
+
+interface OtlpResourceLogs {
+  resource?: { attributes?: OtlpKeyValue[] }
+  scopeLogs?: Array<{ logRecords?: OtlpLogRecord[] }>
+}
+
+/**
+ * Log entries mapped from one export request, plus the distinct
+ * service.name resource attributes seen (used to pick the app)
+ */
+export interface OtlpLogs {
+  logs: TimedLogInput[]
+  service_names: string[]
+}
+
+/**
+ * Map an OTLP severity to a LogLevel. severityNumber wins (TRACE and DEBUG
+ * ranges map to DEBUG, FATAL to ERROR); otherwise severityText is matched
+ * by name. Unspecified severity is INFO.
+ */
+export function toLogLevel(severityNumber?: number, severityText?: string): LogLevel {
+  if (severityNumber && severityNumber > 0) {
+    if (severityNumber <= 8) return LogLevel.DEBUG
+    if (severityNumber <= 12) return LogLevel.INFO
+    if (severityNumber <= 16) return LogLevel.WARN
+    return LogLevel.ERROR
+  }
+
+  const text = severityText?.toLowerCase() ?? ''
+  if (text.startsWith('trace') || text.startsWith('debug')) return LogLevel.DEBUG
+  if (text.startsWith('warn')) return LogLevel.WARN
+  if (text.startsWith('err') || text.startsWith('fatal') || text.startsWith('crit') || text.startsWith('alert') || text.startsWith('emerg')) {
+    return LogLevel.ERROR
+  }
+  return LogLevel.INFO
+}
+
+/**
+ * Convert an AnyValue to a plain JSON value
+ */
+function toJsonValue(value: OtlpAnyValue | undefined): unknown {
+  if (!value) return null
+  if (value.stringValue !== undefined) return value.stringValue
+  if (value.boolValue !== undefined) return value.boolValue
+  if (value.intValue !== undefined) return Number(value.intValue)
+  if (value.doubleValue !== undefined) return value.doubleValue
+  if (value.bytesValue !== undefined) return value.bytesValue
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(toJsonValue)
+  if (value.kvlistValue) return attributesToObject(value.kvlistValue.values)
+  return null
+}
+
+/**
+ * Convert attributes to a context object. Dotted keys are nested
+ * (http.method -> { http: { method } }) so context.* filters can reach them.
+ */
+function attributesToObject(attributes: OtlpKeyValue[] | undefined, target: Record<string, unknown> = {}): Record<string, unknown> {
+  for (const attribute of attributes ?? []) {
+    if (!attribute || typeof attribute.key !== 'string') continue
+
+    const path = attribute.key.split('.')
+    if (path.includes('__proto__')) continue
+
+    let node = target
+    for (const part of path.slice(0, -1)) {
+      const child = Object.hasOwn(node, part) ? node[part] : undefined
+      if (!child || typeof child !== 'object' || Array.isArray(child)) {
+        node[part] = {}
+      }
+      node = node[part] as Record<string, unknown>
+    }
+    node[path[path.length - 1]] = toJsonValue(attribute.value)
+  }
+  return target
+}
+
+/**
+ * Find a resource attribute by key
+ */
+function findAttribute(attributes: OtlpKeyValue[] | undefined, key: string): unknown {
+  const attribute = attributes?.find((a) => a?.key === key)
+  return attribute ? toJsonValue(attribute.value) : undefined
+}
+
+/**
+ * Trace and span IDs of all zeros mean "not set"
+ */
+function isSetId(id: unknown): id is string {
+  return typeof id === 'string' && id.length > 0 && !/^0+$/.test(id)
+}
+
+/**
+ * Convert a Unix time in nanoseconds to ISO 8601, or undefined if it is
+ * unset (0) or invalid
+ */
+function nanosToIso(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+  try {
+    const ms = Number(BigInt(value) / 1000000n)
+    const date = new Date(ms)
+    return ms > 0 && Number.isFinite(date.getTime()) ? date.toISOString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Map an ExportLogsServiceRequest to log entries.
+ * - body becomes message (non-string bodies are JSON-encoded)
+ * - resource attributes, then record attributes, become context
+ * - traceId becomes request_id; spanId is kept as context.span_id
+ * - timeUnixNano (or observedTimeUnixNano if unset) becomes the timestamp
+ */
+export function parseOtlpLogs(input: unknown): Result<OtlpLogs> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return Err({ code: ErrorCode.BAD_REQUEST, message: 'Body must be an ExportLogsServiceRequest object' })
+  }
+
+  const resourceLogs = (input as { resourceLogs?: unknown }).resourceLogs ?? []
+  if (!Array.isArray(resourceLogs)) {
+    return Err({ code: ErrorCode.BAD_REQUEST, message: '"resourceLogs" must be an array' })
+  }
+
+  const logs: TimedLogInput[] = []
+  const serviceNames = new Set<string>()
+
+  for (const resourceLog of resourceLogs as OtlpResourceLogs[]) {
+    const resourceAttributes = resourceLog?.resource?.attributes
+    const serviceName = findAttribute(resourceAttributes, 'service.name')
+    if (typeof serviceName === 'string' && serviceName) {
+      serviceNames.add(serviceName)
+    }
+
+    for (const scopeLog of resourceLog?.scopeLogs ?? []) {
+      for (const record of scopeLog?.logRecords ?? []) {
+        if (!record || typeof record !== 'object') {
+          return Err({ code: ErrorCode.BAD_REQUEST, message: 'Each log record must be an object' })
+        }
+
+        const body = toJsonValue(record.body)
+        const context = attributesToObject(record.attributes, attributesToObject(resourceAttributes))
+        if (isSetId(record.spanId)) {
+          context.span_id = record.spanId
+        }
+
+        logs.push({
+          level: toLogLevel(record.severityNumber, record.severityText),
+          message: typeof body === 'string' ? body : body === null ? '' : JSON.stringify(body),
+          context: Object.keys(context).length > 0 ? context : undefined,
+          request_id: isSetId(record.traceId) ? record.traceId : undefined,
+          timestamp: nanosToIso(record.timeUnixNano) ?? nanosToIso(record.observedTimeUnixNano),
+        })
+      }
+    }
+  }
+
+  return Ok({ logs, service_names: [...serviceNames] })
+}
@@ -0,0 +1,416 @@
+/**
+ * Log query language, compiled to parameterized SQL for AppLogsDO.query()
+ * and evaluated in memory for live tail.
+ *
+ * Syntax:
+ * - free text, all required (`timeout upstream`), quoted phrases
+ *   (`"payment failed"`), prefixes (`pay*`) and `message:`/`context:` terms,
+ *   matched against the full-text index
+ * - `level:ERROR`, `level:>=WARN`
+ * - `context.status:>=500`, `context.path:/api/*` (`*` matches anything),
+ *   `context.user:"Jane Doe"`
+ * - `since:-15m`, `until:-1h` (s, m, h, d) or ISO timestamps
+ * - `request_id:abc`, `issue_id:...`
+ * - `NOT`, `OR` and `AND` (implied between terms) with parentheses
+ */
+
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import type { LogEntry, LogLevel } from '../types'
+import { getContextValue, jsonPath } from './filters'
+
+const LEVEL_RANK: Record<LogLevel, number> = { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3 }
+const RELATIVE_TIME = /^-(\d+)([smhd])$/
+const UNIT_MS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 }
+const CONTEXT_FIELD = /^context\.([A-Za-z0-9_-]+(?:\.[A-Za-z0-9_-]+)*)$/
+const FIELD_TERM = /^([A-Za-z_][A-Za-z0-9_.-]*):(>=|<=|>|<|=)?(.*)$/
+const OPERATORS = new Set(['AND', 'OR', 'NOT'])
+
+export type Comparison = '=' | '>' | '>=' | '<' | '<='
+
+/**
+ * Parsed query. position is the offset of the term in the query string.
+ */
+export type QueryNode =
+  | { type: 'and' | 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string; prefix: boolean; column: 'message' | 'context' | null; position: number }
+  | { type: 'level'; op: Comparison; level: LogLevel; position: number }
+  | { type: 'time'; bound: 'since' | 'until'; value: string; position: number }
+  | { type: 'id'; field: 'request_id' | 'issue_id'; value: string; position: number }
+  | { type: 'context'; path: string; op: Comparison; value: string; position: number }
+
+type Token =
+  | { kind: '('; position: number }
+  | { kind: ')'; position: number }
+  | { kind: 'operator'; value: 'AND' | 'OR' | 'NOT'; position: number }
+  | { kind: 'term'; node: QueryNode; position: number }
+
+/**
+ * A syntax error pointing at the offending part of the query
+ */
+function syntaxError(message: string, position: number, length: number = 1): Result<never> {
+  return Err({
+    code: ErrorCode.BAD_REQUEST,
+    message: `${message} at position ${position}`,
+    details: { position, length },
+  })
+}
+
+/**
+ * Read a quoted string starting at the opening quote. Returns the
+ * unquoted text and the offset after the closing quote.
+ */
+function readQuoted(query: string, start: number): Result<{ text: string; end: number }> {
+  const close = query.indexOf('"', start + 1)
+  if (close === -1) {
+    return syntaxError('Unterminated quote', start, query.length - start)
+  }
+  return Ok({ text: query.slice(start + 1, close), end: close + 1 })
+}
+
+/**
+ * Build the node for a `field:value` term
+ */
+function fieldTerm(field: string, op: Comparison | undefined, value: string, position: number, length: number): Result<QueryNode> {
+  if (value === '') {
+    return syntaxError(`Missing value for '${field}'`, position, length)
+  }
+
+  if (field === 'message' || field === 'context') {
+    if (op) return syntaxError(`'${field}:' only searches for text`, position, length)
+    const prefix = value.endsWith('*')
+    return Ok({ type: 'text', value: prefix ? value.replace(/\*+$/, '') : value, prefix, column: field, position })
+  }
+
+  if (field === 'level') {
+    const level = value.toUpperCase()
+    if (!(level in LEVEL_RANK)) {
+      return syntaxError(`Unknown level '${value}' (use ${Object.keys(LEVEL_RANK).join(', ')})`, position, length)
+    }
+    return Ok({ type: 'level', op: op ?? '=', level: level as LogLevel, position })
+  }
+
+  if (field === 'since' || field === 'until') {
+    if (op && op !== '=') return syntaxError(`'${field}:' takes a time, not a comparison`, position, length)
+    if (!RELATIVE_TIME.test(value) && isNaN(Date.parse(value))) {
+      return syntaxError(`Invalid time '${value}' (use e.g. -15m, -2h, -7d or an ISO timestamp)`, position, length)
+    }
+    return Ok({ type: 'time', bound: field, value, position })
+  }
+
+  if (field === 'request_id' || field === 'issue_id') {
+    if (op && op !== '=') return syntaxError(`'${field}:' only matches values`, position, length)
+    return Ok({ type: 'id', field, value, position })
+  }
+
+  const context = CONTEXT_FIELD.exec(field)
+  if (context) {
+    return Ok({ type: 'context', path: context[1], op: op ?? '=', value, position })
+  }
+
+  return syntaxError(`Unknown field '${field}' (quote the term to search for it as text)`, position, field.length)
+}
+
+/**
+ * Split a query into parentheses, operators and terms
+ */
+function tokenize(query: string): Result<Token[]> {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const char = query[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push(char === '(' ? { kind: '(', position: i } : { kind: ')', position: i })
+      i++
+      continue
+    }
+
+    if (char === '"') {
+      const quoted = readQuoted(query, i)
+      if (!quoted.ok) return quoted
+      const prefix = query[quoted.data.end] === '*'
+      if (quoted.data.text.trim()) {
+        tokens.push({ kind: 'term', node: { type: 'text', value: quoted.data.text, prefix, column: null, position: i }, position: i })
+      }
+      i = quoted.data.end + (prefix ? 1 : 0)
+      continue
+    }
+
+    // Bare word: runs until whitespace, a paren or a quote
+    const start = i
+    while (i < query.length && !/[\s()"]/.test(query[i])) i++
+    const word = query.slice(start, i)
+
+    if (OPERATORS.has(word)) {
+      tokens.push({ kind: 'operator', value: word as 'AND' | 'OR' | 'NOT', position: start })
+      continue
+    }
+
+    const field = FIELD_TERM.exec(word)
+    if (field) {
+      let value = field[3]
+      // field:"quoted value"
+      if (value === '' && query[i] === '"') {
+        const quoted = readQuoted(query, i)
+        if (!quoted.ok) return quoted
+        value = quoted.data.text
+        i = quoted.data.end
+      }
+      const node = fieldTerm(field[1], field[2] as Comparison | undefined, value, start, i - start)
+      if (!node.ok) return node
+      tokens.push({ kind: 'term', node: node.data, position: start })
+      continue
+    }
+
+    const prefix = word.endsWith('*')
+    const stem = prefix ? word.replace(/\*+$/, '') : word
+    if (stem) {
+      tokens.push({ kind: 'term', node: { type: 'text', value: stem, prefix, column: null, position: start }, position: start })
+    }
+  }
+
+  return Ok(tokens)
+}
+
+/**
+ * Parse a query string. Errors are BAD_REQUEST with details.position (and
+ * details.length) locating the problem.
+ */
+export function parseQuery(query: string): Result<QueryNode> {
+  const tokenized = tokenize(query)
+  if (!tokenized.ok) return tokenized
+  const tokens = tokenized.data
+  let next = 0
+
+  const peek = (): Token | undefined => tokens[next]
+  const end = (): number => query.length
+
+  // or := and (OR and)*
+  function parseOr(): Result<QueryNode> {
+    const children: QueryNode[] = []
+    for (;;) {
+      const node = parseAnd()
+      if (!node.ok) return node
+      children.push(node.data)
+      const token = peek()
+      if (token?.kind !== 'operator' || token.value !== 'OR') break
+      next++
+    }
+    return Ok(children.length === 1 ? children[0] : { type: 'or', children })
+  }
+
+  // and := not ([AND] not)*, ending at OR, ')' or the end
+  function parseAnd(): Result<QueryNode> {
+    const children: QueryNode[] = []
+    for (;;) {
+      const node = parseNot()
+      if (!node.ok) return node
+      children.push(node.data)
+      const token = peek()
+      if (!token || token.kind === ')' || (token.kind === 'operator' && token.value === 'OR')) break
+      if (token.kind === 'operator' && token.value === 'AND') next++
+    }
+    return Ok(children.length === 1 ? children[0] : { type: 'and', children })
+  }
+
+  // not := NOT not | primary
+  function parseNot(): Result<QueryNode> {
+    const token = peek()
+    if (token?.kind === 'operator' && token.value === 'NOT') {
+      next++
+      const child = parseNot()
+      if (!child.ok) return child
+      return Ok({ type: 'not', child: child.data })
+    }
+    return parsePrimary()
+  }
+
+  // primary := '(' or ')' | term
+  function parsePrimary(): Result<QueryNode> {
+    const token = peek()
+    if (!token) {
+      return syntaxError('Expected a term', end(), 0)
+    }
+    if (token.kind === 'term') {
+      next++
+      return Ok(token.node)
+    }
+    if (token.kind === '(') {
+      next++
+      const inner = parseOr()
+      if (!inner.ok) return inner
+      const close = peek()
+      if (close?.kind !== ')') {
+        return syntaxError("Expected ')'", close?.position ?? end(), close ? 1 : 0)
+      }
+      next++
+      return inner
+    }
+    if (token.kind === ')') {
+      return syntaxError("Unexpected ')'", token.position)
+    }
+    return syntaxError(`Unexpected '${token.value}'`, token.position, token.value.length)
+  }
+
+  if (tokens.length === 0) {
+    return syntaxError('Query is empty', 0, 0)
+  }
+
+  const root = parseOr()
+  if (!root.ok) return root
+  const extra = peek()
+  if (extra) {
+    return syntaxError(extra.kind === ')' ? "Unexpected ')'" : 'Unexpected term', extra.position)
+  }
+  return root
+}
+
+/**
+ * Resolve a since/until value to an ISO timestamp
+ */
+function resolveTime(value: string, now: number): string {
+  const relative = RELATIVE_TIME.exec(value)
+  if (relative) {
+    return new Date(now - Number(relative[1]) * UNIT_MS[relative[2] as keyof typeof UNIT_MS]).toISOString()
+  }
+  return new Date(value).toISOString()
+}
+
+/**
+ * Escape GLOB metacharacters other than `*`
+ */
+function toGlob(value: string): string {
+  return value.replace(/[?[]/g, (char) => `[${char}]`)
+}
+
+/**
+ * Quote a term as an FTS5 string, doubling embedded quotes
+ */
+function ftsTerm(node: Extract<QueryNode, { type: 'text' }>): string {
+  const column = node.column ? `${node.column} : ` : ''
+  return `${column}"${node.value.replace(/"/g, '""')}"${node.prefix ? '*' : ''}`
+}
+
+/**
+ * Compile a parsed query to a SQL condition over `logs` (columns qualified
+ * with `logs.`) and its parameters. Relative times are resolved against now.
+ */
+export function compileQuery(node: QueryNode, now: number = Date.now()): { sql: string; params: unknown[] } {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const parts = node.children.map((child) => compileQuery(child, now))
+      return {
+        sql: `(${parts.map((part) => part.sql).join(node.type === 'and' ? ' AND ' : ' OR ')})`,
+        params: parts.flatMap((part) => part.params),
+      }
+    }
+    case 'not': {
+      const inner = compileQuery(node.child, now)
+      return { sql: `NOT ${inner.sql}`, params: inner.params }
+    }
+    case 'text':
+      return { sql: 'logs.rowid IN (SELECT rowid FROM logs_fts WHERE logs_fts MATCH ?)', params: [ftsTerm(node)] }
+    case 'level':
+      if (node.op === '=') return { sql: 'logs.level = ?', params: [node.level] }
+      return {
+        sql: `(CASE logs.level WHEN 'DEBUG' THEN 0 WHEN 'INFO' THEN 1 WHEN 'WARN' THEN 2 ELSE 3 END) ${node.op} ?`,
+        params: [LEVEL_RANK[node.level]],
+      }
+    case 'time':
+      return { sql: `logs.timestamp ${node.bound === 'since' ? '>=' : '<='} ?`, params: [resolveTime(node.value, now)] }
+    case 'id':
+      return node.value.includes('*')
+        ? { sql: `IFNULL(logs.${node.field} GLOB ?, 0)`, params: [toGlob(node.value)] }
+        : { sql: `IFNULL(logs.${node.field} = ?, 0)`, params: [node.value] }
+    case 'context': {
+      // Missing fields compare as false, so NOT matches entries without the field
+      const path = jsonPath(node.path)
+      const number = Number(node.value)
+      if (node.op !== '=' && node.value.trim() !== '' && !isNaN(number)) {
+        return {
+          sql: `IFNULL(json_type(logs.context, '${path}') IN ('integer', 'real') AND json_extract(logs.context, '${path}') ${node.op} ?, 0)`,
+          params: [number],
+        }
+      }
+      const text = `CAST(json_extract(logs.context, '${path}') AS TEXT)`
+      if (node.op === '=') {
+        return node.value.includes('*')
+          ? { sql: `IFNULL(${text} GLOB ?, 0)`, params: [toGlob(node.value)] }
+          : { sql: `IFNULL(${text} = ?, 0)`, params: [node.value] }
+      }
+      return { sql: `IFNULL(${text} ${node.op} ?, 0)`, params: [node.value] }
+    }
+  }
+}
+
+/**
+ * Match a `*` wildcard pattern against a whole string
+ */
+function matchesWildcard(value: string, pattern: string): boolean {
+  const regex = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')
+  return new RegExp(`^${regex}$`, 's').test(value)
+}
+
+/**
+ * Compare two values with a comparison operator
+ */
+function compare<T extends number | string>(actual: T, op: Comparison, expected: T): boolean {
+  switch (op) {
+    case '=': return actual === expected
+    case '>': return actual > expected
+    case '>=': return actual >= expected
+    case '<': return actual < expected
+    case '<=': return actual <= expected
+  }
+}
+
+/**
+ * Evaluate a parsed query against an entry in memory (live tail). Free
+ * text matches as a case-insensitive substring of the message and context.
+ */
+export function matchesQuery(node: QueryNode, entry: LogEntry, now: number = Date.now()): boolean {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesQuery(child, entry, now))
+    case 'or':
+      return node.children.some((child) => matchesQuery(child, entry, now))
+    case 'not':
+      return !matchesQuery(node.child, entry, now)
+    case 'text': {
+      const haystack = node.column === 'context'
+        ? JSON.stringify(entry.context ?? {})
+        : node.column === 'message' ? entry.message : `${entry.message} ${JSON.stringify(entry.context ?? {})}`
+      return haystack.toLowerCase().includes(node.value.toLowerCase())
+    }
+    case 'level':
+      return compare(LEVEL_RANK[entry.level], node.op, LEVEL_RANK[node.level])
+    case 'time': {
+      const bound = resolveTime(node.value, now)
+      return node.bound === 'since' ? entry.timestamp >= bound : entry.timestamp <= bound
+    }
+    case 'id': {
+      const value = entry[node.field]
+      if (value === undefined || value === null) return false
+      return node.value.includes('*') ? matchesWildcard(value, node.value) : value === node.value
+    }
+    case 'context': {
+      const value = getContextValue(entry.context, node.path)
+      if (value === undefined || value === null) return false
+      const number = Number(node.value)
+      if (node.op !== '=' && node.value.trim() !== '' && !isNaN(number)) {
+        return typeof value === 'number' && compare(value, node.op, number)
+      }
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+      if (node.op === '=' && node.value.includes('*')) return matchesWildcard(text, node.value)
+      return compare(text, node.op, node.value)
+    }
+  }
+}
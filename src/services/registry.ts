@@ -1,129 +1,332 @@
 /**
- * App Registry Service - manages app registrations in KV
+ * App Registry Service - manages app registrations in the RegistryDO
+ *
+ * The DO is the source of truth. It writes each app's config to KV, which
+ * getApp and getAppForScript read first since they sit on the auth and
+ * ingest paths; a miss falls through to the DO, so a new app is usable at
+ * once. Unknown app IDs and script names are cached for a minute too.
+ * Other changes can take up to a minute to reach every location.
  */
 
-import { Ok, type Result, wrapError } from '../result'
-import type { AppConfig } from '../types'
+import { Ok, Err, type Result, ErrorCode, wrapError } from '../result'
+import {
+  DeleteMode,
+  type ApiKeyInfo,
+  type ApiKeyInput,
+  type AppConfig,
+  type AppDeletion,
+  type AppFilters,
+  type AppListing,
+  type AppPatch,
+  type CreatedApiKey,
+  type Env,
+  type StatusPageSettings,
+} from '../types'
 
-const APPS_KEY = 'apps'
 const APP_PREFIX = 'app:'
+const SCRIPT_PREFIX = 'script:'
+// Cached by the registry for scripts with no app
+const UNMAPPED_SCRIPT = ''
+// Cached by the registry for app IDs that don't exist
+const MISSING_APP = ''
+
+// How long a deleted app can be restored before its data is purged (7 days)
+export const DEFAULT_DELETE_GRACE_SECONDS = 7 * 24 * 60 * 60
+
+// Record last use at most this often per key and isolate
+const TOUCH_INTERVAL_MS = 5 * 60 * 1000
+const lastTouched = new Map<string, number>()
 
 /**
- * Generate a random API key
+ * Get the RegistryDO stub (one instance for the whole deployment)
  */
-function generateApiKey(): string {
-  const bytes = crypto.getRandomValues(new Uint8Array(24))
-  return Array.from(bytes)
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('')
+export function getRegistryDO(env: Env) {
+  return env.REGISTRY_DO.get(env.REGISTRY_DO.idFromName('registry'))
 }
 
 /**
- * List all registered app IDs
+ * Send a request to the RegistryDO and return its result
  */
-export async function listApps(kv: KVNamespace): Promise<Result<string[]>> {
+async function callRegistry<T>(env: Env, path: string, method: string = 'GET', body?: unknown): Promise<Result<T>> {
   try {
-    const data = await kv.get(APPS_KEY)
-    if (!data) {
-      return Ok([])
-    }
-    return Ok(JSON.parse(data) as string[])
+    const res = await getRegistryDO(env).fetch(new Request(`http://do${path}`, {
+      method,
+      ...(body !== undefined ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) } : {}),
+    }))
+    return await res.json() as Result<T>
   } catch (e) {
     return wrapError(e)
   }
 }
 
+function appPath(appId: string, suffix: string = ''): string {
+  return `/apps/${encodeURIComponent(appId)}${suffix}`
+}
+
+/**
+ * List registered apps with their metadata, optionally filtered
+ */
+export async function listAppListings(env: Env, filters: AppFilters = {}): Promise<Result<AppListing[]>> {
+  const params = new URLSearchParams(Object.entries(filters).filter(([, value]) => value !== undefined))
+  return callRegistry(env, `/apps?${params}`)
+}
+
+/**
+ * List registered app IDs, optionally filtered
+ */
+export async function listApps(env: Env, filters: AppFilters = {}): Promise<Result<string[]>> {
+  const result = await listAppListings(env, filters)
+  return result.ok ? Ok(result.data.map((app) => app.id)) : result
+}
+
 /**
- * Get app configuration by ID
+ * Get app configuration by ID, from the KV cache when it has it (including
+ * a cached "not found")
  */
 export async function getApp(
-  kv: KVNamespace,
+  env: Env,
   appId: string
 ): Promise<Result<AppConfig | null>> {
   try {
-    const data = await kv.get(`${APP_PREFIX}${appId}`)
-    if (!data) {
-      return Ok(null)
+    const cached = await env.LOGS_KV.get(`${APP_PREFIX}${appId}`)
+    if (cached !== null) {
+      return Ok(cached === MISSING_APP ? null : JSON.parse(cached) as AppConfig)
     }
-    return Ok(JSON.parse(data) as AppConfig)
   } catch (e) {
     return wrapError(e)
   }
+  return callRegistry(env, appPath(appId))
 }
 
 /**
- * Register a new app (or update existing)
+ * Register a new app (or update existing). New apps get a key with every
+ * scope, returned once as api_key (null when updating).
  */
 export async function registerApp(
-  kv: KVNamespace,
+  env: Env,
   appId: string,
   name: string,
   healthUrls: string[] = []
-): Promise<Result<AppConfig>> {
-  try {
-    // Check if app already exists
-    const existing = await kv.get(`${APP_PREFIX}${appId}`)
-
-    let config: AppConfig
-    if (existing) {
-      // Update existing app
-      const parsed = JSON.parse(existing) as AppConfig
-      config = {
-        ...parsed,
-        name,
-        health_urls: healthUrls,
-      }
-    } else {
-      // Create new app with generated API key
-      config = {
-        name,
-        health_urls: healthUrls,
-        created_at: new Date().toISOString(),
-        api_key: generateApiKey(),
-      }
-
-      // Add to apps list
-      const appsResult = await listApps(kv)
-      if (!appsResult.ok) {
-        return appsResult
-      }
-      const apps = appsResult.data
-      if (!apps.includes(appId)) {
-        apps.push(appId)
-        await kv.put(APPS_KEY, JSON.stringify(apps))
-      }
-    }
+): Promise<Result<{ config: AppConfig; api_key: string | null }>> {
+  return callRegistry(env, appPath(appId), 'PUT', { name, health_urls: healthUrls })
+}
 
-    // Save app config
-    await kv.put(`${APP_PREFIX}${appId}`, JSON.stringify(config))
+/**
+ * Replace the health check URLs in an app's config (null if the app
+ * doesn't exist). The app's DO keeps the list it actually checks.
+ */
+export async function setHealthUrls(
+  env: Env,
+  appId: string,
+  urls: string[]
+): Promise<Result<string[] | null>> {
+  return callRegistry(env, appPath(appId, '/health-urls'), 'PUT', { urls })
+}
 
-    return Ok(config)
-  } catch (e) {
-    return wrapError(e)
+/**
+ * Put an app on the public status page, or take it off with null (null if
+ * the app doesn't exist)
+ */
+export async function setStatusPage(
+  env: Env,
+  appId: string,
+  settings: StatusPageSettings | null
+): Promise<Result<StatusPageSettings | null>> {
+  return callRegistry(env, appPath(appId, '/status-page'), 'PUT', { settings })
+}
+
+/**
+ * Apps on the public status page with their settings
+ */
+export async function listStatusPages(env: Env): Promise<Result<{ id: string; name: string; status_page: StatusPageSettings }[]>> {
+  return callRegistry(env, '/status-pages')
+}
+
+/**
+ * Change an app's name and metadata (null if the app doesn't exist)
+ */
+export async function updateApp(
+  env: Env,
+  appId: string,
+  patch: AppPatch
+): Promise<Result<AppConfig | null>> {
+  return callRegistry(env, appPath(appId), 'PATCH', patch)
+}
+
+/**
+ * Validate delete options from the query string (mode, grace_seconds)
+ */
+export function parseDeleteOptions(params: URLSearchParams): Result<{ mode: DeleteMode; grace_seconds: number }> {
+  const mode = params.get('mode') ?? DeleteMode.PURGE
+  if (!(Object.values(DeleteMode) as string[]).includes(mode)) {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: `"mode" must be one of ${Object.values(DeleteMode).join(', ')}` })
   }
+
+  const raw = params.get('grace_seconds')
+  const grace = raw === null ? DEFAULT_DELETE_GRACE_SECONDS : Number(raw)
+  if (!Number.isInteger(grace) || grace < 0) {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: '"grace_seconds" must be a non-negative integer' })
+  }
+
+  return Ok({ mode: mode as DeleteMode, grace_seconds: grace })
 }
 
 /**
- * Delete an app registration
+ * Delete an app. It stops working at once; its logs, health checks and
+ * stats are purged (or archived, then purged) after graceSeconds, until
+ * which it can be restored. Null if the app doesn't exist.
  */
 export async function deleteApp(
-  kv: KVNamespace,
+  env: Env,
+  appId: string,
+  mode: DeleteMode,
+  graceSeconds: number
+): Promise<Result<AppDeletion | null>> {
+  return callRegistry(env, appPath(appId), 'DELETE', { mode, grace_seconds: graceSeconds })
+}
+
+/**
+ * Restore a deleted app before it is purged (null if it isn't awaiting purge)
+ */
+export async function restoreApp(
+  env: Env,
   appId: string
-): Promise<Result<{ deleted: boolean }>> {
-  try {
-    // Remove from apps list
-    const appsResult = await listApps(kv)
-    if (!appsResult.ok) {
-      return appsResult
-    }
-    const apps = appsResult.data.filter((id) => id !== appId)
-    await kv.put(APPS_KEY, JSON.stringify(apps))
+): Promise<Result<AppConfig | null>> {
+  return callRegistry(env, appPath(appId, '/restore'), 'POST')
+}
 
-    // Delete app config
-    await kv.delete(`${APP_PREFIX}${appId}`)
+/**
+ * List deleted apps awaiting purge
+ */
+export async function listDeletedApps(env: Env): Promise<Result<AppDeletion[]>> {
+  return callRegistry(env, '/deleted-apps')
+}
 
-    return Ok({ deleted: true })
+/**
+ * Resolve the app for a Tail Worker event's script name: an explicit
+ * mapping first, then a registered app whose ID is the script name.
+ * Scripts with no app are cached too, briefly.
+ */
+export async function getAppForScript(
+  env: Env,
+  scriptName: string
+): Promise<Result<string | null>> {
+  try {
+    const cached = await env.LOGS_KV.get(`${SCRIPT_PREFIX}${scriptName}`)
+    if (cached !== null) {
+      return Ok(cached === UNMAPPED_SCRIPT ? null : cached)
+    }
   } catch (e) {
     return wrapError(e)
   }
+  return callRegistry(env, `/scripts/${encodeURIComponent(scriptName)}`)
+}
+
+/**
+ * Replace the worker script names mapped to an app (null if the app
+ * doesn't exist). Fails with CONFLICT if another app already has one.
+ */
+export async function setTailScripts(
+  env: Env,
+  appId: string,
+  scripts: string[]
+): Promise<Result<string[] | null>> {
+  return callRegistry(env, appPath(appId, '/tail-scripts'), 'PUT', { scripts })
+}
+
+/**
+ * Replace the HEALTH_* secrets bound to an app, by name and host (null if
+ * the app doesn't exist). Fails with CONFLICT if another app has one.
+ */
+export async function setHealthSecrets(
+  env: Env,
+  appId: string,
+  secrets: Record<string, string>
+): Promise<Result<Record<string, string> | null>> {
+  return callRegistry(env, appPath(appId, '/health-secrets'), 'PUT', { secrets })
+}
+
+/**
+ * List an app's API keys without secrets (null if the app doesn't exist)
+ */
+export async function listApiKeys(
+  env: Env,
+  appId: string
+): Promise<Result<ApiKeyInfo[] | null>> {
+  return callRegistry(env, appPath(appId, '/keys'))
+}
+
+/**
+ * Add an API key to an app (null if the app doesn't exist)
+ */
+export async function createApiKey(
+  env: Env,
+  appId: string,
+  input: ApiKeyInput
+): Promise<Result<CreatedApiKey | null>> {
+  return callRegistry(env, appPath(appId, '/keys'), 'POST', input)
+}
+
+/**
+ * Replace a key with a new secret, keeping its label, scopes and expiry.
+ * The old key keeps working for graceSeconds so callers can switch over
+ * (0 revokes it now). Null if the app or key doesn't exist.
+ */
+export async function rotateApiKey(
+  env: Env,
+  appId: string,
+  keyId: string,
+  graceSeconds: number
+): Promise<Result<CreatedApiKey | null>> {
+  return callRegistry(env, appPath(appId, `/keys/${encodeURIComponent(keyId)}/rotate`), 'POST', { grace_seconds: graceSeconds })
+}
+
+/**
+ * Remove a key immediately. Returns the revoked key, or null if the app or
+ * key doesn't exist.
+ */
+export async function revokeApiKey(
+  env: Env,
+  appId: string,
+  keyId: string
+): Promise<Result<ApiKeyInfo | null>> {
+  return callRegistry(env, appPath(appId, `/keys/${encodeURIComponent(keyId)}`), 'DELETE')
+}
+
+/**
+ * Replace an app's plaintext secrets with salted hashes. Returns whether
+ * anything changed, or null if the app doesn't exist.
+ */
+export async function migrateApiKeys(
+  env: Env,
+  appId: string
+): Promise<Result<boolean | null>> {
+  return callRegistry(env, appPath(appId, '/keys/migrate'), 'POST')
+}
+
+/**
+ * Import apps that are still only in the KV records of the KV-based
+ * registry (the DO imports them all once, then each on first access)
+ */
+export async function importLegacyApps(env: Env): Promise<Result<{ imported: string[] }>> {
+  return callRegistry(env, '/import', 'POST')
+}
+
+/**
+ * Record that a key was used. Throttled, so last_used_at is accurate to a
+ * few minutes and the registry isn't written on every request.
+ */
+export async function touchApiKey(
+  env: Env,
+  appId: string,
+  keyId: string
+): Promise<Result<void>> {
+  const name = `${appId}:${keyId}`
+  const now = Date.now()
+  if (now - (lastTouched.get(name) ?? 0) < TOUCH_INTERVAL_MS) {
+    return Ok(undefined)
+  }
+
+  lastTouched.set(name, now)
+  return callRegistry(env, appPath(appId, `/keys/${encodeURIComponent(keyId)}/touch`), 'POST', { used_at: new Date(now).toISOString() })
 }
@@ -0,0 +1,84 @@
+/**
+ * Retention policy validation and cutoff helpers
+ */
+
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import { LogLevel, type RetentionPolicy } from '../types'
+import { isPositiveInt } from '../utils'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Validate an untrusted retention policy (from a request body or RPC caller)
+ */
+export function parseRetentionPolicy(input: unknown): Result<RetentionPolicy> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: 'Retention policy must be an object' })
+  }
+
+  const raw = input as Record<string, unknown>
+  const policy: RetentionPolicy = {}
+
+  if (raw.max_age_days !== undefined && raw.max_age_days !== null) {
+    if (!isPositiveInt(raw.max_age_days)) {
+      return Err({ code: ErrorCode.VALIDATION_ERROR, message: '"max_age_days" must be a positive integer' })
+    }
+    policy.max_age_days = raw.max_age_days
+  }
+
+  if (raw.level_max_age_days !== undefined && raw.level_max_age_days !== null) {
+    if (typeof raw.level_max_age_days !== 'object' || Array.isArray(raw.level_max_age_days)) {
+      return Err({ code: ErrorCode.VALIDATION_ERROR, message: '"level_max_age_days" must be an object' })
+    }
+    const levels: Partial<Record<LogLevel, number>> = {}
+    for (const [level, days] of Object.entries(raw.level_max_age_days)) {
+      if (!Object.values<string>(LogLevel).includes(level)) {
+        return Err({
+          code: ErrorCode.VALIDATION_ERROR,
+          message: `Unknown log level '${level}' in "level_max_age_days"`,
+        })
+      }
+      if (!isPositiveInt(days)) {
+        return Err({
+          code: ErrorCode.VALIDATION_ERROR,
+          message: `"level_max_age_days.${level}" must be a positive integer`,
+        })
+      }
+      levels[level as LogLevel] = days
+    }
+    if (Object.keys(levels).length > 0) {
+      policy.level_max_age_days = levels
+    }
+  }
+
+  if (raw.max_rows !== undefined && raw.max_rows !== null) {
+    if (!isPositiveInt(raw.max_rows)) {
+      return Err({ code: ErrorCode.VALIDATION_ERROR, message: '"max_rows" must be a positive integer' })
+    }
+    policy.max_rows = raw.max_rows
+  }
+
+  if (policy.max_age_days === undefined && !policy.level_max_age_days && policy.max_rows === undefined) {
+    return Err({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: 'Retention policy needs "max_age_days", "level_max_age_days" or "max_rows"',
+    })
+  }
+
+  return Ok(policy)
+}
+
+/**
+ * Compute the per-level timestamp cutoffs for a policy.
+ * Levels without a max age (no override and no default) are omitted.
+ */
+export function retentionCutoffs(policy: RetentionPolicy, now: number = Date.now()): Partial<Record<LogLevel, string>> {
+  const cutoffs: Partial<Record<LogLevel, string>> = {}
+  for (const level of Object.values(LogLevel)) {
+    const days = policy.level_max_age_days?.[level] ?? policy.max_age_days
+    if (days !== undefined) {
+      cutoffs[level] = new Date(now - days * DAY_MS).toISOString()
+    }
+  }
+  return cutoffs
+}
@@ -0,0 +1,141 @@
+/**
+ * Search query translation for the SQLite FTS5 index
+ */
+
+import { Ok, Err, type Result, ErrorCode } from '../result'
+
+const OPERATORS = new Set(['AND', 'OR', 'NOT'])
+const COLUMNS = new Set(['message', 'context'])
+
+/** What the expression built so far ends with */
+type Last = 'start' | 'open' | 'operator' | 'term' | 'close'
+
+/**
+ * Quote a term as an FTS5 string, doubling embedded quotes
+ */
+function quote(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`
+}
+
+/**
+ * Translate a user search string into an FTS5 MATCH expression.
+ *
+ * Supported syntax:
+ * - bare words, all required (`timeout upstream`)
+ * - quoted phrases (`"payment failed"`)
+ * - prefix terms (`pay*`)
+ * - boolean operators and grouping (`(timeout OR refused) NOT retry`)
+ * - column filters (`message:timeout`, `context:order_id`)
+ *
+ * Every word is quoted so punctuation like `@`, `/` or `-` in plain text
+ * searches can't be mistaken for FTS5 syntax. Operators must sit between
+ * terms, and an explicit AND is added next to a group since FTS5 only joins
+ * bare phrases implicitly, so the result is always a valid expression.
+ */
+export function toFtsQuery(search: string): Result<string> {
+  const parts: string[] = []
+  let terms = 0
+  let depth = 0
+  let last: Last = 'start'
+  let i = 0
+
+  while (i < search.length) {
+    const char = search[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (char === '(') {
+      if (last === 'term' || last === 'close') parts.push('AND')
+      depth++
+      parts.push(char)
+      last = 'open'
+      i++
+      continue
+    }
+
+    if (char === ')') {
+      depth--
+      if (depth < 0) {
+        return Err({ code: ErrorCode.BAD_REQUEST, message: `Unbalanced ')' at position ${i}` })
+      }
+      if (last !== 'term' && last !== 'close') {
+        return Err({ code: ErrorCode.BAD_REQUEST, message: `Expected a term before ')' at position ${i}` })
+      }
+      parts.push(char)
+      last = 'close'
+      i++
+      continue
+    }
+
+    // Quoted phrase (an unterminated quote runs to the end of the input)
+    if (char === '"') {
+      const end = search.indexOf('"', i + 1)
+      const phrase = search.slice(i + 1, end === -1 ? undefined : end)
+      i = end === -1 ? search.length : end + 1
+      if (phrase.trim()) {
+        const prefix = search[i] === '*'
+        if (prefix) i++
+        if (last === 'close') parts.push('AND')
+        parts.push(quote(phrase) + (prefix ? '*' : ''))
+        last = 'term'
+        terms++
+      }
+      continue
+    }
+
+    // Bare word: runs until whitespace, a paren or a quote
+    const start = i
+    let end = i
+    while (end < search.length && !/[\s()"]/.test(search[end])) end++
+    let word = search.slice(i, end)
+    i = end
+
+    if (OPERATORS.has(word)) {
+      if (last !== 'term' && last !== 'close') {
+        return Err({ code: ErrorCode.BAD_REQUEST, message: `Expected a term before ${word} at position ${start}` })
+      }
+      parts.push(word)
+      last = 'operator'
+      continue
+    }
+
+    let column = ''
+    const colon = word.indexOf(':')
+    if (colon > 0 && COLUMNS.has(word.slice(0, colon))) {
+      column = `${word.slice(0, colon)} : `
+      word = word.slice(colon + 1)
+      // Allow message:"a phrase"
+      if (!word && search[i] === '"') {
+        const close = search.indexOf('"', i + 1)
+        word = search.slice(i + 1, close === -1 ? undefined : close)
+        i = close === -1 ? search.length : close + 1
+      }
+    }
+
+    const prefix = word.endsWith('*')
+    const stem = prefix ? word.replace(/\*+$/, '') : word
+    if (!stem) continue
+
+    if (last === 'close') parts.push('AND')
+    parts.push(column + quote(stem) + (prefix ? '*' : ''))
+    last = 'term'
+    terms++
+  }
+
+  if (depth !== 0) {
+    return Err({ code: ErrorCode.BAD_REQUEST, message: "Unbalanced '(' in search" })
+  }
+
+  if (terms === 0) {
+    return Err({ code: ErrorCode.BAD_REQUEST, message: 'Search has no terms' })
+  }
+
+  if (last === 'operator') {
+    return Err({ code: ErrorCode.BAD_REQUEST, message: `Search ends with ${parts[parts.length - 1]}` })
+  }
+
+  return Ok(parts.join(' '))
+}
@@ -0,0 +1,138 @@
+/**
+ * Dashboard Session Service - server-side login sessions in KV
+ *
+ * The cookie holds a random session ID; KV holds the session under a hash
+ * of that ID, so reading KV doesn't reveal usable cookies.
+ */
+
+import { Ok, type Result, wrapError } from '../result'
+import type { Session } from '../types'
+
+const SESSION_PREFIX = 'session:'
+
+// Sessions end after a day without activity, and a week after login regardless
+export const SESSION_IDLE_SECONDS = 60 * 60 * 24
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7
+
+// Extend an active session at most this often, to limit KV writes
+const RENEW_INTERVAL_SECONDS = 60 * 60
+
+/**
+ * KV key for a session ID
+ */
+async function sessionKey(sessionId: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(sessionId))
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+  return `${SESSION_PREFIX}${hex}`
+}
+
+/**
+ * Store a session, letting KV drop it when it expires
+ */
+async function putSession(kv: KVNamespace, key: string, session: Session): Promise<void> {
+  // KV expirations must be at least 60 seconds out
+  const expiration = Math.max(Math.floor(Date.parse(session.expires_at) / 1000), Math.floor(Date.now() / 1000) + 60)
+  await kv.put(key, JSON.stringify(session), { expiration })
+}
+
+/**
+ * The idle expiry for a session active now, capped at its maximum age
+ */
+function nextExpiry(createdAt: string, now: number): string {
+  const idle = now + SESSION_IDLE_SECONDS * 1000
+  const max = Date.parse(createdAt) + SESSION_MAX_AGE_SECONDS * 1000
+  return new Date(Math.min(idle, max)).toISOString()
+}
+
+/**
+ * Start a session for a user (null for the admin key), returning its ID
+ * (the cookie value)
+ */
+export async function createSession(kv: KVNamespace, username: string | null): Promise<Result<{ id: string; session: Session }>> {
+  try {
+    const id = Array.from(crypto.getRandomValues(new Uint8Array(32)))
+      .map((b) => b.toString(16).padStart(2, '0'))
+      .join('')
+    const now = Date.now()
+    const createdAt = new Date(now).toISOString()
+    const session: Session = {
+      username,
+      created_at: createdAt,
+      expires_at: nextExpiry(createdAt, now),
+      renewed_at: createdAt,
+    }
+
+    await putSession(kv, await sessionKey(id), session)
+    return Ok({ id, session })
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * Look up a live session (null if unknown, revoked or expired). Sessions
+ * past their renewal interval are extended (sliding expiry).
+ */
+export async function getSession(kv: KVNamespace, sessionId: string): Promise<Result<Session | null>> {
+  try {
+    const key = await sessionKey(sessionId)
+    const data = await kv.get(key)
+    if (!data) {
+      return Ok(null)
+    }
+
+    const session = JSON.parse(data) as Session
+    const now = Date.now()
+    if (Date.parse(session.expires_at) <= now) {
+      return Ok(null)
+    }
+
+    if (now - Date.parse(session.renewed_at) >= RENEW_INTERVAL_SECONDS * 1000) {
+      const renewed: Session = {
+        ...session,
+        expires_at: nextExpiry(session.created_at, now),
+        renewed_at: new Date(now).toISOString(),
+      }
+      await putSession(kv, key, renewed)
+      return Ok(renewed)
+    }
+
+    return Ok(session)
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * End a session
+ */
+export async function deleteSession(kv: KVNamespace, sessionId: string): Promise<Result<void>> {
+  try {
+    await kv.delete(await sessionKey(sessionId))
+    return Ok(undefined)
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * End every session, returning how many were ended
+ */
+export async function deleteAllSessions(kv: KVNamespace): Promise<Result<number>> {
+  try {
+    let count = 0
+    let cursor: string | undefined
+    do {
+      const page = await kv.list({ prefix: SESSION_PREFIX, cursor })
+      await Promise.all(page.keys.map((key) => kv.delete(key.name)))
+      count += page.keys.length
+      cursor = page.list_complete ? undefined : page.cursor
+    } while (cursor)
+
+    return Ok(count)
+  } catch (e) {
+    return wrapError(e)
+  }
+}
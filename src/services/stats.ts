@@ -0,0 +1,55 @@
+/**
+ * Stats series parameters and bucket helpers
+ */
+
+import { Ok, Err, type Result, ErrorCode } from '../result'
+import { StatsGranularity } from '../types'
+
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+
+/**
+ * Bucket size, how long buckets are kept, the query parameter giving the
+ * number of buckets and its default, per granularity
+ */
+export const STATS_BUCKETS = {
+  hour: { size_ms: HOUR_MS, retention_ms: 30 * 24 * HOUR_MS, param: 'hours', default: 24 },
+  minute: { size_ms: MINUTE_MS, retention_ms: 48 * HOUR_MS, param: 'minutes', default: 60 },
+} as const
+
+const DEFAULT_DAYS = 7
+
+/**
+ * Start of the bucket containing a time, as an ISO timestamp
+ */
+export function bucketStart(time: number, granularity: 'hour' | 'minute'): string {
+  const size = STATS_BUCKETS[granularity].size_ms
+  return new Date(Math.floor(time / size) * size).toISOString()
+}
+
+/**
+ * Read granularity and the number of periods from a query string:
+ * days for day (default 7), hours for hour (default 24) and minutes for
+ * minute (default 60). Hours and minutes are capped at their retention.
+ */
+export function parseStatsQuery(params: URLSearchParams): Result<{ granularity: StatsGranularity; periods: number }> {
+  const granularity = params.get('granularity') ?? StatsGranularity.DAY
+  if (!(Object.values(StatsGranularity) as string[]).includes(granularity)) {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: `"granularity" must be one of ${Object.values(StatsGranularity).join(', ')}` })
+  }
+
+  if (granularity === StatsGranularity.DAY) {
+    const days = params.has('days') ? parseInt(params.get('days')!) : DEFAULT_DAYS
+    return Ok({ granularity, periods: days > 0 ? days : DEFAULT_DAYS })
+  }
+
+  const buckets = STATS_BUCKETS[granularity as 'hour' | 'minute']
+  const max = buckets.retention_ms / buckets.size_ms
+  const raw = params.get(buckets.param)
+  const periods = raw === null ? buckets.default : Number(raw)
+  if (!Number.isInteger(periods) || periods < 1 || periods > max) {
+    return Err({ code: ErrorCode.VALIDATION_ERROR, message: `"${buckets.param}" must be an integer from 1 to ${max}` })
+  }
+
+  return Ok({ granularity: granularity as StatsGranularity, periods })
+}
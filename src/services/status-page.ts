@@ -0,0 +1,228 @@
+/**
+ * Public status page: settings and incident note validation, target
+ * status, and assembling the page from the registry and each app's DO
+ */
+
+import { Ok, type Result, validationError } from '../result'
+import {
+  StatusNoteStatus,
+  type Env,
+  type HealthState,
+  type StatusApp,
+  type StatusLevel,
+  type StatusNote,
+  type StatusNoteInput,
+  type StatusPage,
+  type StatusPageSettings,
+  type StatusTarget,
+} from '../types'
+import * as registry from './registry'
+import { getAppDO } from '../utils'
+
+// Days of uptime bars per target
+export const STATUS_PAGE_DAYS = 90
+// Ended incidents and resolved notes stay on the page this long
+export const STATUS_RECENT_MS = 14 * 24 * 60 * 60 * 1000
+// The public pages are served from the edge cache this long
+export const STATUS_CACHE_SECONDS = 60
+const STATUS_PATHS = ['/status', '/status.json']
+
+const MAX_NAME_LENGTH = 100
+const MAX_LABEL_LENGTH = 100
+const MAX_TARGETS = 20
+const MAX_TITLE_LENGTH = 200
+const MAX_MESSAGE_LENGTH = 5000
+const NOTE_STATUSES = Object.values(StatusNoteStatus) as string[]
+
+// Worst first; unknown only counts when nothing else is known
+const SEVERITY: StatusLevel[] = ['outage', 'degraded', 'operational', 'unknown']
+
+/**
+ * Check that a value is a non-empty string of at most maxLength once trimmed
+ */
+function isText(value: unknown, maxLength: number): value is string {
+  return typeof value === 'string' && value.trim() !== '' && value.trim().length <= maxLength
+}
+
+/**
+ * Validate an untrusted PUT /apps/:app_id/status-page body ({ name?,
+ * targets: [{ url, label }] }). Each URL must be one of the app's health
+ * targets.
+ */
+export function parseStatusPageSettings(input: unknown, healthUrls: string[]): Result<StatusPageSettings> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('Status page settings must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  for (const key of Object.keys(raw)) {
+    if (!['name', 'targets'].includes(key)) return validationError(`Unknown field '${key}'`)
+  }
+
+  const name = raw.name ?? null
+  if (name !== null && !isText(name, MAX_NAME_LENGTH)) {
+    return validationError(`"name" must be a non-empty string of at most ${MAX_NAME_LENGTH} characters, or null`)
+  }
+
+  if (!Array.isArray(raw.targets) || raw.targets.length > MAX_TARGETS) {
+    return validationError(`"targets" must be an array of at most ${MAX_TARGETS} { url, label } objects`)
+  }
+
+  const targets: StatusPageSettings['targets'] = []
+  for (const target of raw.targets as unknown[]) {
+    if (!target || typeof target !== 'object' || Array.isArray(target)) {
+      return validationError('Each target must be a { url, label } object')
+    }
+    const { url, label, ...rest } = target as Record<string, unknown>
+    if (Object.keys(rest).length > 0) {
+      return validationError(`Unknown target field '${Object.keys(rest)[0]}'`)
+    }
+    if (typeof url !== 'string' || !healthUrls.includes(url)) {
+      return validationError(`Target ${JSON.stringify(url)} is not one of the app's health check URLs`)
+    }
+    if (targets.some((existing) => existing.url === url)) {
+      return validationError(`Duplicate target ${url}`)
+    }
+    if (!isText(label, MAX_LABEL_LENGTH)) {
+      return validationError(`Target labels must be non-empty strings of at most ${MAX_LABEL_LENGTH} characters`)
+    }
+    targets.push({ url, label: label.trim() })
+  }
+
+  return Ok({ name: name === null ? null : name.trim(), targets })
+}
+
+/**
+ * Validate the fields of an untrusted incident note body. With partial,
+ * only the fields present are validated and returned.
+ */
+function parseNoteFields(input: unknown, partial: boolean): Result<Partial<StatusNoteInput>> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('Incident note must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+  for (const key of Object.keys(raw)) {
+    if (!['title', 'message', 'status'].includes(key)) return validationError(`Unknown field '${key}'`)
+  }
+
+  const note: Partial<StatusNoteInput> = {}
+  if (!partial || raw.title !== undefined) {
+    if (!isText(raw.title, MAX_TITLE_LENGTH)) {
+      return validationError(`"title" must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters`)
+    }
+    note.title = raw.title.trim()
+  }
+  if (!partial || raw.message !== undefined) {
+    if (!isText(raw.message, MAX_MESSAGE_LENGTH)) {
+      return validationError(`"message" must be a non-empty string of at most ${MAX_MESSAGE_LENGTH} characters`)
+    }
+    note.message = raw.message.trim()
+  }
+  if (!partial || raw.status !== undefined) {
+    const status = raw.status ?? StatusNoteStatus.INVESTIGATING
+    if (typeof status !== 'string' || !NOTE_STATUSES.includes(status)) {
+      return validationError(`"status" must be one of ${NOTE_STATUSES.join(', ')}`)
+    }
+    note.status = status as StatusNoteStatus
+  }
+
+  return Ok(note)
+}
+
+/**
+ * Validate an untrusted incident note ({ title, message, status? }),
+ * defaulting the status to investigating
+ */
+export function parseStatusNoteInput(input: unknown): Result<StatusNoteInput> {
+  return parseNoteFields(input, false) as Result<StatusNoteInput>
+}
+
+/**
+ * Validate an untrusted incident note PATCH body. Only the fields present
+ * are returned.
+ */
+export function parseStatusNotePatch(input: unknown): Result<Partial<StatusNoteInput>> {
+  return parseNoteFields(input, true)
+}
+
+/**
+ * A target's status: an outage once it is down for alerting, degraded while
+ * checks are failing or it is flapping
+ */
+export function targetStatus(state: HealthState, flapping: boolean, failing: boolean): StatusLevel {
+  if (state === 'down') return 'outage'
+  if (failing || flapping) return 'degraded'
+  return state === 'up' ? 'operational' : 'unknown'
+}
+
+/**
+ * The worst of several statuses, ignoring unknown ones unless all are
+ */
+export function worstStatus(statuses: StatusLevel[]): StatusLevel {
+  return SEVERITY.find((level) => statuses.includes(level)) ?? 'unknown'
+}
+
+/**
+ * Edge cache key for a status page request. The query string is dropped so
+ * it can't be used to skip the cache.
+ */
+export function statusCacheKey(url: string): Request {
+  const { origin, pathname } = new URL(url)
+  return new Request(`${origin}${pathname}`)
+}
+
+/**
+ * Drop the cached status pages after their settings or notes change. This
+ * only reaches the local data center; elsewhere they expire on their own.
+ */
+export async function purgeStatusCache(url: string): Promise<void> {
+  const { origin } = new URL(url)
+  await Promise.all(STATUS_PATHS.map((path) => caches.default.delete(new Request(`${origin}${path}`))))
+}
+
+/**
+ * Build the status page: each app on it with its public targets (in the
+ * order configured, skipping any no longer checked) and incident notes.
+ * Apps whose DO can't be reached are left out.
+ */
+export async function getStatusPage(env: Env, now: number = Date.now()): Promise<Result<StatusPage>> {
+  const listed = await registry.listStatusPages(env)
+  if (!listed.ok) {
+    return listed
+  }
+
+  const apps = await Promise.all(listed.data.map(async ({ id, name, status_page }): Promise<StatusApp | null> => {
+    try {
+      const params = new URLSearchParams(status_page.targets.map((target) => ['url', target.url]))
+      const res = await getAppDO(env, id).fetch(new Request(`http://do/status?${params}`))
+      const result = await res.json() as Result<{ targets: (Omit<StatusTarget, 'label'> & { url: string })[]; notes: StatusNote[] }>
+      if (!result.ok) {
+        return null
+      }
+
+      const byUrl = new Map(result.data.targets.map(({ url, ...target }) => [url, target]))
+      const targets = status_page.targets.flatMap(({ url, label }) => {
+        const target = byUrl.get(url)
+        return target ? [{ label, ...target }] : []
+      })
+      return {
+        id,
+        name: status_page.name ?? name,
+        status: worstStatus(targets.map((target) => target.status)),
+        targets,
+        notes: result.data.notes,
+      }
+    } catch (e) {
+      console.error(`Failed to get status for ${id}:`, e)
+      return null
+    }
+  }))
+
+  const shown = apps.filter((app): app is StatusApp => app !== null)
+  return Ok({
+    status: worstStatus(shown.map((app) => app.status)),
+    updated_at: new Date(now).toISOString(),
+    apps: shown,
+  })
+}
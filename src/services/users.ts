@@ -0,0 +1,229 @@
+/**
+ * Dashboard User Service - user accounts and roles in KV
+ */
+
+import { Ok, type Result, wrapError, validationError } from '../result'
+import { UserRole, type DashboardUser, type DashboardUserInfo, type DashboardUserInput } from '../types'
+import { timingSafeEqual } from '../utils'
+
+const USERS_KEY = 'users'
+const USER_PREFIX = 'user:'
+
+// Workers caps PBKDF2 at 100,000 iterations
+const PBKDF2_ITERATIONS = 100000
+const MIN_PASSWORD_LENGTH = 12
+
+const ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.VIEWER]: 0,
+  [UserRole.OPERATOR]: 1,
+  [UserRole.ADMIN]: 2,
+}
+
+/**
+ * Hex-encode bytes
+ */
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * PBKDF2-SHA256 of a password with a hex salt
+ */
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    material,
+    256
+  )
+  return toHex(new Uint8Array(bits))
+}
+
+/**
+ * Strip the password hash from a user
+ */
+function toUserInfo(user: DashboardUser): DashboardUserInfo {
+  const { password_salt: _, password_hash: __, ...info } = user
+  return info
+}
+
+/**
+ * Check that a username is 1-64 letters, digits, dots, dashes or underscores
+ */
+export function isValidUsername(username: string): boolean {
+  return /^[a-z0-9._-]{1,64}$/i.test(username)
+}
+
+/**
+ * Whether a user with a role and app subset may act on an app at a role.
+ * Without an app, only the role is checked.
+ */
+export function canAccess(user: { role: UserRole; apps: string[] | null }, role: UserRole, appId?: string): boolean {
+  if (ROLE_RANK[user.role] < ROLE_RANK[role]) {
+    return false
+  }
+  return appId === undefined || user.apps === null || user.apps.includes(appId)
+}
+
+/**
+ * Validate an untrusted user body ({ role, apps?, password? }). A password
+ * is required when creating a user.
+ */
+export function parseUserInput(input: unknown, creating: boolean): Result<DashboardUserInput> {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return validationError('User must be an object')
+  }
+
+  const raw = input as Record<string, unknown>
+
+  if (!Object.values<unknown>(UserRole).includes(raw.role)) {
+    return validationError(`"role" must be one of ${Object.values(UserRole).join(', ')}`)
+  }
+
+  let apps: string[] | null = null
+  if (raw.apps !== undefined && raw.apps !== null) {
+    if (!Array.isArray(raw.apps) || !raw.apps.every((app) => typeof app === 'string' && app.length > 0)) {
+      return validationError('"apps" must be an array of app IDs, or null for all apps')
+    }
+    apps = [...new Set(raw.apps as string[])]
+  }
+
+  if (raw.password !== undefined || creating) {
+    if (typeof raw.password !== 'string' || raw.password.length < MIN_PASSWORD_LENGTH) {
+      return validationError(`"password" must be at least ${MIN_PASSWORD_LENGTH} characters`)
+    }
+  }
+
+  return Ok({
+    role: raw.role as UserRole,
+    apps,
+    password: raw.password as string | undefined,
+  })
+}
+
+/**
+ * List all users (without password hashes)
+ */
+export async function listUsers(kv: KVNamespace): Promise<Result<DashboardUserInfo[]>> {
+  try {
+    const data = await kv.get(USERS_KEY)
+    const usernames = data ? JSON.parse(data) as string[] : []
+    const users = await Promise.all(usernames.map((username) => kv.get(`${USER_PREFIX}${username}`)))
+    return Ok(users
+      .filter((user): user is string => user !== null)
+      .map((user) => toUserInfo(JSON.parse(user) as DashboardUser)))
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * Get a user by username (usernames are case-insensitive)
+ */
+export async function getUser(kv: KVNamespace, username: string): Promise<Result<DashboardUserInfo | null>> {
+  try {
+    const data = await kv.get(`${USER_PREFIX}${username.toLowerCase()}`)
+    return Ok(data ? toUserInfo(JSON.parse(data) as DashboardUser) : null)
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * Create a user or replace an existing user's role and apps (and password,
+ * if given). Returns the user and whether it was created.
+ */
+export async function saveUser(
+  kv: KVNamespace,
+  username: string,
+  input: DashboardUserInput
+): Promise<Result<{ user: DashboardUserInfo; created: boolean }>> {
+  try {
+    const name = username.toLowerCase()
+    const data = await kv.get(`${USER_PREFIX}${name}`)
+    const existing = data ? JSON.parse(data) as DashboardUser : null
+
+    let password: Pick<DashboardUser, 'password_salt' | 'password_hash'>
+    if (input.password !== undefined) {
+      const salt = toHex(crypto.getRandomValues(new Uint8Array(16)))
+      password = { password_salt: salt, password_hash: await hashPassword(input.password, salt) }
+    } else if (existing) {
+      password = { password_salt: existing.password_salt, password_hash: existing.password_hash }
+    } else {
+      return validationError('"password" required for a new user')
+    }
+
+    const now = new Date().toISOString()
+    const user: DashboardUser = {
+      username: name,
+      role: input.role,
+      apps: input.apps,
+      ...password,
+      created_at: existing?.created_at ?? now,
+      updated_at: now,
+    }
+    await kv.put(`${USER_PREFIX}${name}`, JSON.stringify(user))
+
+    if (!existing) {
+      const list = await kv.get(USERS_KEY)
+      const usernames = list ? JSON.parse(list) as string[] : []
+      if (!usernames.includes(name)) {
+        usernames.push(name)
+        await kv.put(USERS_KEY, JSON.stringify(usernames))
+      }
+    }
+
+    return Ok({ user: toUserInfo(user), created: !existing })
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * Delete a user. Their sessions stop working on the next request.
+ */
+export async function deleteUser(kv: KVNamespace, username: string): Promise<Result<{ deleted: boolean }>> {
+  try {
+    const name = username.toLowerCase()
+    const existing = await kv.get(`${USER_PREFIX}${name}`)
+    if (!existing) {
+      return Ok({ deleted: false })
+    }
+
+    const list = await kv.get(USERS_KEY)
+    const usernames = list ? JSON.parse(list) as string[] : []
+    await kv.put(USERS_KEY, JSON.stringify(usernames.filter((u) => u !== name)))
+    await kv.delete(`${USER_PREFIX}${name}`)
+
+    return Ok({ deleted: true })
+  } catch (e) {
+    return wrapError(e)
+  }
+}
+
+/**
+ * Check a username and password, returning the user on success (null on
+ * a wrong username or password)
+ */
+export async function verifyPassword(
+  kv: KVNamespace,
+  username: string,
+  password: string
+): Promise<Result<DashboardUserInfo | null>> {
+  try {
+    const data = await kv.get(`${USER_PREFIX}${username.toLowerCase()}`)
+    const user = data ? JSON.parse(data) as DashboardUser : null
+
+    // Hash even for unknown users so response time doesn't reveal which usernames exist
+    const hash = await hashPassword(password, user?.password_salt ?? '00')
+    if (!user || !timingSafeEqual(hash, user.password_hash)) {
+      return Ok(null)
+    }
+
+    return Ok(toUserInfo(user))
+  } catch (e) {
+    return wrapError(e)
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Outbound webhook delivery
+ */
+
+/**
+ * Outcome of a webhook delivery (status 0 means the request never completed)
+ */
+export interface WebhookDelivery {
+  status: number
+  error?: string
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000
+
+/**
+ * POST a JSON payload to a webhook URL with a timeout.
+ * Never throws - failures are reported in the returned delivery.
+ */
+export async function sendWebhook(url: string, payload: unknown): Promise<WebhookDelivery> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS)
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'worker-logs',
+      },
+      body: JSON.stringify(payload),
+      signal: controller.signal,
+    })
+    return res.ok ? { status: res.status } : { status: res.status, error: `HTTP ${res.status}` }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : 'Unknown error'
+    return { status: 0, error: message }
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Check that a string is an absolute http(s) URL
+ */
+export function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
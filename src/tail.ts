@@ -0,0 +1,177 @@
+/**
+ * Tail Worker handler for worker-logs
+ *
+ * Add worker-logs to another worker's tail_consumers and its console logs,
+ * uncaught exceptions and failed invocations are logged to the matching app
+ * without any logging calls in that worker:
+ *
+ *   // wrangler.jsonc of the producer worker
+ *   "tail_consumers": [{ "service": "worker-logs" }]
+ *
+ * Script names map to apps through the registry (see PUT /apps/:app_id/tail-scripts),
+ * falling back to an app whose ID is the script name.
+ */
+
+import type { Result } from './result'
+import { LogLevel, type Env, type LogInput } from './types'
+import * as registry from './services/registry'
+import { getAppDO, countByLevel } from './utils'
+
+/**
+ * Map a console method to a LogLevel
+ */
+function toLogLevel(level: string): LogLevel {
+  switch (level) {
+    case 'debug':
+      return LogLevel.DEBUG
+    case 'warn':
+      return LogLevel.WARN
+    case 'error':
+      return LogLevel.ERROR
+    default:
+      return LogLevel.INFO
+  }
+}
+
+/**
+ * Join console arguments into a message, JSON-encoding non-strings
+ */
+function formatMessage(message: unknown): string {
+  const parts = Array.isArray(message) ? message : [message]
+  return parts
+    .map((part) => {
+      if (typeof part === 'string') return part
+      try {
+        return JSON.stringify(part)
+      } catch {
+        return String(part)
+      }
+    })
+    .join(' ')
+}
+
+/**
+ * Context shared by every entry from one invocation: script, outcome and
+ * the triggering event (URL, method and status for fetch events)
+ */
+function eventContext(item: TraceItem): Record<string, unknown> {
+  const context: Record<string, unknown> = {
+    script: item.scriptName,
+    outcome: item.outcome,
+  }
+
+  const event = item.event
+  if (event && 'request' in event) {
+    context.url = event.request.url
+    context.method = event.request.method
+    if (event.response) context.status = event.response.status
+  } else if (event && 'cron' in event) {
+    context.cron = event.cron
+  } else if (event && 'queue' in event) {
+    context.queue = event.queue
+  }
+
+  return context
+}
+
+/**
+ * Turn a TraceItem into log entries:
+ * - each console call, at its console level
+ * - each uncaught exception as ERROR, with context.stack
+ * - one ERROR summary for failed invocations (non-ok outcome or 5xx response)
+ *   that didn't already report an exception
+ */
+export function traceItemToLogs(item: TraceItem): LogInput[] {
+  const context = eventContext(item)
+  const event = item.event
+  const requestId = event && 'request' in event ? event.request.headers['cf-ray'] : undefined
+
+  const logs: LogInput[] = item.logs.map((log) => ({
+    level: toLogLevel(log.level),
+    message: formatMessage(log.message),
+    context,
+    request_id: requestId,
+  }))
+
+  for (const exception of item.exceptions) {
+    logs.push({
+      level: LogLevel.ERROR,
+      message: `${exception.name}: ${exception.message}`,
+      context: exception.stack ? { ...context, stack: exception.stack } : context,
+      request_id: requestId,
+    })
+  }
+
+  const status = typeof context.status === 'number' ? context.status : undefined
+  const failed = item.outcome !== 'ok' || (status !== undefined && status >= 500)
+  if (failed && item.exceptions.length === 0) {
+    const target = context.url ? `: ${context.method} ${context.url}` : ''
+    logs.push({
+      level: LogLevel.ERROR,
+      message: `Invocation failed (${status ?? item.outcome})${target}`,
+      context,
+      request_id: requestId,
+    })
+  }
+
+  return logs
+}
+
+/**
+ * Tail handler: group events by app and write them through the same batch
+ * and stats path as POST /logs. Events from unmapped scripts are dropped.
+ */
+export async function handleTail(events: TraceItem[], env: Env): Promise<void> {
+  const appIds = new Map<string, string | null>()
+  const batches = new Map<string, LogInput[]>()
+
+  for (const item of events) {
+    if (!item.scriptName) continue
+
+    if (!appIds.has(item.scriptName)) {
+      const result = await registry.getAppForScript(env, item.scriptName)
+      if (!result.ok) {
+        console.error(`Tail: failed to resolve app for '${item.scriptName}': ${result.error.message}`)
+      }
+      appIds.set(item.scriptName, result.ok ? result.data : null)
+    }
+
+    const appId = appIds.get(item.scriptName)
+    if (!appId) continue
+
+    const logs = traceItemToLogs(item)
+    if (logs.length > 0) {
+      batches.set(appId, [...(batches.get(appId) ?? []), ...logs])
+    }
+  }
+
+  // One app failing doesn't stop the others' writes
+  const apps = [...batches]
+  const results = await Promise.allSettled(apps.map(async ([appId, logs]) => {
+    const stub = getAppDO(env, appId)
+    const res = await stub.fetch(new Request('http://do/logs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ logs }),
+    }))
+    const result = await res.json() as Result<unknown>
+    if (!result.ok) {
+      console.error(`Tail: failed to write ${logs.length} entries for '${appId}': ${result.error.message}`)
+      return
+    }
+
+    // Record stats in DO (atomic, no race condition)
+    await stub.fetch(new Request('http://do/stats', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ counts: countByLevel(logs) }),
+    }))
+  }))
+
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      console.error(`Tail: failed to write entries for '${apps[i][0]}': ${message}`)
+    }
+  })
+}
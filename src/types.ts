@@ -8,8 +8,15 @@
  */
 export interface Env {
   APP_LOGS_DO: DurableObjectNamespace
+  AUDIT_DO: DurableObjectNamespace
+  REGISTRY_DO: DurableObjectNamespace
+  ARCHIVE_BUCKET?: R2Bucket // Optional: where deleted apps are archived (mode=archive)
   LOGS_KV: KVNamespace
   ADMIN_API_KEY?: string
+  // Cloudflare Access (optional): team domain, application audience tag(s) and group grants
+  ACCESS_TEAM_DOMAIN?: string
+  ACCESS_AUD?: string
+  ACCESS_GROUPS?: string
   // Brand configuration (all optional, AIBTC defaults used if not set)
   BRAND_NAME?: string
   BRAND_ACCENT?: string
@@ -44,10 +51,13 @@ export interface LogEntry {
   message: string
   context?: Record<string, unknown>
   request_id?: string
+  score?: number // Search relevance (higher is better), search results only
+  snippet?: string // Matching text with <mark> highlights, search results only
+  issue_id?: string // Issue this entry was grouped into (ERROR, and WARN if enabled)
 }
 
 /**
- * Input for creating a log entry (id and timestamp generated server-side)
+ * Input for creating a log entry (id generated server-side)
  */
 export interface LogInput {
   level: LogLevel
@@ -56,6 +66,14 @@ export interface LogInput {
   request_id?: string
 }
 
+/**
+ * A log entry with the time it happened, as OTLP records carry. Other
+ * ingest paths are timestamped on arrival.
+ */
+export interface TimedLogInput extends LogInput {
+  timestamp?: string // ISO 8601; defaults to when it's written
+}
+
 /**
  * Batch log input
  */
@@ -71,14 +89,168 @@ export interface QueryFilters {
   since?: string // ISO timestamp
   until?: string // ISO timestamp
   request_id?: string
-  search?: string // Full-text search in message
+  search?: string // Full-text search in message and context ("phrase", prefix*, AND/OR/NOT)
+  q?: string // Query language: level:>=WARN context.status:>=500 since:-15m (see services/query-language)
   context?: Record<string, string> // Filter by context fields (e.g., path, status)
+  issue_id?: string // Entries grouped into an issue
+  sort?: 'timestamp' | 'relevance' // Relevance only applies with search
   limit?: number
-  offset?: number
+  offset?: number // Ignored when a cursor is given
+  cursor?: string // Opaque next_cursor from a previous page (timestamp order only)
+}
+
+/**
+ * Grouping and aggregations for GET /apps/:app_id/aggregate, alongside the
+ * usual QueryFilters.
+ * - group_by: "level", a context path ("context.path") or a time bucket ("time:5m", "time:1h", "time:1d")
+ * - aggregations: "count", or count_distinct, min, max, avg or p1-p99 of a
+ *   context path, e.g. "p95(context.duration_ms)". Defaults to ["count"].
+ */
+export interface AggregateOptions {
+  group_by?: string
+  aggregations?: string[]
+  limit?: number // Most groups returned (default 100, max 1000)
+}
+
+/**
+ * One group of an aggregate result. values is keyed by aggregation as
+ * written in the request; min/max/avg/percentiles are null when no entry
+ * in the group has a numeric value.
+ */
+export interface AggregateGroup {
+  key: string | number | null // Bucket start (ISO timestamp) when grouping by time
+  count: number
+  values: Record<string, number | null>
+}
+
+/**
+ * Aggregate result. Time buckets are oldest first; other groups are
+ * ordered by the first aggregation, largest first (by count when it is a
+ * percentile).
+ */
+export interface AggregateResult {
+  group_by: string | null
+  groups: AggregateGroup[]
+}
+
+/**
+ * One page of query results. next_cursor is null on the last page.
+ */
+export interface LogPage {
+  logs: LogEntry[]
+  next_cursor: string | null
+}
+
+/**
+ * Threshold alert rule: fires when at least `threshold` logs matching the
+ * filters arrive within `window_seconds`, at most once per cooldown
+ */
+export interface AlertRule {
+  id: string
+  name: string
+  level?: LogLevel
+  search?: string // Full-text search, same syntax as queries
+  context?: Record<string, string> // Context field equality filters
+  threshold: number
+  window_seconds: number
+  cooldown_seconds: number
+  webhook_url: string
+  enabled: boolean
+  created_at: string
+  updated_at: string
+  last_fired_at?: string
+}
+
+/**
+ * Input for creating or updating an alert rule
+ */
+export type AlertRuleInput = Omit<AlertRule, 'id' | 'created_at' | 'updated_at' | 'last_fired_at'>
+
+/**
+ * A recorded alert firing and its webhook delivery outcome
+ */
+export interface AlertFiring {
+  id: string
+  rule_id: string
+  fired_at: string
+  match_count: number
+  test: boolean
+  delivery_status?: number // HTTP status, 0 if the request failed, absent while pending
+  delivery_error?: string
 }
 
 /**
- * Health check record
+ * Issue triage status. Resolved issues reopen when they occur again;
+ * ignored issues keep counting but stay ignored.
+ */
+export const IssueStatus = {
+  OPEN: 'open',
+  RESOLVED: 'resolved',
+  IGNORED: 'ignored',
+} as const
+
+export type IssueStatus = (typeof IssueStatus)[keyof typeof IssueStatus]
+
+/**
+ * A group of log entries sharing a fingerprint
+ */
+export interface Issue {
+  id: string // Fingerprint
+  level: LogLevel
+  title: string // Normalized message
+  message: string // Most recent raw message
+  culprit?: string // Top stack frame, if the entries had context.stack
+  status: IssueStatus
+  count: number
+  first_seen: string
+  last_seen: string
+  last_log_id: string
+}
+
+/**
+ * Per-app issue grouping settings (ERROR entries are always grouped)
+ */
+export interface IssueSettings {
+  include_warn: boolean
+}
+
+/**
+ * HTTP methods a health check can use
+ */
+export const HealthMethod = {
+  GET: 'GET',
+  HEAD: 'HEAD',
+  POST: 'POST',
+} as const
+
+export type HealthMethod = (typeof HealthMethod)[keyof typeof HealthMethod]
+
+/**
+ * What a health check's response body must contain: a substring, or a
+ * value at a dot path of the JSON body (any value if equals is omitted)
+ */
+export type HealthBodyAssertion =
+  | { contains: string }
+  | { json_path: string; equals?: string | number | boolean | null }
+
+/**
+ * A URL checked by the app's DO alarm. Header values can reference Worker
+ * secrets named HEALTH_* as {{HEALTH_NAME}}, resolved when the check runs
+ * if an admin bound the secret to the app for the URL's host.
+ */
+export interface HealthTarget {
+  url: string
+  method: HealthMethod
+  headers: Record<string, string>
+  expected_status: number[] | null // null: any status below 500
+  body_assertion: HealthBodyAssertion | null
+  timeout_ms: number
+  interval_seconds: number
+}
+
+/**
+ * Health check record. ok is whether the target's expectations were met;
+ * error says why not.
  */
 export interface HealthCheck {
   id: string
@@ -86,18 +258,479 @@ export interface HealthCheck {
   status: number
   latency_ms: number
   checked_at: string
+  ok: boolean
+  error: string | null
+}
+
+/**
+ * Windows that uptime and incidents are reported over
+ */
+export type UptimeWindow = '24h' | '7d' | '30d'
+
+/**
+ * A run of consecutive failed checks of a URL. It ends at the next check
+ * that passes (ended_at null while ongoing; duration_ms runs to now).
+ */
+export interface HealthIncident {
+  id: string
+  url: string
+  started_at: string
+  ended_at: string | null
+  duration_ms: number
+  failures: number
+  error: string | null // The first failure's error
 }
 
 /**
- * App configuration stored in KV
+ * Uptime, latency and incidents of a health target. Uptime is the percent
+ * of checks that passed (null without checks); latency percentiles are over
+ * the last 24 hours' checks that got a response.
  */
-export interface AppConfig {
+export interface HealthSummary {
+  url: string
+  uptime: Record<UptimeWindow, number | null>
+  latency_ms: { p50: number | null; p95: number | null; p99: number | null }
+  incidents: Record<UptimeWindow, number>
+  recent_incidents: HealthIncident[] // Newest first
+  daily: { date: string; checks: number; failures: number; uptime: number | null }[] // Last 30 days, oldest first
+  hourly_latency: { hour: string; p50: number | null; p95: number | null }[] // Last 24 hours, oldest first
+  state: HealthState
+  flapping: boolean
+}
+
+/**
+ * Whether a URL is up or down for alerting: down after failure_threshold
+ * consecutive failed checks, up again after recovery_threshold consecutive
+ * passes. Unknown until a threshold is first reached.
+ */
+export type HealthState = 'unknown' | 'up' | 'down'
+
+/**
+ * Per-app settings for health state change alerts. A URL that changes
+ * state flap_threshold times within flap_window_seconds is flapping, and
+ * its changes are logged but not sent to the webhooks until it settles.
+ */
+export interface HealthAlertSettings {
+  failure_threshold: number
+  recovery_threshold: number
+  webhook_urls: string[]
+  flap_threshold: number
+  flap_window_seconds: number
+}
+
+/**
+ * A URL's alert state. since is when the current state's streak began
+ * (for down, the first failed check); transitions are the times of state
+ * changes within the flap window.
+ */
+export interface HealthAlertState {
+  url: string
+  state: HealthState
+  since: string | null
+  failures: number // Consecutive failed checks
+  successes: number // Consecutive passed checks
+  streak_started_at: string | null // First check of the current run of failures or passes
+  flapping: boolean
+  transitions: string[]
+}
+
+/**
+ * What a heartbeat ping reports: a run started, succeeded or failed
+ */
+export const HeartbeatStatus = {
+  START: 'start',
+  SUCCESS: 'success',
+  FAIL: 'fail',
+} as const
+
+export type HeartbeatStatus = (typeof HeartbeatStatus)[keyof typeof HeartbeatStatus]
+
+/**
+ * A heartbeat monitor's state. New until the first ping; late once a run
+ * is overdue, missing once the grace time has also passed; failed if the
+ * last run reported a failure.
+ */
+export type HeartbeatState = 'new' | 'up' | 'late' | 'missing' | 'failed'
+
+/**
+ * Name and timing of a heartbeat monitor
+ */
+export interface HeartbeatInput {
   name: string
-  health_urls: string[]
+  period_seconds: number // How often the job is expected to run
+  grace_seconds: number // How long past the period before it is missing
+}
+
+/**
+ * A dead-man's-switch monitor: the job pings POST /heartbeat/:token each
+ * run and the app's DO alarm notices when the pings stop
+ */
+export interface HeartbeatMonitor extends HeartbeatInput {
+  id: string
+  token: string
+  state: HeartbeatState
   created_at: string
+  last_ping_at: string | null
+  last_status: HeartbeatStatus | null
+  last_duration_ms: number | null
+  started_at: string | null // Start ping of a run still in progress
+  next_due_at: string // Period after the last finished run (or creation)
+}
+
+/**
+ * A ping received by a heartbeat monitor
+ */
+export interface HeartbeatPing {
+  id: string
+  monitor_id: string
+  status: HeartbeatStatus
+  received_at: string
+  duration_ms: number | null
+}
+
+/**
+ * Which of an app's health targets the public status page shows, under
+ * what names. Apps without settings aren't on the page.
+ */
+export interface StatusPageSettings {
+  name: string | null // Shown instead of the app's name
+  targets: { url: string; label: string }[] // Only labels are shown, never URLs
+}
+
+/**
+ * Progress of a manually posted incident
+ */
+export const StatusNoteStatus = {
+  INVESTIGATING: 'investigating',
+  IDENTIFIED: 'identified',
+  MONITORING: 'monitoring',
+  RESOLVED: 'resolved',
+} as const
+
+export type StatusNoteStatus = (typeof StatusNoteStatus)[keyof typeof StatusNoteStatus]
+
+/**
+ * Fields of an incident note an admin posts or edits
+ */
+export interface StatusNoteInput {
+  title: string
+  message: string
+  status: StatusNoteStatus
+}
+
+/**
+ * An incident note shown on the status page with the app's targets
+ */
+export interface StatusNote extends StatusNoteInput {
+  id: string
+  created_at: string
+  updated_at: string
+  resolved_at: string | null
+}
+
+/**
+ * Status of a target, an app or the whole status page
+ */
+export type StatusLevel = 'operational' | 'degraded' | 'outage' | 'unknown'
+
+/**
+ * A health target as shown on the status page. Incidents are ongoing or
+ * recent, without their errors.
+ */
+export interface StatusTarget {
+  label: string
+  status: StatusLevel
+  uptime: number | null // Over the 90 days
+  daily: { date: string; checks: number; uptime: number | null }[] // Last 90 days, oldest first
+  incidents: { started_at: string; ended_at: string | null; duration_ms: number }[] // Newest first
+}
+
+/**
+ * An app on the status page
+ */
+export interface StatusApp {
+  id: string
+  name: string
+  status: StatusLevel
+  targets: StatusTarget[]
+  notes: StatusNote[] // Unresolved or recently resolved, newest first
+}
+
+/**
+ * The public status page (GET /status.json)
+ */
+export interface StatusPage {
+  status: StatusLevel
+  updated_at: string
+  apps: StatusApp[]
+}
+
+/**
+ * Permissions an API key can be granted
+ */
+export const ApiKeyScope = {
+  LOGS_WRITE: 'logs:write',
+  LOGS_READ: 'logs:read',
+  ADMIN_PRUNE: 'admin:prune',
+  HEALTH_WRITE: 'health:write',
+} as const
+
+export type ApiKeyScope = (typeof ApiKeyScope)[keyof typeof ApiKeyScope]
+
+/**
+ * An API key as stored in the app config. Only a salted hash of the secret
+ * is kept, plus its first characters so people can tell keys apart.
+ */
+export interface ApiKey {
+  id: string
+  label: string
+  prefix: string
+  salt: string
+  hash: string
+  key?: string // Plaintext secret on records written before hashing, until they are migrated
+  scopes: ApiKeyScope[]
+  created_at: string
+  expires_at: string | null // Null means the key never expires
+}
+
+/**
+ * An API key as returned by the API: no secret or hash, plus when it was last used
+ */
+export interface ApiKeyInfo extends Omit<ApiKey, 'key' | 'salt' | 'hash'> {
+  last_used_at: string | null
+}
+
+/**
+ * A newly created or rotated API key. The secret is only returned here.
+ */
+export interface CreatedApiKey extends ApiKeyInfo {
   api_key: string
 }
 
+/**
+ * Validated body for creating an API key
+ */
+export interface ApiKeyInput {
+  label: string
+  scopes: ApiKeyScope[]
+  expires_at: string | null
+}
+
+/**
+ * Deployment environments an app can be tagged with
+ */
+export const AppEnvironment = {
+  PROD: 'prod',
+  STAGING: 'staging',
+  DEV: 'dev',
+} as const
+
+export type AppEnvironment = (typeof AppEnvironment)[keyof typeof AppEnvironment]
+
+/**
+ * Descriptive details of an app, for finding and grouping apps.
+ * Null (or no tags) when not set.
+ */
+export interface AppMetadata {
+  owner: string | null
+  team: string | null
+  environment: AppEnvironment | null
+  tags: string[]
+  description: string | null
+  repository_url: string | null
+  runbook_url: string | null
+}
+
+/**
+ * Validated body of PATCH /apps/:app_id: the fields to change
+ */
+export type AppPatch = Partial<AppMetadata> & { name?: string }
+
+/**
+ * Filters for listing apps (all must match)
+ */
+export interface AppFilters {
+  team?: string
+  environment?: AppEnvironment
+  tag?: string
+}
+
+/**
+ * An app in a listing: its ID, name and metadata
+ */
+export interface AppListing extends AppMetadata {
+  id: string
+  name: string
+}
+
+/**
+ * App configuration, as held by the RegistryDO and cached in KV.
+ * Metadata is missing from configs written before it existed.
+ */
+export interface AppConfig extends Partial<AppMetadata> {
+  name: string
+  health_urls: string[]
+  created_at: string
+  api_key?: string // Legacy single key with every scope, replaced by api_keys on the first key change
+  api_keys?: ApiKey[]
+  tail_scripts?: string[] // Worker script names whose Tail Worker events belong to this app
+  status_page?: StatusPageSettings // Set if the app is on the public status page
+  health_secrets?: Record<string, string> // HEALTH_* secret name to the host its health checks may send it to
+}
+
+/**
+ * What happens to a deleted app's logs, health checks and stats
+ * - purge: wiped
+ * - archive: exported to the ARCHIVE_BUCKET R2 bucket, then wiped
+ */
+export const DeleteMode = {
+  PURGE: 'purge',
+  ARCHIVE: 'archive',
+} as const
+
+export type DeleteMode = (typeof DeleteMode)[keyof typeof DeleteMode]
+
+/**
+ * A deleted app. Its data is kept until purge_at, and the app can be
+ * restored until then.
+ */
+export interface AppDeletion {
+  app_id: string
+  name: string
+  mode: DeleteMode
+  deleted_at: string
+  purge_at: string
+  purged: boolean // Data wiped and registration removed; the app can no longer be restored
+  archive: string | null // R2 key prefix of the export, once an archived app is purged
+}
+
+/**
+ * Contents of an app archive (manifest.json under its prefix). Each table is
+ * exported as NDJSON files of up to 10,000 rows.
+ */
+export interface ArchiveManifest {
+  prefix: string
+  archived_at: string
+  app: unknown // Registry details of the app (no key secrets)
+  tables: Record<string, { rows: number; files: string[] }>
+}
+
+/**
+ * Dashboard user roles, each including the ones before it
+ * - viewer: read logs, stats, health and issues
+ * - operator: also triage issues, prune logs and edit health URLs
+ * - admin: also manage apps, keys and sessions
+ */
+export const UserRole = {
+  VIEWER: 'viewer',
+  OPERATOR: 'operator',
+  ADMIN: 'admin',
+} as const
+
+export type UserRole = (typeof UserRole)[keyof typeof UserRole]
+
+/**
+ * Dashboard user account stored in KV
+ */
+export interface DashboardUser {
+  username: string
+  role: UserRole
+  apps: string[] | null // Apps the user may see; null means all apps
+  password_salt: string
+  password_hash: string // PBKDF2-SHA256
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A dashboard user as returned by the API (no password hash)
+ */
+export type DashboardUserInfo = Omit<DashboardUser, 'password_salt' | 'password_hash'>
+
+/**
+ * Validated body for creating or updating a dashboard user
+ */
+export interface DashboardUserInput {
+  role: UserRole
+  apps: string[] | null
+  password?: string // Required when creating; keeps the current password if omitted on update
+}
+
+/**
+ * Dashboard login session stored in KV
+ */
+export interface Session {
+  username: string | null // Null for sessions started with the admin key
+  created_at: string
+  expires_at: string // Pushed back on activity, up to SESSION_MAX_AGE after created_at
+  renewed_at: string
+}
+
+/**
+ * Who performed an audited action
+ */
+export const AuditActorType = {
+  ADMIN_KEY: 'admin_key', // X-Admin-Key, or a dashboard session started with it
+  API_KEY: 'api_key', // An app API key (id is the key id)
+  USER: 'user', // A dashboard user (id is the username, or the Cloudflare Access email)
+  ACCESS: 'access', // A Cloudflare Access admin calling the API (id is the email)
+  ANONYMOUS: 'anonymous', // Unauthenticated, e.g. a failed login (id is the username tried)
+} as const
+
+export type AuditActorType = (typeof AuditActorType)[keyof typeof AuditActorType]
+
+export interface AuditActor {
+  type: AuditActorType
+  id: string | null
+}
+
+/**
+ * Request an audited action came from
+ */
+export interface AuditRequestMeta {
+  method: string
+  path: string
+  ip: string | null
+  user_agent: string | null
+  ray_id: string | null
+}
+
+/**
+ * An audit log entry. before/after hold only the fields the action changed.
+ */
+export interface AuditEntry {
+  id: string
+  timestamp: string
+  actor: AuditActor
+  action: string // e.g. app.register, app.prune, key.rotate, dashboard.login
+  app_id: string | null
+  request: AuditRequestMeta
+  before: unknown
+  after: unknown
+}
+
+/**
+ * Filters for GET /audit
+ */
+export interface AuditQuery {
+  app_id?: string
+  action?: string // Exact action, or a prefix ending in '.' (e.g. "key.")
+  actor_type?: AuditActorType
+  actor_id?: string
+  since?: string
+  until?: string
+  limit?: number
+  cursor?: string
+}
+
+/**
+ * A page of audit entries, newest first
+ */
+export interface AuditPage {
+  entries: AuditEntry[]
+  next_cursor: string | null
+}
+
 /**
  * Daily stats stored in KV
  */
@@ -109,6 +742,29 @@ export interface DailyStats {
   error: number
 }
 
+/**
+ * Resolution of a stats series. Daily stats are kept indefinitely; hourly
+ * and minute buckets only for their retention window.
+ */
+export const StatsGranularity = {
+  DAY: 'day',
+  HOUR: 'hour',
+  MINUTE: 'minute',
+} as const
+
+export type StatsGranularity = (typeof StatsGranularity)[keyof typeof StatsGranularity]
+
+/**
+ * Log counts by level for one hour or minute, starting at bucket (ISO timestamp)
+ */
+export interface StatsBucket {
+  bucket: string
+  debug: number
+  info: number
+  warn: number
+  error: number
+}
+
 /**
  * Prune request
  */
@@ -122,3 +778,28 @@ export interface PruneRequest {
 export interface PruneResult {
   deleted: number
 }
+
+/**
+ * Per-app retention policy enforced by the DO alarm
+ */
+export interface RetentionPolicy {
+  max_age_days?: number // Default max age for all levels
+  level_max_age_days?: Partial<Record<LogLevel, number>> // Per-level overrides (e.g., DEBUG: 3)
+  max_rows?: number // Keep at most this many logs (oldest deleted first)
+}
+
+/**
+ * Result of a retention enforcement run
+ */
+export interface RetentionRun {
+  ran_at: string
+  deleted: number
+}
+
+/**
+ * Retention policy with the outcome of its most recent run
+ */
+export interface RetentionStatus {
+  policy: RetentionPolicy | null
+  last_run: RetentionRun | null
+}
@@ -22,3 +22,32 @@ export function countByLevel(logs: { level: string }[]): { level: string; count:
   }
   return Array.from(counts.entries()).map(([level, count]) => ({ level, count }))
 }
+
+/**
+ * Compare two secrets in constant time. Unequal lengths still do a full
+ * comparison so the length isn't leaked through timing either.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder()
+  const aBytes = encoder.encode(a)
+  const bBytes = encoder.encode(b)
+  if (aBytes.byteLength !== bBytes.byteLength) {
+    crypto.subtle.timingSafeEqual(aBytes, aBytes)
+    return false
+  }
+  return crypto.subtle.timingSafeEqual(aBytes, bBytes)
+}
+
+/**
+ * Check that a value is an integer within bounds
+ */
+export function isIntBetween(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+}
+
+/**
+ * Check that a value is a positive integer
+ */
+export function isPositiveInt(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+}
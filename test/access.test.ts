@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { env, fetchMock, SELF } from 'cloudflare:test'
+import { accessGrant, parseAccessGroups, verifyAccessJwt, type AccessConfig } from '../src/services/access'
+import { UserRole } from '../src/types'
+
+const ISSUER = 'https://test-team.cloudflareaccess.com'
+const KID = 'test-key'
+
+let keyPair: CryptoKeyPair
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Sign a JWT like Cloudflare Access does, with claims overriding the defaults
+ */
+async function signJwt(claims: Record<string, unknown> = {}, key: CryptoKey = keyPair.privateKey, kid: string = KID): Promise<string> {
+  const now = Math.floor(Date.now() / 1000)
+  const encode = (value: object) => base64Url(new TextEncoder().encode(JSON.stringify(value)))
+  const header = encode({ alg: 'RS256', kid, typ: 'JWT' })
+  const payload = encode({ iss: ISSUER, aud: ['test-aud'], email: 'Ops@Example.com', iat: now, exp: now + 3600, ...claims })
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${header}.${payload}`))
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`
+}
+
+function generateKeyPair(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(
+    { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+    true,
+    ['sign', 'verify']
+  ) as Promise<CryptoKeyPair>
+}
+
+beforeAll(async () => {
+  keyPair = await generateKeyPair()
+  const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey) as JsonWebKey
+  fetchMock.activate()
+  fetchMock.disableNetConnect()
+  fetchMock.get(ISSUER)
+    .intercept({ path: '/cdn-cgi/access/certs', method: 'GET' })
+    .reply(200, JSON.stringify({ keys: [{ ...jwk, kid: KID, alg: 'RS256', use: 'sig' }] }), { headers: { 'Content-Type': 'application/json' } })
+    .persist()
+})
+
+afterAll(() => {
+  fetchMock.deactivate()
+})
+
+describe('Cloudflare Access', () => {
+  const config: AccessConfig = {
+    issuer: ISSUER,
+    audiences: ['test-aud'],
+    groups: {
+      admins: { role: UserRole.ADMIN, apps: null },
+      'app-a': { role: UserRole.VIEWER, apps: ['app-a'] },
+      'app-b-ops': { role: UserRole.OPERATOR, apps: ['app-b'] },
+    },
+  }
+
+  describe('verifyAccessJwt', () => {
+    it('returns the email and groups of a valid token', async () => {
+      const token = await signJwt({ groups: ['admins', { id: 'g-1', name: 'app-a' }] })
+      const result = await verifyAccessJwt(token, config)
+      expect(result).toEqual({ ok: true, data: { email: 'ops@example.com', groups: ['admins', 'app-a', 'g-1'] } })
+    })
+
+    it('reads groups from custom OIDC claims', async () => {
+      const result = await verifyAccessJwt(await signJwt({ custom: { groups: ['app-a'] } }), config)
+      expect(result.ok && result.data?.groups).toEqual(['app-a'])
+    })
+
+    it('rejects a token signed with another key', async () => {
+      const other = await generateKeyPair()
+      const result = await verifyAccessJwt(await signJwt({}, other.privateKey), config)
+      expect(result).toEqual({ ok: true, data: null })
+    })
+
+    it('rejects a tampered payload', async () => {
+      const [header, , signature] = (await signJwt()).split('.')
+      const payload = base64Url(new TextEncoder().encode(JSON.stringify({ iss: ISSUER, aud: 'test-aud', email: 'evil@example.com', exp: 9999999999 })))
+      const result = await verifyAccessJwt(`${header}.${payload}.${signature}`, config)
+      expect(result).toEqual({ ok: true, data: null })
+    })
+
+    it('rejects the wrong audience, issuer or an expired token', async () => {
+      const now = Math.floor(Date.now() / 1000)
+      for (const claims of [{ aud: 'other-app' }, { iss: 'https://other.cloudflareaccess.com' }, { exp: now - 3600 }, { email: undefined }]) {
+        const result = await verifyAccessJwt(await signJwt(claims), config)
+        expect(result).toEqual({ ok: true, data: null })
+      }
+    })
+
+    it('rejects malformed tokens and unknown keys', async () => {
+      expect(await verifyAccessJwt('not-a-jwt', config)).toEqual({ ok: true, data: null })
+      expect(await verifyAccessJwt(await signJwt({}, keyPair.privateKey, 'unknown-key'), config)).toEqual({ ok: true, data: null })
+    })
+
+    it('waits a minute before fetching keys again after a failure', async () => {
+      const issuer = 'https://down-team.cloudflareaccess.com'
+      fetchMock.get(issuer).intercept({ path: '/cdn-cgi/access/certs', method: 'GET' }).reply(503, 'unavailable')
+      const token = await signJwt({ iss: issuer })
+
+      const failed = await verifyAccessJwt(token, { ...config, issuer })
+      expect(failed.ok).toBe(false)
+      // No second interceptor: a fetch here would fail with a network error
+      expect(await verifyAccessJwt(token, { ...config, issuer })).toEqual({ ok: true, data: null })
+    })
+
+    it('keeps using stale keys while the certs endpoint is down', async () => {
+      const issuer = 'https://flaky-team.cloudflareaccess.com'
+      const jwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey) as JsonWebKey
+      const origin = fetchMock.get(issuer)
+      origin.intercept({ path: '/cdn-cgi/access/certs', method: 'GET' })
+        .reply(200, JSON.stringify({ keys: [{ ...jwk, kid: KID }] }), { headers: { 'Content-Type': 'application/json' } })
+      expect((await verifyAccessJwt(await signJwt({ iss: issuer }), { ...config, issuer })).ok).toBe(true)
+
+      vi.useFakeTimers({ toFake: ['Date'] })
+      try {
+        vi.setSystemTime(Date.now() + 11 * 60 * 1000)
+        origin.intercept({ path: '/cdn-cgi/access/certs', method: 'GET' }).reply(503, 'unavailable')
+        const result = await verifyAccessJwt(await signJwt({ iss: issuer }), { ...config, issuer })
+        expect(result.ok && result.data?.email).toBe('ops@example.com')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('accessGrant', () => {
+    it('combines mapped groups into the highest role over their apps', () => {
+      expect(accessGrant({ email: 'a@example.com', groups: ['app-a', 'app-b-ops'] }, config))
+        .toEqual({ role: UserRole.OPERATOR, apps: ['app-a', 'app-b'] })
+      expect(accessGrant({ email: 'a@example.com', groups: ['app-a', 'admins'] }, config))
+        .toEqual({ role: UserRole.ADMIN, apps: null })
+    })
+
+    it('grants nothing without a mapped group', () => {
+      expect(accessGrant({ email: 'a@example.com', groups: ['unmapped'] }, config)).toBeNull()
+    })
+  })
+
+  describe('parseAccessGroups', () => {
+    it('parses group grants', () => {
+      const result = parseAccessGroups(JSON.stringify({ ops: { role: 'operator', apps: ['x'] } }))
+      expect(result).toEqual({ ok: true, data: { ops: { role: UserRole.OPERATOR, apps: ['x'] } } })
+    })
+
+    it('rejects invalid JSON and unknown roles', () => {
+      expect(parseAccessGroups('{').ok).toBe(false)
+      expect(parseAccessGroups(JSON.stringify({ ops: { role: 'owner' } })).ok).toBe(false)
+    })
+  })
+
+  describe('HTTP auth', () => {
+    const APP_A = 'access-test-app-a'
+
+    beforeAll(async () => {
+      await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ app_id: APP_A, name: 'Access Test App' }),
+      })
+    })
+
+    async function fetchAs(path: string, claims: Record<string, unknown>, method = 'GET') {
+      return SELF.fetch(`https://example.com${path}`, {
+        method,
+        headers: { 'Cf-Access-Jwt-Assertion': await signJwt(claims) },
+        redirect: 'manual',
+      })
+    }
+
+    it('admin groups stand in for the admin key', async () => {
+      const response = await fetchAs('/apps', { groups: ['logs-admins'] })
+      expect(response.status).toBe(200)
+
+      const stats = await fetchAs(`/stats/${APP_A}`, { groups: ['logs-admins'] })
+      expect(stats.status).toBe(200)
+    })
+
+    it('other identities cannot use admin routes', async () => {
+      expect((await fetchAs('/apps', { groups: ['app-a-viewers'] })).status).toBe(403)
+      expect((await fetchAs('/apps', { groups: [] })).status).toBe(403)
+
+      const forged = await SELF.fetch('https://example.com/apps', {
+        headers: { 'Cf-Access-Jwt-Assertion': (await signJwt({ groups: ['logs-admins'] })).slice(0, -4) + 'AAAA' },
+      })
+      expect(forged.status).toBe(401)
+    })
+
+    it('signs into the dashboard with the email and group apps', async () => {
+      const apps = await fetchAs('/dashboard/api/apps', { groups: ['app-a-viewers'] })
+      expect(apps.status).toBe(200)
+      expect(((await apps.json()) as { data: string[] }).data).toEqual([APP_A])
+
+      expect((await fetchAs('/dashboard/api/logs/other-app', { groups: ['app-a-viewers'] })).status).toBe(403)
+
+      const page = await fetchAs('/dashboard', { groups: ['app-a-viewers'] })
+      expect(await page.text()).toContain('ops@example.com')
+    })
+
+    it('falls back to the login page without a mapped group', async () => {
+      expect((await fetchAs('/dashboard/api/apps', { groups: ['unmapped'] })).status).toBe(401)
+    })
+
+    it('logout also ends the Access session', async () => {
+      const response = await fetchAs('/dashboard/logout', { groups: ['app-a-viewers'] }, 'POST')
+      expect(response.status).toBe(302)
+      expect(response.headers.get('Location')).toBe('/cdn-cgi/access/logout')
+    })
+  })
+})
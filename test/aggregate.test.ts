@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { parseAggregateOptions, parseAggregation, parseGroupBy } from '../src/services/aggregate'
+
+describe('Aggregate', () => {
+  describe('parseGroupBy', () => {
+    it('accepts level, context paths and time buckets', () => {
+      expect(parseGroupBy('level')).toEqual({ ok: true, data: { type: 'level' } })
+      expect(parseGroupBy('context.user.id')).toEqual({ ok: true, data: { type: 'context', path: 'user.id' } })
+      expect(parseGroupBy('time:5m')).toEqual({ ok: true, data: { type: 'time', seconds: 300 } })
+      expect(parseGroupBy('time:1d')).toEqual({ ok: true, data: { type: 'time', seconds: 86400 } })
+    })
+
+    it('rejects anything else', () => {
+      expect(parseGroupBy('message').ok).toBe(false)
+      expect(parseGroupBy('time:0h').ok).toBe(false)
+      expect(parseGroupBy("context.a'b").ok).toBe(false)
+    })
+  })
+
+  describe('parseAggregation', () => {
+    it('parses functions of context fields', () => {
+      expect(parseAggregation('count')).toEqual({ ok: true, data: { name: 'count', fn: 'count', path: null } })
+      expect(parseAggregation('p95(context.duration_ms)')).toEqual({
+        ok: true,
+        data: { name: 'p95(context.duration_ms)', fn: 'percentile', path: 'duration_ms', percentile: 95 },
+      })
+      expect(parseAggregation('count_distinct(context.user)').ok).toBe(true)
+    })
+
+    it('rejects unknown functions, missing fields and p0', () => {
+      expect(parseAggregation('sum(context.bytes)').ok).toBe(false)
+      expect(parseAggregation('avg(duration_ms)').ok).toBe(false)
+      expect(parseAggregation('p0(context.duration_ms)').ok).toBe(false)
+    })
+  })
+
+  describe('parseAggregateOptions', () => {
+    it('defaults to counting everything', () => {
+      const result = parseAggregateOptions({})
+      expect(result.ok && result.data).toEqual({
+        group_by: null,
+        group_by_name: null,
+        aggregations: [{ name: 'count', fn: 'count', path: null }],
+        limit: 100,
+      })
+    })
+
+    it('bounds the group limit', () => {
+      expect(parseAggregateOptions({ limit: 0 }).ok).toBe(false)
+      expect(parseAggregateOptions({ limit: 5000 }).ok).toBe(false)
+    })
+  })
+})
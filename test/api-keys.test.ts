@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { apiKeysOf, isExpired, parseApiKeyInput, parseGraceSeconds, hashApiKey, matchesApiKey, migrateApiKey, ALL_SCOPES } from '../src/services/api-keys'
+import { timingSafeEqual } from '../src/utils'
+
+describe('API keys', () => {
+  describe('apiKeysOf', () => {
+    it('reads a legacy single key as a key with every scope', () => {
+      const keys = apiKeysOf({ name: 'Legacy', health_urls: [], created_at: '2024-01-01T00:00:00.000Z', api_key: 'legacy-secret' })
+      expect(keys).toEqual([{
+        id: 'default',
+        label: 'Default',
+        prefix: 'legacy-s',
+        salt: '',
+        hash: '',
+        key: 'legacy-secret',
+        scopes: ALL_SCOPES,
+        created_at: '2024-01-01T00:00:00.000Z',
+        expires_at: null,
+      }])
+    })
+
+    it('prefers the key list', () => {
+      const keys = apiKeysOf({ name: 'App', health_urls: [], created_at: '2024-01-01T00:00:00.000Z', api_key: 'old', api_keys: [] })
+      expect(keys).toEqual([])
+    })
+  })
+
+  describe('isExpired', () => {
+    it('treats a null expiry as never expiring', () => {
+      const key = { id: 'k', label: 'k', prefix: 'p', salt: 's', hash: 'h', scopes: ALL_SCOPES, created_at: '', expires_at: null }
+      expect(isExpired(key)).toBe(false)
+      expect(isExpired({ ...key, expires_at: '2024-01-01T00:00:00.000Z' })).toBe(true)
+    })
+  })
+
+  describe('hashing', () => {
+    const base = { id: 'k', label: 'k', scopes: ALL_SCOPES, created_at: '', expires_at: null }
+
+    it('stores a salted hash and a visible prefix', async () => {
+      const secret = 'a1b2c3d4e5f60718293a4b5c6d7e8f901a2b3c4d5e6f7081'
+      const first = await hashApiKey(secret)
+      const second = await hashApiKey(secret)
+
+      expect(first.prefix).toBe('a1b2c3d4')
+      expect(first.hash).not.toContain(secret)
+      expect(first.hash).not.toBe(second.hash)
+      expect(await matchesApiKey({ ...base, ...first }, secret)).toBe(true)
+      expect(await matchesApiKey({ ...base, ...first }, secret.slice(0, -1) + '0')).toBe(false)
+    })
+
+    it('migrates plaintext records', async () => {
+      const migrated = await migrateApiKey({ ...base, prefix: 'plaintex', salt: '', hash: '', key: 'plaintext-secret' })
+      expect(migrated.key).toBeUndefined()
+      expect(migrated.hash).toHaveLength(64)
+      expect(await matchesApiKey(migrated, 'plaintext-secret')).toBe(true)
+    })
+
+    it('compares strings of any length', () => {
+      expect(timingSafeEqual('secret', 'secret')).toBe(true)
+      expect(timingSafeEqual('secret', 'secreT')).toBe(false)
+      expect(timingSafeEqual('secret', 'secret-longer')).toBe(false)
+    })
+  })
+
+  describe('parseApiKeyInput', () => {
+    it('accepts known scopes and normalizes the expiry', () => {
+      const result = parseApiKeyInput({ label: ' CI ', scopes: ['logs:write', 'logs:write'], expires_at: '2999-01-01T00:00:00Z' })
+      expect(result).toEqual({
+        ok: true,
+        data: { label: 'CI', scopes: ['logs:write'], expires_at: '2999-01-01T00:00:00.000Z' },
+      })
+    })
+
+    it('rejects unknown scopes, missing labels and past expiries', () => {
+      expect(parseApiKeyInput({ label: 'x', scopes: ['logs:delete'] }).ok).toBe(false)
+      expect(parseApiKeyInput({ label: 'x', scopes: [] }).ok).toBe(false)
+      expect(parseApiKeyInput({ scopes: ['logs:read'] }).ok).toBe(false)
+      expect(parseApiKeyInput({ label: 'x', scopes: ['logs:read'], expires_at: '2000-01-01T00:00:00Z' }).ok).toBe(false)
+    })
+  })
+
+  describe('parseGraceSeconds', () => {
+    it('defaults to a day and rejects negative values', () => {
+      expect(parseGraceSeconds({})).toEqual({ ok: true, data: 86400 })
+      expect(parseGraceSeconds({ grace_seconds: 0 })).toEqual({ ok: true, data: 0 })
+      expect(parseGraceSeconds({ grace_seconds: -1 }).ok).toBe(false)
+    })
+  })
+})
@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest'
-import { env } from 'cloudflare:test'
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import { env, fetchMock, runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test'
 
 describe('AppLogsDO', () => {
   function getStub(appId: string) {
@@ -59,6 +59,30 @@ describe('AppLogsDO', () => {
       expect(new Set(ids).size).toBe(3)
     })
 
+    it('keeps given timestamps only when asked, replacing invalid and future ones with the write time', async () => {
+      const stub = getStub('test-batch-timestamps')
+      const logs = [
+        { level: 'INFO', message: 'Queued', timestamp: '2024-06-01T14:00:00+02:00' },
+        { level: 'INFO', message: 'Garbled', timestamp: 'yesterday' },
+        { level: 'INFO', message: 'Ahead', timestamp: new Date(Date.now() + 365 * 86400 * 1000).toISOString() },
+      ]
+      const write = async (path: string) => {
+        const response = await stub.fetch(new Request(`http://do${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ logs }),
+        }))
+        return ((await response.json()) as { data: Array<{ timestamp: string }> }).data.map((entry) => entry.timestamp)
+      }
+      const isRecent = (timestamp: string) => Math.abs(Date.now() - Date.parse(timestamp)) < 60 * 1000
+
+      const kept = await write('/logs?keep_timestamps=true')
+      expect(kept[0]).toBe('2024-06-01T12:00:00.000Z')
+      expect(isRecent(kept[1]) && isRecent(kept[2])).toBe(true)
+
+      expect((await write('/logs')).every(isRecent)).toBe(true)
+    })
+
     it('queries logs with filters', async () => {
       const stub = getStub('test-query-logs')
 
@@ -100,6 +124,52 @@ describe('AppLogsDO', () => {
       const limitData = (await limitResponse.json()) as { data: Array<{ id: string }> }
       expect(limitData.data).toHaveLength(2)
     })
+
+    it('pages with cursors unaffected by new writes', async () => {
+      const stub = getStub('test-cursor-logs')
+      type Page = { ok: boolean; data: Array<{ id: string; message: string }>; next_cursor: string | null }
+
+      await stub.fetch(new Request('http://do/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          logs: [1, 2, 3, 4, 5].map((n) => ({ level: 'INFO', message: `Log ${n}` })),
+        }),
+      }))
+
+      const firstResponse = await stub.fetch(new Request('http://do/logs?limit=2', { method: 'GET' }))
+      const first = (await firstResponse.json()) as Page
+      expect(first.data).toHaveLength(2)
+      expect(first.next_cursor).toEqual(expect.any(String))
+
+      // A write between pages must not shift the next page
+      await stub.fetch(new Request('http://do/log', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ level: 'INFO', message: 'Late arrival' }),
+      }))
+
+      const seen = first.data.map((e) => e.id)
+      let cursor = first.next_cursor
+      while (cursor) {
+        const response = await stub.fetch(new Request(`http://do/logs?limit=2&cursor=${cursor}`, { method: 'GET' }))
+        const page = (await response.json()) as Page
+        seen.push(...page.data.map((e) => e.id))
+        cursor = page.next_cursor
+      }
+
+      expect(seen).toHaveLength(5)
+      expect(new Set(seen).size).toBe(5)
+    })
+
+    it('rejects an invalid cursor', async () => {
+      const stub = getStub('test-cursor-logs')
+
+      const response = await stub.fetch(new Request('http://do/logs?cursor=not-a-cursor', { method: 'GET' }))
+      const data = (await response.json()) as { ok: boolean; error: { code: string } }
+      expect(data.ok).toBe(false)
+      expect(data.error.code).toBe('BAD_REQUEST')
+    })
   })
 
   describe('Stats operations', () => {
@@ -171,6 +241,104 @@ describe('AppLogsDO', () => {
     })
   })
 
+  describe('Stats buckets', () => {
+    it('counts logs per hour and per minute', async () => {
+      const stub = getStub('test-stats-buckets')
+
+      await stub.fetch(new Request('http://do/stats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ counts: [{ level: 'WARN', count: 3 }, { level: 'ERROR', count: 1 }] }),
+      }))
+      await stub.fetch(new Request('http://do/stats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ level: 'ERROR' }),
+      }))
+
+      type Buckets = { ok: boolean; data: Array<{ bucket: string; warn: number; error: number }> }
+      const hourly = (await (await stub.fetch(new Request('http://do/stats?granularity=hour&hours=3'))).json()) as Buckets
+      expect(hourly.data).toHaveLength(3)
+      expect(Date.parse(hourly.data[0].bucket) - Date.parse(hourly.data[1].bucket)).toBe(60 * 60 * 1000)
+      expect(hourly.data.reduce((sum, b) => sum + b.error, 0)).toBe(2)
+      expect(hourly.data.reduce((sum, b) => sum + b.warn, 0)).toBe(3)
+
+      const minutes = (await (await stub.fetch(new Request('http://do/stats?granularity=minute&minutes=5'))).json()) as Buckets
+      expect(minutes.data).toHaveLength(5)
+      expect(minutes.data[0].bucket.endsWith(':00.000Z')).toBe(true)
+      expect(minutes.data.reduce((sum, b) => sum + b.error, 0)).toBe(2)
+    })
+
+    it('rejects an unknown granularity or a range past retention', async () => {
+      const stub = getStub('test-stats-buckets')
+      expect((await stub.fetch(new Request('http://do/stats?granularity=week'))).status).toBe(400)
+      expect((await stub.fetch(new Request('http://do/stats?granularity=minute&minutes=10000'))).status).toBe(400)
+    })
+  })
+
+  describe('Aggregation', () => {
+    type Aggregate = { ok: boolean; data: { group_by: string | null; groups: Array<{ key: string | null; count: number; values: Record<string, number | null> }> } }
+
+    beforeAll(async () => {
+      const stub = getStub('test-aggregate')
+      const logs = [
+        ...[10, 20, 30, 40, 50].map((duration_ms) => ({ level: 'INFO', message: 'GET /users', context: { route: '/users', duration_ms } })),
+        ...[100, 300].map((duration_ms) => ({ level: 'ERROR', message: 'GET /orders failed', context: { route: '/orders', duration_ms, user: 'a' } })),
+        { level: 'ERROR', message: 'GET /orders failed', context: { route: '/orders', duration_ms: 'slow', user: 'b' } },
+      ]
+      await stub.fetch(new Request('http://do/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ logs }),
+      }))
+    })
+
+    async function aggregate(query: string): Promise<Aggregate> {
+      const response = await getStub('test-aggregate').fetch(new Request(`http://do/aggregate?${query}`))
+      expect(response.status).toBe(200)
+      return (await response.json()) as Aggregate
+    }
+
+    it('counts by a context field, largest group first', async () => {
+      const result = await aggregate('group_by=context.route&level=ERROR&agg=count&agg=count_distinct(context.user)')
+      expect(result.data.group_by).toBe('context.route')
+      expect(result.data.groups).toEqual([
+        { key: '/orders', count: 3, values: { 'count': 3, 'count_distinct(context.user)': 2 } },
+      ])
+    })
+
+    it('computes numeric aggregations and percentiles per group, skipping non-numbers', async () => {
+      const result = await aggregate('group_by=context.route&agg=p50(context.duration_ms)&agg=max(context.duration_ms)&agg=avg(context.duration_ms)')
+      const byRoute = Object.fromEntries(result.data.groups.map((group) => [group.key, group.values]))
+      expect(byRoute['/users']).toEqual({ 'p50(context.duration_ms)': 30, 'max(context.duration_ms)': 50, 'avg(context.duration_ms)': 30 })
+      expect(byRoute['/orders']).toEqual({ 'p50(context.duration_ms)': 100, 'max(context.duration_ms)': 300, 'avg(context.duration_ms)': 200 })
+    })
+
+    it('uses the nearest rank for percentiles', async () => {
+      // Rank ceil(p * n / 100); the index floor(p * (n - 1) / 100) would give 40 and 100 for p95
+      const result = await aggregate('group_by=context.route&agg=p95(context.duration_ms)&agg=p40(context.duration_ms)')
+      const byRoute = Object.fromEntries(result.data.groups.map((group) => [group.key, group.values]))
+      expect(byRoute['/users']).toEqual({ 'p95(context.duration_ms)': 50, 'p40(context.duration_ms)': 20 })
+      expect(byRoute['/orders']).toEqual({ 'p95(context.duration_ms)': 300, 'p40(context.duration_ms)': 100 })
+    })
+
+    it('groups by level and by time bucket', async () => {
+      const byLevel = await aggregate('group_by=level')
+      expect(byLevel.data.groups.map((group) => [group.key, group.values.count])).toEqual([['INFO', 5], ['ERROR', 3]])
+
+      const byHour = await aggregate('group_by=time:1h')
+      expect(byHour.data.groups.reduce((sum, group) => sum + group.count, 0)).toBe(8)
+      expect(byHour.data.groups[0].key).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:00:00\.000Z$/)
+    })
+
+    it('rejects invalid group_by and aggregations', async () => {
+      const stub = getStub('test-aggregate')
+      expect((await stub.fetch(new Request('http://do/aggregate?group_by=message'))).status).toBe(400)
+      expect((await stub.fetch(new Request("http://do/aggregate?agg=sum(context.duration_ms)"))).status).toBe(400)
+      expect((await stub.fetch(new Request("http://do/aggregate?agg=p95(context.a')--)"))).status).toBe(400)
+    })
+  })
+
   describe('Prune operations', () => {
     it('prunes old logs', async () => {
       const stub = getStub('test-prune')
@@ -197,6 +365,446 @@ describe('AppLogsDO', () => {
     })
   })
 
+  describe('Full-text search', () => {
+    type SearchResult = {
+      ok: boolean
+      data: Array<{ message: string; score?: number; snippet?: string }>
+      error?: { code: string }
+    }
+
+    async function search(stub: DurableObjectStub, query: string): Promise<SearchResult> {
+      const response = await stub.fetch(new Request(`http://do/logs?${query}`, { method: 'GET' }))
+      return (await response.json()) as SearchResult
+    }
+
+    beforeAll(async () => {
+      const stub = getStub('test-search')
+      await stub.fetch(new Request('http://do/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          logs: [
+            { level: 'ERROR', message: 'Payment failed for order', context: { order_id: 'ord-42' } },
+            { level: 'ERROR', message: 'Upstream timeout after 30s' },
+            { level: 'WARN', message: 'Payment retry scheduled' },
+            { level: 'INFO', message: 'Connection refused by upstream' },
+          ],
+        }),
+      }))
+    })
+
+    it('matches phrases and prefixes with highlighted snippets', async () => {
+      const stub = getStub('test-search')
+
+      const phrase = await search(stub, `search=${encodeURIComponent('"payment failed"')}`)
+      expect(phrase.data).toHaveLength(1)
+      expect(phrase.data[0].snippet).toBe('<mark>Payment failed</mark> for order')
+      expect(typeof phrase.data[0].score).toBe('number')
+
+      const prefix = await search(stub, `search=${encodeURIComponent('pay*')}`)
+      expect(prefix.data).toHaveLength(2)
+    })
+
+    it('supports boolean operators and context terms', async () => {
+      const stub = getStub('test-search')
+
+      const either = await search(stub, `search=${encodeURIComponent('timeout OR refused')}`)
+      expect(either.data).toHaveLength(2)
+
+      const without = await search(stub, `search=${encodeURIComponent('payment NOT retry')}`)
+      expect(without.data.map((e) => e.message)).toEqual(['Payment failed for order'])
+
+      const context = await search(stub, `search=${encodeURIComponent('context:ord')}*`)
+      expect(context.data.map((e) => e.message)).toEqual(['Payment failed for order'])
+    })
+
+    it('sorts by relevance on request', async () => {
+      const stub = getStub('test-search')
+
+      const result = await search(stub, `search=upstream&sort=relevance`)
+      expect(result.data).toHaveLength(2)
+      expect(result.data[0].score!).toBeGreaterThanOrEqual(result.data[1].score!)
+    })
+
+    it('rejects malformed searches', async () => {
+      const stub = getStub('test-search')
+
+      const result = await search(stub, `search=${encodeURIComponent('(timeout')}`)
+      expect(result.ok).toBe(false)
+      expect(result.error?.code).toBe('BAD_REQUEST')
+
+      const dangling = await search(stub, `search=${encodeURIComponent('timeout OR')}`)
+      expect(dangling.error?.code).toBe('BAD_REQUEST')
+    })
+
+    it('runs grouped searches next to other terms', async () => {
+      const stub = getStub('test-search')
+
+      const result = await search(stub, `search=${encodeURIComponent('payment (order OR retry)')}`)
+      expect(result.ok).toBe(true)
+      expect(result.data.length).toBeGreaterThan(0)
+    })
+
+    it('rebuilds the index through backfill', async () => {
+      const stub = getStub('test-search')
+
+      const rebuild = await stub.fetch(new Request('http://do/search-index/rebuild', { method: 'POST' }))
+      const rebuildData = (await rebuild.json()) as { ok: boolean; data: { backfill_pending: boolean } }
+      expect(rebuildData.data.backfill_pending).toBe(true)
+
+      const pending = await search(stub, 'search=timeout')
+      expect(pending.data).toHaveLength(0)
+
+      const backfill = await stub.fetch(new Request('http://do/search-index/backfill', { method: 'POST' }))
+      const backfillData = (await backfill.json()) as { ok: boolean; data: { indexed: number; backfill_pending: boolean } }
+      expect(backfillData.data.indexed).toBe(4)
+      expect(backfillData.data.backfill_pending).toBe(false)
+
+      const status = await stub.fetch(new Request('http://do/search-index', { method: 'GET' }))
+      const statusData = (await status.json()) as { data: { backfill_pending: boolean } }
+      expect(statusData.data.backfill_pending).toBe(false)
+
+      const indexed = await search(stub, 'search=timeout')
+      expect(indexed.data).toHaveLength(1)
+    })
+  })
+
+  describe('Query language', () => {
+    type QueryResult = { ok: boolean; data: Array<{ message: string }>; error?: { code: string; details?: { position: number } } }
+
+    async function query(q: string): Promise<QueryResult> {
+      const stub = getStub('test-query-language')
+      const response = await stub.fetch(new Request(`http://do/logs?q=${encodeURIComponent(q)}`, { method: 'GET' }))
+      return (await response.json()) as QueryResult
+    }
+
+    beforeAll(async () => {
+      const stub = getStub('test-query-language')
+      await stub.fetch(new Request('http://do/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          logs: [
+            { level: 'ERROR', message: 'Upstream timeout', context: { status: 504, path: '/api/orders' } },
+            { level: 'WARN', message: 'Slow request', context: { status: 200, path: '/api/users' } },
+            { level: 'INFO', message: 'Health check', context: { status: 200, path: '/health' } },
+            { level: 'ERROR', message: 'Payment failed', context: { status: '500', path: '/checkout' } },
+          ],
+        }),
+      }))
+    })
+
+    it('filters by level, numeric context and wildcards', async () => {
+      const warnings = await query('level:>=WARN')
+      expect(warnings.data).toHaveLength(3)
+
+      // Only numeric values compare numerically
+      const serverErrors = await query('context.status:>=500')
+      expect(serverErrors.data.map((e) => e.message)).toEqual(['Upstream timeout'])
+
+      const api = await query('context.path:/api/*')
+      expect(api.data).toHaveLength(2)
+    })
+
+    it('combines text, NOT, OR and parentheses', async () => {
+      const result = await query('(timeout OR "payment failed") NOT context.path:/checkout')
+      expect(result.data.map((e) => e.message)).toEqual(['Upstream timeout'])
+
+      const recent = await query('since:-15m NOT level:ERROR')
+      expect(recent.data).toHaveLength(2)
+    })
+
+    it('rejects syntax errors with their position', async () => {
+      const result = await query('level:>=WARN (timeout')
+      expect(result.ok).toBe(false)
+      expect(result.error?.code).toBe('BAD_REQUEST')
+      expect(result.error?.details?.position).toBe(21)
+    })
+  })
+
+  describe('Issues', () => {
+    type Issue = { id: string; title: string; message: string; status: string; count: number; last_log_id: string }
+
+    async function logBatch(stub: DurableObjectStub, logs: Array<{ level: string; message: string }>) {
+      const response = await stub.fetch(new Request('http://do/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ logs }),
+      }))
+      return (await response.json()) as { ok: boolean; data: Array<{ id: string; issue_id?: string }> }
+    }
+
+    async function listIssues(stub: DurableObjectStub, query = '') {
+      const response = await stub.fetch(new Request(`http://do/issues${query}`, { method: 'GET' }))
+      return (await response.json()) as { ok: boolean; data: Issue[] }
+    }
+
+    it('groups errors by fingerprint', async () => {
+      const stub = getStub('test-issues')
+
+      const written = await logBatch(stub, [
+        { level: 'ERROR', message: 'Order 1 failed' },
+        { level: 'ERROR', message: 'Order 2 failed' },
+        { level: 'ERROR', message: 'Database unavailable' },
+        { level: 'WARN', message: 'Order 3 failed' },
+        { level: 'INFO', message: 'Order 4 shipped' },
+      ])
+      expect(written.data[0].issue_id).toBeDefined()
+      expect(written.data[1].issue_id).toBe(written.data[0].issue_id)
+      expect(written.data[3].issue_id).toBeUndefined()
+
+      const issues = await listIssues(stub, '?sort=count')
+      expect(issues.data).toHaveLength(2)
+      expect(issues.data[0].title).toBe('Order <n> failed')
+      expect(issues.data[0].message).toBe('Order 2 failed')
+      expect(issues.data[0].count).toBe(2)
+      expect(issues.data[0].last_log_id).toBe(written.data[1].id)
+
+      const logsResponse = await stub.fetch(new Request(`http://do/logs?issue_id=${issues.data[0].id}`, { method: 'GET' }))
+      const logsData = (await logsResponse.json()) as { data: Array<{ message: string }> }
+      expect(logsData.data.map((e) => e.message).sort()).toEqual(['Order 1 failed', 'Order 2 failed'])
+    })
+
+    it('reopens resolved issues but leaves ignored ones alone', async () => {
+      const stub = getStub('test-issues-status')
+
+      const written = await logBatch(stub, [
+        { level: 'ERROR', message: 'Flaky upstream' },
+        { level: 'ERROR', message: 'Known noise' },
+      ])
+      const [flaky, noise] = written.data.map((e) => e.issue_id!)
+
+      for (const [id, status] of [[flaky, 'resolved'], [noise, 'ignored']]) {
+        const response = await stub.fetch(new Request(`http://do/issues/${id}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ status }),
+        }))
+        const data = (await response.json()) as { ok: boolean; data: Issue }
+        expect(data.data.status).toBe(status)
+      }
+
+      await logBatch(stub, [
+        { level: 'ERROR', message: 'Flaky upstream' },
+        { level: 'ERROR', message: 'Known noise' },
+      ])
+
+      const open = await listIssues(stub, '?status=open')
+      expect(open.data.map((i) => i.id)).toEqual([flaky])
+      const ignored = await listIssues(stub, '?status=ignored')
+      expect(ignored.data[0].count).toBe(2)
+    })
+
+    it('groups warnings once enabled', async () => {
+      const stub = getStub('test-issues-warn')
+
+      await stub.fetch(new Request('http://do/issues/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ include_warn: true }),
+      }))
+
+      const written = await logBatch(stub, [{ level: 'WARN', message: 'Slow query' }])
+      expect(written.data[0].issue_id).toBeDefined()
+
+      const missing = await stub.fetch(new Request('http://do/issues/0000000000000000', { method: 'GET' }))
+      const missingData = (await missing.json()) as { ok: boolean; data: Issue | null }
+      expect(missingData.data).toBeNull()
+    })
+  })
+
+  describe('Retention policy', () => {
+    it('stores a policy and enforces the row cap', async () => {
+      const stub = getStub('test-retention')
+
+      await stub.fetch(new Request('http://do/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          logs: [
+            { level: 'DEBUG', message: 'One' },
+            { level: 'INFO', message: 'Two' },
+            { level: 'ERROR', message: 'Three' },
+          ],
+        }),
+      }))
+
+      const setResponse = await stub.fetch(new Request('http://do/retention', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ max_age_days: 30, level_max_age_days: { DEBUG: 3 }, max_rows: 2 }),
+      }))
+      const setData = (await setResponse.json()) as { ok: boolean; data: { max_rows: number } }
+      expect(setData.ok).toBe(true)
+      expect(setData.data.max_rows).toBe(2)
+
+      const runResponse = await stub.fetch(new Request('http://do/retention/run', { method: 'POST' }))
+      const runData = (await runResponse.json()) as { ok: boolean; data: { deleted: number } }
+      expect(runData.ok).toBe(true)
+      expect(runData.data.deleted).toBe(1)
+
+      const getResponse = await stub.fetch(new Request('http://do/retention', { method: 'GET' }))
+      const getData = (await getResponse.json()) as {
+        ok: boolean
+        data: { policy: { level_max_age_days: Record<string, number> }; last_run: { deleted: number } }
+      }
+      expect(getData.data.policy.level_max_age_days).toEqual({ DEBUG: 3 })
+      expect(getData.data.last_run.deleted).toBe(1)
+
+      const logsResponse = await stub.fetch(new Request('http://do/logs', { method: 'GET' }))
+      const logsData = (await logsResponse.json()) as { data: Array<unknown> }
+      expect(logsData.data).toHaveLength(2)
+    })
+
+    it('clears the policy', async () => {
+      const stub = getStub('test-retention-clear')
+
+      await stub.fetch(new Request('http://do/retention', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ max_age_days: 7 }),
+      }))
+      await stub.fetch(new Request('http://do/retention', { method: 'DELETE' }))
+
+      const response = await stub.fetch(new Request('http://do/retention', { method: 'GET' }))
+      const data = (await response.json()) as { ok: boolean; data: { policy: unknown } }
+      expect(data.ok).toBe(true)
+      expect(data.data.policy).toBeNull()
+    })
+  })
+
+  describe('Alert rules', () => {
+    beforeAll(() => {
+      fetchMock.activate()
+      fetchMock.disableNetConnect()
+      fetchMock.get('https://hooks.example.com').intercept({ path: '/alert', method: 'POST' }).reply(200, 'ok').persist()
+    })
+
+    afterAll(() => {
+      fetchMock.deactivate()
+    })
+
+    async function createRule(stub: DurableObjectStub, rule: object) {
+      const response = await stub.fetch(new Request('http://do/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cooldown_seconds: 900,
+          window_seconds: 300,
+          enabled: true,
+          webhook_url: 'https://hooks.example.com/alert',
+          ...rule,
+        }),
+      }))
+      const data = (await response.json()) as { ok: boolean; data: { id: string } }
+      return data.data.id
+    }
+
+    async function writeLog(stub: DurableObjectStub, level: string, message: string) {
+      await stub.fetch(new Request('http://do/log', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ level, message }),
+      }))
+    }
+
+    async function getHistory(stub: DurableObjectStub, ruleId: string) {
+      const response = await stub.fetch(new Request(`http://do/alerts/${ruleId}/history`, { method: 'GET' }))
+      const data = (await response.json()) as { data: Array<{ match_count: number; test: boolean }> }
+      return data.data
+    }
+
+    it('fires once the threshold is reached, then respects the cooldown', async () => {
+      const stub = getStub('test-alerts-threshold')
+      const ruleId = await createRule(stub, { name: 'Error burst', level: 'ERROR', threshold: 2 })
+
+      await writeLog(stub, 'ERROR', 'First failure')
+      await writeLog(stub, 'INFO', 'Unrelated')
+      expect(await getHistory(stub, ruleId)).toHaveLength(0)
+
+      await writeLog(stub, 'ERROR', 'Second failure')
+      const history = await getHistory(stub, ruleId)
+      expect(history).toHaveLength(1)
+      expect(history[0].match_count).toBe(2)
+      expect(history[0].test).toBe(false)
+
+      // Still in cooldown
+      await writeLog(stub, 'ERROR', 'Third failure')
+      expect(await getHistory(stub, ruleId)).toHaveLength(1)
+    })
+
+    it('matches on search text', async () => {
+      const stub = getStub('test-alerts-search')
+      const ruleId = await createRule(stub, { name: 'Payments', search: 'payment failed', threshold: 1 })
+
+      await writeLog(stub, 'WARN', 'Checkout slow')
+      expect(await getHistory(stub, ruleId)).toHaveLength(0)
+
+      await writeLog(stub, 'WARN', 'Payment failed for order 42')
+      expect(await getHistory(stub, ruleId)).toHaveLength(1)
+    })
+
+    it('test-fires a rule and reports delivery', async () => {
+      const stub = getStub('test-alerts-test-fire')
+      const ruleId = await createRule(stub, { name: 'Test me', threshold: 100 })
+
+      const response = await stub.fetch(new Request(`http://do/alerts/${ruleId}/test`, { method: 'POST' }))
+      const data = (await response.json()) as { ok: boolean; data: { test: boolean; delivery_status: number } }
+      expect(data.ok).toBe(true)
+      expect(data.data.test).toBe(true)
+      expect(data.data.delivery_status).toBe(200)
+
+      // Test firings don't start the cooldown
+      const ruleResponse = await stub.fetch(new Request(`http://do/alerts/${ruleId}`, { method: 'GET' }))
+      const ruleData = (await ruleResponse.json()) as { data: { last_fired_at?: string } }
+      expect(ruleData.data.last_fired_at).toBeUndefined()
+    })
+
+    it('names the app sent with the rule when the DO has no name', async () => {
+      const payloads: Array<{ app_id: string; text: string }> = []
+      fetchMock.get('https://hooks.example.com').intercept({ path: '/named', method: 'POST' }).reply(200, (options) => {
+        payloads.push(JSON.parse(options.body as string))
+        return 'ok'
+      })
+
+      // Unique IDs have no name, like IDs in some alarm and RPC invocations
+      const stub = env.APP_LOGS_DO.get(env.APP_LOGS_DO.newUniqueId())
+      const response = await stub.fetch(new Request('http://do/alerts?app_id=named-app', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: 'Any error',
+          level: 'ERROR',
+          threshold: 1,
+          window_seconds: 300,
+          cooldown_seconds: 900,
+          enabled: true,
+          webhook_url: 'https://hooks.example.com/named',
+        }),
+      }))
+      expect(((await response.json()) as { ok: boolean }).ok).toBe(true)
+
+      await writeLog(stub, 'ERROR', 'Boom')
+      // Delivered in the background
+      await vi.waitFor(() => expect(payloads).toHaveLength(1))
+      expect(payloads[0].app_id).toBe('named-app')
+      expect(payloads[0].text).toMatch(/^\[named-app\] /)
+    })
+
+    it('deletes a rule', async () => {
+      const stub = getStub('test-alerts-delete')
+      const ruleId = await createRule(stub, { name: 'Temporary', threshold: 1 })
+
+      const response = await stub.fetch(new Request(`http://do/alerts/${ruleId}`, { method: 'DELETE' }))
+      const data = (await response.json()) as { data: { deleted: boolean } }
+      expect(data.data.deleted).toBe(true)
+
+      const getResponse = await stub.fetch(new Request(`http://do/alerts/${ruleId}`, { method: 'GET' }))
+      const getData = (await getResponse.json()) as { ok: boolean; data: unknown }
+      expect(getData.data).toBeNull()
+    })
+  })
+
   describe('Health URL configuration', () => {
     it('sets and retrieves health check URLs', async () => {
       const stub = getStub('test-health')
@@ -223,6 +831,371 @@ describe('AppLogsDO', () => {
     })
   })
 
+  describe('Health targets', () => {
+    type Check = { url: string; status: number; ok: boolean; error: string | null }
+
+    // Cached app configs with the secret bindings an admin would make
+    const bound: Record<string, Record<string, string>> = {
+      'test-health-targets': { HEALTH_TOKEN: 'status.example.com' },
+      'test-health-missing-secret': { HEALTH_MISSING: 'status.example.com' },
+      'test-health-other-host': { HEALTH_TOKEN: 'other.example.com' },
+    }
+
+    beforeAll(async () => {
+      fetchMock.activate()
+      fetchMock.disableNetConnect()
+
+      for (const [appId, secrets] of Object.entries(bound)) {
+        await env.LOGS_KV.put(`app:${appId}`, JSON.stringify({
+          name: appId,
+          health_urls: [],
+          created_at: new Date().toISOString(),
+          health_secrets: secrets,
+        }))
+      }
+    })
+
+    afterAll(async () => {
+      fetchMock.deactivate()
+      // Storage is shared across test files, and the registry would import these
+      for (const appId of Object.keys(bound)) {
+        await env.LOGS_KV.delete(`app:${appId}`)
+      }
+    })
+
+    async function setTargets(stub: DurableObjectStub, urls: unknown[], appId?: string): Promise<Response> {
+      return stub.fetch(new Request('http://do/health-urls', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls, app_id: appId }),
+      }))
+    }
+
+    // Make every target due, then run the alarm
+    async function runChecks(stub: DurableObjectStub): Promise<Check[]> {
+      await runInDurableObject(stub, (_instance, state) => {
+        state.storage.sql.exec(`UPDATE config SET value = '0' WHERE key = 'next_run:health'`)
+        state.storage.sql.exec(`DELETE FROM config WHERE key = 'health_due'`)
+      })
+      expect(await runDurableObjectAlarm(stub)).toBe(true)
+      const response = await stub.fetch(new Request('http://do/health', { method: 'GET' }))
+      return ((await response.json()) as { data: Check[] }).data
+    }
+
+    it('checks method, secret headers, status and body assertions', async () => {
+      const stub = getStub('test-health-targets')
+      const origin = fetchMock.get('https://status.example.com')
+      origin.intercept({ path: '/ok', method: 'GET', headers: { authorization: 'Bearer test-health-token' } })
+        .reply(200, JSON.stringify({ status: 'ok' }))
+      origin.intercept({ path: '/degraded', method: 'GET' }).reply(200, JSON.stringify({ status: 'degraded' }))
+      origin.intercept({ path: '/redirect', method: 'HEAD' }).reply(302, '')
+
+      const set = await setTargets(stub, [
+        {
+          url: 'https://status.example.com/ok',
+          headers: { Authorization: 'Bearer {{HEALTH_TOKEN}}' },
+          body_assertion: { json_path: 'status', equals: 'ok' },
+          interval_seconds: 60,
+        },
+        { url: 'https://status.example.com/degraded', body_assertion: { json_path: 'status', equals: 'ok' } },
+        { url: 'https://status.example.com/redirect', expected_status: [200] },
+      ], 'test-health-targets')
+      expect(set.status).toBe(200)
+
+      const checks = await runChecks(stub)
+      const byUrl = Object.fromEntries(checks.map((check) => [check.url.split('/').pop(), check]))
+      expect(byUrl.ok).toMatchObject({ status: 200, ok: true, error: null })
+      expect(byUrl.degraded).toMatchObject({ status: 200, ok: false, error: 'status is "degraded", expected "ok"' })
+      expect(byUrl.redirect).toMatchObject({ status: 302, ok: false, error: 'Status 302, expected 200' })
+    })
+
+    it('schedules each target on its own interval', async () => {
+      const stub = getStub('test-health-targets')
+      const due = await runInDurableObject(stub, (_instance, state) => {
+        const row = state.storage.sql.exec(`SELECT value FROM config WHERE key = 'health_due'`).one()
+        return JSON.parse(row.value as string) as Record<string, number>
+      })
+      expect(due['https://status.example.com/degraded'] - due['https://status.example.com/ok']).toBe(240 * 1000)
+    })
+
+    it('summarizes uptime, latency and incidents', async () => {
+      type Summary = {
+        url: string
+        uptime: Record<string, number | null>
+        latency_ms: { p50: number | null; p95: number | null; p99: number | null }
+        incidents: Record<string, number>
+        recent_incidents: Array<{ ended_at: string | null; failures: number; error: string | null; duration_ms: number }>
+        daily: Array<{ checks: number }>
+        hourly_latency: unknown[]
+      }
+
+      // Second run: /degraded recovers, /redirect keeps failing
+      const stub = getStub('test-health-targets')
+      const origin = fetchMock.get('https://status.example.com')
+      origin.intercept({ path: '/ok', method: 'GET' }).reply(200, JSON.stringify({ status: 'ok' }))
+      origin.intercept({ path: '/degraded', method: 'GET' }).reply(200, JSON.stringify({ status: 'ok' }))
+      origin.intercept({ path: '/redirect', method: 'HEAD' }).reply(302, '')
+      await runChecks(stub)
+
+      const response = await stub.fetch(new Request('http://do/health/summary', { method: 'GET' }))
+      const summaries = ((await response.json()) as { data: Summary[] }).data
+      const byUrl = Object.fromEntries(summaries.map((summary) => [summary.url.split('/').pop(), summary]))
+
+      expect(byUrl.ok.uptime).toEqual({ '24h': 100, '7d': 100, '30d': 100 })
+      expect(byUrl.ok.incidents['30d']).toBe(0)
+      expect(byUrl.ok.latency_ms.p50).toEqual(expect.any(Number))
+      expect(byUrl.ok.daily).toHaveLength(30)
+      expect(byUrl.ok.daily[29].checks).toBe(2)
+      expect(byUrl.ok.hourly_latency).toHaveLength(24)
+
+      expect(byUrl.degraded.uptime['24h']).toBe(50)
+      expect(byUrl.degraded.incidents['24h']).toBe(1)
+      expect(byUrl.degraded.recent_incidents[0]).toMatchObject({ failures: 1, ended_at: expect.any(String), error: 'status is "degraded", expected "ok"' })
+
+      expect(byUrl.redirect.uptime['24h']).toBe(0)
+      expect(byUrl.redirect.latency_ms.p50).toEqual(expect.any(Number))
+      expect(byUrl.redirect.recent_incidents[0]).toMatchObject({ failures: 2, ended_at: null })
+    })
+
+    it('fails checks whose secret is not set', async () => {
+      const stub = getStub('test-health-missing-secret')
+      await setTargets(stub, [{ url: 'https://status.example.com/private', headers: { 'X-Token': '{{HEALTH_MISSING}}' } }], 'test-health-missing-secret')
+
+      const checks = await runChecks(stub)
+      expect(checks[0]).toMatchObject({ status: 0, ok: false, error: 'Secret HEALTH_MISSING is not set' })
+    })
+
+    it('fails checks whose secret is bound to another host or app', async () => {
+      const headers = { Authorization: 'Bearer {{HEALTH_TOKEN}}' }
+      const otherHost = getStub('test-health-other-host')
+      await setTargets(otherHost, [{ url: 'https://status.example.com/private', headers }], 'test-health-other-host')
+      expect((await runChecks(otherHost))[0]).toMatchObject({
+        status: 0,
+        ok: false,
+        error: "Secret HEALTH_TOKEN isn't bound to this app for status.example.com",
+      })
+
+      const unbound = getStub('test-health-unbound-secret')
+      await setTargets(unbound, [{ url: 'https://status.example.com/private', headers }], 'test-health-unbound-secret')
+      expect((await runChecks(unbound))[0]).toMatchObject({ status: 0, ok: false })
+    })
+
+    it('logs and sends state changes, pausing notifications while flapping', async () => {
+      const stub = getStub('test-health-alerts')
+      const payloads: Array<{ type: string; state: string; duration_ms: number | null; text: string }> = []
+      fetchMock.get('https://hooks.example.com').intercept({ path: '/health', method: 'POST' }).reply(200, (options) => {
+        payloads.push(JSON.parse(options.body as string))
+        return 'ok'
+      }).persist()
+
+      const settings = await stub.fetch(new Request('http://do/health-alerts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          failure_threshold: 2,
+          recovery_threshold: 1,
+          webhook_urls: ['https://hooks.example.com/health'],
+          flap_threshold: 3,
+          flap_window_seconds: 3600,
+        }),
+      }))
+      expect(settings.status).toBe(200)
+      await setTargets(stub, ['https://status.example.com/flaky'], 'test-health-alerts')
+
+      const origin = fetchMock.get('https://status.example.com')
+      for (const status of [503, 503, 200, 503, 503, 200]) {
+        origin.intercept({ path: '/flaky', method: 'HEAD' }).reply(status, '')
+        await runChecks(stub)
+      }
+
+      expect(payloads.map((payload) => payload.type)).toEqual(['health.down', 'health.up', 'health.flapping'])
+      expect(payloads[0].text).toBe('[test-health-alerts] https://status.example.com/flaky is down after 2 failed checks: Status 503')
+      expect(payloads[1]).toMatchObject({ state: 'up', duration_ms: expect.any(Number) })
+
+      const response = await stub.fetch(new Request('http://do/logs', { method: 'GET' }))
+      const logs = ((await response.json()) as { data: Array<{ level: string; message: string; context: Record<string, unknown> }> }).data
+      const levels = Object.fromEntries(logs.map((log) => [log.context.event, log.level]))
+      expect(logs.map((log) => log.context.event).sort()).toEqual(['down', 'down', 'flapping', 'up', 'up'])
+      expect(levels).toEqual({ down: 'ERROR', up: 'INFO', flapping: 'WARN' })
+      expect(logs[logs.length - 1].context).toMatchObject({ health_url: 'https://status.example.com/flaky', state: 'down', previous_state: 'unknown', error: 'Status 503' })
+
+      const alerts = await stub.fetch(new Request('http://do/health-alerts', { method: 'GET' }))
+      const data = (await alerts.json()) as { data: { states: Array<{ state: string; flapping: boolean }> } }
+      expect(data.data.states).toEqual([expect.objectContaining({ state: 'up', flapping: true })])
+    })
+
+    it('rejects invalid targets', async () => {
+      const stub = getStub('test-health-invalid')
+      const response = await setTargets(stub, [{ url: 'https://example.com', headers: { Authorization: '{{ADMIN_API_KEY}}' } }])
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('Heartbeats', () => {
+    type Monitor = { id: string; state: string; last_status: string | null; last_duration_ms: number | null; started_at: string | null }
+
+    async function ping(stub: DurableObjectStub, token: string, status: string, durationMs: number | null = null): Promise<Monitor | null> {
+      const response = await stub.fetch(new Request('http://do/heartbeats/ping', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, status, duration_ms: durationMs }),
+      }))
+      return ((await response.json()) as { data: Monitor | null }).data
+    }
+
+    // Make the monitor's next run due `overdueSeconds` ago, then run the alarm
+    async function runChecks(stub: DurableObjectStub, id: string, overdueSeconds: number): Promise<Monitor[]> {
+      await runInDurableObject(stub, (_instance, state) => {
+        const due = new Date(Date.now() - overdueSeconds * 1000).toISOString()
+        state.storage.sql.exec(`UPDATE heartbeats SET next_due_at = ? WHERE id = ?`, due, id)
+        state.storage.sql.exec(`UPDATE config SET value = '0' WHERE key = 'next_run:heartbeat'`)
+      })
+      expect(await runDurableObjectAlarm(stub)).toBe(true)
+      const response = await stub.fetch(new Request('http://do/heartbeats', { method: 'GET' }))
+      return ((await response.json()) as { data: Monitor[] }).data
+    }
+
+    it('tracks runs and goes late, then missing, without pings', async () => {
+      const stub = getStub('test-heartbeats')
+      const created = await stub.fetch(new Request('http://do/heartbeats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: 'nightly-sync', period_seconds: 3600, grace_seconds: 300, token: 'token-1' }),
+      }))
+      const monitor = ((await created.json()) as { data: Monitor }).data
+      expect(monitor.state).toBe('new')
+
+      expect(await ping(stub, 'token-1', 'start')).toMatchObject({ state: 'up', last_status: 'start', started_at: expect.any(String) })
+      const finished = await ping(stub, 'token-1', 'success')
+      expect(finished).toMatchObject({ state: 'up', last_status: 'success', started_at: null, last_duration_ms: expect.any(Number) })
+      expect(await ping(stub, 'unknown-token', 'success')).toBeNull()
+
+      expect((await runChecks(stub, monitor.id, 60))[0].state).toBe('late')
+      expect((await runChecks(stub, monitor.id, 600))[0].state).toBe('missing')
+      expect(await ping(stub, 'token-1', 'fail', 2000)).toMatchObject({ state: 'failed', last_duration_ms: 2000 })
+      expect(await ping(stub, 'token-1', 'success', 1000)).toMatchObject({ state: 'up' })
+
+      const response = await stub.fetch(new Request('http://do/logs', { method: 'GET' }))
+      const logs = ((await response.json()) as { data: Array<{ level: string; message: string; context: Record<string, unknown> }> }).data
+      expect(logs.map((log) => [log.level, log.context.state]).reverse()).toEqual([
+        ['WARN', 'late'],
+        ['ERROR', 'missing'],
+        ['ERROR', 'failed'],
+        ['INFO', 'up'],
+      ])
+      expect(logs[0]).toMatchObject({
+        message: "Heartbeat 'nightly-sync' is up again after being failed",
+        context: { heartbeat: 'nightly-sync', heartbeat_id: monitor.id, previous_state: 'failed', duration_ms: 1000 },
+      })
+
+      const pings = await stub.fetch(new Request(`http://do/heartbeats/${monitor.id}/pings`, { method: 'GET' }))
+      const statuses = ((await pings.json()) as { data: Array<{ status: string }> }).data.map((p) => p.status)
+      expect(statuses).toEqual(['success', 'fail', 'success', 'start'])
+    })
+
+    it('stops checking once monitors are deleted', async () => {
+      const stub = getStub('test-heartbeats')
+      const list = await stub.fetch(new Request('http://do/heartbeats', { method: 'GET' }))
+      const [monitor] = ((await list.json()) as { data: Monitor[] }).data
+
+      const deleted = await stub.fetch(new Request(`http://do/heartbeats/${monitor.id}`, { method: 'DELETE' }))
+      expect(((await deleted.json()) as { data: { deleted: boolean } }).data.deleted).toBe(true)
+
+      const scheduled = await runInDurableObject(stub, (_instance, state) => {
+        return state.storage.sql.exec(`SELECT COUNT(*) AS count FROM config WHERE key = 'next_run:heartbeat'`).one().count
+      })
+      expect(scheduled).toBe(0)
+    })
+  })
+
+  describe('Status page', () => {
+    type Status = {
+      targets: Array<{ url: string; status: string; uptime: number | null; daily: unknown[]; incidents: Array<{ ended_at: string | null }> }>
+      notes: Array<{ id: string; title: string; resolved_at: string | null }>
+    }
+    type Note = { id: string; status: string; resolved_at: string | null }
+
+    beforeAll(() => {
+      fetchMock.activate()
+      fetchMock.disableNetConnect()
+    })
+
+    afterAll(() => {
+      fetchMock.deactivate()
+    })
+
+    async function getStatus(stub: DurableObjectStub, urls: string[]): Promise<Status> {
+      const params = new URLSearchParams(urls.map((url) => ['url', url]))
+      const response = await stub.fetch(new Request(`http://do/status?${params}`, { method: 'GET' }))
+      return ((await response.json()) as { data: Status }).data
+    }
+
+    async function patchNote(stub: DurableObjectStub, id: string, patch: unknown): Promise<Note> {
+      const response = await stub.fetch(new Request(`http://do/status-notes/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      }))
+      return ((await response.json()) as { data: Note }).data
+    }
+
+    it('reports monitored targets with 90 days of uptime and ongoing incidents', async () => {
+      const stub = getStub('test-status-page')
+      await stub.fetch(new Request('http://do/health-urls', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: ['https://status.example.com/web', 'https://status.example.com/api'] }),
+      }))
+
+      const origin = fetchMock.get('https://status.example.com')
+      origin.intercept({ path: '/web', method: 'HEAD' }).reply(200, '')
+      origin.intercept({ path: '/api', method: 'HEAD' }).reply(503, '')
+      await runInDurableObject(stub, (_instance, state) => {
+        state.storage.sql.exec(`UPDATE config SET value = '0' WHERE key = 'next_run:health'`)
+        state.storage.sql.exec(`DELETE FROM config WHERE key = 'health_due'`)
+      })
+      expect(await runDurableObjectAlarm(stub)).toBe(true)
+
+      const status = await getStatus(stub, ['https://status.example.com/api', 'https://status.example.com/web', 'https://status.example.com/gone'])
+      expect(status.targets.map((target) => target.url)).toEqual(['https://status.example.com/api', 'https://status.example.com/web'])
+      expect(status.targets[0]).toMatchObject({ status: 'degraded', uptime: 0, incidents: [{ ended_at: null }] })
+      expect(status.targets[1]).toMatchObject({ status: 'unknown', uptime: 100, incidents: [] })
+      expect(status.targets[1].daily).toHaveLength(90)
+      expect(status.targets[0]).not.toHaveProperty('incidents.0.error')
+    })
+
+    it('resolves and reopens notes, hiding those resolved long ago', async () => {
+      const stub = getStub('test-status-page')
+      const created = await stub.fetch(new Request('http://do/status-notes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: 'API errors', message: 'Investigating elevated errors', status: 'investigating' }),
+      }))
+      const note = ((await created.json()) as { data: Note }).data
+      expect(note.resolved_at).toBeNull()
+
+      const resolved = await patchNote(stub, note.id, { status: 'resolved' })
+      expect(resolved.resolved_at).toEqual(expect.any(String))
+      expect((await patchNote(stub, note.id, { message: 'Fixed by a rollback' })).resolved_at).toBe(resolved.resolved_at)
+      expect((await patchNote(stub, note.id, { status: 'monitoring' })).resolved_at).toBeNull()
+
+      await patchNote(stub, note.id, { status: 'resolved' })
+      expect((await getStatus(stub, [])).notes.map((n) => n.title)).toEqual(['API errors'])
+      await runInDurableObject(stub, (_instance, state) => {
+        state.storage.sql.exec(`UPDATE status_notes SET resolved_at = '2020-01-01T00:00:00.000Z'`)
+      })
+      expect((await getStatus(stub, [])).notes).toEqual([])
+
+      const list = await stub.fetch(new Request('http://do/status-notes', { method: 'GET' }))
+      expect(((await list.json()) as { data: Note[] }).data).toHaveLength(1)
+
+      const deleted = await stub.fetch(new Request(`http://do/status-notes/${note.id}`, { method: 'DELETE' }))
+      expect(((await deleted.json()) as { data: Note | null }).data?.id).toBe(note.id)
+      const missing = await stub.fetch(new Request(`http://do/status-notes/${note.id}`, { method: 'DELETE' }))
+      expect(((await missing.json()) as { data: Note | null }).data).toBeNull()
+    })
+  })
+
   describe('Error handling', () => {
     it('returns 404 for unknown paths', async () => {
       const stub = getStub('test-errors')
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { parseAppPatch, parseAppFilters, matchesAppFilters, groupApps, EMPTY_METADATA } from '../src/services/app-metadata'
+
+describe('App metadata', () => {
+  describe('parseAppPatch', () => {
+    it('keeps only the fields given, trimmed', () => {
+      const result = parseAppPatch({ team: ' payments ', environment: 'prod', tags: ['api', ' api', 'edge'] })
+      expect(result).toEqual({ ok: true, data: { team: 'payments', environment: 'prod', tags: ['api', 'edge'] } })
+    })
+
+    it('clears fields set to null or an empty string', () => {
+      const result = parseAppPatch({ owner: '', description: null, runbook_url: null, tags: null })
+      expect(result).toEqual({ ok: true, data: { owner: null, description: null, runbook_url: null, tags: [] } })
+    })
+
+    it('rejects unknown fields and invalid values', () => {
+      expect(parseAppPatch({ api_key: 'x' }).ok).toBe(false)
+      expect(parseAppPatch({ name: '' }).ok).toBe(false)
+      expect(parseAppPatch({ environment: 'production' }).ok).toBe(false)
+      expect(parseAppPatch({ tags: 'api' }).ok).toBe(false)
+      expect(parseAppPatch({ tags: [''] }).ok).toBe(false)
+      expect(parseAppPatch({ repository_url: 'ftp://example.com/repo' }).ok).toBe(false)
+      expect(parseAppPatch([]).ok).toBe(false)
+    })
+  })
+
+  describe('parseAppFilters', () => {
+    it('reads team, environment and tag', () => {
+      const result = parseAppFilters(new URLSearchParams('team=payments&environment=staging&tag=api&other=x'))
+      expect(result).toEqual({ ok: true, data: { team: 'payments', environment: 'staging', tag: 'api' } })
+    })
+
+    it('rejects an unknown environment', () => {
+      expect(parseAppFilters(new URLSearchParams('environment=qa')).ok).toBe(false)
+    })
+  })
+
+  describe('matchesAppFilters', () => {
+    const app = { ...EMPTY_METADATA, team: 'payments', environment: 'prod' as const, tags: ['api', 'edge'] }
+
+    it('requires every filter to match', () => {
+      expect(matchesAppFilters(app, {})).toBe(true)
+      expect(matchesAppFilters(app, { team: 'payments', tag: 'edge' })).toBe(true)
+      expect(matchesAppFilters(app, { team: 'payments', environment: 'dev' })).toBe(false)
+      expect(matchesAppFilters(app, { tag: 'batch' })).toBe(false)
+    })
+  })
+
+  describe('groupApps', () => {
+    const apps = [
+      { id: 'a', team: 'search', tags: ['api'] },
+      { id: 'b', team: null, tags: [] },
+      { id: 'c', team: 'payments', tags: ['api', 'edge'] },
+    ]
+
+    it('sorts groups by key with the missing key last', () => {
+      const groups = groupApps(apps, 'team')
+      expect(groups.map(({ key, apps }) => [key, apps.map(app => app.id)])).toEqual([
+        ['payments', ['c']],
+        ['search', ['a']],
+        [null, ['b']],
+      ])
+    })
+
+    it('puts an app in each of its tags\' groups', () => {
+      const groups = groupApps(apps, 'tag')
+      expect(groups.map(({ key, apps }) => [key, apps.map(app => app.id)])).toEqual([
+        ['api', ['a', 'c']],
+        ['edge', ['c']],
+        [null, ['b']],
+      ])
+    })
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { diffSnapshots, requestMeta } from '../src/services/audit'
+
+describe('Audit', () => {
+  describe('diffSnapshots', () => {
+    it('keeps only the fields that changed', () => {
+      const diff = diffSnapshots(
+        { name: 'App', health_urls: ['https://a.example.com'], created_at: 'x' },
+        { name: 'App', health_urls: ['https://b.example.com'], created_at: 'x', tail_scripts: ['worker'] }
+      )
+      expect(diff).toEqual({
+        before: { health_urls: ['https://a.example.com'] },
+        after: { health_urls: ['https://b.example.com'], tail_scripts: ['worker'] },
+      })
+    })
+
+    it('keeps non-object snapshots whole', () => {
+      expect(diffSnapshots(['a'], ['a', 'b'])).toEqual({ before: ['a'], after: ['a', 'b'] })
+      expect(diffSnapshots(undefined, { name: 'App' })).toEqual({ before: null, after: { name: 'App' } })
+      expect(diffSnapshots({ name: 'App' }, undefined)).toEqual({ before: { name: 'App' }, after: null })
+    })
+  })
+
+  describe('requestMeta', () => {
+    it('records method, path and client details', () => {
+      const request = new Request('https://logs.example.com/apps/my-app/prune?x=1', {
+        method: 'POST',
+        headers: { 'CF-Connecting-IP': '203.0.113.7', 'User-Agent': 'curl/8.0', 'CF-Ray': 'abc123' },
+      })
+      expect(requestMeta(request)).toEqual({
+        method: 'POST',
+        path: '/apps/my-app/prune',
+        ip: '203.0.113.7',
+        user_agent: 'curl/8.0',
+        ray_id: 'abc123',
+      })
+    })
+  })
+})
@@ -0,0 +1,263 @@
+import { describe, it, expect } from 'vitest'
+import { env } from 'cloudflare:test'
+import {
+  parseHealthTargets,
+  compactHealthTarget,
+  resolveHealthHeaders,
+  parseHealthSecretBindings,
+  healthSecrets,
+  checkHealthResponse,
+  uptimePercent,
+  percentile,
+  parseHealthAlertSettings,
+  initialHealthAlertState,
+  applyHealthCheck,
+  healthAlertEvents,
+  describeHealthAlert,
+  DEFAULT_HEALTH_ALERT_SETTINGS,
+  type HealthAlertUpdate,
+} from '../src/services/health'
+import type { HealthAlertState, HealthTarget } from '../src/types'
+
+function target(input: unknown): HealthTarget {
+  const result = parseHealthTargets([input])
+  if (!result.ok) throw new Error(result.error.message)
+  return result.data[0]
+}
+
+describe('parseHealthTargets', () => {
+  it('treats bare URLs as HEAD checks with the defaults', () => {
+    expect(target('https://example.com/health')).toEqual({
+      url: 'https://example.com/health',
+      method: 'HEAD',
+      headers: {},
+      expected_status: null,
+      body_assertion: null,
+      timeout_ms: 10000,
+      interval_seconds: 300,
+    })
+  })
+
+  it('defaults to GET when the body is asserted', () => {
+    expect(target({ url: 'https://example.com', body_assertion: { contains: 'ok' } }).method).toBe('GET')
+  })
+
+  it('rejects invalid targets', () => {
+    const cases: unknown[] = [
+      ['not a url'],
+      [{ url: 'https://example.com', method: 'DELETE' }],
+      [{ url: 'https://example.com', method: 'HEAD', body_assertion: { contains: 'ok' } }],
+      [{ url: 'https://example.com', expected_status: [99] }],
+      [{ url: 'https://example.com', timeout_ms: 60000 }],
+      [{ url: 'https://example.com', interval_seconds: 5 }],
+      [{ url: 'https://example.com', headers: { 'Bad Name': 'x' } }],
+      [{ url: 'https://example.com', headers: { Authorization: 'Bearer {{ADMIN_API_KEY}}' } }],
+      [{ url: 'https://example.com', body_assertion: { json_path: 'a..b' } }],
+      [{ url: 'https://example.com', retries: 3 }],
+      ['https://example.com', { url: 'https://example.com' }],
+      'https://example.com',
+    ]
+    for (const input of cases) {
+      const result = parseHealthTargets(input)
+      expect(result.ok, JSON.stringify(input)).toBe(false)
+      if (!result.ok) {
+        expect(result.error.code).toBe('VALIDATION_ERROR')
+      }
+    }
+  })
+})
+
+describe('compactHealthTarget', () => {
+  it('keeps only the fields that differ from the defaults', () => {
+    expect(compactHealthTarget(target('https://example.com'))).toBe('https://example.com')
+    expect(compactHealthTarget(target({ url: 'https://example.com', body_assertion: { contains: 'ok' }, interval_seconds: 60 }))).toEqual({
+      url: 'https://example.com',
+      body_assertion: { contains: 'ok' },
+      interval_seconds: 60,
+    })
+  })
+})
+
+describe('resolveHealthHeaders', () => {
+  const withSecret = target({ url: 'https://example.com', headers: { Authorization: 'Bearer {{HEALTH_TOKEN}}' } })
+
+  const bindings = { HEALTH_TOKEN: 'example.com' }
+
+  it('substitutes HEALTH_* secrets bound to the target host', () => {
+    const result = resolveHealthHeaders(withSecret, bindings, { HEALTH_TOKEN: 's3cret' })
+    expect(result.ok && result.data).toEqual({ Authorization: 'Bearer s3cret' })
+  })
+
+  it('fails when a secret is not bound to the target host', () => {
+    const secrets = { HEALTH_TOKEN: 's3cret' }
+    const cases: Record<string, string>[] = [{}, { HEALTH_TOKEN: 'attacker.example' }, { HEALTH_TOKEN: 'example.com:8443' }]
+    for (const unbound of cases) {
+      const result = resolveHealthHeaders(withSecret, unbound, secrets)
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error.message).toBe("Secret HEALTH_TOKEN isn't bound to this app for example.com")
+      }
+    }
+  })
+
+  it('fails when a secret is not set', () => {
+    const result = resolveHealthHeaders(withSecret, bindings, {})
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error.message).toBe('Secret HEALTH_TOKEN is not set')
+    }
+  })
+})
+
+describe('parseHealthSecretBindings', () => {
+  it('lowercases hosts', () => {
+    expect(parseHealthSecretBindings({ HEALTH_TOKEN: 'API.Example.com:8443' })).toEqual({
+      ok: true,
+      data: { HEALTH_TOKEN: 'api.example.com:8443' },
+    })
+  })
+
+  it('rejects other secrets and anything but a host', () => {
+    const cases: unknown[] = [
+      null,
+      ['HEALTH_TOKEN'],
+      { ADMIN_API_KEY: 'example.com' },
+      { HEALTH_TOKEN: 'https://example.com' },
+      { HEALTH_TOKEN: 'example.com/path' },
+      { HEALTH_TOKEN: 1 },
+    ]
+    for (const input of cases) {
+      expect(parseHealthSecretBindings(input).ok, JSON.stringify(input)).toBe(false)
+    }
+  })
+})
+
+describe('healthSecrets', () => {
+  it('keeps only string HEALTH_* values', () => {
+    const secrets = healthSecrets(env)
+    expect(secrets.HEALTH_TOKEN).toBe('test-health-token')
+    expect(env.ADMIN_API_KEY).toBeDefined()
+    expect(secrets.ADMIN_API_KEY).toBeUndefined()
+    expect(Object.keys(secrets).every((name) => name.startsWith('HEALTH_'))).toBe(true)
+  })
+})
+
+describe('checkHealthResponse', () => {
+  it('accepts any status below 500 unless statuses are expected', () => {
+    const plain = target('https://example.com')
+    expect(checkHealthResponse(plain, 404, null)).toBeNull()
+    expect(checkHealthResponse(plain, 503, null)).toBe('Status 503')
+
+    const strict = target({ url: 'https://example.com', expected_status: [200, 204] })
+    expect(checkHealthResponse(strict, 204, null)).toBeNull()
+    expect(checkHealthResponse(strict, 404, null)).toBe('Status 404, expected 200 or 204')
+  })
+
+  it('checks substrings and JSON paths in the body', () => {
+    const contains = target({ url: 'https://example.com', body_assertion: { contains: 'healthy' } })
+    expect(checkHealthResponse(contains, 200, 'all healthy')).toBeNull()
+    expect(checkHealthResponse(contains, 200, 'degraded')).toBe('Body does not contain "healthy"')
+
+    const json = target({ url: 'https://example.com', body_assertion: { json_path: '$.checks.db', equals: true } })
+    expect(checkHealthResponse(json, 200, '{"checks":{"db":true}}')).toBeNull()
+    expect(checkHealthResponse(json, 200, '{"checks":{"db":false}}')).toBe('$.checks.db is false, expected true')
+    expect(checkHealthResponse(json, 200, '{}')).toBe('Body has no $.checks.db')
+    expect(checkHealthResponse(json, 200, '<html>')).toBe('Body is not JSON')
+
+    const exists = target({ url: 'https://example.com', body_assertion: { json_path: 'version' } })
+    expect(checkHealthResponse(exists, 200, '{"version":null}')).toBeNull()
+  })
+})
+
+describe('uptimePercent', () => {
+  it('rounds to 3 decimals and is null without checks', () => {
+    expect(uptimePercent(3, 1)).toBe(66.667)
+    expect(uptimePercent(10, 0)).toBe(100)
+    expect(uptimePercent(0, 0)).toBeNull()
+  })
+})
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+    expect(percentile(sorted, 50)).toBe(50)
+    expect(percentile(sorted, 51)).toBe(60)
+    expect(percentile(sorted, 90)).toBe(90)
+    expect(percentile(sorted, 95)).toBe(100)
+    expect(percentile(sorted, 99)).toBe(100)
+    expect(percentile([], 50)).toBeNull()
+  })
+})
+
+describe('parseHealthAlertSettings', () => {
+  it('fills in defaults', () => {
+    const result = parseHealthAlertSettings({ webhook_urls: ['https://hooks.example.com/a'] })
+    expect(result.ok && result.data).toEqual({ ...DEFAULT_HEALTH_ALERT_SETTINGS, webhook_urls: ['https://hooks.example.com/a'] })
+  })
+
+  it('rejects invalid settings', () => {
+    const cases: unknown[] = [
+      null,
+      { failure_threshold: 0 },
+      { recovery_threshold: 1.5 },
+      { webhook_urls: ['not a url'] },
+      { flap_threshold: 1 },
+      { flap_window_seconds: 10 },
+      { cooldown_seconds: 60 },
+    ]
+    for (const input of cases) {
+      const result = parseHealthAlertSettings(input)
+      expect(result.ok, JSON.stringify(input)).toBe(false)
+    }
+  })
+})
+
+describe('applyHealthCheck', () => {
+  const settings = { ...DEFAULT_HEALTH_ALERT_SETTINGS, failure_threshold: 2, recovery_threshold: 2, flap_threshold: 3 }
+  const start = Date.parse('2024-06-01T12:00:00.000Z')
+
+  // Apply checks one minute apart, returning every update
+  function run(state: HealthAlertState, results: boolean[], offsetMinutes = 0): HealthAlertUpdate[] {
+    return results.map((passed, i) => {
+      const update = applyHealthCheck(state, passed, new Date(start + (offsetMinutes + i) * 60000).toISOString(), settings)
+      state = update.state
+      return update
+    })
+  }
+
+  it('goes down after consecutive failures and recovers after consecutive passes', () => {
+    const updates = run(initialHealthAlertState('https://example.com'), [true, true, false, true, false, false, false, true, true])
+
+    expect(updates[1].state.state).toBe('up')
+    expect(updates.slice(0, 5).every((update) => update.change === null)).toBe(true)
+    expect(updates[5].change).toEqual({ from: 'up', to: 'down', duration_ms: null })
+    expect(updates[5].state.since).toBe('2024-06-01T12:04:00.000Z')
+    expect(updates[6].change).toBeNull()
+    expect(updates[7].change).toBeNull()
+    // Down from the first failure to the first pass
+    expect(updates[8].change).toEqual({ from: 'down', to: 'up', duration_ms: 3 * 60000 })
+  })
+
+  it('starts flapping after too many changes and stops once they age out of the window', () => {
+    const updates = run(initialHealthAlertState('https://example.com'), [false, false, true, true, false, false])
+    expect(updates.map((update) => update.change?.to ?? null)).toEqual([null, 'down', null, 'up', null, 'down'])
+    expect(updates[5].flapping).toBe('started')
+    expect(healthAlertEvents(updates[5])).toEqual(['down', 'flapping'])
+    expect(updates[5].state.flapping).toBe(true)
+
+    const later = run(updates[5].state, [false], 70)
+    expect(later[0].flapping).toBe('stopped')
+    expect(later[0].state).toMatchObject({ flapping: false, state: 'down', transitions: [] })
+  })
+})
+
+describe('describeHealthAlert', () => {
+  it('says what changed', () => {
+    const state = { ...initialHealthAlertState('https://example.com'), state: 'down' as const, failures: 3 }
+    const down = { state, change: { from: 'up' as const, to: 'down' as const, duration_ms: null }, flapping: null }
+    expect(describeHealthAlert('down', down, 'Status 503', DEFAULT_HEALTH_ALERT_SETTINGS)).toBe('https://example.com is down after 3 failed checks: Status 503')
+
+    const up = { state: { ...state, state: 'up' as const }, change: { from: 'down' as const, to: 'up' as const, duration_ms: 750000 }, flapping: null }
+    expect(describeHealthAlert('up', up, null, DEFAULT_HEALTH_ALERT_SETTINGS)).toBe('https://example.com is up again after 12m down')
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseHeartbeatInput,
+  parseHeartbeatPing,
+  createHeartbeatToken,
+  heartbeatTokenAppId,
+  heartbeatState,
+  nextHeartbeatDeadline,
+  describeHeartbeatChange,
+} from '../src/services/heartbeats'
+import type { HeartbeatMonitor } from '../src/types'
+
+const NOW = Date.parse('2024-06-01T12:00:00.000Z')
+
+function monitor(overrides: Partial<HeartbeatMonitor>): HeartbeatMonitor {
+  return {
+    id: 'hb-1',
+    name: 'nightly-sync',
+    token: 'token',
+    period_seconds: 3600,
+    grace_seconds: 300,
+    state: 'up',
+    created_at: '2024-06-01T00:00:00.000Z',
+    last_ping_at: '2024-06-01T11:30:00.000Z',
+    last_status: 'success',
+    last_duration_ms: 1500,
+    started_at: null,
+    next_due_at: '2024-06-01T12:30:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('parseHeartbeatInput', () => {
+  it('trims the name and defaults the grace time', () => {
+    const result = parseHeartbeatInput({ name: ' nightly-sync ', period_seconds: 86400 })
+    expect(result.ok && result.data).toEqual({ name: 'nightly-sync', period_seconds: 86400, grace_seconds: 300 })
+  })
+
+  it('rejects invalid monitors', () => {
+    const cases: unknown[] = [
+      null,
+      [],
+      { name: '', period_seconds: 3600 },
+      { name: 'job', period_seconds: 30 },
+      { name: 'job', period_seconds: 3600.5 },
+      { name: 'job', period_seconds: 3600, grace_seconds: -1 },
+      { name: 'job', period_seconds: 3600, schedule: '0 * * * *' },
+    ]
+    for (const input of cases) {
+      const result = parseHeartbeatInput(input)
+      expect(result.ok, JSON.stringify(input)).toBe(false)
+      if (!result.ok) {
+        expect(result.error.code).toBe('VALIDATION_ERROR')
+      }
+    }
+  })
+})
+
+describe('parseHeartbeatPing', () => {
+  it('treats an empty body as a successful run', () => {
+    expect(parseHeartbeatPing(null)).toEqual({ ok: true, data: { status: 'success', duration_ms: null } })
+    expect(parseHeartbeatPing({ status: 'fail', duration_ms: 2000 })).toEqual({ ok: true, data: { status: 'fail', duration_ms: 2000 } })
+  })
+
+  it('rejects unknown statuses and bad durations', () => {
+    expect(parseHeartbeatPing({ status: 'done' }).ok).toBe(false)
+    expect(parseHeartbeatPing({ duration_ms: -5 }).ok).toBe(false)
+    expect(parseHeartbeatPing('success').ok).toBe(false)
+  })
+})
+
+describe('heartbeat tokens', () => {
+  it('carry the app ID', () => {
+    const token = createHeartbeatToken('my-app')
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[0-9a-f]{32}$/)
+    expect(heartbeatTokenAppId(token)).toBe('my-app')
+    expect(createHeartbeatToken('my-app')).not.toBe(token)
+  })
+
+  it('are rejected when malformed', () => {
+    expect(heartbeatTokenAppId('my-app')).toBeNull()
+    expect(heartbeatTokenAppId('bXktYXBw.not-hex')).toBeNull()
+  })
+})
+
+describe('heartbeatState', () => {
+  it('goes late after the period and missing after the grace time', () => {
+    expect(heartbeatState(monitor({ last_ping_at: null }), NOW)).toBe('new')
+    expect(heartbeatState(monitor({}), NOW)).toBe('up')
+    expect(heartbeatState(monitor({ last_status: 'fail' }), NOW)).toBe('failed')
+    expect(heartbeatState(monitor({ next_due_at: '2024-06-01T11:58:00.000Z' }), NOW)).toBe('late')
+    expect(heartbeatState(monitor({ next_due_at: '2024-06-01T11:50:00.000Z', last_status: 'fail' }), NOW)).toBe('missing')
+  })
+})
+
+describe('nextHeartbeatDeadline', () => {
+  it('is just after the due time, then just after the grace time', () => {
+    expect(nextHeartbeatDeadline(monitor({}), NOW)).toBe(Date.parse('2024-06-01T12:30:00.000Z') + 1)
+    expect(nextHeartbeatDeadline(monitor({ next_due_at: '2024-06-01T11:58:00.000Z' }), NOW)).toBe(Date.parse('2024-06-01T12:03:00.000Z') + 1)
+    expect(nextHeartbeatDeadline(monitor({ next_due_at: '2024-06-01T11:50:00.000Z' }), NOW)).toBeNull()
+    expect(nextHeartbeatDeadline(monitor({ last_ping_at: null }), NOW)).toBeNull()
+  })
+})
+
+describe('describeHeartbeatChange', () => {
+  it('says what changed', () => {
+    expect(describeHeartbeatChange(monitor({ state: 'missing', last_ping_at: '2024-06-01T10:45:00.000Z' }), 'late', NOW))
+      .toBe("Heartbeat 'nightly-sync' is missing: last ping 1h 15m ago, expected every 1h")
+    expect(describeHeartbeatChange(monitor({ state: 'failed', last_duration_ms: 95000 }), 'up', NOW))
+      .toBe("Heartbeat 'nightly-sync' reported a failed run after 1m")
+    expect(describeHeartbeatChange(monitor({ state: 'up' }), 'missing', NOW))
+      .toBe("Heartbeat 'nightly-sync' is up again after being missing")
+  })
+})
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeAll } from 'vitest'
-import { env, SELF } from 'cloudflare:test'
+import { describe, it, expect, beforeAll, vi } from 'vitest'
+import { env, SELF, runDurableObjectAlarm, runInDurableObject } from 'cloudflare:test'
+import worker from '../src/index'
 
 describe('HTTP API Integration', () => {
   describe('Service info', () => {
@@ -215,6 +216,1119 @@ describe('HTTP API Integration', () => {
       expect(data.ok).toBe(true)
       expect(data.data.every((log) => log.level === 'ERROR')).toBe(true)
     })
+
+    it('GET /logs pages with next_cursor', async () => {
+      const headers = { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey }
+
+      const firstResponse = await SELF.fetch('https://example.com/logs?limit=1', { method: 'GET', headers })
+      const first = (await firstResponse.json()) as { ok: boolean; data: Array<{ id: string }>; next_cursor: string }
+      expect(first.ok).toBe(true)
+      expect(first.next_cursor).toEqual(expect.any(String))
+
+      const secondResponse = await SELF.fetch(`https://example.com/logs?limit=1&cursor=${first.next_cursor}`, {
+        method: 'GET',
+        headers,
+      })
+      const second = (await secondResponse.json()) as { ok: boolean; data: Array<{ id: string }> }
+      expect(second.ok).toBe(true)
+      expect(second.data).toHaveLength(1)
+      expect(second.data[0].id).not.toBe(first.data[0].id)
+
+      const badResponse = await SELF.fetch('https://example.com/logs?cursor=garbage', { method: 'GET', headers })
+      expect(badResponse.status).toBe(400)
+    })
+
+    it('GET /logs with a malformed search returns 400', async () => {
+      const response = await SELF.fetch(`https://example.com/logs?search=${encodeURIComponent('(timeout')}`, {
+        method: 'GET',
+        headers: {
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+      })
+      expect(response.status).toBe(400)
+
+      const data = (await response.json()) as { ok: boolean; error: { code: string } }
+      expect(data.ok).toBe(false)
+      expect(data.error.code).toBe('BAD_REQUEST')
+    })
+
+    it('GET /health/:app_id/summary summarizes each health check URL', async () => {
+      await SELF.fetch(`https://example.com/apps/${APP_ID}/health-urls`, {
+        method: 'POST',
+        headers: { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ urls: [{ url: 'https://example.com/health', interval_seconds: 60 }] }),
+      })
+
+      const unauthenticated = await SELF.fetch(`https://example.com/health/${APP_ID}/summary`)
+      expect(unauthenticated.status).toBe(400) // Missing X-App-ID
+
+      const otherApp = await SELF.fetch('https://example.com/health/api-keys-app/summary', {
+        headers: { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey },
+      })
+      expect(otherApp.status).toBe(403)
+
+      const response = await SELF.fetch(`https://example.com/health/${APP_ID}/summary`, {
+        headers: { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey },
+      })
+      expect(response.status).toBe(200)
+      const data = (await response.json()) as { ok: boolean; data: Array<{ url: string; uptime: Record<string, number | null> }> }
+      expect(data.ok).toBe(true)
+      expect(data.data).toHaveLength(1)
+      expect(data.data[0]).toMatchObject({ url: 'https://example.com/health', uptime: { '24h': null, '7d': null, '30d': null } })
+    })
+
+    it('PUT /apps/:app_id/health-secrets binds a secret to one app, for the admin only', async () => {
+      const body = JSON.stringify({ secrets: { HEALTH_TOKEN: 'status.example.com' } })
+      const withApiKey = await SELF.fetch(`https://example.com/apps/${APP_ID}/health-secrets`, {
+        method: 'PUT',
+        headers: { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey, 'Content-Type': 'application/json' },
+        body,
+      })
+      expect(withApiKey.status).toBe(401)
+
+      const adminHeaders = { 'X-Admin-Key': env.ADMIN_API_KEY, 'Content-Type': 'application/json' }
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/health-secrets`, {
+        method: 'PUT',
+        headers: adminHeaders,
+        body: JSON.stringify({ secrets: { ADMIN_API_KEY: 'status.example.com' } }),
+      })
+      expect(invalid.status).toBe(400)
+
+      const bound = await SELF.fetch(`https://example.com/apps/${APP_ID}/health-secrets`, { method: 'PUT', headers: adminHeaders, body })
+      expect(bound.status).toBe(200)
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/health-secrets`, { headers: adminHeaders })
+      expect(((await response.json()) as { data: Record<string, string> }).data).toEqual({ HEALTH_TOKEN: 'status.example.com' })
+
+      await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: 'health-secrets-other-app', name: 'Other' }),
+      })
+      const taken = await SELF.fetch('https://example.com/apps/health-secrets-other-app/health-secrets', {
+        method: 'PUT',
+        headers: adminHeaders,
+        body,
+      })
+      expect(taken.status).toBe(409)
+    })
+
+    it('PUT /apps/:app_id/health-alerts validates and stores alert settings', async () => {
+      const headers = { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey, 'Content-Type': 'application/json' }
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/health-alerts`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ failure_threshold: 0 }),
+      })
+      expect(invalid.status).toBe(400)
+
+      const saved = await SELF.fetch(`https://example.com/apps/${APP_ID}/health-alerts`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ failure_threshold: 5, webhook_urls: ['https://hooks.example.com/health'] }),
+      })
+      expect(saved.status).toBe(200)
+
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/health-alerts`, { headers })
+      const data = (await response.json()) as { ok: boolean; data: { settings: Record<string, unknown>; states: Array<{ url: string; state: string }> } }
+      expect(data.data.settings).toMatchObject({ failure_threshold: 5, recovery_threshold: 2, webhook_urls: ['https://hooks.example.com/health'] })
+      expect(data.data.states).toEqual([expect.objectContaining({ url: 'https://example.com/health', state: 'unknown' })])
+    })
+
+    it('POST /heartbeat/:token pings a monitor created through the API', async () => {
+      const headers = { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey, 'Content-Type': 'application/json' }
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/heartbeats`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: 'nightly-sync', period_seconds: 10 }),
+      })
+      expect(invalid.status).toBe(400)
+
+      const unknownApp = await SELF.fetch('https://example.com/apps/no-such-app/heartbeats', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ name: 'nightly-sync', period_seconds: 86400 }),
+      })
+      expect(unknownApp.status).toBe(404)
+
+      const created = await SELF.fetch(`https://example.com/apps/${APP_ID}/heartbeats`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ name: 'nightly-sync', period_seconds: 86400 }),
+      })
+      expect(created.status).toBe(201)
+      const { token } = ((await created.json()) as { data: { token: string } }).data
+
+      const emptyPing = await SELF.fetch(`https://example.com/heartbeat/${token}`, { method: 'POST' })
+      expect(emptyPing.status).toBe(200)
+      expect(((await emptyPing.json()) as { data: { state: string } }).data.state).toBe('up')
+
+      const failPing = await SELF.fetch(`https://example.com/heartbeat/${token}`, {
+        method: 'POST',
+        body: JSON.stringify({ status: 'fail', duration_ms: 1200 }),
+      })
+      expect(((await failPing.json()) as { data: { state: string } }).data.state).toBe('failed')
+
+      const badPing = await SELF.fetch(`https://example.com/heartbeat/${token}`, { method: 'POST', body: '{"status":"done"}' })
+      expect(badPing.status).toBe(400)
+      const unknown = await SELF.fetch(`https://example.com/heartbeat/${token.split('.')[0]}.${'f'.repeat(32)}`, { method: 'POST' })
+      expect(unknown.status).toBe(404)
+      const otherApp = await SELF.fetch(`https://example.com/heartbeat/bm8tc3VjaC1hcHA.${'0'.repeat(32)}`, { method: 'POST' })
+      expect(otherApp.status).toBe(404)
+
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/heartbeats`, { headers })
+      const data = (await response.json()) as { data: Array<{ name: string; state: string; last_duration_ms: number }> }
+      expect(data.data).toEqual([expect.objectContaining({ name: 'nightly-sync', state: 'failed', last_duration_ms: 1200 })])
+    })
+
+    it('GET /status shows apps put on the status page with their incident notes', async () => {
+      const headers = { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY }
+      const empty = await SELF.fetch('https://example.com/status.json')
+      expect(empty.status).toBe(404)
+
+      const forbidden = await SELF.fetch(`https://example.com/apps/${APP_ID}/status-page`, {
+        method: 'PUT',
+        headers: { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ targets: [] }),
+      })
+      expect(forbidden.status).toBe(401)
+
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/status-page`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ targets: [{ url: 'https://example.com/private', label: 'Private' }] }),
+      })
+      expect(invalid.status).toBe(400)
+
+      const saved = await SELF.fetch(`https://example.com/apps/${APP_ID}/status-page`, {
+        method: 'PUT',
+        headers,
+        body: JSON.stringify({ name: 'Storefront', targets: [{ url: 'https://example.com/health', label: 'Website' }] }),
+      })
+      expect(saved.status).toBe(200)
+
+      const created = await SELF.fetch(`https://example.com/apps/${APP_ID}/status-page/notes`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ title: 'Slow checkout', message: 'We are looking into slow checkouts' }),
+      })
+      expect(created.status).toBe(201)
+      const note = ((await created.json()) as { data: { id: string } }).data
+
+      const missing = await SELF.fetch(`https://example.com/apps/${APP_ID}/status-page/notes/no-such-note`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ status: 'resolved' }),
+      })
+      expect(missing.status).toBe(404)
+
+      const response = await SELF.fetch('https://example.com/status.json')
+      expect(response.status).toBe(200)
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=60')
+      const page = (await response.json()) as { data: { updated_at: string; apps: Array<{ id: string; name: string; targets: Array<Record<string, unknown>>; notes: Array<{ id: string }> }> } }
+      expect(page.data.apps).toHaveLength(1)
+      expect(page.data.apps[0]).toMatchObject({ id: APP_ID, name: 'Storefront', notes: [{ id: note.id }] })
+      expect(page.data.apps[0].targets).toEqual([expect.objectContaining({ label: 'Website', status: 'unknown' })])
+      expect(page.data.apps[0].targets[0]).not.toHaveProperty('url')
+      const again = await SELF.fetch('https://example.com/status.json?refresh=1')
+      expect(((await again.json()) as { data: { updated_at: string } }).data.updated_at).toBe(page.data.updated_at)
+
+      const html = await SELF.fetch('https://example.com/status')
+      expect(html.status).toBe(200)
+      const body = await html.text()
+      expect(body).toContain('Active incidents')
+      expect(body).toContain('Slow checkout')
+      expect(body).not.toContain('https://example.com/health')
+
+      const resolved = await SELF.fetch(`https://example.com/apps/${APP_ID}/status-page/notes/${note.id}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ status: 'resolved' }),
+      })
+      expect(((await resolved.json()) as { data: { resolved_at: string | null } }).data.resolved_at).toEqual(expect.any(String))
+      expect(await (await SELF.fetch('https://example.com/status')).text()).toContain('Recently resolved')
+    })
+
+    it('GET /logs filters with the query language and reports syntax errors', async () => {
+      const headers = { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey }
+      const response = await SELF.fetch(`https://example.com/logs?q=${encodeURIComponent('level:>=WARN since:-1h')}`, { headers })
+      expect(response.status).toBe(200)
+      const data = (await response.json()) as { ok: boolean; data: Array<{ level: string }> }
+      expect(data.ok).toBe(true)
+      expect(data.data.every((e) => e.level === 'WARN' || e.level === 'ERROR')).toBe(true)
+
+      const badResponse = await SELF.fetch(`https://example.com/logs?q=${encodeURIComponent('level:LOUD')}`, { headers })
+      expect(badResponse.status).toBe(400)
+      const bad = (await badResponse.json()) as { ok: boolean; error: { code: string; details: { position: number; length: number } } }
+      expect(bad.error.code).toBe('BAD_REQUEST')
+      expect(bad.error.details).toEqual({ position: 0, length: 10 })
+    })
+  })
+
+  describe('API keys', () => {
+    const APP_ID = 'api-keys-app'
+    const adminHeaders = { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY }
+
+    type CreatedKey = { id: string; api_key: string; prefix: string; scopes: string[]; expires_at: string | null }
+
+    async function createKey(body: Record<string, unknown>): Promise<CreatedKey> {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys`, {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify(body),
+      })
+      expect(response.status).toBe(201)
+      return ((await response.json()) as { data: CreatedKey }).data
+    }
+
+    function writeLog(apiKey: string) {
+      return SELF.fetch('https://example.com/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-App-ID': APP_ID, 'X-Api-Key': apiKey },
+        body: JSON.stringify({ level: 'INFO', message: 'Scoped write' }),
+      })
+    }
+
+    beforeAll(async () => {
+      await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: APP_ID, name: 'API Keys App' }),
+      })
+    })
+
+    it('POST /apps/:app_id/keys requires the admin key and validates scopes', async () => {
+      const unauthorized = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label: 'CI', scopes: ['logs:write'] }),
+      })
+      expect(unauthorized.status).toBe(401)
+
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys`, {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ label: 'CI', scopes: ['logs:everything'] }),
+      })
+      expect(invalid.status).toBe(400)
+    })
+
+    it('enforces scopes per route', async () => {
+      const reader = await createKey({ label: 'Reader', scopes: ['logs:read'] })
+
+      const write = await writeLog(reader.api_key)
+      expect(write.status).toBe(403)
+
+      const read = await SELF.fetch('https://example.com/logs', {
+        headers: { 'X-App-ID': APP_ID, 'X-Api-Key': reader.api_key },
+      })
+      expect(read.status).toBe(200)
+
+      const prune = await SELF.fetch(`https://example.com/apps/${APP_ID}/prune`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-App-ID': APP_ID, 'X-Api-Key': reader.api_key },
+        body: JSON.stringify({ before: new Date().toISOString() }),
+      })
+      expect(prune.status).toBe(403)
+    })
+
+    it('GET /apps/:app_id/keys lists keys without secrets', async () => {
+      const writer = await createKey({ label: 'Writer', scopes: ['logs:write'] })
+      expect((await writeLog(writer.api_key)).status).toBe(200)
+
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys`, { headers: adminHeaders })
+      const data = (await response.json()) as { data: Array<Record<string, unknown>> }
+      const listed = data.data.find((key) => key.id === writer.id)
+      expect(listed).toMatchObject({ label: 'Writer', scopes: ['logs:write'], expires_at: null })
+      expect(listed?.last_used_at).toEqual(expect.any(String))
+      expect(data.data.every((key) => !('key' in key) && !('api_key' in key))).toBe(true)
+    })
+
+    it('rotating keeps the old key working for the grace period', async () => {
+      const original = await createKey({ label: 'Rotating', scopes: ['logs:write'] })
+
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys/${original.id}/rotate`, {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ grace_seconds: 3600 }),
+      })
+      expect(response.status).toBe(201)
+      const rotated = ((await response.json()) as { data: CreatedKey }).data
+      expect(rotated.id).not.toBe(original.id)
+      expect(rotated.scopes).toEqual(['logs:write'])
+
+      expect((await writeLog(original.api_key)).status).toBe(200)
+      expect((await writeLog(rotated.api_key)).status).toBe(200)
+
+      // A second rotation without grace cuts the previous key off
+      await SELF.fetch(`https://example.com/apps/${APP_ID}/keys/${rotated.id}/rotate`, {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ grace_seconds: 0 }),
+      })
+      expect((await writeLog(rotated.api_key)).status).toBe(401)
+    })
+
+    it('DELETE /apps/:app_id/keys/:key_id revokes a key', async () => {
+      const key = await createKey({ label: 'Revoked', scopes: ['logs:write'] })
+
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys/${key.id}`, {
+        method: 'DELETE',
+        headers: adminHeaders,
+      })
+      expect(response.status).toBe(200)
+      expect((await writeLog(key.api_key)).status).toBe(401)
+
+      const missing = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys/${key.id}`, {
+        method: 'DELETE',
+        headers: adminHeaders,
+      })
+      expect(missing.status).toBe(404)
+    })
+
+    it('keeps legacy single keys working until the key list is changed', async () => {
+      await env.LOGS_KV.put('app:legacy-key-app', JSON.stringify({
+        name: 'Legacy',
+        health_urls: [],
+        created_at: '2024-01-01T00:00:00.000Z',
+        api_key: 'legacy-secret',
+      }))
+      const headers = { 'Content-Type': 'application/json', 'X-App-ID': 'legacy-key-app', 'X-Api-Key': 'legacy-secret' }
+      const write = () => SELF.fetch('https://example.com/logs', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ level: 'INFO', message: 'Legacy write' }),
+      })
+      expect((await write()).status).toBe(200)
+
+      // First use hashes the stored secret
+      const hashed = await env.LOGS_KV.get('app:legacy-key-app')
+      expect(hashed).not.toContain('legacy-secret')
+      expect((await write()).status).toBe(200)
+
+      const response = await SELF.fetch('https://example.com/apps/legacy-key-app/keys/default/rotate', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ grace_seconds: 0 }),
+      })
+      expect(response.status).toBe(201)
+      expect((await write()).status).toBe(401)
+
+      const config = await env.LOGS_KV.get('app:legacy-key-app', 'json') as Record<string, unknown>
+      expect(config.api_key).toBeUndefined()
+      expect(config.api_keys).toHaveLength(1)
+    })
+
+    it('stores new keys hashed, with only a prefix visible', async () => {
+      const key = await createKey({ label: 'Hashed', scopes: ['logs:read'] })
+      expect(key).toMatchObject({ prefix: key.api_key.slice(0, 8) })
+
+      const stored = await env.LOGS_KV.get(`app:${APP_ID}`)
+      expect(stored).not.toContain(key.api_key)
+    })
+
+    it('POST /apps/migrate-keys hashes plaintext keys of unused apps', async () => {
+      await env.LOGS_KV.put('app:unused-legacy-app', JSON.stringify({
+        name: 'Unused Legacy',
+        health_urls: [],
+        created_at: '2024-01-01T00:00:00.000Z',
+        api_key: 'unused-legacy-secret',
+      }))
+      const apps = await env.LOGS_KV.get('apps', 'json') as string[] | null
+      await env.LOGS_KV.put('apps', JSON.stringify([...(apps ?? []), 'unused-legacy-app']))
+
+      const unauthorized = await SELF.fetch('https://example.com/apps/migrate-keys', { method: 'POST' })
+      expect(unauthorized.status).toBe(401)
+
+      const response = await SELF.fetch('https://example.com/apps/migrate-keys', {
+        method: 'POST',
+        headers: adminHeaders,
+      })
+      expect(response.status).toBe(200)
+      const data = (await response.json()) as { data: { migrated: string[] } }
+      expect(data.data.migrated).toContain('unused-legacy-app')
+      expect(await env.LOGS_KV.get('app:unused-legacy-app')).not.toContain('unused-legacy-secret')
+
+      const read = await SELF.fetch('https://example.com/logs', {
+        headers: { 'X-App-ID': 'unused-legacy-app', 'X-Api-Key': 'unused-legacy-secret' },
+      })
+      expect(read.status).toBe(200)
+    })
+  })
+
+  describe('Dashboard sessions', () => {
+    async function login(): Promise<string> {
+      const response = await SELF.fetch('https://example.com/dashboard/login', {
+        method: 'POST',
+        body: new URLSearchParams({ admin_key: env.ADMIN_API_KEY! }),
+        redirect: 'manual',
+      })
+      expect(response.status).toBe(302)
+      const cookie = response.headers.get('Set-Cookie') ?? ''
+      const match = cookie.match(/wl_session=([0-9a-f]+)/)
+      expect(match).not.toBeNull()
+      return match![1]
+    }
+
+    function getApps(sessionId: string) {
+      return SELF.fetch('https://example.com/dashboard/api/apps', {
+        headers: { Cookie: `wl_session=${sessionId}` },
+      })
+    }
+
+    async function sessionKey(sessionId: string): Promise<string> {
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(sessionId))
+      return 'session:' + Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+    }
+
+    it('issues a distinct random session per login', async () => {
+      const first = await login()
+      const second = await login()
+      expect(first).not.toBe(second)
+      expect((await getApps(first)).status).toBe(200)
+      expect((await getApps(second)).status).toBe(200)
+    })
+
+    it('rejects the old admin key hash cookie', async () => {
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(env.ADMIN_API_KEY!))
+      const legacy = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+      expect((await getApps(legacy)).status).toBe(401)
+    })
+
+    it('logout invalidates the session server-side', async () => {
+      const sessionId = await login()
+      const get = await SELF.fetch('https://example.com/dashboard/logout', {
+        headers: { Cookie: `wl_session=${sessionId}` },
+        redirect: 'manual',
+      })
+      expect(get.status).toBe(404)
+      expect((await getApps(sessionId)).status).toBe(200)
+
+      await SELF.fetch('https://example.com/dashboard/logout', {
+        method: 'POST',
+        headers: { Cookie: `wl_session=${sessionId}` },
+        redirect: 'manual',
+      })
+      expect((await getApps(sessionId)).status).toBe(401)
+    })
+
+    it('extends active sessions and rejects expired ones', async () => {
+      const now = Date.now()
+      await env.LOGS_KV.put(await sessionKey('renew-me'), JSON.stringify({
+        created_at: new Date(now - 2 * 3600_000).toISOString(),
+        expires_at: new Date(now + 3600_000).toISOString(),
+        renewed_at: new Date(now - 2 * 3600_000).toISOString(),
+      }))
+      expect((await getApps('renew-me')).status).toBe(200)
+      const renewed = await env.LOGS_KV.get(await sessionKey('renew-me'), 'json') as { expires_at: string }
+      expect(Date.parse(renewed.expires_at)).toBeGreaterThan(now + 20 * 3600_000)
+
+      await env.LOGS_KV.put(await sessionKey('expired'), JSON.stringify({
+        created_at: new Date(now - 3 * 86400_000).toISOString(),
+        expires_at: new Date(now - 1000).toISOString(),
+        renewed_at: new Date(now - 2 * 86400_000).toISOString(),
+      }))
+      expect((await getApps('expired')).status).toBe(401)
+    })
+
+    it('log out all sessions ends every session', async () => {
+      const first = await login()
+      const second = await login()
+
+      const response = await SELF.fetch('https://example.com/dashboard/logout-all', {
+        method: 'POST',
+        headers: { Cookie: `wl_session=${first}` },
+        redirect: 'manual',
+      })
+      expect(response.status).toBe(302)
+      expect((await getApps(first)).status).toBe(401)
+      expect((await getApps(second)).status).toBe(401)
+    })
+  })
+
+  describe('Dashboard users', () => {
+    const APP_A = 'users-test-app-a'
+    const APP_B = 'users-test-app-b'
+    const PASSWORD = 'correct-horse-battery'
+
+    function putUser(username: string, body: unknown, adminKey: string | null = env.ADMIN_API_KEY) {
+      return SELF.fetch(`https://example.com/users/${username}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...(adminKey ? { 'X-Admin-Key': adminKey } : {}) },
+        body: JSON.stringify(body),
+      })
+    }
+
+    async function login(username: string, password: string = PASSWORD): Promise<string | null> {
+      const response = await SELF.fetch('https://example.com/dashboard/login', {
+        method: 'POST',
+        body: new URLSearchParams({ username, password }),
+        redirect: 'manual',
+      })
+      const match = (response.headers.get('Set-Cookie') ?? '').match(/wl_session=([0-9a-f]+)/)
+      return response.status === 302 && match ? match[1] : null
+    }
+
+    function dashboardFetch(sessionId: string, path: string, init: RequestInit = {}) {
+      return SELF.fetch(`https://example.com/dashboard${path}`, {
+        ...init,
+        headers: { Cookie: `wl_session=${sessionId}`, 'Content-Type': 'application/json' },
+        redirect: 'manual',
+      })
+    }
+
+    beforeAll(async () => {
+      for (const appId of [APP_A, APP_B]) {
+        await SELF.fetch('https://example.com/apps', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+          body: JSON.stringify({ app_id: appId, name: appId }),
+        })
+      }
+    })
+
+    it('managing users requires the admin key', async () => {
+      const response = await putUser('nobody', { role: 'viewer', password: PASSWORD }, null)
+      expect(response.status).toBe(401)
+    })
+
+    it('creates and updates users without returning password hashes', async () => {
+      const created = await putUser('Jamie', { role: 'viewer', apps: [APP_A], password: PASSWORD })
+      expect(created.status).toBe(201)
+      const data = (await created.json()) as { data: Record<string, unknown> }
+      expect(data.data.username).toBe('jamie')
+      expect(data.data.password_hash).toBeUndefined()
+
+      const updated = await putUser('jamie', { role: 'viewer', apps: [APP_A] })
+      expect(updated.status).toBe(200)
+
+      const missingPassword = await putUser('no-password', { role: 'viewer' })
+      expect(missingPassword.status).toBe(400)
+
+      const list = await SELF.fetch('https://example.com/users', { headers: { 'X-Admin-Key': env.ADMIN_API_KEY } })
+      const users = (await list.json()) as { data: Array<{ username: string }> }
+      expect(users.data.map((u) => u.username)).toContain('jamie')
+    })
+
+    it('rejects a wrong password', async () => {
+      await putUser('wrong-pw', { role: 'viewer', password: PASSWORD })
+      expect(await login('wrong-pw', 'not-the-password')).toBeNull()
+    })
+
+    it('viewers only see their apps and cannot change anything', async () => {
+      await putUser('viewer-a', { role: 'viewer', apps: [APP_A], password: PASSWORD })
+      const sessionId = (await login('viewer-a'))!
+      expect(sessionId).not.toBeNull()
+
+      const apps = (await (await dashboardFetch(sessionId, '/api/apps')).json()) as { data: string[] }
+      expect(apps.data).toEqual([APP_A])
+
+      expect((await dashboardFetch(sessionId, `/api/logs/${APP_A}`)).status).toBe(200)
+      expect((await dashboardFetch(sessionId, `/api/logs/${APP_B}`)).status).toBe(403)
+
+      const prune = await dashboardFetch(sessionId, `/api/prune/${APP_A}`, {
+        method: 'POST',
+        body: JSON.stringify({ before: new Date().toISOString() }),
+      })
+      expect(prune.status).toBe(403)
+
+      const triage = await dashboardFetch(sessionId, `/api/issues/${APP_A}/some-issue`, {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'resolved' }),
+      })
+      expect(triage.status).toBe(403)
+
+      expect((await dashboardFetch(sessionId, '/logout-all', { method: 'POST' })).status).toBe(403)
+    })
+
+    it('operators can prune and edit health URLs', async () => {
+      await putUser('operator-a', { role: 'operator', apps: [APP_A], password: PASSWORD })
+      const sessionId = (await login('operator-a'))!
+
+      const prune = await dashboardFetch(sessionId, `/api/prune/${APP_A}`, {
+        method: 'POST',
+        body: JSON.stringify({ before: '2000-01-01T00:00:00.000Z' }),
+      })
+      expect(prune.status).toBe(200)
+
+      const healthUrls = await dashboardFetch(sessionId, `/api/health-urls/${APP_A}`, {
+        method: 'PUT',
+        body: JSON.stringify({ urls: ['https://example.com/health'] }),
+      })
+      expect(healthUrls.status).toBe(200)
+
+      const invalid = await dashboardFetch(sessionId, `/api/health-urls/${APP_A}`, {
+        method: 'PUT',
+        body: JSON.stringify({ urls: ['not a url'] }),
+      })
+      expect(invalid.status).toBe(400)
+
+      const otherApp = await dashboardFetch(sessionId, `/api/prune/${APP_B}`, {
+        method: 'POST',
+        body: JSON.stringify({ before: '2000-01-01T00:00:00.000Z' }),
+      })
+      expect(otherApp.status).toBe(403)
+    })
+
+    it('deleting a user ends their sessions', async () => {
+      await putUser('leaver', { role: 'viewer', password: PASSWORD })
+      const sessionId = (await login('leaver'))!
+      expect((await dashboardFetch(sessionId, '/api/apps')).status).toBe(200)
+
+      const deleted = await SELF.fetch('https://example.com/users/leaver', {
+        method: 'DELETE',
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      expect(deleted.status).toBe(200)
+      expect((await dashboardFetch(sessionId, '/api/apps')).status).toBe(401)
+
+      const again = await SELF.fetch('https://example.com/users/leaver', {
+        method: 'DELETE',
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      expect(again.status).toBe(404)
+    })
+  })
+
+  describe('Audit log', () => {
+    const APP_ID = 'audit-test-app'
+    let apiKey: string
+
+    type AuditResponse = {
+      ok: boolean
+      data: {
+        entries: Array<{ action: string; app_id: string | null; actor: { type: string; id: string | null }; before: unknown; after: unknown; request: { method: string; path: string } }>
+        next_cursor: string | null
+      }
+    }
+
+    async function getAudit(query: string): Promise<AuditResponse> {
+      const response = await SELF.fetch(`https://example.com/audit?${query}`, {
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      expect(response.status).toBe(200)
+      return (await response.json()) as AuditResponse
+    }
+
+    beforeAll(async () => {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ app_id: APP_ID, name: 'Audit Test App' }),
+      })
+      const data = (await response.json()) as { data: { api_key: string } }
+      apiKey = data.data.api_key
+    })
+
+    it('GET /audit requires the admin key', async () => {
+      const response = await SELF.fetch('https://example.com/audit')
+      expect(response.status).toBe(401)
+    })
+
+    it('records app registration by the admin key', async () => {
+      const audit = await getAudit(`app_id=${APP_ID}&action=app.register`)
+      expect(audit.data.entries).toHaveLength(1)
+      const [entry] = audit.data.entries
+      expect(entry.actor).toEqual({ type: 'admin_key', id: null })
+      expect(entry.request).toMatchObject({ method: 'POST', path: '/apps' })
+      expect(entry.after).toMatchObject({ name: 'Audit Test App' })
+      expect(JSON.stringify(entry)).not.toContain(apiKey)
+    })
+
+    it('records the API key that pruned and the health URL change', async () => {
+      await SELF.fetch(`https://example.com/apps/${APP_ID}/prune`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-App-ID': APP_ID, 'X-Api-Key': apiKey },
+        body: JSON.stringify({ before: '2000-01-01T00:00:00.000Z' }),
+      })
+      await SELF.fetch(`https://example.com/apps/${APP_ID}/health-urls`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ urls: ['https://example.com/health'] }),
+      })
+
+      const prune = await getAudit(`app_id=${APP_ID}&action=app.prune`)
+      const keys = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys`, { headers: { 'X-Admin-Key': env.ADMIN_API_KEY } })
+      const [key] = ((await keys.json()) as { data: Array<{ id: string }> }).data
+      expect(prune.data.entries[0].actor).toEqual({ type: 'api_key', id: key.id })
+      expect(prune.data.entries[0].after).toEqual({ before: '2000-01-01T00:00:00.000Z', deleted: 0 })
+
+      const health = await getAudit(`app_id=${APP_ID}&action=app.health_urls`)
+      expect(health.data.entries[0].before).toEqual([])
+      expect(health.data.entries[0].after).toEqual(['https://example.com/health'])
+    })
+
+    it('records health alert webhooks by origin only', async () => {
+      await SELF.fetch(`https://example.com/apps/${APP_ID}/health-alerts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ webhook_urls: ['https://hooks.example.com/services/T000/B000/s3cret?token=abc'] }),
+      })
+
+      const audit = await getAudit(`app_id=${APP_ID}&action=app.health_alerts`)
+      expect(audit.data.entries[0].after).toEqual({ webhook_urls: ['https://hooks.example.com'] })
+      expect(JSON.stringify(audit.data)).not.toContain('s3cret')
+    })
+
+    it('records key changes without secrets', async () => {
+      const created = await SELF.fetch(`https://example.com/apps/${APP_ID}/keys`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ label: 'audited', scopes: ['logs:read'] }),
+      })
+      const key = ((await created.json()) as { data: { id: string; api_key: string } }).data
+      await SELF.fetch(`https://example.com/apps/${APP_ID}/keys/${key.id}`, {
+        method: 'DELETE',
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+
+      const audit = await getAudit(`app_id=${APP_ID}&action=key.`)
+      expect(audit.data.entries.map((entry) => entry.action)).toEqual(['key.revoke', 'key.create'])
+      expect(JSON.stringify(audit.data)).not.toContain(key.api_key)
+    })
+
+    it('records dashboard logins, including failures', async () => {
+      await SELF.fetch('https://example.com/dashboard/login', {
+        method: 'POST',
+        body: new URLSearchParams({ admin_key: 'wrong-key' }),
+        redirect: 'manual',
+      })
+      await SELF.fetch('https://example.com/dashboard/login', {
+        method: 'POST',
+        body: new URLSearchParams({ admin_key: env.ADMIN_API_KEY }),
+        redirect: 'manual',
+      })
+
+      const failed = await getAudit('action=dashboard.login_failed')
+      expect(failed.data.entries[0].actor.type).toBe('anonymous')
+      const login = await getAudit('action=dashboard.login')
+      expect(login.data.entries[0].actor).toEqual({ type: 'admin_key', id: null })
+    })
+
+    it('pages with a cursor', async () => {
+      const first = await getAudit(`app_id=${APP_ID}&limit=2`)
+      expect(first.data.entries).toHaveLength(2)
+      expect(first.data.next_cursor).not.toBeNull()
+
+      const second = await getAudit(`app_id=${APP_ID}&limit=2&cursor=${first.data.next_cursor}`)
+      const firstIds = first.data.entries.map((entry) => JSON.stringify(entry))
+      expect(second.data.entries.length).toBeGreaterThan(0)
+      expect(second.data.entries.some((entry) => firstIds.includes(JSON.stringify(entry)))).toBe(false)
+
+      const invalid = await SELF.fetch('https://example.com/audit?cursor=not-a-cursor', {
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      expect(invalid.status).toBe(400)
+    })
+  })
+
+  describe('OTLP ingestion', () => {
+    const APP_ID = 'otlp-test-app'
+    let apiKey: string
+
+    function exportRequest(serviceName?: string) {
+      return {
+        resourceLogs: [{
+          resource: serviceName ? { attributes: [{ key: 'service.name', value: { stringValue: serviceName } }] } : {},
+          scopeLogs: [{
+            logRecords: [
+              { severityText: 'ERROR', body: { stringValue: 'OTLP error' }, traceId: '5b8efff798038103d269b633813fc60c' },
+              { severityNumber: 9, body: { stringValue: 'OTLP info' } },
+            ],
+          }],
+        }],
+      }
+    }
+
+    beforeAll(async () => {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': env.ADMIN_API_KEY,
+        },
+        body: JSON.stringify({ app_id: APP_ID, name: 'OTLP Test App' }),
+      })
+      const data = (await response.json()) as { data: { api_key: string } }
+      apiKey = data.data.api_key
+    })
+
+    it('POST /v1/logs resolves the app from service.name', async () => {
+      const response = await SELF.fetch('https://example.com/v1/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+        body: JSON.stringify(exportRequest(APP_ID)),
+      })
+      expect(response.status).toBe(200)
+      expect(await response.json()).toEqual({})
+
+      const logsResponse = await SELF.fetch('https://example.com/logs?request_id=5b8efff798038103d269b633813fc60c', {
+        headers: { 'X-App-ID': APP_ID, 'X-Api-Key': apiKey },
+      })
+      const logs = (await logsResponse.json()) as { data: Array<{ level: string; message: string }> }
+      expect(logs.data).toHaveLength(1)
+      expect(logs.data[0]).toMatchObject({ level: 'ERROR', message: 'OTLP error' })
+    })
+
+    it('POST /v1/logs accepts gzip bodies and X-App-ID', async () => {
+      const compressed = new Response(
+        new Blob([JSON.stringify(exportRequest())]).stream().pipeThrough(new CompressionStream('gzip'))
+      )
+      const response = await SELF.fetch('https://example.com/v1/logs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Encoding': 'gzip',
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+        body: await compressed.arrayBuffer(),
+      })
+      expect(response.status).toBe(200)
+    })
+
+    it('POST /v1/logs rejects protobuf, unknown apps and bad keys', async () => {
+      const protobuf = await SELF.fetch('https://example.com/v1/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-protobuf', 'X-Api-Key': apiKey },
+        body: new Uint8Array([0]),
+      })
+      expect(protobuf.status).toBe(415)
+
+      const noApp = await SELF.fetch('https://example.com/v1/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Api-Key': apiKey },
+        body: JSON.stringify(exportRequest()),
+      })
+      expect(noApp.status).toBe(400)
+
+      const badKey = await SELF.fetch('https://example.com/v1/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Api-Key': 'wrong' },
+        body: JSON.stringify(exportRequest(APP_ID)),
+      })
+      expect(badKey.status).toBe(401)
+    })
+
+    it('POST /v1/logs checks X-App-ID keys before reading the body and caps its size', async () => {
+      const badKey = await SELF.fetch('https://example.com/v1/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-App-ID': APP_ID, 'X-Api-Key': 'wrong' },
+        body: 'not json',
+      })
+      expect(badKey.status).toBe(401)
+
+      const bomb = new Response(
+        new Blob([' '.repeat(11 * 1024 * 1024)]).stream().pipeThrough(new CompressionStream('gzip'))
+      )
+      const response = await SELF.fetch('https://example.com/v1/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Content-Encoding': 'gzip', 'X-Api-Key': apiKey },
+        body: await bomb.arrayBuffer(),
+      })
+      expect(response.status).toBe(413)
+    })
+  })
+
+  describe('Tail Worker', () => {
+    const APP_ID = 'tail-consumer-app'
+
+    function traceItem(scriptName: string, message: string): TraceItem {
+      return {
+        scriptName,
+        outcome: 'ok',
+        event: null,
+        eventTimestamp: Date.now(),
+        logs: [{ timestamp: Date.now(), level: 'error', message: [message] }],
+        exceptions: [],
+        diagnosticsChannelEvents: [],
+        executionModel: 'stateless',
+        truncated: false,
+        cpuTime: 1,
+        wallTime: 1,
+      }
+    }
+
+    beforeAll(async () => {
+      await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': env.ADMIN_API_KEY,
+        },
+        body: JSON.stringify({ app_id: APP_ID, name: 'Tail Consumer App' }),
+      })
+    })
+
+    it('PUT /apps/:app_id/tail-scripts requires the admin key and validates', async () => {
+      const unauthorized = await SELF.fetch(`https://example.com/apps/${APP_ID}/tail-scripts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scripts: ['checkout-worker'] }),
+      })
+      expect(unauthorized.status).toBe(401)
+
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/tail-scripts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ scripts: 'checkout-worker' }),
+      })
+      expect(invalid.status).toBe(400)
+    })
+
+    it('routes events from mapped scripts to the app and drops unknown ones', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/tail-scripts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ scripts: ['checkout-worker'] }),
+      })
+      expect(response.status).toBe(200)
+
+      const getResponse = await SELF.fetch(`https://example.com/apps/${APP_ID}/tail-scripts`, {
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      const scripts = (await getResponse.json()) as { data: string[] }
+      expect(scripts.data).toEqual(['checkout-worker'])
+
+      await worker.tail(
+        [traceItem('checkout-worker', 'Tailed error'), traceItem('unknown-worker', 'Dropped')],
+        env
+      )
+
+      const stub = env.APP_LOGS_DO.get(env.APP_LOGS_DO.idFromName(APP_ID))
+      const logsResponse = await stub.fetch(new Request('http://do/logs', { method: 'GET' }))
+      const logs = (await logsResponse.json()) as { data: Array<{ level: string; message: string; context: { script: string } }> }
+      expect(logs.data).toHaveLength(1)
+      expect(logs.data[0]).toMatchObject({ level: 'ERROR', message: 'Tailed error', context: { script: 'checkout-worker' } })
+    })
+
+    it('PUT /apps/:app_id/tail-scripts rejects scripts owned by another app', async () => {
+      await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ app_id: 'tail-other-app', name: 'Other' }),
+      })
+
+      const response = await SELF.fetch('https://example.com/apps/tail-other-app/tail-scripts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ scripts: ['checkout-worker'] }),
+      })
+      expect(response.status).toBe(409)
+    })
+
+    it('logs failed writes without failing the whole batch', async () => {
+      const errors = vi.spyOn(console, 'error').mockImplementation(() => {})
+      const failing = {
+        ...env,
+        APP_LOGS_DO: {
+          idFromName: (name: string) => env.APP_LOGS_DO.idFromName(name),
+          get: () => ({ fetch: () => Promise.reject(new Error('DO unavailable')) }),
+        },
+      } as unknown as typeof env
+
+      await expect(worker.tail([traceItem('checkout-worker', 'Lost')], failing)).resolves.toBeUndefined()
+      expect(errors).toHaveBeenCalledWith(`Tail: failed to write entries for '${APP_ID}': DO unavailable`)
+      errors.mockRestore()
+    })
+
+    it('caches unmapped scripts until they are mapped or an app is registered for them', async () => {
+      await worker.tail([traceItem('late-worker', 'Dropped'), traceItem('tail-late-app', 'Dropped')], env)
+      expect(await env.LOGS_KV.get('script:late-worker')).toBe('')
+      expect(await env.LOGS_KV.get('script:tail-late-app')).toBe('')
+
+      await SELF.fetch(`https://example.com/apps/${APP_ID}/tail-scripts`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ scripts: ['checkout-worker', 'late-worker'] }),
+      })
+      await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ app_id: 'tail-late-app', name: 'Late' }),
+      })
+      await worker.tail([traceItem('late-worker', 'Mapped late'), traceItem('tail-late-app', 'Registered late')], env)
+
+      for (const [appId, message] of [[APP_ID, 'Mapped late'], ['tail-late-app', 'Registered late']]) {
+        const stub = env.APP_LOGS_DO.get(env.APP_LOGS_DO.idFromName(appId))
+        const logsResponse = await stub.fetch(new Request('http://do/logs', { method: 'GET' }))
+        const logs = (await logsResponse.json()) as { data: Array<{ message: string }> }
+        expect(logs.data[0].message).toBe(message)
+      }
+    })
+  })
+
+  describe('Live tail', () => {
+    const APP_ID = 'tail-test-app'
+    let apiKey: string
+
+    beforeAll(async () => {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': env.ADMIN_API_KEY,
+        },
+        body: JSON.stringify({ app_id: APP_ID, name: 'Tail Test App' }),
+      })
+      const data = (await response.json()) as { data: { api_key: string } }
+      apiKey = data.data.api_key
+    })
+
+    it('GET /apps/:app_id/tail without upgrade returns 426', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/tail`, {
+        headers: {
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+      })
+      expect(response.status).toBe(426)
+    })
+
+    it('GET /apps/:app_id/tail streams matching entries', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/tail?level=ERROR`, {
+        headers: {
+          'Upgrade': 'websocket',
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+      })
+      expect(response.status).toBe(101)
+
+      const ws = response.webSocket!
+      const messages: Array<{ type: string; data: unknown }> = []
+      const received = new Promise<void>((resolve) => {
+        ws.addEventListener('message', (event) => {
+          const message = JSON.parse(event.data as string)
+          messages.push(message)
+          if (message.type === 'logs') resolve()
+        })
+      })
+      ws.accept()
+
+      await SELF.fetch('https://example.com/logs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+        body: JSON.stringify({
+          logs: [
+            { level: 'INFO', message: 'Not tailed' },
+            { level: 'ERROR', message: 'Tailed error' },
+          ],
+        }),
+      })
+
+      await received
+      ws.close()
+
+      expect(messages[0].type).toBe('ready')
+      const logs = messages.find((m) => m.type === 'logs')!.data as Array<{ message: string }>
+      expect(logs).toHaveLength(1)
+      expect(logs[0].message).toBe('Tailed error')
+    })
   })
 
   describe('Stats', () => {
@@ -291,6 +1405,213 @@ describe('HTTP API Integration', () => {
     })
   })
 
+  describe('Retention', () => {
+    const APP_ID = 'retention-test-app'
+    let apiKey: string
+
+    beforeAll(async () => {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': env.ADMIN_API_KEY,
+        },
+        body: JSON.stringify({ app_id: APP_ID, name: 'Retention Test App' }),
+      })
+      const data = (await response.json()) as { data: { api_key: string } }
+      apiKey = data.data.api_key
+    })
+
+    it('PUT /apps/:app_id/retention rejects an invalid policy', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/retention`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+        body: JSON.stringify({ level_max_age_days: { TRACE: 1 } }),
+      })
+      expect(response.status).toBe(400)
+
+      const data = (await response.json()) as { ok: boolean; error: { code: string } }
+      expect(data.error.code).toBe('VALIDATION_ERROR')
+    })
+
+    it('PUT then GET /apps/:app_id/retention round-trips the policy', async () => {
+      const putResponse = await SELF.fetch(`https://example.com/apps/${APP_ID}/retention`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': env.ADMIN_API_KEY,
+        },
+        body: JSON.stringify({ max_age_days: 30, level_max_age_days: { DEBUG: 3, ERROR: 90 } }),
+      })
+      expect(putResponse.status).toBe(200)
+
+      const getResponse = await SELF.fetch(`https://example.com/apps/${APP_ID}/retention`, {
+        headers: {
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+      })
+      const data = (await getResponse.json()) as { ok: boolean; data: { policy: { max_age_days: number; level_max_age_days: object } } }
+      expect(data.ok).toBe(true)
+      expect(data.data.policy.max_age_days).toBe(30)
+      expect(data.data.policy.level_max_age_days).toEqual({ DEBUG: 3, ERROR: 90 })
+    })
+  })
+
+  describe('Alert rules', () => {
+    const APP_ID = 'alerts-test-app'
+    let apiKey: string
+
+    beforeAll(async () => {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': env.ADMIN_API_KEY,
+        },
+        body: JSON.stringify({ app_id: APP_ID, name: 'Alerts Test App' }),
+      })
+      const data = (await response.json()) as { data: { api_key: string } }
+      apiKey = data.data.api_key
+    })
+
+    it('POST /apps/:app_id/alerts validates the rule', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/alerts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+        body: JSON.stringify({ name: 'No webhook' }),
+      })
+      expect(response.status).toBe(400)
+    })
+
+    it('POST /apps/:app_id/alerts creates a rule with defaults', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/alerts`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+        body: JSON.stringify({ name: 'Errors', level: 'ERROR', threshold: 20, webhook_url: 'https://hooks.example.com/alert' }),
+      })
+      expect(response.status).toBe(201)
+
+      const data = (await response.json()) as { ok: boolean; data: { id: string; window_seconds: number; enabled: boolean } }
+      expect(data.ok).toBe(true)
+      expect(data.data.window_seconds).toBe(300)
+      expect(data.data.enabled).toBe(true)
+
+      const listResponse = await SELF.fetch(`https://example.com/apps/${APP_ID}/alerts`, {
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      const listData = (await listResponse.json()) as { ok: boolean; data: Array<{ id: string }> }
+      expect(listData.data.map((r) => r.id)).toContain(data.data.id)
+    })
+
+    it('GET /apps/:app_id/alerts/:rule_id returns 404 for unknown rules', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/alerts/nope`, {
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      expect(response.status).toBe(404)
+    })
+
+    it('GET /apps/:app_id/alerts with another app key returns 403', async () => {
+      const response = await SELF.fetch('https://example.com/apps/some-other-app/alerts', {
+        headers: {
+          'X-App-ID': APP_ID,
+          'X-Api-Key': apiKey,
+        },
+      })
+      expect(response.status).toBe(403)
+    })
+  })
+
+  describe('Issues', () => {
+    const APP_ID = 'issues-test-app'
+    let apiKey: string
+    let headers: Record<string, string>
+
+    beforeAll(async () => {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Admin-Key': env.ADMIN_API_KEY,
+        },
+        body: JSON.stringify({ app_id: APP_ID, name: 'Issues Test App' }),
+      })
+      const data = (await response.json()) as { data: { api_key: string } }
+      apiKey = data.data.api_key
+      headers = { 'Content-Type': 'application/json', 'X-App-ID': APP_ID, 'X-Api-Key': apiKey }
+
+      await SELF.fetch('https://example.com/logs', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          logs: [
+            { level: 'ERROR', message: 'Payment 17 declined' },
+            { level: 'ERROR', message: 'Payment 18 declined' },
+          ],
+        }),
+      })
+    })
+
+    it('GET /apps/:app_id/issues lists grouped errors and their entries', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/issues`, { headers })
+      expect(response.status).toBe(200)
+
+      const data = (await response.json()) as { ok: boolean; data: Array<{ id: string; count: number; status: string }> }
+      expect(data.data).toHaveLength(1)
+      expect(data.data[0].count).toBe(2)
+      expect(data.data[0].status).toBe('open')
+
+      const logsResponse = await SELF.fetch(`https://example.com/apps/${APP_ID}/issues/${data.data[0].id}/logs?limit=1`, { headers })
+      const logsData = (await logsResponse.json()) as { ok: boolean; data: unknown[]; next_cursor: string | null }
+      expect(logsData.data).toHaveLength(1)
+      expect(logsData.next_cursor).toEqual(expect.any(String))
+    })
+
+    it('PATCH /apps/:app_id/issues/:issue_id validates and updates the status', async () => {
+      const listResponse = await SELF.fetch(`https://example.com/apps/${APP_ID}/issues`, { headers })
+      const list = (await listResponse.json()) as { data: Array<{ id: string }> }
+      const issueId = list.data[0].id
+
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/issues/${issueId}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ status: 'closed' }),
+      })
+      expect(invalid.status).toBe(400)
+
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/issues/${issueId}`, {
+        method: 'PATCH',
+        headers,
+        body: JSON.stringify({ status: 'resolved' }),
+      })
+      expect(response.status).toBe(200)
+      const data = (await response.json()) as { ok: boolean; data: { status: string } }
+      expect(data.data.status).toBe('resolved')
+    })
+
+    it('GET /apps/:app_id/issues/:issue_id returns 404 for unknown issues', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/issues/0000000000000000`, { headers })
+      expect(response.status).toBe(404)
+    })
+
+    it('GET /apps/:app_id/issues with an unknown status returns 400', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/issues?status=closed`, { headers })
+      expect(response.status).toBe(400)
+    })
+  })
+
   describe('App listing and details', () => {
     const APP_ID = 'listing-test-app'
     let apiKey: string
@@ -364,6 +1685,92 @@ describe('HTTP API Integration', () => {
       })
       expect(response.status).toBe(404)
     })
+
+    it('GET /apps/:app_id/aggregate groups entries and validates the spec', async () => {
+      const headers = { 'Content-Type': 'application/json', 'X-App-ID': APP_ID, 'X-Api-Key': apiKey }
+      await SELF.fetch('https://example.com/logs', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          logs: [
+            { level: 'ERROR', message: 'Not found', context: { path: '/a' } },
+            { level: 'ERROR', message: 'Not found', context: { path: '/a' } },
+            { level: 'ERROR', message: 'Not found', context: { path: '/b' } },
+          ],
+        }),
+      })
+
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}/aggregate?level=ERROR&group_by=context.path`, { headers })
+      expect(response.status).toBe(200)
+      const data = (await response.json()) as { data: { groups: Array<{ key: string; count: number }> } }
+      expect(data.data.groups.map((group) => [group.key, group.count])).toEqual([['/a', 2], ['/b', 1]])
+
+      const invalid = await SELF.fetch(`https://example.com/apps/${APP_ID}/aggregate?agg=median(context.path)`, { headers })
+      expect(invalid.status).toBe(400)
+    })
+
+    it('PATCH /apps/:app_id updates metadata and GET /apps filters by it', async () => {
+      const patch = await SELF.fetch(`https://example.com/apps/${APP_ID}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({
+          team: 'listing-team',
+          environment: 'staging',
+          tags: ['listing', 'edge'],
+          runbook_url: 'https://wiki.example.com/runbooks/listing',
+        }),
+      })
+      expect(patch.status).toBe(200)
+      const patched = (await patch.json()) as { data: { name: string; team: string; tags: string[]; owner: string | null; api_keys?: unknown } }
+      expect(patched.data).toMatchObject({ name: 'Listing Test App', team: 'listing-team', tags: ['listing', 'edge'], owner: null })
+      expect(patched.data.api_keys).toBeUndefined()
+
+      const details = await SELF.fetch(`https://example.com/apps/${APP_ID}`, {
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      const detailsData = (await details.json()) as { data: { environment: string; runbook_url: string } }
+      expect(detailsData.data.environment).toBe('staging')
+      expect(detailsData.data.runbook_url).toBe('https://wiki.example.com/runbooks/listing')
+
+      const list = async (query: string) => {
+        const response = await SELF.fetch(`https://example.com/apps?${query}`, {
+          headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+        })
+        return ((await response.json()) as { data: string[] }).data
+      }
+      expect(await list('team=listing-team&tag=edge')).toEqual([APP_ID])
+      expect(await list('team=listing-team&environment=prod')).toEqual([])
+    })
+
+    it('PATCH /apps/:app_id rejects invalid metadata', async () => {
+      const response = await SELF.fetch(`https://example.com/apps/${APP_ID}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ environment: 'production' }),
+      })
+      expect(response.status).toBe(400)
+
+      const filtered = await SELF.fetch('https://example.com/apps?environment=production', {
+        headers: { 'X-Admin-Key': env.ADMIN_API_KEY },
+      })
+      expect(filtered.status).toBe(400)
+    })
+
+    it('PATCH /apps/:unknown returns 404 and requires the admin key', async () => {
+      const unknown = await SELF.fetch('https://example.com/apps/nonexistent-app', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY },
+        body: JSON.stringify({ team: 'nobody' }),
+      })
+      expect(unknown.status).toBe(404)
+
+      const unauthorized = await SELF.fetch(`https://example.com/apps/${APP_ID}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', 'X-App-ID': APP_ID, 'X-Api-Key': apiKey },
+        body: JSON.stringify({ team: 'self-service' }),
+      })
+      expect(unauthorized.status).toBe(401)
+    })
   })
 
   describe('App deletion', () => {
@@ -448,5 +1855,242 @@ describe('HTTP API Integration', () => {
       expect(data.ok).toBe(true)
       expect(data.data.deleted).toBe(true)
     })
+
+    const adminHeaders = { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY }
+
+    async function createAppWithLog(appId: string): Promise<string> {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: appId, name: appId }),
+      })
+      const { data } = (await response.json()) as { data: { api_key: string } }
+      await SELF.fetch('https://example.com/logs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-App-ID': appId, 'X-Api-Key': data.api_key },
+        body: JSON.stringify({ level: 'INFO', message: `Before deleting ${appId}` }),
+      })
+      return data.api_key
+    }
+
+    function readLogs(appId: string, apiKey: string) {
+      return SELF.fetch('https://example.com/logs', { headers: { 'X-App-ID': appId, 'X-Api-Key': apiKey } })
+    }
+
+    it('keeps a deleted app restorable during the grace period', async () => {
+      const apiKey = await createAppWithLog('soft-deleted-app')
+
+      const response = await SELF.fetch('https://example.com/apps/soft-deleted-app', { method: 'DELETE', headers: adminHeaders })
+      const { data } = (await response.json()) as { data: { mode: string; purged: boolean; purge_at: string } }
+      expect(data).toMatchObject({ mode: 'purge', purged: false })
+      expect(Date.parse(data.purge_at)).toBeGreaterThan(Date.now() + 6 * 86400 * 1000)
+
+      expect((await readLogs('soft-deleted-app', apiKey)).status).toBe(404)
+      const deleted = await SELF.fetch('https://example.com/apps/deleted', { headers: adminHeaders })
+      expect(((await deleted.json()) as { data: { app_id: string }[] }).data.map((app) => app.app_id)).toContain('soft-deleted-app')
+
+      const reregister = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: 'soft-deleted-app', name: 'Again' }),
+      })
+      expect(reregister.status).toBe(409)
+
+      const restore = await SELF.fetch('https://example.com/apps/soft-deleted-app/restore', { method: 'POST', headers: adminHeaders })
+      expect(restore.status).toBe(200)
+      const logs = await readLogs('soft-deleted-app', apiKey)
+      expect(((await logs.json()) as { data: unknown[] }).data).toHaveLength(1)
+
+      const again = await SELF.fetch('https://example.com/apps/soft-deleted-app/restore', { method: 'POST', headers: adminHeaders })
+      expect(again.status).toBe(404)
+    })
+
+    it('pauses writes and health checks while deleted and resumes them on restore', async () => {
+      const apiKey = await createAppWithLog('paused-app')
+      await SELF.fetch('https://example.com/apps/paused-app/health-urls', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-App-ID': 'paused-app', 'X-Api-Key': apiKey },
+        body: JSON.stringify({ urls: ['https://paused.example.com/health'] }),
+      })
+      const stub = env.APP_LOGS_DO.get(env.APP_LOGS_DO.idFromName('paused-app'))
+      const write = () => stub.fetch(new Request('http://do/log', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ level: 'INFO', message: 'Through a service binding' }),
+      }))
+
+      await SELF.fetch('https://example.com/apps/paused-app', { method: 'DELETE', headers: adminHeaders })
+      expect((await write()).status).toBe(403)
+      expect(await runDurableObjectAlarm(stub)).toBe(false)
+
+      await SELF.fetch('https://example.com/apps/paused-app/restore', { method: 'POST', headers: adminHeaders })
+      expect((await write()).status).toBe(200)
+      const alarm = await runInDurableObject(stub, (_instance, state) => state.storage.getAlarm())
+      expect(alarm).not.toBeNull()
+    })
+
+    it('ignores grace_seconds from an app key', async () => {
+      const apiKey = await createAppWithLog('app-key-deleted-app')
+
+      const response = await SELF.fetch('https://example.com/apps/app-key-deleted-app?grace_seconds=0', {
+        method: 'DELETE',
+        headers: { 'X-App-ID': 'app-key-deleted-app', 'X-Api-Key': apiKey },
+      })
+      const { data } = (await response.json()) as { data: { purged: boolean; purge_at: string } }
+      expect(data.purged).toBe(false)
+      expect(Date.parse(data.purge_at)).toBeGreaterThan(Date.now() + 6 * 86400 * 1000)
+
+      const restore = await SELF.fetch('https://example.com/apps/app-key-deleted-app/restore', { method: 'POST', headers: adminHeaders })
+      expect(restore.status).toBe(200)
+    })
+
+    it('mode=purge wipes the app data so a new app with the same ID starts empty', async () => {
+      await createAppWithLog('purged-app')
+
+      const response = await SELF.fetch('https://example.com/apps/purged-app?mode=purge&grace_seconds=0', { method: 'DELETE', headers: adminHeaders })
+      expect(((await response.json()) as { data: { purged: boolean } }).data.purged).toBe(true)
+
+      const register = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: 'purged-app', name: 'Purged App' }),
+      })
+      expect(register.status).toBe(201)
+      const { data } = (await register.json()) as { data: { api_key: string } }
+      const logs = await readLogs('purged-app', data.api_key)
+      expect(((await logs.json()) as { data: unknown[] }).data).toEqual([])
+    })
+
+    it('mode=archive exports the app data to R2 before purging', async () => {
+      await createAppWithLog('archived-app')
+
+      const response = await SELF.fetch('https://example.com/apps/archived-app?mode=archive&grace_seconds=0', { method: 'DELETE', headers: adminHeaders })
+      const { data } = (await response.json()) as { data: { archive: string } }
+      expect(data.archive).toMatch(/^archives\/archived-app\//)
+
+      const manifest = await (await env.ARCHIVE_BUCKET!.get(`${data.archive}/manifest.json`))!.json() as {
+        app: { app_id: string; name: string }
+        tables: Record<string, { rows: number; files: string[] }>
+      }
+      expect(manifest.app).toMatchObject({ app_id: 'archived-app', name: 'archived-app' })
+      expect(manifest.tables.logs.rows).toBe(1)
+      expect(manifest.tables.logs_fts).toBeUndefined()
+
+      const logs = await (await env.ARCHIVE_BUCKET!.get(manifest.tables.logs.files[0]))!.text()
+      expect(JSON.parse(logs.trim())).toMatchObject({ level: 'INFO', message: 'Before deleting archived-app' })
+    })
+
+    it('purges deleted apps from the registry alarm once the grace period ends', async () => {
+      await createAppWithLog('alarm-purged-app')
+      await SELF.fetch('https://example.com/apps/alarm-purged-app?grace_seconds=1', { method: 'DELETE', headers: adminHeaders })
+      await new Promise((resolve) => setTimeout(resolve, 1100))
+
+      const registry = env.REGISTRY_DO.get(env.REGISTRY_DO.idFromName('registry'))
+      expect(await runDurableObjectAlarm(registry)).toBe(true)
+
+      const deleted = await SELF.fetch('https://example.com/apps/deleted', { headers: adminHeaders })
+      expect(((await deleted.json()) as { data: { app_id: string }[] }).data.map((app) => app.app_id)).not.toContain('alarm-purged-app')
+      const restore = await SELF.fetch('https://example.com/apps/alarm-purged-app/restore', { method: 'POST', headers: adminHeaders })
+      expect(restore.status).toBe(404)
+    })
+
+    it('rejects unknown delete modes', async () => {
+      const response = await SELF.fetch('https://example.com/apps/app-a?mode=shred', { method: 'DELETE', headers: adminHeaders })
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('App registry', () => {
+    const adminHeaders = { 'Content-Type': 'application/json', 'X-Admin-Key': env.ADMIN_API_KEY }
+
+    async function listApps(): Promise<string[]> {
+      const response = await SELF.fetch('https://example.com/apps', { headers: adminHeaders })
+      return ((await response.json()) as { data: string[] }).data
+    }
+
+    it('keeps every app of concurrent registrations', async () => {
+      const ids = Array.from({ length: 5 }, (_, i) => `concurrent-app-${i}`)
+      const responses = await Promise.all(ids.map((id) => SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: id, name: id }),
+      })))
+      expect(responses.map((response) => response.status)).toEqual(ids.map(() => 201))
+
+      expect(await listApps()).toEqual(expect.arrayContaining(ids))
+    })
+
+    it('authenticates a new app before its cache entry exists', async () => {
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: 'uncached-app', name: 'Uncached' }),
+      })
+      const { data } = (await response.json()) as { data: { api_key: string } }
+      await env.LOGS_KV.delete('app:uncached-app')
+
+      const read = await SELF.fetch('https://example.com/logs', {
+        headers: { 'X-App-ID': 'uncached-app', 'X-Api-Key': data.api_key },
+      })
+      expect(read.status).toBe(200)
+      expect(await env.LOGS_KV.get('app:uncached-app', 'json')).toMatchObject({ name: 'Uncached' })
+    })
+
+    it('caches unknown apps briefly until they are registered', async () => {
+      const unknown = await SELF.fetch('https://example.com/logs', {
+        headers: { 'X-App-ID': 'not-yet-app', 'X-Api-Key': 'any-key' },
+      })
+      expect(unknown.status).toBe(404)
+      expect(await env.LOGS_KV.get('app:not-yet-app')).toBe('')
+
+      const response = await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: 'not-yet-app', name: 'Not Yet' }),
+      })
+      expect(response.status).toBe(201)
+      const { data } = (await response.json()) as { data: { api_key: string } }
+      const read = await SELF.fetch('https://example.com/logs', {
+        headers: { 'X-App-ID': 'not-yet-app', 'X-Api-Key': data.api_key },
+      })
+      expect(read.status).toBe(200)
+    })
+
+    it('imports apps from the KV records of the old registry', async () => {
+      await env.LOGS_KV.put('app:kv-only-app', JSON.stringify({
+        name: 'KV Only',
+        health_urls: ['https://example.com/health'],
+        created_at: '2024-01-01T00:00:00.000Z',
+        api_key: 'kv-only-secret',
+        tail_scripts: ['kv-only-worker'],
+      }))
+
+      const response = await SELF.fetch('https://example.com/apps/migrate-keys', { method: 'POST', headers: adminHeaders })
+      const { data } = (await response.json()) as { data: { imported: string[]; migrated: string[] } }
+      expect(data.imported).toEqual(['kv-only-app'])
+      expect(data.migrated).toContain('kv-only-app')
+
+      expect(await listApps()).toContain('kv-only-app')
+      const keys = await SELF.fetch('https://example.com/apps/kv-only-app/keys', { headers: adminHeaders })
+      expect(((await keys.json()) as { data: { id: string }[] }).data.map((key) => key.id)).toEqual(['default'])
+
+      const scripts = await SELF.fetch('https://example.com/apps/kv-only-app/tail-scripts', { headers: adminHeaders })
+      expect(((await scripts.json()) as { data: string[] }).data).toEqual(['kv-only-worker'])
+    })
+
+    it('does not bring back a deleted app from a stale cache entry', async () => {
+      await SELF.fetch('https://example.com/apps', {
+        method: 'POST',
+        headers: adminHeaders,
+        body: JSON.stringify({ app_id: 'deleted-registry-app', name: 'Deleted' }),
+      })
+      const stale = await env.LOGS_KV.get('app:deleted-registry-app')
+      await SELF.fetch('https://example.com/apps/deleted-registry-app', { method: 'DELETE', headers: adminHeaders })
+      expect(await env.LOGS_KV.get('app:deleted-registry-app')).toBeNull()
+
+      await env.LOGS_KV.put('app:deleted-registry-app', stale!)
+      await SELF.fetch('https://example.com/apps/migrate-keys', { method: 'POST', headers: adminHeaders })
+      expect(await listApps()).not.toContain('deleted-registry-app')
+    })
   })
 })
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeMessage, stackFrames, fingerprintEntry, parseIssueStatus } from '../src/services/issues'
+
+describe('Issue fingerprinting', () => {
+  describe('normalizeMessage', () => {
+    it('strips numbers, UUIDs and hex ids', () => {
+      expect(normalizeMessage('Order 1234 failed after 2.5s')).toBe('Order <n> failed after <n>s')
+      expect(normalizeMessage('User 3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b not found')).toBe('User <uuid> not found')
+      expect(normalizeMessage('Commit deadbeef42 missing')).toBe('Commit <hex> missing')
+    })
+
+    it('keeps ordinary words that look like hex', () => {
+      expect(normalizeMessage('Cache facade   added')).toBe('Cache facade added')
+    })
+  })
+
+  describe('stackFrames', () => {
+    it('drops line and column numbers', () => {
+      const stack = 'Error: boom\n    at handler (src/index.ts:10:5)\n    at async fetch (src/router.ts:42:13)'
+      expect(stackFrames(stack)).toEqual(['handler (src/index.ts)', 'async fetch (src/router.ts)'])
+    })
+
+    it('ignores non-stack values', () => {
+      expect(stackFrames(undefined)).toEqual([])
+      expect(stackFrames({ frames: 1 })).toEqual([])
+    })
+  })
+
+  describe('fingerprintEntry', () => {
+    it('groups messages that only differ in ids', async () => {
+      const a = await fingerprintEntry({ level: 'ERROR', message: 'Order 1 failed' })
+      const b = await fingerprintEntry({ level: 'ERROR', message: 'Order 2 failed' })
+      expect(a.fingerprint).toBe(b.fingerprint)
+      expect(a.fingerprint).toMatch(/^[0-9a-f]{16}$/)
+    })
+
+    it('separates levels and call sites', async () => {
+      const base = await fingerprintEntry({ level: 'ERROR', message: 'Timeout' })
+      const warn = await fingerprintEntry({ level: 'WARN', message: 'Timeout' })
+      const elsewhere = await fingerprintEntry({
+        level: 'ERROR',
+        message: 'Timeout',
+        context: { stack: 'Error: Timeout\n    at poll (src/poll.ts:3:1)' },
+      })
+      expect(warn.fingerprint).not.toBe(base.fingerprint)
+      expect(elsewhere.fingerprint).not.toBe(base.fingerprint)
+      expect(elsewhere.culprit).toBe('poll (src/poll.ts)')
+    })
+  })
+
+  describe('parseIssueStatus', () => {
+    it('accepts known statuses only', () => {
+      expect(parseIssueStatus({ status: 'resolved' })).toEqual({ ok: true, data: 'resolved' })
+      expect(parseIssueStatus({ status: 'closed' }).ok).toBe(false)
+      expect(parseIssueStatus(null).ok).toBe(false)
+    })
+  })
+})
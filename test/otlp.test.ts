@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest'
+import { parseOtlpLogs, toLogLevel } from '../src/services/otlp'
+
+describe('OTLP mapping', () => {
+  describe('toLogLevel', () => {
+    it('maps severity number ranges', () => {
+      expect(toLogLevel(1)).toBe('DEBUG')
+      expect(toLogLevel(5)).toBe('DEBUG')
+      expect(toLogLevel(9)).toBe('INFO')
+      expect(toLogLevel(13)).toBe('WARN')
+      expect(toLogLevel(17)).toBe('ERROR')
+      expect(toLogLevel(21)).toBe('ERROR')
+    })
+
+    it('falls back to severity text, then INFO', () => {
+      expect(toLogLevel(0, 'Warning')).toBe('WARN')
+      expect(toLogLevel(undefined, 'FATAL')).toBe('ERROR')
+      expect(toLogLevel(undefined, 'trace')).toBe('DEBUG')
+      expect(toLogLevel()).toBe('INFO')
+    })
+  })
+
+  describe('parseOtlpLogs', () => {
+    it('maps records to log entries', () => {
+      const result = parseOtlpLogs({
+        resourceLogs: [{
+          resource: {
+            attributes: [
+              { key: 'service.name', value: { stringValue: 'checkout' } },
+              { key: 'deployment.environment', value: { stringValue: 'prod' } },
+            ],
+          },
+          scopeLogs: [{
+            logRecords: [{
+              severityNumber: 17,
+              body: { stringValue: 'Payment failed' },
+              attributes: [
+                { key: 'http.status_code', value: { intValue: '502' } },
+                { key: 'retry', value: { boolValue: true } },
+              ],
+              traceId: '5b8efff798038103d269b633813fc60c',
+              spanId: 'eee19b7ec3c1b174',
+            }],
+          }],
+        }],
+      })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.data.service_names).toEqual(['checkout'])
+      expect(result.data.logs).toEqual([{
+        level: 'ERROR',
+        message: 'Payment failed',
+        context: {
+          service: { name: 'checkout' },
+          deployment: { environment: 'prod' },
+          http: { status_code: 502 },
+          retry: true,
+          span_id: 'eee19b7ec3c1b174',
+        },
+        request_id: '5b8efff798038103d269b633813fc60c',
+      }])
+    })
+
+    it('encodes structured bodies and skips empty trace ids', () => {
+      const result = parseOtlpLogs({
+        resourceLogs: [{
+          scopeLogs: [{
+            logRecords: [{
+              body: { kvlistValue: { values: [{ key: 'event', value: { stringValue: 'login' } }] } },
+              traceId: '00000000000000000000000000000000',
+            }],
+          }],
+        }],
+      })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.data.logs[0]).toEqual({ level: 'INFO', message: '{"event":"login"}', context: undefined, request_id: undefined })
+      expect(result.data.service_names).toEqual([])
+    })
+
+    it('keeps the record time, falling back to the observed time', () => {
+      const result = parseOtlpLogs({
+        resourceLogs: [{
+          scopeLogs: [{
+            logRecords: [
+              { timeUnixNano: '1717243200123456789', observedTimeUnixNano: '1717243260000000000' },
+              { timeUnixNano: '0', observedTimeUnixNano: '1717243260000000000' },
+              { timeUnixNano: 'soon' },
+            ],
+          }],
+        }],
+      })
+
+      expect(result.ok).toBe(true)
+      if (!result.ok) return
+      expect(result.data.logs.map((log) => log.timestamp)).toEqual(['2024-06-01T12:00:00.123Z', '2024-06-01T12:01:00.000Z', undefined])
+    })
+
+    it('rejects malformed requests', () => {
+      expect(parseOtlpLogs(null).ok).toBe(false)
+      expect(parseOtlpLogs({ resourceLogs: {} }).ok).toBe(false)
+      expect(parseOtlpLogs({ resourceLogs: [{ scopeLogs: [{ logRecords: [42] }] }] }).ok).toBe(false)
+    })
+
+    it('ignores prototype keys in attributes', () => {
+      const result = parseOtlpLogs({
+        resourceLogs: [{
+          scopeLogs: [{
+            logRecords: [{ attributes: [{ key: '__proto__.polluted', value: { boolValue: true } }] }],
+          }],
+        }],
+      })
+      expect(result.ok).toBe(true)
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    })
+  })
+})
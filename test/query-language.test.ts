@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { parseQuery, compileQuery, matchesQuery, type QueryNode } from '../src/services/query-language'
+import type { LogEntry } from '../src/types'
+
+const NOW = Date.parse('2024-06-01T12:00:00.000Z')
+
+function parse(query: string): QueryNode {
+  const result = parseQuery(query)
+  if (!result.ok) throw new Error(result.error.message)
+  return result.data
+}
+
+function entry(overrides: Partial<LogEntry>): LogEntry {
+  return {
+    id: 'log-1',
+    timestamp: '2024-06-01T11:55:00.000Z',
+    level: 'INFO',
+    message: 'Request handled',
+    ...overrides,
+  }
+}
+
+describe('parseQuery', () => {
+  it('parses field terms, text and implied AND', () => {
+    expect(parse('level:>=WARN context.status:>=500 timeout')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'level', op: '>=', level: 'WARN', position: 0 },
+        { type: 'context', path: 'status', op: '>=', value: '500', position: 13 },
+        { type: 'text', value: 'timeout', prefix: false, column: null, position: 34 },
+      ],
+    })
+  })
+
+  it('groups OR below AND and applies NOT to the next term', () => {
+    const node = parse('(level:ERROR OR context.path:/api/*) NOT "health check"')
+    expect(node).toMatchObject({
+      type: 'and',
+      children: [
+        { type: 'or', children: [{ type: 'level' }, { type: 'context', path: 'path', value: '/api/*' }] },
+        { type: 'not', child: { type: 'text', value: 'health check' } },
+      ],
+    })
+  })
+
+  it('accepts quoted field values', () => {
+    expect(parse('context.user:"Jane Doe"')).toMatchObject({ type: 'context', path: 'user', value: 'Jane Doe' })
+  })
+
+  it('reports syntax errors with their position', () => {
+    const cases: Array<[string, number, number]> = [
+      ['level:>=WARN (timeout', 21, 0],
+      ['timeout )', 8, 1],
+      ['level:LOUD', 0, 10],
+      ['since:yesterday', 0, 15],
+      ['foo:bar', 0, 3],
+      ['say "hello', 4, 6],
+      ['timeout OR', 10, 0],
+    ]
+    for (const [query, position, length] of cases) {
+      const result = parseQuery(query)
+      expect(result.ok, query).toBe(false)
+      if (!result.ok) {
+        expect(result.error.code).toBe('BAD_REQUEST')
+        expect(result.error.details, query).toEqual({ position, length })
+        expect(result.error.message).toContain(`at position ${position}`)
+      }
+    }
+  })
+})
+
+describe('compileQuery', () => {
+  it('compiles to parameterized SQL', () => {
+    const compiled = compileQuery(parse('level:>=WARN context.status:>=500 since:-15m'), NOW)
+    expect(compiled.sql).toContain("json_type(logs.context, '$.\"status\"')")
+    expect(compiled.sql).toContain('logs.timestamp >= ?')
+    expect(compiled.params).toEqual([2, 500, '2024-06-01T11:45:00.000Z'])
+  })
+
+  it('keeps values out of the SQL', () => {
+    const compiled = compileQuery(parse(`context.path:"x' OR 1=1 --" request_id:abc*`), NOW)
+    expect(compiled.sql).not.toContain('1=1')
+    expect(compiled.params).toEqual(["x' OR 1=1 --", 'abc*'])
+  })
+
+  it('quotes text terms for the full-text index', () => {
+    const compiled = compileQuery(parse('message:pay* "payment failed" user@example.com'), NOW)
+    expect(compiled.params).toEqual(['message : "pay"*', '"payment failed"', '"user@example.com"'])
+  })
+})
+
+describe('matchesQuery', () => {
+  const error = entry({ level: 'ERROR', message: 'Upstream timeout', context: { status: 502, path: '/api/orders' } })
+  const info = entry({ context: { status: 200, path: '/health' } })
+
+  it('matches levels, context comparisons and wildcards', () => {
+    const node = parse('level:>=WARN context.status:>=500 context.path:/api/*')
+    expect(matchesQuery(node, error, NOW)).toBe(true)
+    expect(matchesQuery(node, info, NOW)).toBe(false)
+  })
+
+  it('matches text case-insensitively with NOT and OR', () => {
+    expect(matchesQuery(parse('TIMEOUT OR refused'), error, NOW)).toBe(true)
+    expect(matchesQuery(parse('NOT timeout'), error, NOW)).toBe(false)
+    expect(matchesQuery(parse('NOT context.user:jane'), error, NOW)).toBe(true)
+  })
+
+  it('resolves relative times against now', () => {
+    expect(matchesQuery(parse('since:-15m'), error, NOW)).toBe(true)
+    expect(matchesQuery(parse('since:-1m'), error, NOW)).toBe(false)
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { Ok, Err, ErrorCode, wrapError } from '../src/result'
+import { Ok, Err, ErrorCode, wrapError, validationError } from '../src/result'
 
 describe('Result utilities', () => {
   describe('Ok', () => {
@@ -47,6 +47,15 @@ describe('Result utilities', () => {
     })
   })
 
+  describe('validationError', () => {
+    it('creates a VALIDATION_ERROR result', () => {
+      expect(validationError('"limit" must be a number')).toEqual({
+        ok: false,
+        error: { code: 'VALIDATION_ERROR', message: '"limit" must be a number' },
+      })
+    })
+  })
+
   describe('wrapError', () => {
     it('wraps Error instances with their message', () => {
       const result = wrapError(new Error('Something went wrong'))
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { toFtsQuery } from '../src/services/search'
+
+describe('toFtsQuery', () => {
+  it('quotes bare words so punctuation is literal', () => {
+    const result = toFtsQuery('user@example.com failed')
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data).toBe('"user@example.com" "failed"')
+    }
+  })
+
+  it('keeps phrases, prefixes and operators', () => {
+    const result = toFtsQuery('"payment failed" OR time* NOT retry')
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data).toBe('"payment failed" OR "time"* NOT "retry"')
+    }
+  })
+
+  it('supports grouping and column filters', () => {
+    const result = toFtsQuery('(timeout OR refused) context:"order_id"')
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data).toBe('( "timeout" OR "refused" ) AND context : "order_id"')
+    }
+  })
+
+  it('runs an unterminated quote to the end of the input', () => {
+    const result = toFtsQuery('message:"payment fail')
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data).toBe('message : "payment fail"')
+    }
+  })
+
+  it('rejects unbalanced parentheses', () => {
+    const open = toFtsQuery('(timeout OR refused')
+    expect(open.ok).toBe(false)
+    if (!open.ok) {
+      expect(open.error.code).toBe('BAD_REQUEST')
+    }
+
+    const close = toFtsQuery('timeout)')
+    expect(close.ok).toBe(false)
+    if (!close.ok) {
+      expect(close.error.message).toContain('position 7')
+    }
+  })
+
+  it('joins groups to their neighbours with AND', () => {
+    const result = toFtsQuery('timeout (refused OR reset) retry')
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.data).toBe('"timeout" AND ( "refused" OR "reset" ) AND "retry"')
+    }
+  })
+
+  it('rejects operators without a term on each side', () => {
+    const cases = ['timeout OR', 'NOT retry', 'timeout OR AND refused', '(OR refused)', 'timeout ()']
+    for (const search of cases) {
+      const result = toFtsQuery(search)
+      expect(result.ok, search).toBe(false)
+      if (!result.ok) {
+        expect(result.error.code).toBe('BAD_REQUEST')
+      }
+    }
+  })
+
+  it('rejects searches without terms', () => {
+    expect(toFtsQuery('   ').ok).toBe(false)
+    expect(toFtsQuery('OR ()').ok).toBe(false)
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { bucketStart, parseStatsQuery } from '../src/services/stats'
+import { formatBucketLabel } from '../src/dashboard/components/charts'
+
+describe('Stats', () => {
+  describe('bucketStart', () => {
+    it('truncates to the start of the hour or minute', () => {
+      const time = Date.parse('2026-03-04T13:47:29.123Z')
+      expect(bucketStart(time, 'hour')).toBe('2026-03-04T13:00:00.000Z')
+      expect(bucketStart(time, 'minute')).toBe('2026-03-04T13:47:00.000Z')
+    })
+  })
+
+  describe('parseStatsQuery', () => {
+    it('defaults to 7 days', () => {
+      expect(parseStatsQuery(new URLSearchParams())).toEqual({ ok: true, data: { granularity: 'day', periods: 7 } })
+      expect(parseStatsQuery(new URLSearchParams('days=30'))).toEqual({ ok: true, data: { granularity: 'day', periods: 30 } })
+    })
+
+    it('reads hours and minutes for finer granularities', () => {
+      expect(parseStatsQuery(new URLSearchParams('granularity=hour'))).toEqual({ ok: true, data: { granularity: 'hour', periods: 24 } })
+      expect(parseStatsQuery(new URLSearchParams('granularity=minute&minutes=15'))).toEqual({ ok: true, data: { granularity: 'minute', periods: 15 } })
+    })
+
+    it('rejects ranges past the retention window', () => {
+      expect(parseStatsQuery(new URLSearchParams('granularity=hour&hours=721')).ok).toBe(false)
+      expect(parseStatsQuery(new URLSearchParams('granularity=minute&minutes=0')).ok).toBe(false)
+      expect(parseStatsQuery(new URLSearchParams('granularity=second')).ok).toBe(false)
+    })
+  })
+
+  describe('formatBucketLabel', () => {
+    it('labels buckets at each granularity', () => {
+      expect(formatBucketLabel('2026-03-04', 'day')).toBe('2026-03-04')
+      expect(formatBucketLabel('2026-03-04T13:00:00.000Z', 'hour')).toBe('03-04 13:00')
+      expect(formatBucketLabel('2026-03-04T13:47:00.000Z', 'minute')).toBe('13:47')
+    })
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseStatusPageSettings,
+  parseStatusNoteInput,
+  parseStatusNotePatch,
+  targetStatus,
+  worstStatus,
+} from '../src/services/status-page'
+
+const HEALTH_URLS = ['https://example.com/health', 'https://example.com/api/health']
+
+describe('parseStatusPageSettings', () => {
+  it('trims the name and labels and keeps the target order', () => {
+    const result = parseStatusPageSettings({
+      name: ' Storefront ',
+      targets: [
+        { url: 'https://example.com/api/health', label: ' API ' },
+        { url: 'https://example.com/health', label: 'Website' },
+      ],
+    }, HEALTH_URLS)
+    expect(result.ok && result.data).toEqual({
+      name: 'Storefront',
+      targets: [
+        { url: 'https://example.com/api/health', label: 'API' },
+        { url: 'https://example.com/health', label: 'Website' },
+      ],
+    })
+    expect(parseStatusPageSettings({ targets: [] }, HEALTH_URLS)).toEqual({ ok: true, data: { name: null, targets: [] } })
+  })
+
+  it('rejects invalid settings', () => {
+    const cases: unknown[] = [
+      null,
+      [],
+      { name: 'Storefront' },
+      { name: '', targets: [] },
+      { targets: [], public: true },
+      { targets: [{ url: 'https://example.com/other', label: 'Other' }] },
+      { targets: [{ url: 'https://example.com/health', label: '' }] },
+      { targets: [{ url: 'https://example.com/health', label: 'Website', headers: {} }] },
+      { targets: [{ url: 'https://example.com/health', label: 'A' }, { url: 'https://example.com/health', label: 'B' }] },
+    ]
+    for (const input of cases) {
+      const result = parseStatusPageSettings(input, HEALTH_URLS)
+      expect(result.ok, JSON.stringify(input)).toBe(false)
+      if (!result.ok) {
+        expect(result.error.code).toBe('VALIDATION_ERROR')
+      }
+    }
+  })
+})
+
+describe('parseStatusNoteInput', () => {
+  it('defaults the status to investigating', () => {
+    const result = parseStatusNoteInput({ title: ' Slow checkout ', message: 'Looking into it' })
+    expect(result.ok && result.data).toEqual({ title: 'Slow checkout', message: 'Looking into it', status: 'investigating' })
+  })
+
+  it('rejects missing fields and unknown statuses', () => {
+    expect(parseStatusNoteInput({ title: 'Slow checkout' }).ok).toBe(false)
+    expect(parseStatusNoteInput({ title: 'Slow checkout', message: 'Fixed', status: 'done' }).ok).toBe(false)
+    expect(parseStatusNoteInput({ title: 'Slow checkout', message: 'Fixed', severity: 'high' }).ok).toBe(false)
+  })
+})
+
+describe('parseStatusNotePatch', () => {
+  it('returns only the fields present', () => {
+    expect(parseStatusNotePatch({ status: 'resolved' })).toEqual({ ok: true, data: { status: 'resolved' } })
+    expect(parseStatusNotePatch({})).toEqual({ ok: true, data: {} })
+    expect(parseStatusNotePatch({ message: '' }).ok).toBe(false)
+  })
+})
+
+describe('targetStatus', () => {
+  it('is an outage when down and degraded while failing or flapping', () => {
+    expect(targetStatus('down', false, true)).toBe('outage')
+    expect(targetStatus('up', false, true)).toBe('degraded')
+    expect(targetStatus('up', true, false)).toBe('degraded')
+    expect(targetStatus('up', false, false)).toBe('operational')
+    expect(targetStatus('unknown', false, false)).toBe('unknown')
+  })
+})
+
+describe('worstStatus', () => {
+  it('ignores unknown statuses unless nothing else is known', () => {
+    expect(worstStatus(['operational', 'degraded', 'unknown'])).toBe('degraded')
+    expect(worstStatus(['operational', 'outage'])).toBe('outage')
+    expect(worstStatus(['unknown', 'operational'])).toBe('operational')
+    expect(worstStatus([])).toBe('unknown')
+  })
+})
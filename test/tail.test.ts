@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { traceItemToLogs } from '../src/tail'
+
+function traceItem(overrides: Partial<TraceItem> = {}): TraceItem {
+  return {
+    scriptName: 'checkout-worker',
+    outcome: 'ok',
+    event: {
+      request: {
+        url: 'https://shop.example.com/cart',
+        method: 'POST',
+        headers: { 'cf-ray': '8a1b2c3d4e5f6a7b-SJC' },
+        getUnredacted() { return this },
+      },
+      response: { status: 200 },
+    },
+    eventTimestamp: Date.now(),
+    logs: [],
+    exceptions: [],
+    diagnosticsChannelEvents: [],
+    executionModel: 'stateless',
+    truncated: false,
+    cpuTime: 1,
+    wallTime: 2,
+    ...overrides,
+  } as TraceItem
+}
+
+describe('traceItemToLogs', () => {
+  it('maps console calls with the event as context', () => {
+    const logs = traceItemToLogs(traceItem({
+      logs: [
+        { timestamp: 1, level: 'log', message: ['Cart loaded', { items: 3 }] },
+        { timestamp: 2, level: 'warn', message: ['Slow upstream'] },
+        { timestamp: 3, level: 'debug', message: ['cache hit'] },
+      ],
+    }))
+
+    expect(logs.map((log) => [log.level, log.message])).toEqual([
+      ['INFO', 'Cart loaded {"items":3}'],
+      ['WARN', 'Slow upstream'],
+      ['DEBUG', 'cache hit'],
+    ])
+    expect(logs[0].request_id).toBe('8a1b2c3d4e5f6a7b-SJC')
+    expect(logs[0].context).toEqual({
+      script: 'checkout-worker',
+      outcome: 'ok',
+      url: 'https://shop.example.com/cart',
+      method: 'POST',
+      status: 200,
+    })
+  })
+
+  it('logs exceptions as errors with their stack', () => {
+    const logs = traceItemToLogs(traceItem({
+      outcome: 'exception',
+      exceptions: [{ timestamp: 1, name: 'TypeError', message: 'x is undefined', stack: 'at handler (index.js:1:1)' }],
+    }))
+
+    expect(logs).toHaveLength(1)
+    expect(logs[0].level).toBe('ERROR')
+    expect(logs[0].message).toBe('TypeError: x is undefined')
+    expect(logs[0].context?.stack).toBe('at handler (index.js:1:1)')
+  })
+
+  it('adds a summary for failed invocations without exceptions', () => {
+    const exceeded = traceItemToLogs(traceItem({ outcome: 'exceededCpu', event: { cron: '*/5 * * * *', scheduledTime: 0 } }))
+    expect(exceeded).toEqual([{
+      level: 'ERROR',
+      message: 'Invocation failed (exceededCpu)',
+      context: { script: 'checkout-worker', outcome: 'exceededCpu', cron: '*/5 * * * *' },
+      request_id: undefined,
+    }])
+
+    const serverError = traceItemToLogs(traceItem({
+      event: {
+        request: { url: 'https://shop.example.com/pay', method: 'GET', headers: {}, getUnredacted() { return this } },
+        response: { status: 503 },
+      },
+    }))
+    expect(serverError[0].message).toBe('Invocation failed (503): GET https://shop.example.com/pay')
+
+    expect(traceItemToLogs(traceItem())).toEqual([])
+  })
+})
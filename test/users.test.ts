@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { canAccess, isValidUsername, parseUserInput } from '../src/services/users'
+import { UserRole } from '../src/types'
+
+describe('Dashboard users', () => {
+  describe('canAccess', () => {
+    it('allows a role and every role below it', () => {
+      const operator = { role: UserRole.OPERATOR, apps: null }
+      expect(canAccess(operator, UserRole.VIEWER)).toBe(true)
+      expect(canAccess(operator, UserRole.OPERATOR)).toBe(true)
+      expect(canAccess(operator, UserRole.ADMIN)).toBe(false)
+    })
+
+    it('restricts users with an app list to those apps', () => {
+      const viewer = { role: UserRole.VIEWER, apps: ['app-a'] }
+      expect(canAccess(viewer, UserRole.VIEWER, 'app-a')).toBe(true)
+      expect(canAccess(viewer, UserRole.VIEWER, 'app-b')).toBe(false)
+      expect(canAccess({ role: UserRole.VIEWER, apps: null }, UserRole.VIEWER, 'app-b')).toBe(true)
+    })
+  })
+
+  describe('isValidUsername', () => {
+    it('accepts letters, digits, dots, dashes and underscores', () => {
+      expect(isValidUsername('jane.doe_1-x')).toBe(true)
+      expect(isValidUsername('')).toBe(false)
+      expect(isValidUsername('jane doe')).toBe(false)
+      expect(isValidUsername('a'.repeat(65))).toBe(false)
+    })
+  })
+
+  describe('parseUserInput', () => {
+    it('parses a valid user and dedupes apps', () => {
+      const result = parseUserInput({ role: 'viewer', apps: ['a', 'a', 'b'], password: 'correct-horse-battery' }, true)
+      expect(result).toEqual({ ok: true, data: { role: UserRole.VIEWER, apps: ['a', 'b'], password: 'correct-horse-battery' } })
+    })
+
+    it('defaults apps to all apps', () => {
+      const result = parseUserInput({ role: 'admin', password: 'correct-horse-battery' }, true)
+      expect(result.ok && result.data.apps).toBeNull()
+    })
+
+    it('requires a password only when creating', () => {
+      expect(parseUserInput({ role: 'operator' }, true).ok).toBe(false)
+      expect(parseUserInput({ role: 'operator' }, false).ok).toBe(true)
+      expect(parseUserInput({ role: 'operator', password: 'short' }, false).ok).toBe(false)
+    })
+
+    it('rejects unknown roles and invalid apps', () => {
+      expect(parseUserInput({ role: 'owner', password: 'correct-horse-battery' }, true).ok).toBe(false)
+      expect(parseUserInput({ role: 'viewer', apps: 'app-a', password: 'correct-horse-battery' }, true).ok).toBe(false)
+      expect(parseUserInput({ role: 'viewer', apps: [''], password: 'correct-horse-battery' }, true).ok).toBe(false)
+    })
+  })
+})
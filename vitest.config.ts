@@ -8,6 +8,21 @@ export default defineWorkersConfig({
         // Disable isolated storage for SQLite-backed DOs (known issue)
         // https://developers.cloudflare.com/workers/testing/vitest-integration/known-issues/#isolated-storage
         isolatedStorage: false,
+        // Cloudflare Access settings for the Access tests (signing keys come from fetchMock)
+        miniflare: {
+          // Archive bucket for archiving deleted apps (optional in production)
+          r2Buckets: ['ARCHIVE_BUCKET'],
+          bindings: {
+            ACCESS_TEAM_DOMAIN: 'test-team.cloudflareaccess.com',
+            ACCESS_AUD: 'test-aud',
+            ACCESS_GROUPS: JSON.stringify({
+              'logs-admins': { role: 'admin' },
+              'app-a-viewers': { role: 'viewer', apps: ['access-test-app-a'] },
+            }),
+            // Secret referenced by health check headers
+            HEALTH_TOKEN: 'test-health-token',
+          },
+        },
       },
     },
   },